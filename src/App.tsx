@@ -1,19 +1,35 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { Routes, Route, useNavigate, useLocation } from 'react-router-dom';
 import LZString from 'lz-string';
-import { storage } from './utils/storage';
+import { storage, initialState, StorageError } from './utils/storage';
 import { analytics } from './utils/analytics';
+import { isTrashed, purgeExpiredTrash } from './utils/trash';
+import { CONFIG_NOTE_TITLE, changedConfigUpdates, isConfigNote, parseConfig } from './utils/config';
+import { findAffectedNotes, rewriteAllReferences, type AffectedNote } from './utils/linkRewrite';
+import { syncTags, type PropertyFilter } from './utils/properties';
+import { allTagPaths, EMPTY_TAG_FILTER, isTagFilterEmpty, renamedTag, renameTagInNote, singleTagFilter, type TagFilter } from './utils/tags';
+import { folderName, isWithinFolder, joinFolder, movedFolderPath, parentFolder } from './utils/folders';
+import { fillTemplate, buildTemplateNote, usesClipboard, type Template } from './utils/templates';
+import { buildPeriodicNote, findPeriodicNote, parsePeriodTitle, shiftPeriod, appendCapture, type PeriodType } from './utils/periodicNotes';
+import { planRestore, type Backup, type ConflictPolicy, type RestoreMode, type RestorePlan } from './utils/backup';
+import type { ImportPlan } from './utils/importers';
+import { closeTab, neighbourTab, moveTab, openInNewTab, openInTab, togglePinTab } from './utils/tabs';
+import { generateConfigTemplate } from './utils/configTemplate';
 import { createCommands } from './commands';
 import { SinglishContext } from './contexts/SinglishContext';
-import type { AppState, Note } from './types';
+import type { AppState, Note, NoteTab, NoteView, SplitView } from './types';
 import { CommandPalette, type Command } from './components/CommandPalette';
 import { ParameterInputModal } from './components/ParameterInputModal';
 import { QuickCaptureModal } from './components/QuickCaptureModal';
 import { OutlinePanel } from './components/OutlinePanel';
+import { CalendarPanel } from './components/CalendarPanel';
 import { ImageLightbox } from './components/ImageLightbox';
 import { PresentationMode } from './components/PresentationMode';
 import { NoteList } from './components/NoteList';
 import { NoteEditorWrapper } from './components/NoteEditorWrapper';
+import { TrashView } from './components/TrashView';
+import { DatabaseView } from './components/DatabaseView';
+import { TasksView } from './components/TasksView';
 import { AboutModal } from './components/AboutModal';
 import { ConfirmationModal } from './components/ConfirmationModal';
 import { TableInsertModal } from './components/TableInsertModal';
@@ -21,6 +37,9 @@ import { ToastContainer, showToast } from './components/Toast';
 import { HelpManual } from './components/HelpManual';
 import { KnowledgeGraph } from './components/KnowledgeGraph';
 import { BacklinksPanel } from './components/BacklinksPanel';
+import { VersionHistoryPanel } from './components/VersionHistoryPanel';
+import { GlobalSearchPanel } from './components/GlobalSearchPanel';
+import { MultiNoteReplacePanel, type NoteReplacement } from './components/MultiNoteReplacePanel';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { MobileWarning } from './components/MobileWarning';
 import { ImageToolbar, type SelectedImage } from './components/ImageToolbar';
@@ -36,26 +55,7 @@ function parseAlt(alt: string) {
 }
 
 function App() {
-    const [data, setData] = useState<AppState>(() => {
-        const loaded = storage.get() as AppState;
-        return {
-            ...loaded,
-            preferences: {
-                ...loaded.preferences,
-                fontFamily: loaded.preferences.fontFamily || "'SF Mono', 'Menlo', 'Monaco', 'Courier New', monospace",
-                fontSize: loaded.preferences.fontSize || 16,
-                recentCommandIds: loaded.preferences.recentCommandIds || [],
-                recentNoteIds: loaded.preferences.recentNoteIds || [],
-                homeViewMode: loaded.preferences.homeViewMode || 'docs-list',
-                emacsMode: loaded.preferences.emacsMode || false,
-                showDocumentStats: loaded.preferences.showDocumentStats !== false,
-                focusModeBlur: loaded.preferences.focusModeBlur !== false,
-                cursorAnimations: loaded.preferences.cursorAnimations || 'subtle',
-                sortOrder: loaded.preferences.sortOrder || 'updated',
-                singlish: loaded.preferences.singlish || false,
-            }
-        };
-    });
+    const [data, setData] = useState<AppState>(initialState);
     const sl = data.preferences.singlish ?? false;
     const [isPaletteOpen, setIsPaletteOpen] = useState(false);
     const [isHelpOpen, setIsHelpOpen] = useState(false);
@@ -65,13 +65,24 @@ function App() {
     const [isBacklinksPanelOpen, setIsBacklinksPanelOpen] = useState(false);
     const [isOutlineOpen, setIsOutlineOpen] = useState(false);
     const [isQuickCaptureOpen, setIsQuickCaptureOpen] = useState(false);
+    const [isVersionHistoryOpen, setIsVersionHistoryOpen] = useState(false);
+    const [isGlobalSearchOpen, setIsGlobalSearchOpen] = useState(false);
+    const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+    const [splitView, setSplitView] = useState<SplitView | null>(null);
+    const [multiNoteReplace, setMultiNoteReplace] = useState<{ isOpen: boolean; query: string }>({ isOpen: false, query: '' });
+    // contents before and after the last multi-note replace, so it can be undone as one batch
+    const [lastReplaceBatch, setLastReplaceBatch] = useState<{ id: string; before: string; after: string }[] | null>(null);
     const [lightboxState, setLightboxState] = useState<{ isOpen: boolean; src: string | null; alt?: string }>({ isOpen: false, src: null });
     const [selectedImage, setSelectedImage] = useState<SelectedImage | null>(null);
 
     const [isHydrating, setIsHydrating] = useState(true);
 
     const [searchQuery, setSearchQuery] = useState('');
-    const [selectedTag, setSelectedTag] = useState<string | null>(null);
+    const [tagFilter, setTagFilter] = useState<TagFilter>(EMPTY_TAG_FILTER);
+    // the command palette picks a single tag; other filters show as none selected there
+    const selectedTag = tagFilter.include.length === 1 && tagFilter.exclude.length === 0 ? tagFilter.include[0] : null;
+    const [selectedFolder, setSelectedFolder] = useState('');
+    const [propertyFilter, setPropertyFilter] = useState<PropertyFilter | null>(null);
     const navigate = useNavigate();
     const location = useLocation();
 
@@ -81,18 +92,64 @@ function App() {
 
     // track unsaved state (set true on note edit, false after yoro-save)
     const hasUnsavedRef = useRef(false);
+    const saveAfterHydrationRef = useRef(false);
 
-    // Compute all tags from notes
-    const allTags = useMemo(() => {
-        const tags = new Set<string>();
-        data.notes.forEach(note => { note.tags.forEach(tag => tags.add(tag)); });
-        return Array.from(tags).sort();
-    }, [data.notes]);
+    // config.toml content last applied to preferences; only re-applied when it changes
+    const appliedConfigRef = useRef<string | null>(null);
+
+    // trashed notes stay in state until purged but are hidden everywhere except the trash view
+    const activeNotes = useMemo(() => data.notes.filter(n => !isTrashed(n)), [data.notes]);
+    const trashedNotes = useMemo(() => data.notes.filter(isTrashed), [data.notes]);
+
+    // tabs of notes since trashed stay saved but aren't shown
+    const openTabs = useMemo(() => {
+        const ids = new Set(activeNotes.map(n => n.id));
+        return (data.preferences.openTabs ?? []).filter(t => ids.has(t.noteId));
+    }, [data.preferences.openTabs, activeNotes]);
+
+    // Compute all tags from notes, with the parents of nested tags so they can be filtered on too
+    const allTags = useMemo(() => allTagPaths(activeNotes), [activeNotes]);
 
     useEffect(() => {
-        // flip off the hydration skeleton after the first paint
-        const raf = requestAnimationFrame(() => setIsHydrating(false));
-        return () => cancelAnimationFrame(raf);
+        // load from IndexedDB, then flip off the hydration skeleton
+        let cancelled = false;
+        storage.load().then(loaded => {
+            if (cancelled) return;
+            appliedConfigRef.current = loaded.notes.find(n => isConfigNote(n) && !isTrashed(n))?.content ?? null;
+            setData(prev => {
+                // keep notes created before hydration finished (e.g. share links)
+                const loadedIds = new Set(loaded.notes.map(n => n.id));
+                const pending = prev.notes.filter(n => !loadedIds.has(n.id));
+                const retentionDays = loaded.preferences.trashRetentionDays ?? 30;
+                return {
+                    ...loaded,
+                    notes: [...pending, ...purgeExpiredTrash(loaded.notes, retentionDays)],
+                    preferences: {
+                        ...loaded.preferences,
+                        fontFamily: loaded.preferences.fontFamily || "'SF Mono', 'Menlo', 'Monaco', 'Courier New', monospace",
+                        fontSize: loaded.preferences.fontSize || 16,
+                        recentCommandIds: loaded.preferences.recentCommandIds || [],
+                        recentNoteIds: loaded.preferences.recentNoteIds || [],
+                        homeViewMode: loaded.preferences.homeViewMode || 'docs-list',
+                        emacsMode: loaded.preferences.emacsMode || false,
+                        showDocumentStats: loaded.preferences.showDocumentStats !== false,
+                        focusModeBlur: loaded.preferences.focusModeBlur !== false,
+                        cursorAnimations: loaded.preferences.cursorAnimations || 'subtle',
+                        sortOrder: loaded.preferences.sortOrder || 'updated',
+                        singlish: loaded.preferences.singlish || false,
+                        trashRetentionDays: retentionDays,
+                    }
+                };
+            });
+            setIsHydrating(false);
+        }).catch(() => {
+            if (cancelled) return;
+            // saves stay off until a reload reads the stored notes, or they'd be overwritten with defaults
+            const singlish = dataRef.current.preferences.singlish;
+            showToast(singlish ? `Cannot load your notes leh, reload again. Changes won't save for now` : `Could not load your notes. Reload to try again; changes won't be saved until then.`, 'error');
+            setIsHydrating(false);
+        });
+        return () => { cancelled = true; };
     }, []);
 
     useEffect(() => {
@@ -118,13 +175,54 @@ function App() {
     // explicit save via yoro-save event (dispatched by :w / Ctrl+S)
     useEffect(() => {
         const handleSave = () => {
-            storage.set(dataRef.current);
-            hasUnsavedRef.current = false;
-            window.dispatchEvent(new Event('yoro-data-saved'));
+            // until the stored state is merged in, this would write default preferences over it
+            if (isHydrating) {
+                saveAfterHydrationRef.current = true;
+                return;
+            }
+            let state = dataRef.current;
+            const configNote = state.notes.find(n => isConfigNote(n) && !isTrashed(n));
+            if (configNote && configNote.content !== appliedConfigRef.current) {
+                const { updates: parsedUpdates, diagnostics } = parseConfig(configNote.content);
+                const updates = changedConfigUpdates(appliedConfigRef.current, parsedUpdates);
+                appliedConfigRef.current = configNote.content;
+                if (Object.keys(updates).length > 0) {
+                    state = { ...state, preferences: { ...state.preferences, ...updates } };
+                    setData(prev => ({ ...prev, preferences: { ...prev.preferences, ...updates } }));
+                }
+                if (diagnostics.length > 0) {
+                    showToast(sl ? `Config got ${diagnostics.length} problem leh` : `Config applied with ${diagnostics.length} problem${diagnostics.length !== 1 ? 's' : ''}`, 'warning');
+                } else {
+                    showToast(sl ? 'Config applied liao' : 'Config applied', 'success');
+                }
+            }
+            storage.save(state).then(() => {
+                hasUnsavedRef.current = false;
+                window.dispatchEvent(new Event('yoro-data-saved'));
+            }).catch((error: unknown) => {
+                const quota = error instanceof StorageError && error.code === 'QUOTA_EXCEEDED';
+                const unloaded = error instanceof StorageError && error.code === 'LOAD_FAILED';
+                console.error('Failed to save data:', error);
+                showToast(
+                    quota
+                        ? (sl ? 'Storage full liao, cannot save' : 'Storage quota exceeded. Changes were not saved.')
+                        : unloaded
+                            ? (sl ? 'Notes never load properly, cannot save. Reload first' : 'Your notes could not be loaded, so changes are not saved. Reload to try again.')
+                            : (sl ? 'Cannot save lah' : 'Failed to save changes'),
+                    'error'
+                );
+            });
         };
         window.addEventListener('yoro-save', handleSave);
         return () => window.removeEventListener('yoro-save', handleSave);
-    }, []);
+    }, [sl, isHydrating]);
+
+    // a save asked for while loading runs once loading is done
+    useEffect(() => {
+        if (isHydrating || !saveAfterHydrationRef.current) return;
+        saveAfterHydrationRef.current = false;
+        window.dispatchEvent(new Event('yoro-save'));
+    }, [isHydrating]);
 
     // warn before unload if unsaved changes exist
     useEffect(() => {
@@ -145,6 +243,7 @@ function App() {
             setIsBacklinksPanelOpen(false);
             setIsOutlineOpen(false);
             setIsFindReplaceOpen(false);
+            setIsVersionHistoryOpen(false);
             setSelectedImage(null);
         }
     }, [location.pathname]);
@@ -159,11 +258,217 @@ function App() {
     const handleUpdateNote = useCallback((id: string, updates: Partial<Note>) => {
         setData(prev => ({
             ...prev,
-            notes: prev.notes.map(n => n.id === id ? { ...n, ...updates, updatedAt: Date.now() } : n)
+            notes: prev.notes.map(n => n.id === id ? { ...n, ...syncTags(n, updates), updatedAt: Date.now() } : n)
+        }));
+        hasUnsavedRef.current = true;
+    }, []);
+
+    const handleCreateView = useCallback((view: NoteView) => {
+        setData(prev => ({
+            ...prev,
+            preferences: { ...prev.preferences, views: [...(prev.preferences.views ?? []), view] }
+        }));
+        hasUnsavedRef.current = true;
+        navigate(`/views/${view.id}`);
+    }, [navigate]);
+
+    const handleUpdateView = useCallback((view: NoteView) => {
+        setData(prev => ({
+            ...prev,
+            preferences: { ...prev.preferences, views: (prev.preferences.views ?? []).map(v => v.id === view.id ? view : v) }
+        }));
+        hasUnsavedRef.current = true;
+    }, []);
+
+    const handleDeleteView = useCallback((id: string) => {
+        const view = dataRef.current.preferences.views?.find(v => v.id === id);
+        setData(prev => ({
+            ...prev,
+            preferences: { ...prev.preferences, views: (prev.preferences.views ?? []).filter(v => v.id !== id) }
+        }));
+        hasUnsavedRef.current = true;
+        navigate('/');
+        if (view) showToast(sl ? `View "${view.name}" gone liao` : `View "${view.name}" deleted`, 'info');
+    }, [navigate, sl]);
+
+    const handleCreateFolder = useCallback((parent: string, name: string) => {
+        const path = joinFolder(parent, name);
+        if (!path) return;
+        setData(prev => {
+            const folders = prev.preferences.folders ?? [];
+            if (folders.includes(path)) return prev;
+            return { ...prev, preferences: { ...prev.preferences, folders: [...folders, path] } };
+        });
+        hasUnsavedRef.current = true;
+    }, []);
+
+    // renames or moves a folder along with its subfolders and the notes inside them
+    const relocateFolder = useCallback((from: string, to: string) => {
+        const move = (path: string) => movedFolderPath(path, from, to);
+        setData(prev => ({
+            notes: prev.notes.map(n => n.folder && isWithinFolder(n.folder, from) ? { ...n, folder: move(n.folder) || undefined } : n),
+            preferences: {
+                ...prev.preferences,
+                folders: [...new Set((prev.preferences.folders ?? []).map(move).filter(Boolean))],
+            },
+        }));
+        setSelectedFolder(prev => prev && isWithinFolder(prev, from) ? move(prev) : prev);
+        hasUnsavedRef.current = true;
+    }, []);
+
+    const handleRenameFolder = useCallback((path: string, name: string) => {
+        relocateFolder(path, joinFolder(parentFolder(path), name));
+    }, [relocateFolder]);
+
+    const handleMoveFolder = useCallback((path: string, newParent: string) => {
+        relocateFolder(path, joinFolder(newParent, folderName(path)));
+    }, [relocateFolder]);
+
+    // notes and subfolders move up into the parent; nothing is deleted with the folder
+    const handleDeleteFolder = useCallback((path: string) => {
+        relocateFolder(path, parentFolder(path));
+        showToast(sl ? `Folder "${folderName(path)}" gone liao, notes move up` : `Folder "${folderName(path)}" deleted; its notes moved up a level`, 'info');
+    }, [relocateFolder, sl]);
+
+    const handleMoveNoteToFolder = useCallback((noteId: string, folder: string) => {
+        const note = dataRef.current.notes.find(n => n.id === noteId);
+        if (!note || (note.folder ?? '') === folder) return;
+        setData(prev => ({
+            ...prev,
+            notes: prev.notes.map(n => n.id === noteId ? { ...n, folder: folder || undefined } : n)
+        }));
+        hasUnsavedRef.current = true;
+        const target = folder ? folderName(folder) : (sl ? 'top level' : 'All notes');
+        showToast(sl ? `"${note.title || 'Untitled'}" go ${target} liao` : `Moved "${note.title || 'Untitled'}" to ${target}`, 'success');
+    }, [sl]);
+
+    // folder breadcrumbs in the editor open the note list at that folder
+    useEffect(() => {
+        const handleOpenFolder = (e: CustomEvent) => {
+            setSelectedFolder(e.detail.folder ?? '');
+            navigate('/');
+        };
+        window.addEventListener('yoro-open-folder', handleOpenFolder as EventListener);
+        return () => window.removeEventListener('yoro-open-folder', handleOpenFolder as EventListener);
+    }, [navigate]);
+
+    // renames a tag (and the tags nested below it) in every note; onto an existing tag it merges
+    const handleRenameTag = useCallback((from: string, to: string) => {
+        if (!from || !to || from === to) return;
+        const changes = new Map<string, Pick<Note, 'tags' | 'content'>>();
+        for (const note of dataRef.current.notes) {
+            const updates = renameTagInNote(note, from, to);
+            if (updates) changes.set(note.id, updates);
+        }
+        const merged = dataRef.current.notes.some(n => n.tags.some(t => t === to));
+        const now = Date.now();
+        setData(prev => {
+            const colors = prev.preferences.tagColors ?? {};
+            const tagColors = Object.fromEntries(Object.entries(colors).map(([tag, color]) => [renamedTag(tag, from, to), color]));
+            // a merged tag keeps the colour it already had
+            if (colors[to]) tagColors[to] = colors[to];
+            return {
+                notes: prev.notes.map(n => changes.has(n.id) ? { ...n, ...changes.get(n.id), updatedAt: now } : n),
+                preferences: { ...prev.preferences, tagColors },
+            };
+        });
+        setTagFilter(prev => isTagFilterEmpty(prev) ? prev : {
+            ...prev,
+            include: [...new Set(prev.include.map(t => renamedTag(t, from, to)))],
+            exclude: [...new Set(prev.exclude.map(t => renamedTag(t, from, to)))],
+        });
+        hasUnsavedRef.current = true;
+        showToast(merged
+            ? (sl ? `#${from} join into #${to} liao (${changes.size} notes)` : `Merged #${from} into #${to} in ${changes.size} notes`)
+            : (sl ? `#${from} now call #${to} liao (${changes.size} notes)` : `Renamed #${from} to #${to} in ${changes.size} notes`), 'success');
+    }, [sl]);
+
+    const handleSetTagColor = useCallback((tag: string, color: string | null) => {
+        setData(prev => {
+            const tagColors = { ...prev.preferences.tagColors };
+            if (color) tagColors[tag] = color;
+            else delete tagColors[tag];
+            return { ...prev, preferences: { ...prev.preferences, tagColors } };
+        });
+        hasUnsavedRef.current = true;
+    }, []);
+
+    const handleOpenMultiNoteReplace = useCallback((query: string) => {
+        setMultiNoteReplace({ isOpen: true, query });
+    }, []);
+
+    // applies a multi-note replace in a single state update
+    const handleReplaceInNotes = useCallback((replacements: NoteReplacement[], matchCount: number) => {
+        const byId = new Map(replacements.map(r => [r.id, r.content]));
+        const batch = dataRef.current.notes
+            .filter(n => byId.has(n.id))
+            .map(n => ({ id: n.id, before: n.content, after: byId.get(n.id)! }));
+        const now = Date.now();
+        setData(prev => ({
+            ...prev,
+            notes: prev.notes.map(n => byId.has(n.id) ? { ...n, ...syncTags(n, { content: byId.get(n.id)! }), updatedAt: now } : n)
         }));
+        setLastReplaceBatch(batch);
         hasUnsavedRef.current = true;
+        showToast(
+            sl
+                ? `Replace ${matchCount} in ${batch.length} notes liao`
+                : `Replaced ${matchCount} match${matchCount !== 1 ? 'es' : ''} in ${batch.length} note${batch.length !== 1 ? 's' : ''}`,
+            'success'
+        );
+    }, [sl]);
+
+    // notes edited since the replace are left alone rather than clobbered
+    const handleUndoReplaceInNotes = useCallback(() => {
+        if (!lastReplaceBatch) return;
+        const byId = new Map(lastReplaceBatch.map(b => [b.id, b]));
+        const skipped = dataRef.current.notes.filter(n => byId.has(n.id) && n.content !== byId.get(n.id)!.after).length;
+        const now = Date.now();
+        setData(prev => ({
+            ...prev,
+            notes: prev.notes.map(n => {
+                const entry = byId.get(n.id);
+                return entry && n.content === entry.after ? { ...n, ...syncTags(n, { content: entry.before }), updatedAt: now } : n;
+            })
+        }));
+        setLastReplaceBatch(null);
+        hasUnsavedRef.current = true;
+        if (skipped > 0) {
+            showToast(
+                sl ? `Undo liao, but ${skipped} notes changed already so never touch` : `Replace undone; ${skipped} note${skipped !== 1 ? 's were' : ' was'} edited since and left unchanged`,
+                'warning'
+            );
+        } else {
+            showToast(sl ? 'Undo replace liao' : 'Replace undone', 'info');
+        }
+    }, [lastReplaceBatch, sl]);
+
+    // a rename that would leave inbound links dangling waits here for confirmation
+    const [renameConfirmation, setRenameConfirmation] = useState<{
+        noteId: string; oldTitle: string; newTitle: string; affected: AffectedNote[];
+    } | null>(null);
+
+    const handleRenameNote = useCallback((id: string, oldTitle: string, newTitle: string) => {
+        const affected = findAffectedNotes(dataRef.current.notes, id, oldTitle, newTitle);
+        if (affected.length > 0) setRenameConfirmation({ noteId: id, oldTitle, newTitle, affected });
     }, []);
 
+    const handleConfirmRename = useCallback(() => {
+        if (!renameConfirmation) return;
+        const { noteId, oldTitle, newTitle, affected } = renameConfirmation;
+        const now = Date.now();
+        setData(prev => ({ ...prev, notes: rewriteAllReferences(prev.notes, noteId, oldTitle, newTitle, now) }));
+        hasUnsavedRef.current = true;
+        setRenameConfirmation(null);
+        const count = affected.reduce((sum, a) => sum + a.count, 0);
+        showToast(
+            sl
+                ? `Update ${count} links in ${affected.length} notes liao`
+                : `Updated ${count} link${count !== 1 ? 's' : ''} in ${affected.length} note${affected.length !== 1 ? 's' : ''}`,
+            'success'
+        );
+    }, [renameConfirmation, sl]);
+
     // position-only update: doesn't mark unsaved, doesn't change updatedAt
     const handleUpdateNotePosition = useCallback((id: string, cursorPos: number, scrollPos: number) => {
         setData(prev => ({
@@ -195,6 +500,31 @@ function App() {
         navigate(`/note/${newId}`);
     }, [navigate]);
 
+    // opens config.toml, seeding it from the current preferences the first time
+    const handleOpenConfig = useCallback(() => {
+        const existing = dataRef.current.notes.find(n => isConfigNote(n) && !isTrashed(n));
+        if (existing) {
+            navigate(`/note/${existing.id}`);
+            return;
+        }
+        const now = Date.now();
+        const content = generateConfigTemplate(dataRef.current.preferences);
+        const configNote: Note = {
+            id: crypto.randomUUID(),
+            title: CONFIG_NOTE_TITLE,
+            content,
+            format: 'markdown',
+            tags: [],
+            createdAt: now,
+            updatedAt: now,
+            isFavorite: false,
+        };
+        appliedConfigRef.current = content;
+        setData(prev => ({ ...prev, notes: [configNote, ...prev.notes] }));
+        hasUnsavedRef.current = true;
+        navigate(`/note/${configNote.id}`);
+    }, [navigate]);
+
     const handleReorderNotes = useCallback((orderedIds: string[]) => {
         setData(prev => {
             const idToNote = new Map(prev.notes.map(n => [n.id, n]));
@@ -220,6 +550,66 @@ function App() {
         showToast(msg, 'success');
     }, []);
 
+    // Obsidian and Notion imports are shown as a dry run and wait here for confirmation
+    const [importPreview, setImportPreview] = useState<ImportPlan | null>(null);
+
+    const handleConfirmImport = useCallback(() => {
+        if (!importPreview) return;
+        handleImportNotes(importPreview.notes);
+        hasUnsavedRef.current = true;
+        setImportPreview(null);
+    }, [importPreview, handleImportNotes]);
+
+    // a restore shows what it would change and waits here for confirmation
+    const [restoreConfirmation, setRestoreConfirmation] = useState<{
+        backup: Backup; mode: RestoreMode; plan: RestorePlan;
+    } | null>(null);
+
+    const handleRestoreBackup = useCallback((backup: Backup, mode: RestoreMode, conflicts: ConflictPolicy) => {
+        setRestoreConfirmation({ backup, mode, plan: planRestore(dataRef.current, backup, mode, conflicts) });
+    }, []);
+
+    const handleConfirmRestore = useCallback(() => {
+        if (!restoreConfirmation) return;
+        const { backup, mode, plan } = restoreConfirmation;
+        setData(plan.state);
+        hasUnsavedRef.current = true;
+        setRestoreConfirmation(null);
+        if (backup.analytics) analytics.restore(backup.analytics, mode);
+        if (mode === 'replace') {
+            setSplitView(null);
+            navigate('/');
+        }
+        const { added, updated, duplicated, removed } = plan.summary;
+        showToast(
+            sl
+                ? `Backup restore liao: ${added.length + duplicated.length} new, ${updated.length} updated, ${removed.length} gone`
+                : `Backup restored: ${added.length + duplicated.length} added, ${updated.length} updated, ${removed.length} removed`,
+            'success'
+        );
+    }, [restoreConfirmation, navigate, sl]);
+
+    // restoring from version history also waits for confirmation, and pins the content it replaces first
+    const [versionRestore, setVersionRestore] = useState<{
+        noteId: string; content: string; scope: 'version' | 'hunk';
+    } | null>(null);
+
+    const handleConfirmVersionRestore = useCallback(() => {
+        if (!versionRestore) return;
+        const { noteId, content } = versionRestore;
+        setVersionRestore(null);
+        const note = dataRef.current.notes.find(n => n.id === noteId);
+        if (!note) return;
+        storage.pinVersion(note).then(() => {
+            handleUpdateNote(noteId, { content });
+            window.dispatchEvent(new Event('yoro-versions-changed'));
+            showToast(sl ? 'Restored liao' : 'Version restored', 'success');
+        }).catch((error: unknown) => {
+            console.error('Failed to snapshot before restore:', error);
+            showToast(sl ? 'Cannot keep a copy of now, so never restore' : 'Could not snapshot the current content, so nothing was restored', 'error');
+        });
+    }, [versionRestore, handleUpdateNote, sl]);
+
     const handleSelectNote = useCallback((id: string) => {
         setData(prev => {
             const recent = [id, ...(prev.preferences.recentNoteIds || []).filter(r => r !== id)].slice(0, 5);
@@ -245,7 +635,8 @@ function App() {
         }
     }, [data.notes]);
 
-    const [deleteConfirmation, setDeleteConfirmation] = useState<{ isOpen: boolean; noteId: string | null; isPermanent: boolean }>({ isOpen: false, noteId: null, isPermanent: true });
+    // permanent deletes only happen from the trash, so the modal always lists trashed note ids
+    const [deleteConfirmation, setDeleteConfirmation] = useState<{ isOpen: boolean; noteIds: string[] }>({ isOpen: false, noteIds: [] });
 
     const [tableModalOpen, setTableModalOpen] = useState(false);
     const [paramModalOpen, setParamModalOpen] = useState(false);
@@ -262,12 +653,53 @@ function App() {
         return 'global';
     }, [location.pathname]);
 
+    // soft delete: the note moves to the trash and can be restored until it is purged
     const handleDeleteNote = useCallback((id: string, e?: { stopPropagation: () => void }) => {
         e?.stopPropagation();
         const note = data.notes.find(n => n.id === id);
-        if (!note) return;
-        setDeleteConfirmation({ isOpen: true, noteId: id, isPermanent: true });
-    }, [data.notes]);
+        if (!note || isTrashed(note)) return;
+        setData(prev => ({
+            ...prev,
+            notes: prev.notes.map(n => n.id === id ? { ...n, deletedAt: Date.now(), isPinned: false } : n),
+            preferences: {
+                ...prev.preferences,
+                recentNoteIds: (prev.preferences.recentNoteIds || []).filter(r => r !== id),
+                openTabs: closeTab(prev.preferences.openTabs ?? [], id),
+            },
+        }));
+        hasUnsavedRef.current = true;
+        analytics.track('delete_note');
+        showToast(sl ? `"${note.title || 'Untitled'}" throw into trash liao` : `"${note.title || 'Untitled'}" moved to Trash`, 'info');
+        if (getCurrentNoteId() === id) {
+            const next = neighbourTab(openTabs, id);
+            navigate(next ? `/note/${next}` : '/');
+        }
+    }, [data.notes, openTabs, getCurrentNoteId, navigate, sl]);
+
+    const handleRestoreNote = useCallback((id: string) => {
+        const note = data.notes.find(n => n.id === id);
+        if (!note || !isTrashed(note)) return;
+        setData(prev => ({
+            ...prev,
+            notes: prev.notes.map(n => n.id === id ? { ...n, deletedAt: undefined } : n),
+        }));
+        hasUnsavedRef.current = true;
+        showToast(sl ? `"${note.title || 'Untitled'}" come back liao` : `"${note.title || 'Untitled'}" restored`, 'success');
+    }, [data.notes, sl]);
+
+    const handlePermanentDeleteNote = useCallback((id: string, e?: { stopPropagation: () => void }) => {
+        e?.stopPropagation();
+        setDeleteConfirmation({ isOpen: true, noteIds: [id] });
+    }, []);
+
+    const handleEmptyTrash = useCallback(() => {
+        const ids = data.notes.filter(isTrashed).map(n => n.id);
+        if (ids.length === 0) {
+            showToast(sl ? 'Trash already empty leh' : 'Trash is already empty', 'info');
+            return;
+        }
+        setDeleteConfirmation({ isOpen: true, noteIds: ids });
+    }, [data.notes, sl]);
 
     useEffect(() => {
         const params = new URLSearchParams(location.search);
@@ -365,6 +797,104 @@ function App() {
         setSelectedImage(prev => prev ? { ...prev, alt: newAlt } : null);
     }, [getCurrentNoteId, handleUpdateNote]);
 
+    // opens the note for a day, week or month, creating it from its template the first time
+    const handleOpenPeriodicNote = useCallback((type: PeriodType, date: Date = new Date()) => {
+        const existing = findPeriodicNote(dataRef.current.notes, type, date);
+        if (existing) {
+            navigate(`/note/${existing.id}`);
+            return;
+        }
+        const newNote = buildPeriodicNote(dataRef.current.notes, type, date);
+        setData(prev => ({ ...prev, notes: [newNote, ...prev.notes] }));
+        hasUnsavedRef.current = true;
+        analytics.track('create_note');
+        navigate(`/note/${newNote.id}`);
+    }, [navigate]);
+
+    // steps from the open daily, weekly or monthly note to the one before or after it
+    const handleShiftPeriodicNote = useCallback((delta: number) => {
+        const note = dataRef.current.notes.find(n => n.id === getCurrentNoteId());
+        const period = note ? parsePeriodTitle(note.title) : null;
+        if (!period) {
+            showToast(sl ? 'This one not daily, weekly or monthly note leh' : 'This is not a daily, weekly or monthly note', 'warning');
+            return;
+        }
+        handleOpenPeriodicNote(period.type, shiftPeriod(period.type, period.date, delta));
+    }, [getCurrentNoteId, handleOpenPeriodicNote, sl]);
+
+    // fills a template's variables, then inserts it at the cursor or starts a new note with it;
+    // params carry the title and {{prompt:Label}} answers from the parameter modal
+    const handleApplyTemplate = useCallback(async (template: Template, target: 'insert' | 'new', params: Record<string, string | number | boolean> = {}) => {
+        const current = dataRef.current.notes.find(n => n.id === getCurrentNoteId());
+        const title = target === 'new' ? String(params.title ?? '').trim() || template.name : current?.title ?? '';
+        const clipboard = usesClipboard(template.content)
+            ? await navigator.clipboard.readText().catch(() => '')
+            : '';
+        const prompts: Record<string, string> = {};
+        for (const [key, value] of Object.entries(params)) {
+            if (key.startsWith('prompt:')) prompts[key.slice('prompt:'.length)] = String(value);
+        }
+        const filled = fillTemplate(template.content, { title, clipboard, prompts, now: new Date() });
+
+        if (target === 'insert') {
+            window.dispatchEvent(new CustomEvent('yoro-editor-cmd', {
+                detail: { command: 'insert-template', content: filled.content, cursor: filled.cursor }
+            }));
+            return;
+        }
+        const newNote = buildTemplateNote(title, filled);
+        setData(prev => ({ ...prev, notes: [newNote, ...prev.notes] }));
+        hasUnsavedRef.current = true;
+        analytics.track('create_note');
+        navigate(`/note/${newNote.id}`);
+    }, [getCurrentNoteId, navigate]);
+
+    const updateTabs = useCallback((update: (tabs: NoteTab[]) => NoteTab[]) => {
+        setData(prev => {
+            const tabs = prev.preferences.openTabs ?? [];
+            const next = update(tabs);
+            return next === tabs ? prev : { ...prev, preferences: { ...prev.preferences, openTabs: next } };
+        });
+    }, []);
+
+    // the note shown before the current route; opening another note reuses its tab unless pinned
+    const lastTabNoteRef = useRef<string | null>(null);
+    useEffect(() => {
+        const match = location.pathname.match(/^\/note\/([^/]+)$/);
+        const id = match ? match[1] : null;
+        const from = lastTabNoteRef.current;
+        lastTabNoteRef.current = id;
+        // the saved tabs replace these once loaded, so wait for them
+        if (id && !isHydrating) updateTabs(tabs => openInTab(tabs, id, from));
+    }, [location.pathname, isHydrating, updateTabs]);
+
+    const handleOpenInNewTab = useCallback((id: string) => {
+        const current = getCurrentNoteId();
+        updateTabs(tabs => openInNewTab(tabs, id, current));
+        handleSelectNote(id);
+    }, [getCurrentNoteId, handleSelectNote, updateTabs]);
+
+    const handleCloseTab = useCallback((id: string) => {
+        if (getCurrentNoteId() === id) {
+            const next = neighbourTab(openTabs, id);
+            if (next) handleSelectNote(next);
+            else navigate('/');
+        }
+        updateTabs(tabs => closeTab(tabs, id));
+    }, [openTabs, getCurrentNoteId, handleSelectNote, navigate, updateTabs]);
+
+    const handleTogglePinTab = useCallback((id: string) => updateTabs(tabs => togglePinTab(tabs, id)), [updateTabs]);
+
+    const handleMoveTab = useCallback((id: string, index: number) => updateTabs(tabs => moveTab(tabs, id, index)), [updateTabs]);
+
+    // the note beside becomes the main note and the main note moves beside it
+    const handleSwapSplit = useCallback(() => {
+        const current = getCurrentNoteId();
+        if (!current || splitView?.mode !== 'note' || !splitView.noteId) return;
+        setSplitView({ ...splitView, noteId: current });
+        navigate(`/note/${splitView.noteId}`);
+    }, [getCurrentNoteId, navigate, splitView]);
+
     const commands: Command[] = useMemo(() => createCommands({
         notes: data.notes,
         preferences: data.preferences,
@@ -374,16 +904,40 @@ function App() {
         handleSelectNote,
         handleUpdateNote,
         handleDeleteNote,
+        handleRestoreNote,
+        handleEmptyTrash,
         handleDuplicateNote,
         handleUpdatePreferences,
         handleImportNotes,
+        handleOpenConfig,
+        handleOpenMultiNoteReplace,
         setIsAboutOpen,
         setIsKnowledgeGraphOpen,
         setIsFindReplaceOpen,
         setIsBacklinksPanelOpen,
         setIsOutlineOpen,
+        setIsVersionHistoryOpen,
+        setIsGlobalSearchOpen,
         setTableModalOpen,
-    }), [data.notes, data.preferences, handleCreateNote, handleSelectNote, handleDuplicateNote, handleDeleteNote, getCurrentNoteId, handleUpdatePreferences, handleImportNotes, handleUpdateNote, navigate]);
+        setPropertyFilter,
+        handleCreateView,
+        handleOpenPeriodicNote,
+        handleShiftPeriodicNote,
+        handleApplyTemplate,
+        handleCreateFolder,
+        handleMoveNoteToFolder,
+        handleRenameTag,
+        splitView,
+        setSplitView,
+        handleSwapSplit,
+        openTabs,
+        handleOpenInNewTab,
+        handleCloseTab,
+        handleTogglePinTab,
+        handleRestoreBackup,
+        setImportPreview,
+        setIsCalendarOpen,
+    }), [data.notes, data.preferences, handleCreateNote, handleRestoreBackup, openTabs, handleOpenInNewTab, handleCloseTab, handleTogglePinTab, handleRenameTag, splitView, handleSwapSplit, handleCreateFolder, handleMoveNoteToFolder, handleCreateView, handleOpenPeriodicNote, handleShiftPeriodicNote, handleApplyTemplate, handleSelectNote, handleDuplicateNote, handleDeleteNote, handleRestoreNote, handleEmptyTrash, getCurrentNoteId, handleUpdatePreferences, handleImportNotes, handleOpenConfig, handleOpenMultiNoteReplace, handleUpdateNote, navigate]);
 
     const matchShortcut = useCallback((e: KeyboardEvent, shortcut: string) => {
         const parts = shortcut.split('+');
@@ -400,8 +954,25 @@ function App() {
     }, []);
 
     const handleQuickCapture = useCallback((text: string) => {
-        const newId = crypto.randomUUID();
         const now = Date.now();
+        if (dataRef.current.preferences.quickCaptureToDaily) {
+            const today = new Date();
+            const existing = findPeriodicNote(dataRef.current.notes, 'daily', today);
+            if (existing) {
+                setData(prev => ({
+                    ...prev,
+                    notes: prev.notes.map(n => n.id === existing.id ? { ...n, content: appendCapture(n.content, text), updatedAt: now } : n)
+                }));
+            } else {
+                const daily = buildPeriodicNote(dataRef.current.notes, 'daily', today);
+                setData(prev => ({ ...prev, notes: [{ ...daily, content: appendCapture(daily.content, text) }, ...prev.notes] }));
+            }
+            hasUnsavedRef.current = true;
+            analytics.track('quick_capture');
+            showToast(sl ? "Added to today's note liao" : "Added to today's note", 'success');
+            return;
+        }
+        const newId = crypto.randomUUID();
         const lines = text.split('\n');
         const title = lines[0]?.slice(0, 50) || 'Quick Capture';
         const newNote: Note = {
@@ -454,6 +1025,8 @@ function App() {
             // check command shortcuts
             for (const cmd of commands) {
                 if (cmd.shortcut && matchShortcut(e, cmd.shortcut)) {
+                    // Ctrl+Shift+F also selects forward in Emacs mode; the editor keeps it when it took the key
+                    if (cmd.id === 'global-search' && e.defaultPrevented) return;
                     e.preventDefault();
                     cmd.action();
                     return;
@@ -465,21 +1038,47 @@ function App() {
     }, [commands, isPaletteOpen, matchShortcut]);
 
     const handleConfirmDelete = () => {
-        if (deleteConfirmation.noteId) {
-            const id = deleteConfirmation.noteId;
-            const note = data.notes.find(n => n.id === id);
-            setData(prev => ({ ...prev, notes: prev.notes.filter(n => n.id !== id) }));
-            analytics.track('delete_note');
-            showToast(sl ? `"${note?.title || 'Untitled'}" delete liao` : `"${note?.title || 'Untitled'}" deleted`, 'info');
-            if (getCurrentNoteId() === id) navigate('/');
+        const ids = new Set(deleteConfirmation.noteIds);
+        if (ids.size > 0) {
+            const note = ids.size === 1 ? data.notes.find(n => ids.has(n.id)) : undefined;
+            setData(prev => ({ ...prev, notes: prev.notes.filter(n => !ids.has(n.id)) }));
+            hasUnsavedRef.current = true;
+            const msg = note
+                ? (sl ? `"${note.title || 'Untitled'}" delete liao` : `"${note.title || 'Untitled'}" deleted permanently`)
+                : (sl ? `${ids.size} notes delete liao` : `${ids.size} notes deleted permanently`);
+            showToast(msg, 'info');
         }
-        setDeleteConfirmation({ isOpen: false, noteId: null, isPermanent: true });
+        setDeleteConfirmation({ isOpen: false, noteIds: [] });
     };
 
     const handleTableInsert = (rows: number, cols: number) => {
         window.dispatchEvent(new CustomEvent('yoro-editor-cmd', { detail: { command: 'insert-table', rows, cols } }));
     };
 
+    // one line per note a restore touches, longest lists cut short
+    const restoreSummary = restoreConfirmation?.plan.summary;
+    const restoreItems = restoreSummary ? [
+        ...restoreSummary.added.map(t => `+ ${t}`),
+        ...restoreSummary.updated.map(t => sl ? `↻ ${t} (backup one newer)` : `↻ ${t} (updated from backup)`),
+        ...restoreSummary.duplicated.map(t => sl ? `⧉ ${t} (keep both)` : `⧉ ${t} (restored as a copy)`),
+        ...restoreSummary.keptLocal.map(t => sl ? `= ${t} (this one newer, don't touch)` : `= ${t} (newer here, kept)`),
+        ...restoreSummary.removed.map(t => `− ${t}`),
+    ] : [];
+    if (restoreItems.length > 100) {
+        const more = restoreItems.length - 100;
+        restoreItems.splice(100, more, sl ? `…still got ${more} more` : `…and ${more} more`);
+    }
+
+    const importReport = importPreview?.report;
+    const importItems = importReport ? [
+        ...importReport.unresolved.map(u => sl ? `⚠ ${u} (cannot find)` : `⚠ ${u} (not found)`),
+        ...importReport.skipped.map(f => sl ? `– ${f} (skip)` : `– ${f} (skipped)`),
+    ] : [];
+    if (importItems.length > 100) {
+        const more = importItems.length - 100;
+        importItems.splice(100, more, sl ? `…still got ${more} more` : `…and ${more} more`);
+    }
+
     const handleCommandExecuted = (id: string) => {
         setData(prev => {
             const recent = [id, ...(prev.preferences.recentCommandIds || []).filter(cid => cid !== id)].slice(0, 5);
@@ -496,7 +1095,7 @@ function App() {
             <Routes>
                 <Route path="/" element={
                     <NoteList
-                        notes={data.notes}
+                        notes={activeNotes}
                         onSelectNote={handleSelectNote}
                         onDeleteNote={handleDeleteNote}
                         onDuplicateNote={handleDuplicateNote}
@@ -504,19 +1103,77 @@ function App() {
                         onReorderNotes={handleReorderNotes}
                         isLoading={isHydrating}
                         searchQuery={searchQuery}
-                        selectedTag={selectedTag}
-                        onTagChange={setSelectedTag}
+                        tagFilter={tagFilter}
+                        onTagFilterChange={setTagFilter}
+                        tagColors={data.preferences.tagColors}
+                        onSetTagColor={handleSetTagColor}
+                        onRenameTag={handleRenameTag}
+                        propertyFilter={propertyFilter}
+                        onClearPropertyFilter={() => setPropertyFilter(null)}
                         viewMode={data.preferences.homeViewMode}
                         sortOrder={data.preferences.sortOrder}
+                        sortProperty={data.preferences.sortProperty}
                         onOpenGraph={() => setIsKnowledgeGraphOpen(true)}
+                        trashCount={trashedNotes.length}
+                        onOpenTrash={() => navigate('/trash')}
+                        views={data.preferences.views}
+                        onOpenView={(id) => navigate(`/views/${id}`)}
+                        showFolderTree={data.preferences.showFolderTree ?? true}
+                        folders={data.preferences.folders}
+                        selectedFolder={selectedFolder}
+                        onSelectFolder={setSelectedFolder}
+                        onMoveNoteToFolder={handleMoveNoteToFolder}
+                        onMoveFolder={handleMoveFolder}
+                        onCreateFolder={handleCreateFolder}
+                        onRenameFolder={handleRenameFolder}
+                        onDeleteFolder={handleDeleteFolder}
+                    />
+                } />
+                <Route path="/tasks" element={
+                    <TasksView
+                        notes={activeNotes}
+                        onUpdateNote={handleUpdateNote}
+                        onOpenTask={(id, lineNumber) => {
+                            handleSelectNote(id);
+                            setTimeout(() => {
+                                window.dispatchEvent(new CustomEvent('yoro-navigate-line', {
+                                    detail: { noteId: id, lineNumber }
+                                }));
+                            }, 100);
+                        }}
+                        onBack={() => navigate('/')}
+                    />
+                } />
+                <Route path="/views/:id" element={
+                    <DatabaseView
+                        views={data.preferences.views ?? []}
+                        notes={activeNotes}
+                        isLoading={isHydrating}
+                        onUpdateView={handleUpdateView}
+                        onDeleteView={handleDeleteView}
+                        onUpdateNote={handleUpdateNote}
+                        onSelectNote={handleSelectNote}
+                        onBack={() => navigate('/')}
+                    />
+                } />
+                <Route path="/trash" element={
+                    <TrashView
+                        notes={trashedNotes}
+                        retentionDays={data.preferences.trashRetentionDays}
+                        onRestoreNote={handleRestoreNote}
+                        onDeleteNote={handlePermanentDeleteNote}
+                        onEmptyTrash={handleEmptyTrash}
+                        onBack={() => navigate('/')}
                     />
                 } />
                 <Route path="/note/:id" element={
                     <NoteEditorWrapper
-                        notes={data.notes}
+                        notes={activeNotes}
+                        isLoading={isHydrating}
                         onUpdateNote={handleUpdateNote}
                         onUpdateNotePosition={handleUpdateNotePosition}
                         onNavigate={handleSelectNote}
+                        onRenameNote={handleRenameNote}
                         vimMode={data.preferences.vimMode}
                         emacsMode={data.preferences.emacsMode}
                         focusMode={data.preferences.focusMode}
@@ -528,11 +1185,20 @@ function App() {
                         cursorAnimations={data.preferences.cursorAnimations ?? 'subtle'}
                         findReplaceOpen={isFindReplaceOpen}
                         onCloseFindReplace={() => setIsFindReplaceOpen(false)}
+                        onOpenMultiNoteReplace={handleOpenMultiNoteReplace}
+                        split={splitView}
+                        onSplitChange={setSplitView}
+                        onSwapSplit={handleSwapSplit}
+                        tabs={openTabs}
+                        onOpenInNewTab={handleOpenInNewTab}
+                        onCloseTab={handleCloseTab}
+                        onTogglePinTab={handleTogglePinTab}
+                        onMoveTab={handleMoveTab}
                     />
                 } />
                 <Route path="/note/:id/presentation" element={
                     <ErrorBoundary>
-                        <PresentationMode notes={data.notes} theme={data.preferences.theme} />
+                        <PresentationMode notes={activeNotes} theme={data.preferences.theme} />
                     </ErrorBoundary>
                 } />
             </Routes>
@@ -545,7 +1211,7 @@ function App() {
                 onCommandExecuted={handleCommandExecuted}
                 onSearchChange={setSearchQuery}
                 selectedTag={selectedTag}
-                onTagSelect={setSelectedTag}
+                onTagSelect={(tag) => setTagFilter(tag ? singleTagFilter(tag) : EMPTY_TAG_FILTER)}
                 allTags={allTags}
                 currentContext={currentContext}
                 commandGroups={[]}
@@ -557,10 +1223,67 @@ function App() {
 
             <ConfirmationModal
                 isOpen={deleteConfirmation.isOpen}
-                title={sl ? 'Delete or not?' : 'Delete Note'}
-                message={sl ? 'Delete liao cannot undo one leh. Sure anot?' : 'Are you sure you want to permanently delete this note? This action cannot be undone.'}
+                title={deleteConfirmation.noteIds.length > 1
+                    ? (sl ? 'Empty trash or not?' : 'Empty Trash')
+                    : (sl ? 'Delete or not?' : 'Delete Note')}
+                message={deleteConfirmation.noteIds.length > 1
+                    ? (sl ? `All ${deleteConfirmation.noteIds.length} notes in trash gone forever leh. Sure anot?` : `Are you sure you want to permanently delete all ${deleteConfirmation.noteIds.length} notes in the trash? This action cannot be undone.`)
+                    : (sl ? 'Delete liao cannot undo one leh. Sure anot?' : 'Are you sure you want to permanently delete this note? This action cannot be undone.')}
                 onConfirm={handleConfirmDelete}
-                onCancel={() => setDeleteConfirmation({ isOpen: false, noteId: null, isPermanent: true })}
+                onCancel={() => setDeleteConfirmation({ isOpen: false, noteIds: [] })}
+            />
+
+            <ConfirmationModal
+                isOpen={importPreview !== null}
+                title={importReport?.source === 'notion'
+                    ? (sl ? 'Import from Notion or not?' : 'Import Notion Export')
+                    : importReport?.source === 'docx'
+                        ? (sl ? 'Import the Word files or not?' : 'Import Word Documents')
+                        : (sl ? 'Import Obsidian vault or not?' : 'Import Obsidian Vault')}
+                message={importPreview && importReport
+                    ? (sl
+                        ? `Dry run only, nothing add yet: ${importPreview.notes.length} notes in ${importReport.folders.length} folders, ${importReport.attachments} pictures put inside, ${importReport.linksRewritten} links change${importReport.tables > 0 ? `, ${importReport.tables} databases become table` : ''}. ${importReport.unresolved.length} links cannot find, ${importReport.skipped.length} files skip.`
+                        : `Dry run, nothing has been added yet: ${importPreview.notes.length} note${importPreview.notes.length !== 1 ? 's' : ''} in ${importReport.folders.length} folder${importReport.folders.length !== 1 ? 's' : ''}, ${importReport.attachments} image${importReport.attachments !== 1 ? 's' : ''} inlined, ${importReport.linksRewritten} link${importReport.linksRewritten !== 1 ? 's' : ''} rewritten${importReport.tables > 0 ? `, ${importReport.tables} database${importReport.tables !== 1 ? 's' : ''} turned into tables` : ''}. ${importReport.unresolved.length} unresolved link${importReport.unresolved.length !== 1 ? 's' : ''}, ${importReport.skipped.length} file${importReport.skipped.length !== 1 ? 's' : ''} skipped.`)
+                    : ''}
+                items={importItems}
+                confirmLabel={sl ? 'Import lah' : 'Import'}
+                destructive={false}
+                onConfirm={handleConfirmImport}
+                onCancel={() => setImportPreview(null)}
+            />
+
+            <ConfirmationModal
+                isOpen={restoreConfirmation !== null}
+                title={restoreConfirmation?.mode === 'replace'
+                    ? (sl ? 'Replace everything or not?' : 'Replace Workspace from Backup')
+                    : (sl ? 'Merge backup in or not?' : 'Merge Backup')}
+                message={restoreConfirmation && restoreSummary
+                    ? (sl
+                        ? `Backup from ${new Date(restoreConfirmation.backup.manifest.createdAt).toLocaleString()}: ${restoreSummary.added.length + restoreSummary.duplicated.length} new, ${restoreSummary.updated.length} updated, ${restoreSummary.unchanged} same same.${restoreSummary.removed.length > 0 ? ` ${restoreSummary.removed.length} notes here not inside backup will throw away${restoreSummary.removedFromTrash > 0 ? `, ${restoreSummary.removedFromTrash} from trash also` : ''}.` : ''}${restoreSummary.duplicated.length > 0 ? ' Links inside the backup copies go to the copies, notes already here still link to the old one.' : ''} ${restoreSummary.attachments} attachments. Settings ${restoreSummary.preferences === 'replaced' ? 'take from backup' : restoreSummary.preferences === 'merged' ? 'combine folders, views and tag colours only' : 'no change'}.`
+                        : `Backup from ${new Date(restoreConfirmation.backup.manifest.createdAt).toLocaleString()}: ${restoreSummary.added.length + restoreSummary.duplicated.length} added, ${restoreSummary.updated.length} updated, ${restoreSummary.unchanged} unchanged.${restoreSummary.removed.length > 0 ? ` ${restoreSummary.removed.length} note${restoreSummary.removed.length !== 1 ? 's' : ''} not in the backup will be discarded${restoreSummary.removedFromTrash > 0 ? `, ${restoreSummary.removedFromTrash} of them from the trash` : ''}.` : ''}${restoreSummary.duplicated.length > 0 ? ' Links inside restored copies point to the other copies; notes already here keep linking to the originals.' : ''} ${restoreSummary.attachments} attachment${restoreSummary.attachments !== 1 ? 's' : ''}. Preferences ${restoreSummary.preferences === 'replaced' ? 'replaced by the backup' : restoreSummary.preferences === 'merged' ? 'kept, with folders, views and tag colours merged in' : 'unchanged'}.`)
+                    : ''}
+                items={restoreItems}
+                confirmLabel={sl ? 'Restore lah' : 'Restore'}
+                destructive={restoreConfirmation?.mode === 'replace'}
+                onConfirm={handleConfirmRestore}
+                onCancel={() => setRestoreConfirmation(null)}
+            />
+
+            <ConfirmationModal
+                isOpen={renameConfirmation !== null}
+                title={sl ? 'Update links or not?' : 'Update Links'}
+                message={renameConfirmation
+                    ? (sl
+                        ? `Got notes linking to "${renameConfirmation.oldTitle}". Change them to "${renameConfirmation.newTitle}"?`
+                        : `These notes link to "${renameConfirmation.oldTitle}". Update them to point to "${renameConfirmation.newTitle}"?`)
+                    : ''}
+                items={renameConfirmation?.affected.map(a =>
+                    `${a.title || 'Untitled'} (${a.count} link${a.count !== 1 ? 's' : ''})`
+                )}
+                confirmLabel={sl ? 'Update lah' : 'Update Links'}
+                destructive={false}
+                onConfirm={handleConfirmRename}
+                onCancel={() => setRenameConfirmation(null)}
             />
 
             <TableInsertModal
@@ -594,12 +1317,15 @@ function App() {
                 isOpen={isQuickCaptureOpen}
                 onClose={() => setIsQuickCaptureOpen(false)}
                 onCapture={handleQuickCapture}
+                appendToDaily={data.preferences.quickCaptureToDaily ?? false}
+                onAppendToDailyChange={(quickCaptureToDaily) => handleUpdatePreferences({ quickCaptureToDaily })}
             />
 
             {isKnowledgeGraphOpen && (
                 <ErrorBoundary>
                     <KnowledgeGraph
-                        notes={data.notes}
+                        notes={activeNotes}
+                        customTagColors={data.preferences.tagColors}
                         onNavigate={(id) => { setIsKnowledgeGraphOpen(false); handleSelectNote(id); }}
                         onClose={() => setIsKnowledgeGraphOpen(false)}
                     />
@@ -609,9 +1335,70 @@ function App() {
             <BacklinksPanel
                 isOpen={isBacklinksPanelOpen}
                 onClose={() => setIsBacklinksPanelOpen(false)}
-                currentNote={data.notes.find(n => n.id === getCurrentNoteId()) || null}
-                notes={data.notes}
+                currentNote={activeNotes.find(n => n.id === getCurrentNoteId()) || null}
+                notes={activeNotes}
                 onNavigate={(id) => { setIsBacklinksPanelOpen(false); handleSelectNote(id); }}
+                onLinkMention={(id, content) => handleUpdateNote(id, { content })}
+            />
+
+            <VersionHistoryPanel
+                isOpen={isVersionHistoryOpen}
+                note={activeNotes.find(n => n.id === getCurrentNoteId()) || null}
+                onClose={() => { if (!versionRestore) setIsVersionHistoryOpen(false); }}
+                onRestore={(content, scope) => {
+                    const noteId = getCurrentNoteId();
+                    if (!noteId) return;
+                    setVersionRestore({ noteId, content, scope });
+                }}
+            />
+
+            <ConfirmationModal
+                isOpen={versionRestore !== null}
+                title={versionRestore?.scope === 'hunk'
+                    ? (sl ? 'Take back this part or not?' : 'Restore Change')
+                    : (sl ? 'Restore this one or not?' : 'Restore Version')}
+                message={versionRestore?.scope === 'hunk'
+                    ? (sl ? 'This part of the note go back to the old version. Now one will keep inside history first, can take back later.' : 'This part of the note will be replaced with the older version. The current content is kept in the history first, so you can restore it later.')
+                    : (sl ? 'Whole note go back to this version. Now one will keep inside history first, can take back later.' : 'The whole note will be replaced with this version. The current content is kept in the history first, so you can restore it later.')}
+                confirmLabel={sl ? 'Restore lah' : 'Restore'}
+                destructive={false}
+                onConfirm={handleConfirmVersionRestore}
+                onCancel={() => setVersionRestore(null)}
+            />
+
+            <GlobalSearchPanel
+                isOpen={isGlobalSearchOpen}
+                notes={activeNotes}
+                onClose={() => setIsGlobalSearchOpen(false)}
+                onOpenResult={(id, lineNumber) => {
+                    handleSelectNote(id);
+                    if (lineNumber) {
+                        setTimeout(() => {
+                            window.dispatchEvent(new CustomEvent('yoro-navigate-line', {
+                                detail: { noteId: id, lineNumber }
+                            }));
+                        }, 100);
+                    }
+                }}
+            />
+
+            <MultiNoteReplacePanel
+                isOpen={multiNoteReplace.isOpen}
+                notes={activeNotes}
+                initialQuery={multiNoteReplace.query}
+                canUndo={lastReplaceBatch !== null}
+                onClose={() => setMultiNoteReplace(prev => ({ ...prev, isOpen: false }))}
+                onApply={handleReplaceInNotes}
+                onUndo={handleUndoReplaceInNotes}
+                onOpenMatch={(id, lineNumber) => {
+                    setMultiNoteReplace(prev => ({ ...prev, isOpen: false }));
+                    handleSelectNote(id);
+                    setTimeout(() => {
+                        window.dispatchEvent(new CustomEvent('yoro-navigate-line', {
+                            detail: { noteId: id, lineNumber }
+                        }));
+                    }, 100);
+                }}
             />
 
             <OutlinePanel
@@ -620,6 +1407,14 @@ function App() {
                 noteId={getCurrentNoteId() || ''}
             />
 
+            <CalendarPanel
+                isOpen={isCalendarOpen}
+                notes={activeNotes}
+                currentTitle={data.notes.find(n => n.id === getCurrentNoteId())?.title}
+                onOpenPeriod={handleOpenPeriodicNote}
+                onClose={() => setIsCalendarOpen(false)}
+            />
+
             <ImageLightbox
                 src={lightboxState.src}
                 alt={lightboxState.alt}
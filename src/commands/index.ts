@@ -2,10 +2,22 @@ import JSZip from 'jszip';
 import LZString from 'lz-string';
 import { showToast } from '../components/Toast';
 import { exportToPDF, exportToDOCX } from '../utils/exportUtils';
-import { templates } from '../utils/templates';
+import { exportToHTML, exportToSite } from '../utils/htmlExport';
+import { exportToEPUB } from '../utils/epubExport';
+import { exportToLaTeX } from '../utils/latexExport';
+import { getTemplates, isTemplateNote, templatePrompts, TEMPLATE_FOLDER, TEMPLATE_TAGS, type Template } from '../utils/templates';
 import { analytics } from '../utils/analytics';
-import type { Command } from '../components/CommandPalette';
-import type { Note, Theme, UserPreferences } from '../types';
+import { isTrashed } from '../utils/trash';
+import { collectPropertyKeys, type PropertyFilter } from '../utils/properties';
+import { createView, toDateKey } from '../utils/views';
+import { parsePeriodTitle, type PeriodType } from '../utils/periodicNotes';
+import { allFolderPaths, folderToZipDir, isWithinFolder, zipEntryFolder } from '../utils/folders';
+import { allTagPaths, normalizeTag } from '../utils/tags';
+import { closeOtherTabs } from '../utils/tabs';
+import { filesFromFileList, filesFromZip, planDocxImport, planNotionImport, planObsidianImport, type ImportFile, type ImportPlan } from '../utils/importers';
+import { BackupError, createBackup, readBackup, type Backup, type ConflictPolicy, type RestoreMode } from '../utils/backup';
+import type { Command, CommandParameter } from '../components/CommandPalette';
+import type { Note, NoteTab, NoteView, SplitView, Theme, UserPreferences, ViewLayout } from '../types';
 
 // Data-driven theme list — add new themes here instead of individual command objects
 export const THEMES: { id: Theme; label: string }[] = [
@@ -54,30 +66,117 @@ export interface CommandFactoryArgs {
     handleSelectNote: (id: string) => void;
     handleUpdateNote: (id: string, updates: Partial<Note>) => void;
     handleDeleteNote: (id: string, e?: { stopPropagation: () => void }) => void;
+    handleRestoreNote: (id: string) => void;
+    handleEmptyTrash: () => void;
     handleDuplicateNote: (id: string, e?: { stopPropagation: () => void }) => void;
     handleUpdatePreferences: (updates: Partial<UserPreferences>) => void;
     handleImportNotes: (notes: Note[]) => void;
+    handleOpenConfig: () => void;
+    handleOpenMultiNoteReplace: (query: string) => void;
     setIsAboutOpen: (open: boolean) => void;
     setIsKnowledgeGraphOpen: (open: boolean) => void;
     setIsFindReplaceOpen: (open: boolean) => void;
     setIsBacklinksPanelOpen: (open: boolean) => void;
     setIsOutlineOpen: (toggle: (prev: boolean) => boolean) => void;
+    setIsVersionHistoryOpen: (open: boolean) => void;
+    setIsGlobalSearchOpen: (open: boolean) => void;
     setTableModalOpen: (open: boolean) => void;
+    setPropertyFilter: (filter: PropertyFilter | null) => void;
+    handleCreateView: (view: NoteView) => void;
+    handleOpenPeriodicNote: (type: PeriodType, date?: Date) => void;
+    handleShiftPeriodicNote: (delta: number) => void;
+    handleCreateFolder: (parent: string, name: string) => void;
+    handleMoveNoteToFolder: (noteId: string, folder: string) => void;
+    handleRenameTag: (from: string, to: string) => void;
+    splitView: SplitView | null;
+    setSplitView: (split: SplitView | null) => void;
+    handleSwapSplit: () => void;
+    openTabs: NoteTab[];
+    handleOpenInNewTab: (id: string) => void;
+    handleCloseTab: (id: string) => void;
+    handleTogglePinTab: (id: string) => void;
+    handleRestoreBackup: (backup: Backup, mode: RestoreMode, conflicts: ConflictPolicy) => void;
+    setImportPreview: (plan: ImportPlan | null) => void;
+    handleApplyTemplate: (template: Template, target: 'insert' | 'new', params?: Record<string, string | number | boolean>) => void;
+    setIsCalendarOpen: (toggle: (prev: boolean) => boolean) => void;
 }
 
 export function createCommands(args: CommandFactoryArgs): Command[] {
     const {
         notes, preferences, navigate, getCurrentNoteId,
         handleCreateNote, handleSelectNote, handleUpdateNote,
-        handleDeleteNote, handleDuplicateNote,
-        handleUpdatePreferences, handleImportNotes,
+        handleDeleteNote, handleRestoreNote, handleEmptyTrash, handleDuplicateNote,
+        handleUpdatePreferences, handleImportNotes, handleOpenConfig, handleOpenMultiNoteReplace,
         setIsAboutOpen, setIsKnowledgeGraphOpen,
         setIsFindReplaceOpen, setIsBacklinksPanelOpen, setIsOutlineOpen,
-        setTableModalOpen,
+        setIsVersionHistoryOpen, setIsGlobalSearchOpen, setTableModalOpen, setPropertyFilter,
+        handleCreateView, handleOpenPeriodicNote, handleShiftPeriodicNote, handleApplyTemplate, setIsCalendarOpen,
+        handleCreateFolder, handleMoveNoteToFolder, handleRenameTag,
+        splitView, setSplitView, handleSwapSplit,
+        openTabs, handleOpenInNewTab, handleCloseTab, handleTogglePinTab,
+        handleRestoreBackup, setImportPreview,
     } = args;
 
     const sl = preferences.singlish ?? false;
     const currentNoteId = getCurrentNoteId();
+    const activeNotes = notes.filter(n => !isTrashed(n));
+    const trashedNotes = notes.filter(isTrashed);
+    const allTemplates = getTemplates(notes);
+    const folderPaths = allFolderPaths(activeNotes, preferences.folders);
+    const tagOptions = allTagPaths(activeNotes).map(t => ({ value: t, label: `#${t}` }));
+    // picks a ZIP (or, for a vault, a folder) and shows the importer's dry run
+    const pickImport = (accept: 'zip' | 'folder' | 'docx', plan: (files: ImportFile[]) => Promise<ImportPlan>) => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        if (accept === 'folder') input.webkitdirectory = true;
+        else input.accept = accept === 'docx' ? '.docx' : '.zip';
+        input.multiple = accept === 'docx';
+        input.onchange = async () => {
+            const picked = Array.from(input.files ?? []);
+            if (picked.length === 0) return;
+            try {
+                const files = accept !== 'zip'
+                    ? filesFromFileList(picked)
+                    : filesFromZip(await JSZip.loadAsync(await picked[0].arrayBuffer()));
+                const result = await plan(files);
+                if (result.notes.length === 0) {
+                    showToast(sl ? 'No notes inside leh' : 'No notes found to import', 'warning');
+                    return;
+                }
+                setImportPreview(result);
+            } catch (error) {
+                console.error('Import failed:', error);
+                showToast(sl ? 'Cannot read the files lah' : 'Failed to read the import', 'error');
+            }
+        };
+        input.click();
+    };
+
+    const cycleTab = (delta: number) => {
+        const index = openTabs.findIndex(t => t.noteId === currentNoteId);
+        handleSelectNote(openTabs[(index + delta + openTabs.length) % openTabs.length].noteId);
+    };
+
+    // one text field per {{prompt:Label}}, answered in the parameter modal before the template is filled
+    const promptParameters = (t: Template): CommandParameter[] => templatePrompts(t.content).map(label => ({
+        name: `prompt:${label}`,
+        type: 'text' as const,
+        label,
+    }));
+    // the notes a book is made of, in reading order: the open tabs as arranged, or a folder by title
+    const bookNotes = (source: string): Note[] => {
+        if (source === 'tabs') {
+            return openTabs.map(t => activeNotes.find(n => n.id === t.noteId)).filter((n): n is Note => n !== undefined);
+        }
+        const folder = source.slice('folder:'.length);
+        return activeNotes
+            .filter(n => isWithinFolder(n.folder ?? '', folder))
+            .sort((a, b) => (a.title || 'Untitled').localeCompare(b.title || 'Untitled', undefined, { numeric: true }));
+    };
+    const propertyKeys = collectPropertyKeys(activeNotes);
+    const propertyKeyParam: CommandParameter = propertyKeys.length > 0
+        ? { name: 'key', label: 'Property', type: 'select', options: propertyKeys.map(k => ({ value: k, label: k })) }
+        : { name: 'key', label: 'Property name', type: 'text', placeholder: 'status' };
 
     return [
         // General
@@ -87,6 +186,12 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
             action: () => handleCreateNote(),
             category: 'General'
         },
+        {
+            id: 'open-config',
+            label: 'Open Config (config.toml)',
+            action: () => handleOpenConfig(),
+            category: 'General'
+        },
         {
             id: 'about-yoro',
             label: 'About Yoro',
@@ -95,7 +200,7 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
         },
         // Recent notes (last 5 opened)
         ...(preferences.recentNoteIds || []).map(noteId => {
-            const recentNote = notes.find(n => n.id === noteId);
+            const recentNote = activeNotes.find(n => n.id === noteId);
             if (!recentNote) return null;
             return {
                 id: `recent-note-${noteId}`,
@@ -336,31 +441,97 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
         {
             id: 'sort-updated',
             label: 'Sort by Date Updated',
-            action: () => handleUpdatePreferences({ sortOrder: 'updated' }),
+            action: () => handleUpdatePreferences({ sortOrder: 'updated', sortProperty: undefined }),
             category: 'Sort',
             context: 'home' as const
         },
         {
             id: 'sort-created',
             label: 'Sort by Date Created',
-            action: () => handleUpdatePreferences({ sortOrder: 'created' }),
+            action: () => handleUpdatePreferences({ sortOrder: 'created', sortProperty: undefined }),
             category: 'Sort',
             context: 'home' as const
         },
         {
             id: 'sort-alpha',
             label: 'Sort by Title A-Z',
-            action: () => handleUpdatePreferences({ sortOrder: 'alpha' }),
+            action: () => handleUpdatePreferences({ sortOrder: 'alpha', sortProperty: undefined }),
             category: 'Sort',
             context: 'home' as const
         },
         {
             id: 'sort-alpha-reverse',
             label: 'Sort by Title Z-A',
-            action: () => handleUpdatePreferences({ sortOrder: 'alpha-reverse' }),
+            action: () => handleUpdatePreferences({ sortOrder: 'alpha-reverse', sortProperty: undefined }),
             category: 'Sort',
             context: 'home' as const
         },
+        {
+            id: 'sort-property',
+            label: 'Sort by Property...',
+            action: (params) => {
+                const key = String(params?.key ?? '').trim();
+                if (!key) return;
+                const descending = params?.direction === 'desc';
+                handleUpdatePreferences({ sortProperty: { key, descending } });
+                showToast(sl ? `Sort by ${key} liao` : `Sorted by ${key} (${descending ? 'descending' : 'ascending'})`, 'info');
+            },
+            category: 'Sort',
+            context: 'home' as const,
+            parameters: [
+                propertyKeyParam,
+                {
+                    name: 'direction', label: 'Direction', type: 'select' as const,
+                    options: [{ value: 'asc', label: 'Ascending' }, { value: 'desc', label: 'Descending' }],
+                },
+            ],
+        },
+        // Property filter
+        {
+            id: 'filter-property',
+            label: 'Filter by Property...',
+            action: (params) => {
+                const key = String(params?.key ?? '').trim();
+                if (!key) return;
+                setPropertyFilter({ key, value: String(params?.value ?? '').trim() });
+                navigate('/');
+            },
+            category: 'Filter',
+            parameters: [
+                propertyKeyParam,
+                { name: 'value', label: 'Value (list items, checkboxes and dates must match exactly)', type: 'text' as const, placeholder: 'done' },
+            ],
+        },
+        {
+            id: 'clear-property-filter',
+            label: 'Clear Property Filter',
+            action: () => setPropertyFilter(null),
+            category: 'Filter',
+            context: 'home' as const
+        },
+        // Saved views
+        {
+            id: 'new-view',
+            label: 'New View...',
+            action: (params) => {
+                const layout = (params?.layout ?? 'table') as ViewLayout;
+                handleCreateView(createView(String(params?.name ?? '').trim(), layout, activeNotes));
+            },
+            category: 'Views',
+            parameters: [
+                { name: 'name', label: 'View name', type: 'text' as const, placeholder: 'Reading list' },
+                {
+                    name: 'layout', label: 'Layout', type: 'select' as const,
+                    options: [{ value: 'table', label: 'Table' }, { value: 'board', label: 'Board' }, { value: 'calendar', label: 'Calendar' }],
+                },
+            ],
+        },
+        ...(preferences.views ?? []).map(view => ({
+            id: `open-view-${view.id}`,
+            label: `Open View: ${view.name}`,
+            action: () => navigate(`/views/${view.id}`),
+            category: 'Views',
+        })),
         // Theme Commands — data-driven from THEMES array
         ...THEMES.map(({ id, label }) => ({
             id: `theme-${id}`,
@@ -375,26 +546,192 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
             action: () => navigate('/'),
             category: 'Navigation'
         },
+        {
+            id: 'global-search',
+            label: 'Search All Notes',
+            action: () => setIsGlobalSearchOpen(true),
+            category: 'Navigation',
+            shortcut: 'Cmd+Shift+F'
+        },
+        {
+            id: 'open-tasks',
+            label: 'Open Tasks',
+            action: () => navigate('/tasks'),
+            category: 'Navigation'
+        },
+        // Daily notes
+        {
+            id: 'open-today',
+            label: "Open Today's Note",
+            action: () => handleOpenPeriodicNote('daily'),
+            category: 'Daily Notes'
+        },
+        {
+            id: 'open-this-week',
+            label: "Open This Week's Note",
+            action: () => handleOpenPeriodicNote('weekly'),
+            category: 'Daily Notes'
+        },
+        {
+            id: 'open-this-month',
+            label: "Open This Month's Note",
+            action: () => handleOpenPeriodicNote('monthly'),
+            category: 'Daily Notes'
+        },
+        {
+            id: 'open-daily-note-for-date',
+            label: 'Open Daily Note for Date...',
+            action: (params) => {
+                const period = parsePeriodTitle(String(params?.date ?? ''));
+                if (!period || period.type !== 'daily') {
+                    showToast(sl ? 'Date must be like 2026-10-20 leh' : 'Enter a date as YYYY-MM-DD', 'warning');
+                    return;
+                }
+                handleOpenPeriodicNote('daily', period.date);
+            },
+            category: 'Daily Notes',
+            parameters: [
+                { name: 'date', label: 'Date (YYYY-MM-DD)', type: 'text' as const, placeholder: toDateKey(new Date()) },
+            ],
+        },
+        {
+            id: 'previous-periodic-note',
+            label: 'Previous Day / Week / Month',
+            action: () => handleShiftPeriodicNote(-1),
+            category: 'Daily Notes',
+            context: 'editor' as const
+        },
+        {
+            id: 'next-periodic-note',
+            label: 'Next Day / Week / Month',
+            action: () => handleShiftPeriodicNote(1),
+            category: 'Daily Notes',
+            context: 'editor' as const
+        },
+        {
+            id: 'toggle-calendar',
+            label: 'Toggle Calendar',
+            action: () => setIsCalendarOpen(prev => !prev),
+            category: 'Daily Notes'
+        },
+        // Folders
+        {
+            id: 'new-folder',
+            label: 'New Folder',
+            parameters: [
+                { name: 'path', label: 'Folder (use / for subfolders)', type: 'text' as const, placeholder: 'Work/Projects' },
+            ],
+            action: (params?: Record<string, string | number | boolean>) => {
+                const path = String(params?.path ?? '').trim();
+                if (!path) return;
+                handleCreateFolder('', path);
+                showToast(sl ? `Folder "${path}" made liao` : `Folder "${path}" created`, 'success');
+            },
+            category: 'Folders'
+        },
+        {
+            id: 'toggle-folder-tree',
+            label: 'Toggle Sidebar (Folders & Tags)',
+            action: () => handleUpdatePreferences({ showFolderTree: !(preferences.showFolderTree ?? true) }),
+            category: 'Folders',
+            context: 'home' as const,
+        },
+        // Tags
+        ...(tagOptions.length > 0 ? [
+            {
+                id: 'rename-tag',
+                label: 'Rename Tag...',
+                parameters: [
+                    { name: 'tag', label: 'Tag', type: 'select' as const, options: tagOptions },
+                    { name: 'name', label: 'New name (use / to nest)', type: 'text' as const, placeholder: 'area/topic' },
+                ],
+                action: (params?: Record<string, string | number | boolean>) => {
+                    if (!params) return;
+                    handleRenameTag(String(params.tag), normalizeTag(String(params.name ?? '')));
+                },
+                category: 'Tags'
+            },
+            {
+                id: 'merge-tags',
+                label: 'Merge Tags...',
+                parameters: [
+                    { name: 'from', label: 'Merge this tag', type: 'select' as const, options: tagOptions },
+                    { name: 'into', label: 'Into', type: 'select' as const, options: tagOptions },
+                ],
+                action: (params?: Record<string, string | number | boolean>) => {
+                    if (!params) return;
+                    if (params.from === params.into) {
+                        showToast(sl ? 'Same tag leh, choose another one' : 'Choose two different tags', 'warning');
+                        return;
+                    }
+                    handleRenameTag(String(params.from), String(params.into));
+                },
+                category: 'Tags'
+            },
+        ] : []),
         // Note Navigation
-        ...notes.map(note => ({
+        ...activeNotes.map(note => ({
             id: `open-note-${note.id}`,
             label: `Open Note: ${note.title || 'Untitled'}`,
             action: () => handleSelectNote(note.id),
             category: 'Navigation'
         })),
         // Note Operations
-        ...notes.map(note => ({
+        ...activeNotes.map(note => ({
             id: `duplicate-note-${note.id}`,
             label: `Duplicate Note: ${note.title || 'Untitled'}`,
             action: () => handleDuplicateNote(note.id),
             category: 'Note Operations'
         })),
-        ...notes.map(note => ({
+        ...activeNotes.map(note => ({
             id: `delete-note-${note.id}`,
-            label: `Delete Note: ${note.title || 'Untitled'}`,
+            label: `Move to Trash: ${note.title || 'Untitled'}`,
             action: () => handleDeleteNote(note.id),
             category: 'Note Operations'
         })),
+        // Trash
+        {
+            id: 'open-trash',
+            label: `Open Trash${trashedNotes.length > 0 ? ` (${trashedNotes.length})` : ''}`,
+            action: () => navigate('/trash'),
+            category: 'Trash'
+        },
+        ...trashedNotes.map(note => ({
+            id: `restore-note-${note.id}`,
+            label: `Restore Note: ${note.title || 'Untitled'}`,
+            action: () => handleRestoreNote(note.id),
+            category: 'Trash'
+        })),
+        {
+            id: 'empty-trash',
+            label: 'Empty Trash',
+            action: () => handleEmptyTrash(),
+            category: 'Trash'
+        },
+        {
+            id: 'set-trash-retention',
+            label: 'Set Trash Auto-Purge Age',
+            parameters: [
+                {
+                    name: 'days',
+                    label: 'Days to keep trashed notes (0 keeps them forever)',
+                    type: 'number' as const,
+                    min: 0,
+                    max: 3650,
+                    defaultValue: preferences.trashRetentionDays ?? 30,
+                    placeholder: '30'
+                }
+            ],
+            action: (_params?: Record<string, string | number | boolean>) => {
+                if (!_params) return;
+                const days = Math.max(0, Math.floor(Number(_params['days']) || 0));
+                handleUpdatePreferences({ trashRetentionDays: days });
+                showToast(days > 0
+                    ? (sl ? `Trash clear after ${days} days liao` : `Trashed notes are purged after ${days} days`)
+                    : (sl ? 'Trash keep forever liao' : 'Trashed notes are kept forever'), 'success');
+            },
+            category: 'Trash'
+        },
         // Global Import
         {
             id: 'import-md',
@@ -450,6 +787,8 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
                             mdEntries.map(async ([name, entry]) => {
                                 const content = await entry.async('string');
                                 const filename = name.split('/').pop() ?? name;
+                                // directories inside the ZIP become folders
+                                const folder = zipEntryFolder(name);
                                 const now = Date.now();
                                 return {
                                     id: crypto.randomUUID(),
@@ -457,6 +796,7 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
                                     content,
                                     format: 'markdown' as const,
                                     tags: [],
+                                    ...(folder ? { folder } : {}),
                                     createdAt: now,
                                     updatedAt: now,
                                     isFavorite: false,
@@ -472,6 +812,75 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
             },
             category: 'Import'
         },
+        {
+            id: 'import-obsidian',
+            label: 'Import Obsidian Vault...',
+            parameters: [
+                {
+                    name: 'source', label: 'Vault', type: 'select' as const,
+                    options: [
+                        { value: 'folder', label: 'Choose the vault folder' },
+                        { value: 'zip', label: 'Choose a ZIP of the vault' },
+                    ],
+                },
+            ],
+            action: (params?: Record<string, string | number | boolean>) => {
+                pickImport(params?.source === 'zip' ? 'zip' : 'folder', planObsidianImport);
+            },
+            category: 'Import'
+        },
+        {
+            id: 'import-notion',
+            label: 'Import Notion Export (ZIP)',
+            action: () => pickImport('zip', planNotionImport),
+            category: 'Import'
+        },
+        {
+            id: 'import-docx',
+            label: 'Import Word Documents (DOCX)...',
+            action: () => pickImport('docx', planDocxImport),
+            category: 'Import'
+        },
+        {
+            id: 'restore-backup',
+            label: 'Restore Workspace Backup...',
+            parameters: [
+                {
+                    name: 'mode', label: 'Restore', type: 'select' as const,
+                    options: [
+                        { value: 'merge', label: 'Merge into this workspace' },
+                        { value: 'replace', label: 'Replace this workspace' },
+                    ],
+                },
+                {
+                    name: 'conflicts', label: 'When a note exists in both (merge)', type: 'select' as const,
+                    options: [
+                        { value: 'newer', label: 'Keep the newer version' },
+                        { value: 'keep-both', label: 'Keep both' },
+                    ],
+                },
+            ],
+            action: (params?: Record<string, string | number | boolean>) => {
+                const mode: RestoreMode = params?.mode === 'replace' ? 'replace' : 'merge';
+                const conflicts: ConflictPolicy = params?.conflicts === 'keep-both' ? 'keep-both' : 'newer';
+                const input = document.createElement('input');
+                input.type = 'file';
+                input.accept = '.zip';
+                input.onchange = async () => {
+                    const file = input.files?.[0];
+                    if (!file) return;
+                    try {
+                        handleRestoreBackup(await readBackup(await file.arrayBuffer()), mode, conflicts);
+                    } catch (error) {
+                        console.error('Failed to read backup:', error);
+                        const reason = error instanceof BackupError ? error.message : 'unreadable archive';
+                        showToast(sl ? `Cannot restore backup lah: ${reason}` : `Failed to restore backup: ${reason}`, 'error');
+                    }
+                };
+                input.click();
+            },
+            category: 'Import'
+        },
         // Global Export
         {
             id: 'export-all',
@@ -479,8 +888,8 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
             action: async () => {
                 showToast(sl ? 'Preparing export liao...' : 'Preparing export...', 'info');
                 const zip = new JSZip();
-                notes.forEach(note => {
-                    const filename = `${note.title || 'Untitled'}-${note.id.slice(0, 6)}.md`;
+                activeNotes.forEach(note => {
+                    const filename = `${folderToZipDir(note.folder ?? '')}${note.title || 'Untitled'}-${note.id.slice(0, 6)}.md`;
                     zip.file(filename, note.content);
                 });
                 const blob = await zip.generateAsync({ type: 'blob' });
@@ -490,7 +899,99 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
                 a.download = `yoro-export-${new Date().toISOString().slice(0, 10)}.zip`;
                 a.click();
                 URL.revokeObjectURL(url);
-                showToast(sl ? `${notes.length} notes exported liao` : `Exported ${notes.length} notes`, 'success');
+                showToast(sl ? `${activeNotes.length} notes exported liao` : `Exported ${activeNotes.length} notes`, 'success');
+            },
+            category: 'Export'
+        },
+        {
+            id: 'export-site',
+            label: 'Export Notes as Website (ZIP)',
+            parameters: [
+                {
+                    name: 'folder', label: 'Folder', type: 'select' as const,
+                    options: [{ value: '', label: 'All notes' }, ...folderPaths.map(p => ({ value: p, label: p }))],
+                },
+            ],
+            action: async (params?: Record<string, string | number | boolean>) => {
+                const folder = typeof params?.folder === 'string' ? params.folder : '';
+                showToast(sl ? 'Building website liao...' : 'Building website...', 'info');
+                try {
+                    const unembedded = await exportToSite(activeNotes, folder);
+                    if (unembedded > 0) {
+                        showToast(sl ? `Website done, but ${unembedded} image(s) cannot embed, kept as link` : `Website exported; ${unembedded} image(s) could not be embedded and were kept as links`, 'warning');
+                    } else {
+                        showToast(sl ? 'Website done liao' : 'Website exported', 'success');
+                    }
+                } catch (error) {
+                    console.error('Website export error:', error);
+                    showToast(sl ? 'Website cannot export lah' : 'Failed to export website', 'error');
+                }
+            },
+            category: 'Export'
+        },
+        {
+            id: 'export-book',
+            label: 'Export Notes as Book (EPUB / LaTeX)',
+            parameters: [
+                {
+                    name: 'source', label: 'Notes', type: 'select' as const,
+                    options: [
+                        { value: 'tabs', label: 'Open tabs, in tab order' },
+                        ...['', ...folderPaths].map(p => ({ value: `folder:${p}`, label: p ? `Folder: ${p}, by title` : 'All notes, by title' })),
+                    ],
+                },
+                {
+                    name: 'format', label: 'Format', type: 'select' as const,
+                    options: [{ value: 'epub', label: 'EPUB' }, { value: 'latex', label: 'LaTeX' }],
+                },
+                { name: 'title', label: 'Book title', type: 'text' as const, placeholder: 'My Book' },
+            ],
+            action: async (params?: Record<string, string | number | boolean>) => {
+                const source = typeof params?.source === 'string' ? params.source : 'tabs';
+                const pages = bookNotes(source);
+                if (pages.length === 0) {
+                    showToast(sl ? 'No notes to put in the book leh' : 'No notes to export', 'warning');
+                    return;
+                }
+                const folder = source.startsWith('folder:') ? source.slice('folder:'.length) : '';
+                const title = String(params?.title ?? '').trim() || folder || pages[0].title || 'Untitled';
+                const format = params?.format === 'latex' ? 'LaTeX' : 'EPUB';
+                showToast(sl ? `${format} coming liao...` : `Generating ${format}...`, 'info');
+                try {
+                    let unembedded = 0;
+                    if (format === 'LaTeX') await exportToLaTeX(pages, activeNotes, title);
+                    else unembedded = await exportToEPUB(pages, activeNotes, title);
+                    if (unembedded > 0) {
+                        showToast(sl ? `${format} done, but ${unembedded} image(s) cannot embed, left out` : `${format} exported; ${unembedded} image(s) could not be embedded and were left out`, 'warning');
+                    } else {
+                        showToast(sl ? `${pages.length} notes become ${format} liao` : `Exported ${pages.length} notes as ${format}`, 'success');
+                    }
+                } catch (error) {
+                    console.error(`${format} export error:`, error);
+                    showToast(sl ? `${format} cannot export lah` : `Failed to export ${format}`, 'error');
+                }
+            },
+            category: 'Export'
+        },
+        {
+            id: 'backup-workspace',
+            label: 'Back Up Workspace (ZIP)',
+            action: async () => {
+                showToast(sl ? 'Packing backup liao...' : 'Preparing backup...', 'info');
+                try {
+                    const zip = createBackup({ notes, preferences }, analytics.snapshot());
+                    const blob = await zip.generateAsync({ type: 'blob' });
+                    const url = URL.createObjectURL(blob);
+                    const a = document.createElement('a');
+                    a.href = url;
+                    a.download = `yoro-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+                    a.click();
+                    URL.revokeObjectURL(url);
+                    showToast(sl ? `Backup ${notes.length} notes liao` : `Backed up ${notes.length} notes`, 'success');
+                } catch (error) {
+                    console.error('Failed to create backup:', error);
+                    showToast(sl ? 'Cannot make backup lah' : 'Failed to create backup', 'error');
+                }
             },
             category: 'Export'
         },
@@ -498,7 +999,7 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
         ...(currentNoteId ? [
             {
                 id: 'delete-note',
-                label: 'Delete Current Note',
+                label: 'Move Current Note to Trash',
                 action: () => {
                     const id = getCurrentNoteId();
                     if (id) handleDeleteNote(id, { stopPropagation: () => { } });
@@ -516,6 +1017,149 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
                 category: 'Note',
                 context: 'editor' as const
             },
+            {
+                id: 'move-note-to-folder',
+                label: 'Move Note to Folder...',
+                parameters: [
+                    {
+                        name: 'folder', label: 'Folder', type: 'select' as const,
+                        options: [{ value: '', label: 'All notes (top level)' }, ...folderPaths.map(p => ({ value: p, label: p }))],
+                    },
+                ],
+                action: (params?: Record<string, string | number | boolean>) => {
+                    const id = getCurrentNoteId();
+                    if (id && params) handleMoveNoteToFolder(id, String(params.folder ?? ''));
+                },
+                category: 'Folders',
+                context: 'editor' as const
+            },
+            // Split panes
+            {
+                id: 'split-preview',
+                label: 'Split: Source and Preview (Toggle)',
+                action: () => setSplitView(splitView?.mode === 'preview' ? null : { mode: 'preview', ratio: splitView?.ratio ?? 0.5 }),
+                category: 'View',
+                context: 'editor' as const,
+                shortcut: 'Cmd+\\'
+            },
+            {
+                id: 'split-previous-note',
+                label: 'Split: Open Previous Note Beside',
+                action: () => {
+                    const previous = (preferences.recentNoteIds || []).find(id => id !== currentNoteId && activeNotes.some(n => n.id === id));
+                    if (!previous) {
+                        showToast(sl ? 'No other note opened before leh' : 'No other recently opened note', 'warning');
+                        return;
+                    }
+                    setSplitView({ mode: 'note', noteId: previous, ratio: splitView?.ratio ?? 0.5 });
+                },
+                category: 'View',
+                context: 'editor' as const,
+                shortcut: 'Cmd+Shift+O'
+            },
+            {
+                id: 'split-with-note',
+                label: 'Split: Open Note Beside...',
+                parameters: [
+                    {
+                        name: 'note', label: 'Note', type: 'select' as const,
+                        options: activeNotes.filter(n => n.id !== currentNoteId).map(n => ({ value: n.id, label: n.title || 'Untitled' })),
+                    },
+                ],
+                action: (params?: Record<string, string | number | boolean>) => {
+                    if (!params?.note) return;
+                    setSplitView({ mode: 'note', noteId: String(params.note), ratio: splitView?.ratio ?? 0.5 });
+                },
+                category: 'View',
+                context: 'editor' as const
+            },
+            ...(splitView ? [
+                {
+                    id: 'close-split',
+                    label: 'Close Split',
+                    action: () => setSplitView(null),
+                    category: 'View',
+                    context: 'editor' as const
+                },
+            ] : []),
+            ...(splitView?.mode === 'note' ? [
+                {
+                    id: 'swap-split',
+                    label: 'Split: Swap Panes',
+                    action: () => handleSwapSplit(),
+                    category: 'View',
+                    context: 'editor' as const
+                },
+            ] : []),
+            // Tabs
+            {
+                id: 'close-tab',
+                label: 'Close Tab',
+                action: () => handleCloseTab(currentNoteId),
+                category: 'Tabs',
+                context: 'editor' as const
+            },
+            {
+                id: 'toggle-pin-tab',
+                label: openTabs.find(t => t.noteId === currentNoteId)?.pinned ? 'Unpin Tab' : 'Pin Tab',
+                action: () => handleTogglePinTab(currentNoteId),
+                category: 'Tabs',
+                context: 'editor' as const
+            },
+            {
+                id: 'close-other-tabs',
+                label: 'Close Other Tabs',
+                action: () => handleUpdatePreferences({ openTabs: closeOtherTabs(preferences.openTabs ?? [], currentNoteId) }),
+                category: 'Tabs',
+                context: 'editor' as const
+            },
+            {
+                id: 'open-note-in-new-tab',
+                label: 'Open Note in New Tab...',
+                parameters: [
+                    {
+                        name: 'note', label: 'Note', type: 'select' as const,
+                        options: activeNotes.filter(n => n.id !== currentNoteId).map(n => ({ value: n.id, label: n.title || 'Untitled' })),
+                    },
+                ],
+                action: (params?: Record<string, string | number | boolean>) => {
+                    if (params?.note) handleOpenInNewTab(String(params.note));
+                },
+                category: 'Tabs',
+                context: 'editor' as const
+            },
+            ...(openTabs.length > 1 ? [
+                {
+                    id: 'next-tab',
+                    label: 'Next Tab',
+                    action: () => cycleTab(1),
+                    category: 'Tabs',
+                    context: 'editor' as const,
+                    shortcut: 'Cmd+Alt+ArrowRight'
+                },
+                {
+                    id: 'previous-tab',
+                    label: 'Previous Tab',
+                    action: () => cycleTab(-1),
+                    category: 'Tabs',
+                    context: 'editor' as const,
+                    shortcut: 'Cmd+Alt+ArrowLeft'
+                },
+            ] : []),
+            {
+                id: 'add-property',
+                label: 'Add Property',
+                action: () => window.dispatchEvent(new CustomEvent('yoro-editor-cmd', { detail: { command: 'add-property' } })),
+                category: 'Note',
+                context: 'editor' as const
+            },
+            {
+                id: 'version-history',
+                label: 'Version History',
+                action: () => setIsVersionHistoryOpen(true),
+                category: 'Note',
+                context: 'editor' as const
+            },
             {
                 id: 'export-markdown',
                 label: 'Export as Markdown',
@@ -545,7 +1189,7 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
                     if (note) {
                         try {
                             showToast(sl ? 'PDF coming liao...' : 'Generating PDF...', 'info');
-                            await exportToPDF(note.content, note.title || 'Untitled');
+                            await exportToPDF(note.content, note.title || 'Untitled', undefined, { notes: activeNotes, noteId: note.id });
                             showToast(sl ? 'PDF done liao' : 'PDF exported successfully', 'success');
                         } catch (err) {
                             console.error('PDF export error:', err);
@@ -565,7 +1209,7 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
                     if (note) {
                         try {
                             showToast(sl ? 'DOCX coming liao...' : 'Generating DOCX...', 'info');
-                            await exportToDOCX(note.content, note.title || 'Untitled');
+                            await exportToDOCX(note.content, note.title || 'Untitled', undefined, { notes: activeNotes, noteId: note.id });
                             showToast(sl ? 'DOCX done liao' : 'DOCX exported successfully', 'success');
                         } catch (err) {
                             console.error('DOCX export error:', err);
@@ -576,6 +1220,73 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
                 category: 'Export',
                 context: 'editor' as const
             },
+            {
+                id: 'export-html',
+                label: 'Export as HTML',
+                action: async () => {
+                    const id = getCurrentNoteId();
+                    const note = notes.find(n => n.id === id);
+                    if (note) {
+                        try {
+                            showToast(sl ? 'HTML coming liao...' : 'Generating HTML...', 'info');
+                            const unembedded = await exportToHTML(note, activeNotes);
+                            if (unembedded > 0) {
+                                showToast(sl ? `HTML done, but ${unembedded} image(s) cannot embed, kept as link` : `HTML exported; ${unembedded} image(s) could not be embedded and were kept as links`, 'warning');
+                            } else {
+                                showToast(sl ? 'HTML done liao' : 'HTML exported successfully', 'success');
+                            }
+                        } catch (err) {
+                            console.error('HTML export error:', err);
+                            showToast(sl ? 'HTML cannot export lah' : 'Failed to export HTML', 'error');
+                        }
+                    }
+                },
+                category: 'Export',
+                context: 'editor' as const
+            },
+            {
+                id: 'export-epub',
+                label: 'Export as EPUB',
+                action: async () => {
+                    const id = getCurrentNoteId();
+                    const note = notes.find(n => n.id === id);
+                    if (note) {
+                        try {
+                            showToast(sl ? 'EPUB coming liao...' : 'Generating EPUB...', 'info');
+                            const unembedded = await exportToEPUB([note], activeNotes, note.title || 'Untitled');
+                            if (unembedded > 0) {
+                                showToast(sl ? `EPUB done, but ${unembedded} image(s) cannot embed, left out` : `EPUB exported; ${unembedded} image(s) could not be embedded and were left out`, 'warning');
+                            } else {
+                                showToast(sl ? 'EPUB done liao' : 'EPUB exported successfully', 'success');
+                            }
+                        } catch (err) {
+                            console.error('EPUB export error:', err);
+                            showToast(sl ? 'EPUB cannot export lah' : 'Failed to export EPUB', 'error');
+                        }
+                    }
+                },
+                category: 'Export',
+                context: 'editor' as const
+            },
+            {
+                id: 'export-latex',
+                label: 'Export as LaTeX',
+                action: async () => {
+                    const id = getCurrentNoteId();
+                    const note = notes.find(n => n.id === id);
+                    if (note) {
+                        try {
+                            await exportToLaTeX([note], activeNotes, note.title || 'Untitled');
+                            showToast(sl ? 'LaTeX done liao' : 'LaTeX exported successfully', 'success');
+                        } catch (err) {
+                            console.error('LaTeX export error:', err);
+                            showToast(sl ? 'LaTeX cannot export lah' : 'Failed to export LaTeX', 'error');
+                        }
+                    }
+                },
+                category: 'Export',
+                context: 'editor' as const
+            },
             {
                 id: 'share-note',
                 label: 'Share Note (Copy Link)',
@@ -609,6 +1320,12 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
                 context: 'editor' as const,
                 shortcut: 'Cmd+Alt+F'
             },
+            {
+                id: 'find-replace-all-notes',
+                label: 'Find and Replace in All Notes',
+                action: () => handleOpenMultiNoteReplace(''),
+                category: 'Editor',
+            },
             {
                 id: 'insert-table',
                 label: 'Insert Table',
@@ -637,17 +1354,46 @@ export function createCommands(args: CommandFactoryArgs): Command[] {
                 category: 'Editor',
                 context: 'editor' as const,
             },
-            ...templates.map(t => ({
+            ...allTemplates.map(t => ({
                 id: `insert-template-${t.id}`,
                 label: `Insert Template: ${t.name}`,
-                action: () => {
-                    window.dispatchEvent(new CustomEvent('yoro-editor-cmd', {
-                        detail: { command: 'insert-template', content: t.content }
-                    }));
-                },
+                action: (params?: Record<string, string | number | boolean>) => handleApplyTemplate(t, 'insert', params),
                 category: 'Editor',
                 context: 'editor' as const,
+                parameters: promptParameters(t),
+            })),
+            ...allTemplates.map(t => ({
+                id: `new-note-from-template-${t.id}`,
+                label: `New Note from Template: ${t.name}`,
+                action: (params?: Record<string, string | number | boolean>) => handleApplyTemplate(t, 'new', params),
+                category: 'Templates',
+                parameters: [
+                    { name: 'title', type: 'text' as const, label: 'Note title', placeholder: t.name },
+                    ...promptParameters(t),
+                ],
             })),
+            {
+                id: 'toggle-template',
+                label: 'Use Note as Template (Toggle)',
+                action: () => {
+                    const note = notes.find(n => n.id === getCurrentNoteId());
+                    if (!note) return;
+                    if (isTemplateNote(note)) {
+                        // dropping the tag can't help while the folder still makes it one
+                        if (!note.tags.some(t => TEMPLATE_TAGS.includes(t.toLowerCase()))) {
+                            showToast(sl ? `Inside ${TEMPLATE_FOLDER} folder sure is template, move it out first` : `Notes in the ${TEMPLATE_FOLDER} folder are always templates; move it out first`, 'info');
+                            return;
+                        }
+                        handleUpdateNote(note.id, { tags: note.tags.filter(t => !TEMPLATE_TAGS.includes(t.toLowerCase())) });
+                        showToast(sl ? 'Not template already' : 'Note is no longer a template', 'info');
+                    } else {
+                        handleUpdateNote(note.id, { tags: [...note.tags, TEMPLATE_TAGS[0]] });
+                        showToast(sl ? 'Can use as template liao' : 'Note saved as a template', 'success');
+                    }
+                },
+                category: 'Templates',
+                context: 'editor' as const,
+            },
             {
                 id: 'insert-mermaid-flowchart',
                 label: 'Insert Flowchart',
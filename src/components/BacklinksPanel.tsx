@@ -1,5 +1,10 @@
 import React, { useMemo, useEffect, useRef } from 'react';
 import type { Note } from '../types';
+import { parseWikilinkTarget } from '../utils/wikilinks';
+import { MENTION_RE } from '../utils/linkRewrite';
+import { isConfigNote } from '../utils/config';
+import { findUnlinkedMentions, linkMention, type UnlinkedMention } from '../utils/unlinkedMentions';
+import { showToast } from './Toast';
 import { useSinglish } from '../contexts/SinglishContext';
 import './styles/BacklinksPanel.css';
 
@@ -9,6 +14,7 @@ interface BacklinksPanelProps {
     currentNote: Note | null;
     notes: Note[];
     onNavigate: (noteId: string) => void;
+    onLinkMention: (noteId: string, content: string) => void;
 }
 
 interface Backlink {
@@ -24,6 +30,7 @@ export const BacklinksPanel: React.FC<BacklinksPanelProps> = ({
     currentNote,
     notes,
     onNavigate,
+    onLinkMention,
 }) => {
     const sl = useSinglish();
     const navTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -52,11 +59,11 @@ export const BacklinksPanel: React.FC<BacklinksPanelProps> = ({
                 const lineNumber = i + 1;
 
                 try {
-                    // Check for wikilinks: [[Note Title]] or [[Note Title|alias]]
-                    const wikilinkRegex = /\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g;
+                    // Check for wikilinks: [[Note Title]], [[Note Title#Heading]], [[Note Title^block]], with optional |alias
+                    const wikilinkRegex = /\[\[([^\]]+)\]\]/g;
                     let match;
                     while ((match = wikilinkRegex.exec(line)) !== null) {
-                        const linkedTitle = match[1].trim().toLowerCase();
+                        const linkedTitle = parseWikilinkTarget(match[1]).title.toLowerCase();
                         if (linkedTitle === currentTitle) {
                             results.push({
                                 note,
@@ -69,9 +76,8 @@ export const BacklinksPanel: React.FC<BacklinksPanelProps> = ({
                     }
 
                     // Check for @mentions: @note-title or @"note title"
-                    const mentionRegex = /@(?:"([^"]+)"|(\S+))/g;
-                    while ((match = mentionRegex.exec(line)) !== null) {
-                        const mentionedTitle = (match[1] || match[2]).trim().toLowerCase();
+                    for (const mention of line.matchAll(MENTION_RE)) {
+                        const mentionedTitle = (mention[1] || mention[2]).trim().toLowerCase();
                         if (mentionedTitle === currentTitle) {
                             results.push({
                                 note,
@@ -110,6 +116,30 @@ export const BacklinksPanel: React.FC<BacklinksPanelProps> = ({
         }));
     }, [backlinks]);
 
+    // plain-text occurrences of the title or its aliases that could become links
+    const unlinkedGroups = useMemo(() => {
+        if (!isOpen || !currentNote) return [];
+        const candidates = notes.filter(n => !isConfigNote(n));
+        const groups = new Map<string, { note: Note; mentions: UnlinkedMention[] }>();
+        for (const mention of findUnlinkedMentions(candidates, currentNote)) {
+            const group = groups.get(mention.noteId);
+            if (group) group.mentions.push(mention);
+            else groups.set(mention.noteId, { note: notes.find(n => n.id === mention.noteId)!, mentions: [mention] });
+        }
+        return Array.from(groups.values()).sort((a, b) => a.note.title.localeCompare(b.note.title));
+    }, [isOpen, currentNote, notes]);
+    const unlinkedCount = unlinkedGroups.reduce((sum, g) => sum + g.mentions.length, 0);
+
+    const handleLink = (note: Note, mention: UnlinkedMention) => {
+        if (!currentNote) return;
+        const updated = linkMention(note.content, mention, currentNote.title);
+        if (updated === null) {
+            showToast(sl ? 'That one changed already leh' : 'That mention has changed; try again', 'warning');
+            return;
+        }
+        onLinkMention(note.id, updated);
+    };
+
     const handleNavigate = (targetNoteId: string, lineNumber?: number) => {
         onNavigate(targetNoteId);
         onClose();
@@ -194,6 +224,49 @@ export const BacklinksPanel: React.FC<BacklinksPanelProps> = ({
                         ))}
                     </div>
                 )}
+
+                {currentNote && unlinkedGroups.length > 0 && (
+                    <div className="backlinks-unlinked">
+                        <h4 className="backlinks-section-title">
+                            {sl ? 'Mentioned but never link' : 'Unlinked mentions'}
+                            <span className="backlink-count">{unlinkedCount}</span>
+                        </h4>
+                        <div className="backlinks-list">
+                            {unlinkedGroups.map(({ note, mentions }) => (
+                                <div key={note.id} className="backlink-group">
+                                    <button className="backlink-note-title" onClick={() => handleNavigate(note.id)}>
+                                        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                                            <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+                                            <polyline points="14 2 14 8 20 8" />
+                                        </svg>
+                                        {note.title || 'Untitled'}
+                                        <span className="backlink-count">{mentions.length}</span>
+                                    </button>
+                                    <div className="backlink-references">
+                                        {mentions.map(mention => (
+                                            <div key={mention.from} className="backlink-unlinked-row">
+                                                <button
+                                                    className="backlink-reference"
+                                                    onClick={() => handleNavigate(note.id, mention.lineNumber)}
+                                                >
+                                                    <span className="backlink-line-number">{mention.lineNumber}</span>
+                                                    <span className="backlink-line-content">{renderMentionContext(mention)}</span>
+                                                </button>
+                                                <button
+                                                    className="backlink-link-btn"
+                                                    onClick={() => handleLink(note, mention)}
+                                                    title={sl ? `Turn into [[${currentNote.title}]]` : `Wrap in [[${currentNote.title}]]`}
+                                                >
+                                                    {sl ? 'Link it' : 'Link'}
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
             </div>
 
             <div className="backlinks-footer">
@@ -205,6 +278,24 @@ export const BacklinksPanel: React.FC<BacklinksPanelProps> = ({
     );
 };
 
+// characters of context shown before an unlinked mention
+const MENTION_CONTEXT = 40;
+
+function renderMentionContext(mention: UnlinkedMention): React.ReactNode {
+    const { lineContent, column, text } = mention;
+    const start = Math.max(0, column - MENTION_CONTEXT);
+    const before = lineContent.slice(start, column).trimStart();
+    const after = truncateContent(lineContent.slice(column + text.length), Math.max(20, 100 - before.length - text.length));
+    return (
+        <>
+            {start > 0 && '...'}
+            {before}
+            <mark className="backlink-mention">{text}</mark>
+            {after}
+        </>
+    );
+}
+
 function truncateContent(content: string, maxLength: number): string {
     if (content.length <= maxLength) return content;
     return content.slice(0, maxLength).trim() + '...';
@@ -0,0 +1,92 @@
+import React, { useState, useMemo } from 'react';
+import type { Note } from '../types';
+import { dailyNoteDates, findPeriodicNote, isoWeek, periodStart, type PeriodType } from '../utils/periodicNotes';
+import { toDateKey } from '../utils/views';
+import { useSinglish } from '../contexts/SinglishContext';
+import './styles/CalendarPanel.css';
+
+interface CalendarPanelProps {
+    isOpen: boolean;
+    notes: Note[];
+    /** title of the open note, so its day is highlighted */
+    currentTitle?: string;
+    onOpenPeriod: (type: PeriodType, date: Date) => void;
+    onClose: () => void;
+}
+
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+
+// six Monday-first weeks covering the month
+function monthWeeks(month: Date): Date[][] {
+    const start = periodStart('weekly', month);
+    return Array.from({ length: 6 }, (_, w) =>
+        Array.from({ length: 7 }, (_, d) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + w * 7 + d))
+    );
+}
+
+export const CalendarPanel: React.FC<CalendarPanelProps> = ({ isOpen, notes, currentTitle, onOpenPeriod, onClose }) => {
+    const sl = useSinglish();
+    const [month, setMonth] = useState(() => periodStart('monthly', new Date()));
+    const noteDates = useMemo(() => dailyNoteDates(notes), [notes]);
+
+    if (!isOpen) return null;
+
+    const today = toDateKey(new Date());
+    const shiftMonth = (delta: number) => setMonth(m => new Date(m.getFullYear(), m.getMonth() + delta, 1));
+    const hasMonthly = !!findPeriodicNote(notes, 'monthly', month);
+
+    return (
+        <div className="calendar-panel" role="region" aria-label="Calendar">
+            <div className="calendar-header">
+                <button className="calendar-nav" onClick={() => shiftMonth(-1)} aria-label="Previous month">‹</button>
+                <button
+                    className={`calendar-month ${hasMonthly ? 'has-note' : ''}`}
+                    onClick={() => onOpenPeriod('monthly', month)}
+                    title={sl ? 'Open this month note' : 'Open monthly note'}
+                >
+                    {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+                </button>
+                <button className="calendar-nav" onClick={() => shiftMonth(1)} aria-label="Next month">›</button>
+                <button className="calendar-close" onClick={onClose} aria-label="Close calendar">×</button>
+            </div>
+            <div className="calendar-grid">
+                <span className="calendar-weekday calendar-week-label">Wk</span>
+                {WEEKDAYS.map(d => <span key={d} className="calendar-weekday">{d}</span>)}
+                {monthWeeks(month).map(week => {
+                    const { week: weekNumber } = isoWeek(week[0]);
+                    const hasWeekly = !!findPeriodicNote(notes, 'weekly', week[0]);
+                    return (
+                        <React.Fragment key={toDateKey(week[0])}>
+                            <button
+                                className={`calendar-week ${hasWeekly ? 'has-note' : ''}`}
+                                onClick={() => onOpenPeriod('weekly', week[0])}
+                                title={sl ? `Open week ${weekNumber} note` : `Open weekly note for week ${weekNumber}`}
+                            >{weekNumber}</button>
+                            {week.map(day => {
+                                const key = toDateKey(day);
+                                const classes = [
+                                    'calendar-day',
+                                    day.getMonth() !== month.getMonth() ? 'outside' : '',
+                                    key === today ? 'today' : '',
+                                    key === currentTitle ? 'current' : '',
+                                    noteDates.has(key) ? 'has-note' : '',
+                                ].filter(Boolean).join(' ');
+                                return (
+                                    <button
+                                        key={key}
+                                        className={classes}
+                                        onClick={() => onOpenPeriod('daily', day)}
+                                        title={noteDates.has(key) ? key : (sl ? `Create ${key} note` : `Create daily note for ${key}`)}
+                                    >{day.getDate()}</button>
+                                );
+                            })}
+                        </React.Fragment>
+                    );
+                })}
+            </div>
+            <button className="calendar-today" onClick={() => { setMonth(periodStart('monthly', new Date())); onOpenPeriod('daily', new Date()); }}>
+                {sl ? "Open today's one" : "Open today's note"}
+            </button>
+        </div>
+    );
+};
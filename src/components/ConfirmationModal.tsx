@@ -7,11 +7,16 @@ interface ConfirmationModalProps {
     isOpen: boolean;
     title?: string;
     message: string;
+    /** optional list shown under the message, e.g. the notes an action touches */
+    items?: string[];
+    confirmLabel?: string;
+    /** non-destructive confirmations get the accent colour instead of red */
+    destructive?: boolean;
     onConfirm: () => void;
     onCancel: () => void;
 }
 
-export const ConfirmationModal: React.FC<ConfirmationModalProps> = ({ isOpen, title, message, onConfirm, onCancel }) => {
+export const ConfirmationModal: React.FC<ConfirmationModalProps> = ({ isOpen, title, message, items, confirmLabel, destructive = true, onConfirm, onCancel }) => {
     const sl = useSinglish();
     const resolvedTitle = title ?? (sl ? 'Confirm anot?' : 'Confirm');
     const trapRef = useFocusTrap(isOpen);
@@ -52,9 +57,16 @@ export const ConfirmationModal: React.FC<ConfirmationModalProps> = ({ isOpen, ti
             <div className="modal-container" onClick={(e) => e.stopPropagation()} ref={trapRef as React.RefObject<HTMLDivElement>}>
                 <h3 className="modal-title" id="confirmation-modal-title">{resolvedTitle}</h3>
                 <p className="modal-message">{message}</p>
+                {items && items.length > 0 && (
+                    <ul className="modal-list">
+                        {items.map((item, i) => <li key={i}>{item}</li>)}
+                    </ul>
+                )}
                 <div className="modal-actions">
                     <button className="modal-btn cancel" onClick={onCancel}>{sl ? 'Dun want' : 'Cancel'}</button>
-                    <button className="modal-btn confirm" onClick={onConfirm}>{sl ? 'Delete lah' : 'Delete'}</button>
+                    <button className={`modal-btn confirm ${destructive ? '' : 'neutral'}`} onClick={onConfirm}>
+                        {confirmLabel ?? (sl ? 'Delete lah' : 'Delete')}
+                    </button>
                 </div>
             </div>
         </div>
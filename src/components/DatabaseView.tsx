@@ -0,0 +1,451 @@
+import React, { useState, useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import type { Note, NoteView, ViewFilter, ViewLayout, ViewSort } from '../types';
+import {
+    applyView, getAvailableFields, getFieldType, getFieldValue, setFieldValue, groupNotes,
+    moveBetweenGroups, isReadOnlyField, toDateKey, FILTER_OPERATORS, NO_VALUE_GROUP,
+} from '../utils/views';
+import { formatPropertyValue, type NoteProperty, type PropertyType, type PropertyValue } from '../utils/properties';
+import { PropertyValueInput } from './PropertiesPanel';
+import { ConfirmationModal } from './ConfirmationModal';
+import { useSinglish } from '../contexts/SinglishContext';
+import './styles/NoteList.css';
+import './styles/PropertiesPanel.css';
+import './styles/DatabaseView.css';
+
+interface DatabaseViewProps {
+    views: NoteView[];
+    notes: Note[];
+    isLoading?: boolean;
+    onUpdateView: (view: NoteView) => void;
+    onDeleteView: (id: string) => void;
+    onUpdateNote: (id: string, updates: Partial<Note>) => void;
+    onSelectNote: (id: string) => void;
+    onBack: () => void;
+}
+
+type OpenEditor = 'filters' | 'sorts' | 'fields' | null;
+
+const LAYOUTS: { layout: ViewLayout; label: string }[] = [
+    { layout: 'table', label: 'Table' },
+    { layout: 'board', label: 'Board' },
+    { layout: 'calendar', label: 'Calendar' },
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const FIELD_LABELS: Record<string, string> = { title: 'Title', tags: 'Tags', created: 'Created', updated: 'Updated' };
+const fieldLabel = (field: string) => FIELD_LABELS[field] ?? field;
+
+// a stand-in for a property the note doesn't set yet, so its cell can still be edited
+function blankProperty(key: string, type: PropertyType): NoteProperty {
+    return { key, type, value: type === 'list' ? [] : type === 'checkbox' ? false : '' };
+}
+
+// the 6-week grid shown for a month, starting on the Sunday on or before the 1st
+function monthGrid(month: Date): Date[] {
+    const start = new Date(month.getFullYear(), month.getMonth(), 1);
+    start.setDate(start.getDate() - start.getDay());
+    return Array.from({ length: 42 }, (_, i) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+}
+
+export const DatabaseView: React.FC<DatabaseViewProps> = ({
+    views, notes, isLoading = false, onUpdateView, onDeleteView, onUpdateNote, onSelectNote, onBack,
+}) => {
+    const sl = useSinglish();
+    const { id } = useParams<{ id: string }>();
+    const view = views.find(v => v.id === id);
+    const [openEditor, setOpenEditor] = useState<OpenEditor>(null);
+    const [confirmDelete, setConfirmDelete] = useState(false);
+    const [month, setMonth] = useState(() => { const d = new Date(); return new Date(d.getFullYear(), d.getMonth(), 1); });
+    const [extraGroups, setExtraGroups] = useState<string[]>([]);
+    const [newGroup, setNewGroup] = useState('');
+    const [dragOver, setDragOver] = useState<string | null>(null);
+
+    const fields = useMemo(() => getAvailableFields(notes), [notes]);
+    const fieldTypes = useMemo(
+        () => new Map(fields.map(f => [f, getFieldType(notes, f)])),
+        [fields, notes]
+    );
+    const rows = useMemo(() => view ? applyView(notes, view) : [], [notes, view]);
+
+    if (!view) {
+        if (isLoading) return null;
+        return (
+            <div className="note-list-container">
+                <div className="empty-state">
+                    <p className="empty-state-text">{sl ? 'View not found leh' : 'View not found'}</p>
+                    <button className="docs-list-action-btn" onClick={onBack}>{sl ? '← Balik' : '← Notes'}</button>
+                </div>
+            </div>
+        );
+    }
+
+    const update = (changes: Partial<NoteView>) => onUpdateView({ ...view, ...changes });
+    const typeOf = (field: string): PropertyType => fieldTypes.get(field) ?? 'text';
+    const dateFields = fields.filter(f => typeOf(f) === 'date');
+
+    const writeField = (note: Note, field: string, value: PropertyValue | null) => {
+        const updates = setFieldValue(note, field, value);
+        if (updates) onUpdateNote(note.id, updates);
+    };
+
+    const renderCell = (note: Note, field: string) => {
+        if (field === 'title') {
+            return (
+                <button className="db-title-link" onClick={() => onSelectNote(note.id)}>
+                    {note.icon && <span className="db-note-icon">{note.icon}</span>}
+                    {note.title || 'Untitled'}
+                </button>
+            );
+        }
+        const prop = getFieldValue(note, field);
+        if (isReadOnlyField(field)) return <span className="db-readonly">{prop ? formatPropertyValue(prop.value) : ''}</span>;
+        return (
+            <PropertyValueInput
+                prop={prop ?? blankProperty(field, typeOf(field))}
+                notes={notes}
+                onCommit={value => writeField(note, field, value)}
+                onNavigate={onSelectNote}
+            />
+        );
+    };
+
+    // --- rule editors ---
+
+    const setFilter = (index: number, changes: Partial<ViewFilter>) =>
+        update({ filters: view.filters.map((f, i) => i === index ? { ...f, ...changes } : f) });
+    const setSort = (index: number, changes: Partial<ViewSort>) =>
+        update({ sorts: view.sorts.map((s, i) => i === index ? { ...s, ...changes } : s) });
+
+    const fieldOptions = fields.map(f => <option key={f} value={f}>{fieldLabel(f)}</option>);
+
+    const renderFilters = () => (
+        <div className="db-rules">
+            {view.filters.length === 0 && <div className="db-rules-empty">{sl ? 'No filter yet' : 'No filters; every note is shown'}</div>}
+            {view.filters.map((filter, i) => (
+                <div key={i} className="db-rule">
+                    <select value={filter.field} onChange={e => setFilter(i, { field: e.target.value })} aria-label="Filter field">{fieldOptions}</select>
+                    <select value={filter.operator} onChange={e => setFilter(i, { operator: e.target.value as ViewFilter['operator'] })} aria-label="Filter operator">
+                        {FILTER_OPERATORS.map(o => <option key={o.operator} value={o.operator}>{o.label}</option>)}
+                    </select>
+                    {filter.operator !== 'empty' && filter.operator !== 'not-empty' && (
+                        <input
+                            type={typeOf(filter.field) === 'date' ? 'date' : 'text'}
+                            className="property-input"
+                            value={filter.value}
+                            onChange={e => setFilter(i, { value: e.target.value })}
+                            placeholder="Value"
+                            aria-label="Filter value"
+                        />
+                    )}
+                    <button className="db-rule-remove" onClick={() => update({ filters: view.filters.filter((_, j) => j !== i) })} aria-label="Remove filter">×</button>
+                </div>
+            ))}
+            <button className="property-add" onClick={() => update({ filters: [...view.filters, { field: fields[0], operator: 'is', value: '' }] })}>
+                {sl ? '+ Add filter lah' : '+ Add filter'}
+            </button>
+        </div>
+    );
+
+    const renderSorts = () => (
+        <div className="db-rules">
+            {view.sorts.length === 0 && <div className="db-rules-empty">{sl ? 'No sort, latest first' : 'No sort rules; most recently updated first'}</div>}
+            {view.sorts.map((sort, i) => (
+                <div key={i} className="db-rule">
+                    <select value={sort.field} onChange={e => setSort(i, { field: e.target.value })} aria-label="Sort field">{fieldOptions}</select>
+                    <select value={sort.descending ? 'desc' : 'asc'} onChange={e => setSort(i, { descending: e.target.value === 'desc' })} aria-label="Sort direction">
+                        <option value="asc">Ascending</option>
+                        <option value="desc">Descending</option>
+                    </select>
+                    <button className="db-rule-remove" onClick={() => update({ sorts: view.sorts.filter((_, j) => j !== i) })} aria-label="Remove sort">×</button>
+                </div>
+            ))}
+            <button className="property-add" onClick={() => update({ sorts: [...view.sorts, { field: fields[0], descending: false }] })}>
+                {sl ? '+ Add sort lah' : '+ Add sort'}
+            </button>
+        </div>
+    );
+
+    const renderFieldPicker = () => (
+        <div className="db-rules db-field-picker">
+            {fields.filter(f => f !== 'title').map(field => (
+                <label key={field} className="db-field-option">
+                    <input
+                        type="checkbox"
+                        checked={view.columns.includes(field)}
+                        onChange={e => update({
+                            columns: e.target.checked ? [...view.columns, field] : view.columns.filter(c => c !== field),
+                        })}
+                    />
+                    {fieldLabel(field)}
+                    <span className="db-field-type">{typeOf(field)}</span>
+                </label>
+            ))}
+        </div>
+    );
+
+    // --- layouts ---
+
+    const renderTable = () => (
+        <div className="db-table-wrapper">
+            <table className="db-table">
+                <thead>
+                    <tr>
+                        <th>Title</th>
+                        {view.columns.map(c => <th key={c}>{fieldLabel(c)}</th>)}
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(note => (
+                        <tr key={note.id}>
+                            <td className="db-cell-title">{renderCell(note, 'title')}</td>
+                            {view.columns.map(c => <td key={c}>{renderCell(note, c)}</td>)}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {rows.length === 0 && <div className="db-rules-empty">{sl ? 'No notes match leh' : 'No notes match this view'}</div>}
+        </div>
+    );
+
+    const handleDrop = (e: React.DragEvent, toGroup: string) => {
+        e.preventDefault();
+        setDragOver(null);
+        const groupBy = view.groupBy;
+        if (!groupBy) return;
+        try {
+            const { noteId, from } = JSON.parse(e.dataTransfer.getData('text/plain'));
+            const note = notes.find(n => n.id === noteId);
+            if (!note || from === toGroup) return;
+            writeField(note, groupBy, moveBetweenGroups(note, groupBy, typeOf(groupBy), from, toGroup));
+        } catch {
+            // not a card from this board
+        }
+    };
+
+    const renderCard = (note: Note, group: string, draggable: boolean) => (
+        <div
+            key={note.id}
+            className="db-card"
+            draggable={draggable}
+            onDragStart={e => e.dataTransfer.setData('text/plain', JSON.stringify({ noteId: note.id, from: group }))}
+            onClick={() => onSelectNote(note.id)}
+            style={note.accentColor ? { borderLeft: `3px solid ${note.accentColor}` } : undefined}
+        >
+            <div className="db-card-title">{note.icon && <span className="db-note-icon">{note.icon}</span>}{note.title || 'Untitled'}</div>
+            {view.columns.filter(c => c !== view.groupBy).map(c => {
+                const prop = getFieldValue(note, c);
+                if (!prop) return null;
+                const text = formatPropertyValue(prop.value);
+                return text ? <div key={c} className="db-card-field"><span>{fieldLabel(c)}</span> {text}</div> : null;
+            })}
+        </div>
+    );
+
+    const renderBoard = () => {
+        const groupBy = view.groupBy ?? 'tags';
+        const groups = groupNotes(rows, groupBy);
+        const known = new Set(groups.map(g => g.value));
+        const columns = [
+            ...groups.filter(g => g.value !== NO_VALUE_GROUP),
+            ...extraGroups.filter(g => !known.has(g)).map(value => ({ value, notes: [] as Note[] })),
+            ...groups.filter(g => g.value === NO_VALUE_GROUP),
+        ];
+        const canMove = !isReadOnlyField(groupBy) && groupBy !== 'title';
+        return (
+            <div className="db-board">
+                {columns.map(group => (
+                    <div
+                        key={group.value || '__none'}
+                        className={`db-board-column ${dragOver === group.value ? 'drag-over' : ''}`}
+                        onDragOver={e => { if (canMove) { e.preventDefault(); setDragOver(group.value); } }}
+                        onDragLeave={() => setDragOver(null)}
+                        onDrop={e => handleDrop(e, group.value)}
+                    >
+                        <div className="db-board-column-header">
+                            <span>{group.value || (sl ? 'Nothing' : 'No value')}</span>
+                            <span className="db-count">{group.notes.length}</span>
+                        </div>
+                        {group.notes.map(note => renderCard(note, group.value, canMove))}
+                    </div>
+                ))}
+                {canMove && (
+                    <div className="db-board-column db-board-add">
+                        <input
+                            type="text"
+                            className="property-input"
+                            value={newGroup}
+                            onChange={e => setNewGroup(e.target.value)}
+                            onKeyDown={e => {
+                                if (e.key === 'Enter' && newGroup.trim()) {
+                                    setExtraGroups(prev => [...prev, newGroup.trim()]);
+                                    setNewGroup('');
+                                }
+                            }}
+                            placeholder={sl ? '+ New column' : '+ Add column'}
+                            aria-label="New column"
+                        />
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const renderCalendar = () => {
+        const dateField = view.dateField ?? 'created';
+        const canMove = !isReadOnlyField(dateField);
+        const byDay = new Map<string, Note[]>();
+        let undated = 0;
+        for (const note of rows) {
+            const prop = getFieldValue(note, dateField);
+            const key = prop ? formatPropertyValue(prop.value).slice(0, 10) : '';
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(key)) { undated++; continue; }
+            if (!byDay.has(key)) byDay.set(key, []);
+            byDay.get(key)!.push(note);
+        }
+        const today = toDateKey(new Date());
+
+        const handleDayDrop = (e: React.DragEvent, day: string) => {
+            e.preventDefault();
+            setDragOver(null);
+            try {
+                const { noteId } = JSON.parse(e.dataTransfer.getData('text/plain'));
+                const note = notes.find(n => n.id === noteId);
+                if (!note) return;
+                // keep any time of day the value already had
+                const current = getFieldValue(note, dateField);
+                const time = current ? formatPropertyValue(current.value).slice(10) : '';
+                writeField(note, dateField, day + time);
+            } catch {
+                // not a calendar entry
+            }
+        };
+
+        return (
+            <div className="db-calendar">
+                <div className="db-calendar-nav">
+                    <button className="docs-list-action-btn" onClick={() => setMonth(m => new Date(m.getFullYear(), m.getMonth() - 1, 1))} aria-label="Previous month">‹</button>
+                    <span className="db-calendar-month">{month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}</span>
+                    <button className="docs-list-action-btn" onClick={() => setMonth(m => new Date(m.getFullYear(), m.getMonth() + 1, 1))} aria-label="Next month">›</button>
+                    <button className="docs-list-action-btn" onClick={() => { const d = new Date(); setMonth(new Date(d.getFullYear(), d.getMonth(), 1)); }}>
+                        {sl ? 'Now' : 'Today'}
+                    </button>
+                    {undated > 0 && <span className="db-rules-empty">{undated} {sl ? 'no date' : `without ${fieldLabel(dateField)}`}</span>}
+                </div>
+                <div className="db-calendar-grid">
+                    {WEEKDAYS.map(d => <div key={d} className="db-calendar-weekday">{d}</div>)}
+                    {monthGrid(month).map(date => {
+                        const key = toDateKey(date);
+                        const entries = byDay.get(key) ?? [];
+                        return (
+                            <div
+                                key={key}
+                                className={`db-calendar-day ${date.getMonth() !== month.getMonth() ? 'outside' : ''} ${key === today ? 'today' : ''} ${dragOver === key ? 'drag-over' : ''}`}
+                                onDragOver={e => { if (canMove) { e.preventDefault(); setDragOver(key); } }}
+                                onDragLeave={() => setDragOver(null)}
+                                onDrop={e => handleDayDrop(e, key)}
+                            >
+                                <span className="db-calendar-date">{date.getDate()}</span>
+                                {entries.map(note => (
+                                    <button
+                                        key={note.id}
+                                        className="db-calendar-entry"
+                                        draggable={canMove}
+                                        onDragStart={e => e.dataTransfer.setData('text/plain', JSON.stringify({ noteId: note.id }))}
+                                        onClick={() => onSelectNote(note.id)}
+                                        title={note.title || 'Untitled'}
+                                    >
+                                        {note.icon && <span className="db-note-icon">{note.icon}</span>}
+                                        {note.title || 'Untitled'}
+                                    </button>
+                                ))}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        );
+    };
+
+    const toggleEditor = (editor: OpenEditor) => setOpenEditor(current => current === editor ? null : editor);
+
+    return (
+        <div className="note-list-container">
+            <div className="docs-list-container db-view">
+                <div className="docs-list-toolbar db-toolbar">
+                    <button className="docs-list-action-btn" onClick={onBack} title={sl ? 'Go back home' : 'Back to notes'}>
+                        {sl ? '← Balik' : '← Notes'}
+                    </button>
+                    <input
+                        key={view.name}
+                        className="db-view-name"
+                        defaultValue={view.name}
+                        onBlur={e => { const name = e.target.value.trim(); if (name && name !== view.name) update({ name }); }}
+                        onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                        aria-label="View name"
+                    />
+                    <div className="db-layout-switch" role="group" aria-label="Layout">
+                        {LAYOUTS.map(({ layout, label }) => (
+                            <button
+                                key={layout}
+                                className={`db-layout-btn ${view.layout === layout ? 'active' : ''}`}
+                                onClick={() => update({ layout })}
+                                aria-pressed={view.layout === layout}
+                            >{label}</button>
+                        ))}
+                    </div>
+                    <span className="docs-list-count">{rows.length} {rows.length === 1 ? 'note' : 'notes'}</span>
+                    {view.layout === 'board' && (
+                        <label className="db-setting">
+                            {sl ? 'Group ikut' : 'Group by'}
+                            <select value={view.groupBy ?? 'tags'} onChange={e => { setExtraGroups([]); update({ groupBy: e.target.value }); }}>
+                                {fields.filter(f => f !== 'title').map(f => <option key={f} value={f}>{fieldLabel(f)}</option>)}
+                            </select>
+                        </label>
+                    )}
+                    {view.layout === 'calendar' && (
+                        <label className="db-setting">
+                            {sl ? 'Date from' : 'Date'}
+                            <select value={view.dateField ?? 'created'} onChange={e => update({ dateField: e.target.value })}>
+                                {dateFields.map(f => <option key={f} value={f}>{fieldLabel(f)}</option>)}
+                            </select>
+                        </label>
+                    )}
+                    <div className="db-toolbar-actions">
+                        <button className={`docs-list-action-btn ${openEditor === 'filters' ? 'active' : ''}`} onClick={() => toggleEditor('filters')}>
+                            Filter{view.filters.length > 0 ? ` (${view.filters.length})` : ''}
+                        </button>
+                        <button className={`docs-list-action-btn ${openEditor === 'sorts' ? 'active' : ''}`} onClick={() => toggleEditor('sorts')}>
+                            Sort{view.sorts.length > 0 ? ` (${view.sorts.length})` : ''}
+                        </button>
+                        {view.layout !== 'calendar' && (
+                            <button className={`docs-list-action-btn ${openEditor === 'fields' ? 'active' : ''}`} onClick={() => toggleEditor('fields')}>
+                                {view.layout === 'table' ? 'Columns' : (sl ? 'Card show what' : 'Card fields')}
+                            </button>
+                        )}
+                        <button className="docs-list-action-btn danger" onClick={() => setConfirmDelete(true)}>
+                            {sl ? 'Throw view' : 'Delete view'}
+                        </button>
+                    </div>
+                </div>
+                {openEditor === 'filters' && renderFilters()}
+                {openEditor === 'sorts' && renderSorts()}
+                {openEditor === 'fields' && renderFieldPicker()}
+                {view.layout === 'table' && renderTable()}
+                {view.layout === 'board' && renderBoard()}
+                {view.layout === 'calendar' && renderCalendar()}
+            </div>
+            <ConfirmationModal
+                isOpen={confirmDelete}
+                title={sl ? 'Delete view or not?' : 'Delete View'}
+                message={sl
+                    ? `Delete "${view.name}"? The notes inside still stay one.`
+                    : `Delete the view "${view.name}"? Its notes are not affected.`}
+                confirmLabel={sl ? 'Delete' : 'Delete View'}
+                onConfirm={() => { setConfirmDelete(false); onDeleteView(view.id); }}
+                onCancel={() => setConfirmDelete(false)}
+            />
+        </div>
+    );
+};
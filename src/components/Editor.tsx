@@ -2,7 +2,7 @@ import React, { useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import CodeMirror, { type ReactCodeMirrorRef } from '@uiw/react-codemirror';
 import { keymap, highlightActiveLine, EditorView } from '@codemirror/view';
-import { foldAll, unfoldAll } from '@codemirror/language';
+import { foldAll, unfoldAll, LanguageDescription, type LanguageSupport } from '@codemirror/language';
 import { markdown, markdownLanguage, markdownKeymap } from '@codemirror/lang-markdown';
 import { themeSyntaxHighlighting } from '../extensions/theme-highlighting';
 import { yamlFrontmatter } from '@codemirror/lang-yaml';
@@ -10,7 +10,7 @@ import { languages } from '@codemirror/language-data';
 import { GFM, Subscript, Superscript, Strikethrough, Table, TaskList } from '@lezer/markdown';
 import { autocompletion } from '@codemirror/autocomplete';
 import { vim, Vim } from '@replit/codemirror-vim';
-import { livePreview } from '../extensions/live-preview';
+import { livePreview, createEmbedPreview } from '../extensions/live-preview';
 import { handleImageEvents } from '../extensions/images';
 import { frontmatterFold } from '../extensions/frontmatter';
 import { mathPreview } from '../extensions/math';
@@ -25,12 +25,14 @@ import { createFocusModeExtension } from '../extensions/focus-mode';
 import { inlineCode } from '../extensions/inline-code';
 import { mermaidPreview } from '../extensions/mermaid';
 import { tablePreview } from '../extensions/table-preview';
+import { createQueryPreview } from '../extensions/query-preview';
 import { emacsMode as emacsModeExtension } from '../extensions/emacs-mode';
 import { smartLists } from '../extensions/smart-lists';
 import { syntaxErrors } from '../extensions/syntax-errors';
 import { bracketPulse } from '../extensions/bracket-pulse';
 import { DocumentStats } from './DocumentStats';
 import { HeadingBreadcrumb } from './HeadingBreadcrumb';
+import { PropertiesPanel } from './PropertiesPanel';
 import { createWikilinkPreview } from '../extensions/wikilink-preview';
 import { headingColors } from '../extensions/heading-colors';
 import { multiCursorExtension } from '../extensions/multi-cursor';
@@ -38,6 +40,8 @@ import { codeBlockEnhancements } from '../extensions/code-block-enhancements';
 import { markdownFolding } from '../extensions/markdown-folding';
 import { lineMoveExtension } from '../extensions/line-move';
 import { smartPaste } from '../extensions/smart-paste';
+import { configDiagnostics } from '../extensions/config-diagnostics';
+import { isConfigNote } from '../utils/config';
 import { FindReplacePanel, createSearchHighlightExtension } from './FindReplacePanel';
 import { useSinglish } from '../contexts/SinglishContext';
 import type { Note } from '../types';
@@ -49,7 +53,11 @@ interface EditorProps {
     notes: Note[];
     onChange: (content: string) => void;
     onTitleChange: (title: string) => void;
+    /** fires once per rename, when the title field loses focus */
+    onTitleCommit?: (oldTitle: string, newTitle: string) => void;
     onNavigate: (noteId: string) => void;
+    /** Cmd+click or middle-click on a wikilink; falls back to onNavigate */
+    onOpenInNewTab?: (noteId: string) => void;
     onPositionChange?: (cursorPos: number, scrollPos: number) => void;
     vimMode: boolean;
     emacsMode: boolean;
@@ -62,14 +70,29 @@ interface EditorProps {
     cursorAnimations?: 'none' | 'subtle' | 'particles';
     findReplaceOpen?: boolean;
     onCloseFindReplace?: () => void;
+    onOpenMultiNoteReplace?: (query: string) => void;
+    /** in a split, only the pane last focused takes editor commands; defaults to true */
+    isActive?: boolean;
 }
 
-export const Editor: React.FC<EditorProps> = ({ note, notes, onChange, onTitleChange, onNavigate, onPositionChange, vimMode, emacsMode, focusMode, focusModeBlur = true, lineWrapping, showLineNumbers, editorAlignment, showDocumentStats, cursorAnimations = 'subtle', findReplaceOpen = false, onCloseFindReplace }) => {
+export const Editor: React.FC<EditorProps> = ({ note, notes, onChange, onTitleChange, onTitleCommit, onNavigate, onOpenInNewTab, onPositionChange, vimMode, emacsMode, focusMode, focusModeBlur = true, lineWrapping, showLineNumbers, editorAlignment, showDocumentStats, cursorAnimations = 'subtle', findReplaceOpen = false, onCloseFindReplace, onOpenMultiNoteReplace, isActive = true }) => {
     const sl = useSinglish();
     const editorRef = React.useRef<ReactCodeMirrorRef>(null);
     const navigate = useNavigate();
     const [cursorLine, setCursorLine] = React.useState(1);
     const [saveStatus, setSaveStatus] = React.useState<'saved' | 'unsaved'>('saved');
+    const isConfig = isConfigNote(note);
+    const [tomlLanguage, setTomlLanguage] = React.useState<LanguageSupport | null>(null);
+    // title when the title field was focused; compared on blur to detect a rename
+    const titleAtFocusRef = React.useRef<string | null>(null);
+
+    // config.toml is edited as TOML, not markdown; load the mode lazily
+    React.useEffect(() => {
+        if (!isConfig || tomlLanguage) return;
+        LanguageDescription.matchLanguageName(languages, 'toml')?.load()
+            .then(setTomlLanguage)
+            .catch(err => console.error('Failed to load TOML mode:', err));
+    }, [isConfig, tomlLanguage]);
 
     // Extension to track cursor line
     const cursorLineTracker = React.useMemo(() =>
@@ -222,7 +245,8 @@ export const Editor: React.FC<EditorProps> = ({ note, notes, onChange, onTitleCh
             const cursorPos = note.lastCursorPosition ?? 0;
             const scrollPos = note.lastScrollPosition ?? 0;
 
-            view.focus();
+            // a background tab restores its cursor without taking focus from the tab in front
+            if (isActive) view.focus();
 
             // Ensure cursor position is within document bounds
             const maxPos = view.state.doc.length;
@@ -247,7 +271,7 @@ export const Editor: React.FC<EditorProps> = ({ note, notes, onChange, onTitleCh
 
     React.useEffect(() => {
         const handleCommand = (e: CustomEvent) => {
-            if (!editorRef.current?.view) return;
+            if (!isActive || !editorRef.current?.view) return;
             const view = editorRef.current.view;
             const { command } = e.detail;
 
@@ -332,10 +356,15 @@ stateDiagram-v2
                     selection: { anchor: from + insert.length }
                 });
             } else if (command === 'insert-template') {
-                const { content } = e.detail;
+                // content arrives filled in; cursor is the {{cursor}} offset within it, if any
+                const { content, cursor } = e.detail;
                 if (content) {
-                    const filledContent = content.replace('{{date}}', new Date().toLocaleDateString());
-                    view.dispatch(view.state.replaceSelection(filledContent));
+                    const { from, to } = view.state.selection.main;
+                    view.dispatch({
+                        changes: { from, to, insert: content },
+                        selection: { anchor: from + (cursor ?? content.length) },
+                        scrollIntoView: true,
+                    });
                 }
             } else if (command === 'insert-text') {
                 const { text } = e.detail;
@@ -357,6 +386,8 @@ stateDiagram-v2
             const { noteId, lineNumber } = e.detail;
 
             if (noteId && noteId !== note.id) return;
+            // without a note id the jump is meant for the editor in front
+            if (!noteId && !isActive) return;
 
             if (lineNumber) {
                 try {
@@ -379,7 +410,7 @@ stateDiagram-v2
             window.removeEventListener('yoro-editor-cmd', handleCommand as EventListener);
             window.removeEventListener('yoro-navigate-line', handleNavigateLine as EventListener);
         };
-    }, [note.id, handleFormatting, wrapText]);
+    }, [note.id, handleFormatting, wrapText, isActive]);
 
     const handleContainerClick = (e: React.MouseEvent) => {
         if (e.target === e.currentTarget || (e.target as HTMLElement).classList.contains('editor-content')) {
@@ -387,7 +418,19 @@ stateDiagram-v2
         }
     };
 
-    const editorExtensions = useMemo(() => [
+    const editorExtensions = useMemo(() => isConfig ? [
+        vimMode ? vim() : [],
+        emacsMode && !vimMode ? emacsModeExtension : [],
+        lineWrapping ? EditorView.lineWrapping : [],
+        themeSyntaxHighlighting,
+        tomlLanguage ?? [],
+        configDiagnostics,
+        highlightActiveLine(),
+        cursorLineTracker,
+        positionTracker,
+        createSearchHighlightExtension(),
+        lineMoveExtension,
+    ] : [
         vimMode ? vim() : [],
         emacsMode && !vimMode ? emacsModeExtension : [],
         lineWrapping ? EditorView.lineWrapping : [],
@@ -400,6 +443,7 @@ stateDiagram-v2
             })
         }),
         livePreview,
+        createEmbedPreview(notes, note.id, onNavigate),
         handleImageEvents,
         frontmatterFold,
         mathPreview,
@@ -410,8 +454,9 @@ stateDiagram-v2
         inlineCode,
         mermaidPreview,
         tablePreview,
+        createQueryPreview(notes, onNavigate),
         autocompletion({ override: [emojiCompletion, calloutCompletion, getWikilinkCompletion(notes), getMentionCompletion(notes)] }),
-        createWikilinkPlugin(notes, onNavigate),
+        createWikilinkPlugin(notes, onOpenInNewTab ?? onNavigate),
         createWikilinkPreview(notes),
         headingColors,
         highlightActiveLine(),
@@ -428,7 +473,7 @@ stateDiagram-v2
         markdownFolding,
         lineMoveExtension,
         smartPaste
-    ], [vimMode, emacsMode, lineWrapping, focusMode, focusModeBlur, notes, onNavigate, cursorLineTracker, positionTracker]);
+    ], [isConfig, tomlLanguage, vimMode, emacsMode, lineWrapping, focusMode, focusModeBlur, notes, note.id, onNavigate, onOpenInNewTab, cursorLineTracker, positionTracker]);
 
     return (
         <div
@@ -439,6 +484,7 @@ stateDiagram-v2
             <FindReplacePanel
                 isOpen={findReplaceOpen}
                 onClose={onCloseFindReplace || (() => {})}
+                onSearchAllNotes={onOpenMultiNoteReplace}
                 // eslint-disable-next-line react-hooks/refs
                 editorView={editorRef.current?.view || null}
             />
@@ -449,13 +495,34 @@ stateDiagram-v2
                         className="editor-title"
                         value={note.title}
                         onChange={(e) => onTitleChange(e.target.value)}
+                        onFocus={() => { titleAtFocusRef.current = note.title; }}
+                        onBlur={() => {
+                            const before = titleAtFocusRef.current;
+                            titleAtFocusRef.current = null;
+                            if (before !== null && before !== note.title) onTitleCommit?.(before, note.title);
+                        }}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                                e.preventDefault();
+                                editorRef.current?.view?.focus();
+                            }
+                        }}
+                        readOnly={isConfig}
+                        title={isConfig ? (sl ? 'Config note cannot rename one' : 'The config note cannot be renamed') : undefined}
                         placeholder={sl ? 'No title...' : 'Untitled'}
                     />
                     <span className={`autosave-indicator ${saveStatus}`} aria-live="polite" aria-label={saveStatus === 'unsaved' ? 'Unsaved changes' : 'Saved'}>
                         {saveStatus === 'unsaved' ? (sl ? '● Unsaved leh' : '● Unsaved') : (sl ? 'Saved liao' : 'Saved')}
                     </span>
                 </div>
-                <HeadingBreadcrumb content={note.content} cursorLine={cursorLine} noteId={note.id} />
+                {!isConfig && <PropertiesPanel
+                    content={note.content}
+                    notes={notes}
+                    onChange={(content) => { setSaveStatus('unsaved'); onChange(content); }}
+                    onNavigate={onNavigate}
+                    isActive={isActive}
+                />}
+                {!isConfig && <HeadingBreadcrumb content={note.content} cursorLine={cursorLine} noteId={note.id} folder={note.folder} />}
                 <CodeMirror
                     ref={editorRef}
                     value={note.content}
@@ -9,6 +9,8 @@ interface FindReplacePanelProps {
     isOpen: boolean;
     onClose: () => void;
     editorView: EditorView | null;
+    /** switches to the multi-note panel, carrying over the current search */
+    onSearchAllNotes?: (query: string) => void;
 }
 
 // State effects for search highlighting
@@ -101,7 +103,7 @@ export function createSearchHighlightExtension(): Extension {
     return [searchState, searchHighlightPlugin];
 }
 
-export const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ isOpen, onClose, editorView }) => {
+export const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ isOpen, onClose, editorView, onSearchAllNotes }) => {
     const [findValue, setFindValue] = useState('');
     const [replaceValue, setReplaceValue] = useState('');
     const [caseSensitive, setCaseSensitive] = useState(false);
@@ -268,6 +270,15 @@ export const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ isOpen, onCl
         <div className="find-replace-panel" onKeyDown={handleKeyDown}>
             <div className="find-replace-header">
                 <h4 className="find-replace-title">Find and Replace</h4>
+                {onSearchAllNotes && (
+                    <button
+                        className="find-replace-scope"
+                        onClick={() => { onSearchAllNotes(findValue); onClose(); }}
+                        title="Find and replace across all notes"
+                    >
+                        All notes
+                    </button>
+                )}
                 <button className="find-replace-close" onClick={onClose} title="Close (Escape)">
                     <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                         <path d="M18 6L6 18M6 6l12 12" />
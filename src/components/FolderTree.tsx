@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { folderName, isWithinFolder, parentFolder, type FolderNode } from '../utils/folders';
+import { useSinglish } from '../contexts/SinglishContext';
+import './styles/FolderTree.css';
+
+// drag payloads; notes are dragged from the note list, folders within the tree
+export const NOTE_DRAG_TYPE = 'application/x-yoro-note';
+const FOLDER_DRAG_TYPE = 'application/x-yoro-folder';
+
+interface FolderTreeProps {
+    tree: FolderNode[];
+    totalCount: number;
+    /** '' selects every note */
+    selectedFolder: string;
+    onSelectFolder: (path: string) => void;
+    search: string;
+    onSearchChange: (query: string) => void;
+    onMoveNote: (noteId: string, folder: string) => void;
+    onMoveFolder: (path: string, newParent: string) => void;
+    onCreateFolder: (parent: string, name: string) => void;
+    onRenameFolder: (path: string, name: string) => void;
+    onDeleteFolder: (path: string) => void;
+}
+
+type Editing = { mode: 'create' | 'rename'; path: string } | null;
+
+export const FolderTree: React.FC<FolderTreeProps> = ({
+    tree,
+    totalCount,
+    selectedFolder,
+    onSelectFolder,
+    search,
+    onSearchChange,
+    onMoveNote,
+    onMoveFolder,
+    onCreateFolder,
+    onRenameFolder,
+    onDeleteFolder,
+}) => {
+    const sl = useSinglish();
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [editing, setEditing] = useState<Editing>(null);
+    const [draft, setDraft] = useState('');
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+    const toggle = (path: string) => setCollapsed(prev => {
+        const next = new Set(prev);
+        if (next.has(path)) next.delete(path); else next.add(path);
+        return next;
+    });
+
+    const startEditing = (mode: 'create' | 'rename', path: string) => {
+        setEditing({ mode, path });
+        setDraft(mode === 'rename' ? folderName(path) : '');
+        // a new subfolder should be visible while it's named
+        if (mode === 'create' && path) setCollapsed(prev => { const next = new Set(prev); next.delete(path); return next; });
+    };
+
+    const commitEditing = () => {
+        const name = draft.replace(/\//g, '').trim();
+        if (editing && name) {
+            if (editing.mode === 'create') onCreateFolder(editing.path, name);
+            else if (name !== folderName(editing.path)) onRenameFolder(editing.path, name);
+        }
+        setEditing(null);
+    };
+
+    const handleDragOver = (e: React.DragEvent, path: string) => {
+        if (!e.dataTransfer.types.includes(NOTE_DRAG_TYPE) && !e.dataTransfer.types.includes(FOLDER_DRAG_TYPE)) return;
+        e.preventDefault();
+        setDropTarget(path);
+    };
+
+    const handleDrop = (e: React.DragEvent, path: string) => {
+        e.preventDefault();
+        setDropTarget(null);
+        const noteId = e.dataTransfer.getData(NOTE_DRAG_TYPE);
+        if (noteId) {
+            onMoveNote(noteId, path);
+            return;
+        }
+        const folder = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+        // a folder can't go inside itself, and dropping on its own parent changes nothing
+        if (folder && !isWithinFolder(path, folder) && parentFolder(folder) !== path) onMoveFolder(folder, path);
+    };
+
+    const dropProps = (path: string) => ({
+        onDragOver: (e: React.DragEvent) => handleDragOver(e, path),
+        onDragLeave: () => setDropTarget(null),
+        onDrop: (e: React.DragEvent) => handleDrop(e, path),
+    });
+
+    // called as a function rather than rendered as a component so the input keeps focus while typing
+    const nameInput = () => (
+        <input
+            className="folder-tree-input"
+            autoFocus
+            value={draft}
+            placeholder={sl ? 'Give folder a name' : 'Folder name'}
+            onChange={e => setDraft(e.target.value)}
+            onBlur={commitEditing}
+            onKeyDown={e => {
+                if (e.key === 'Enter') commitEditing();
+                if (e.key === 'Escape') setEditing(null);
+            }}
+        />
+    );
+
+    const renderNode = (node: FolderNode, depth: number): React.ReactNode => {
+        const isCollapsed = collapsed.has(node.path);
+        const isRenaming = editing?.mode === 'rename' && editing.path === node.path;
+        return (
+            <li key={node.path}>
+                <div
+                    className={`folder-tree-item ${selectedFolder === node.path ? 'selected' : ''} ${dropTarget === node.path ? 'drop-target' : ''}`}
+                    style={{ paddingLeft: 8 + depth * 14 }}
+                    onClick={() => onSelectFolder(node.path)}
+                    draggable={!isRenaming}
+                    onDragStart={e => { e.stopPropagation(); e.dataTransfer.setData(FOLDER_DRAG_TYPE, node.path); }}
+                    {...dropProps(node.path)}
+                >
+                    <button
+                        className={`folder-tree-toggle ${node.children.length === 0 ? 'empty' : ''}`}
+                        onClick={e => { e.stopPropagation(); toggle(node.path); }}
+                        aria-label={isCollapsed ? 'Expand folder' : 'Collapse folder'}
+                    >{isCollapsed ? '▸' : '▾'}</button>
+                    {isRenaming ? nameInput() : <span className="folder-tree-name">{node.name}</span>}
+                    <span className="folder-tree-count">{node.noteCount}</span>
+                    <span className="folder-tree-actions" onClick={e => e.stopPropagation()}>
+                        <button onClick={() => startEditing('create', node.path)} title={sl ? 'Add folder inside' : 'New subfolder'}>+</button>
+                        <button onClick={() => startEditing('rename', node.path)} title={sl ? 'Change name' : 'Rename folder'}>✎</button>
+                        <button onClick={() => onDeleteFolder(node.path)} title={sl ? 'Remove folder, notes go up one level' : 'Delete folder (its notes move to the parent)'}>×</button>
+                    </span>
+                </div>
+                {!isCollapsed && (node.children.length > 0 || (editing?.mode === 'create' && editing.path === node.path)) && (
+                    <ul>
+                        {node.children.map(child => renderNode(child, depth + 1))}
+                        {editing?.mode === 'create' && editing.path === node.path && (
+                            <li className="folder-tree-item" style={{ paddingLeft: 22 + (depth + 1) * 14 }}>{nameInput()}</li>
+                        )}
+                    </ul>
+                )}
+            </li>
+        );
+    };
+
+    return (
+        <nav className="folder-tree" aria-label="Folders">
+            <input
+                className="folder-tree-search"
+                type="search"
+                value={search}
+                onChange={e => onSearchChange(e.target.value)}
+                placeholder={selectedFolder
+                    ? (sl ? `Search inside ${folderName(selectedFolder)}` : `Search in ${folderName(selectedFolder)}`)
+                    : (sl ? 'Search all notes' : 'Search notes')}
+            />
+            <div className="folder-tree-header">
+                <span>Folders</span>
+                <button onClick={() => startEditing('create', '')} title={sl ? 'Add folder' : 'New folder'}>+</button>
+            </div>
+            <ul className="folder-tree-list">
+                <li>
+                    <div
+                        className={`folder-tree-item ${selectedFolder === '' ? 'selected' : ''} ${dropTarget === '' ? 'drop-target' : ''}`}
+                        style={{ paddingLeft: 8 }}
+                        onClick={() => onSelectFolder('')}
+                        {...dropProps('')}
+                    >
+                        <span className="folder-tree-toggle empty" />
+                        <span className="folder-tree-name">{sl ? 'All the notes' : 'All notes'}</span>
+                        <span className="folder-tree-count">{totalCount}</span>
+                    </div>
+                </li>
+                {tree.map(node => renderNode(node, 0))}
+                {editing?.mode === 'create' && editing.path === '' && (
+                    <li className="folder-tree-item" style={{ paddingLeft: 22 }}>{nameInput()}</li>
+                )}
+            </ul>
+        </nav>
+    );
+};
@@ -0,0 +1,154 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import type { Note } from '../types';
+import { SearchIndex, type SearchResult } from '../utils/searchIndex';
+import { useSinglish } from '../contexts/SinglishContext';
+import { useFocusTrap } from '../utils/useFocusTrap';
+import './styles/GlobalSearchPanel.css';
+
+interface GlobalSearchPanelProps {
+    isOpen: boolean;
+    notes: Note[];
+    onClose: () => void;
+    onOpenResult: (noteId: string, lineNumber?: number) => void;
+}
+
+function formatDate(ts: number): string {
+    const d = new Date(ts);
+    return d.toLocaleDateString('en-US', {
+        month: 'short', day: 'numeric',
+        year: d.getFullYear() !== new Date().getFullYear() ? 'numeric' : undefined,
+    });
+}
+
+function renderSnippet(result: SearchResult): React.ReactNode[] {
+    const parts: React.ReactNode[] = [];
+    let pos = 0;
+    result.highlights.forEach(([start, end], i) => {
+        if (start > pos) parts.push(result.snippet.slice(pos, start));
+        parts.push(<mark key={i}>{result.snippet.slice(start, end)}</mark>);
+        pos = end;
+    });
+    if (pos < result.snippet.length) parts.push(result.snippet.slice(pos));
+    return parts;
+}
+
+export const GlobalSearchPanel: React.FC<GlobalSearchPanelProps> = ({ isOpen, notes, onClose, onOpenResult }) => {
+    const sl = useSinglish();
+    const [query, setQuery] = useState('');
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const listRef = useRef<HTMLUListElement>(null);
+    const trapRef = useFocusTrap(isOpen);
+
+    // the index lives as long as the panel; notes edited through handleUpdateNote
+    // are new objects, so sync only re-indexes those
+    const [index] = useState(() => new SearchIndex());
+
+    const results = useMemo(() => {
+        if (!isOpen) return [];
+        index.sync(notes);
+        return index.search(query);
+    }, [index, isOpen, notes, query]);
+
+    useEffect(() => {
+        if (isOpen) {
+            const timer = setTimeout(() => {
+                setSelectedIndex(0);
+                inputRef.current?.focus();
+                inputRef.current?.select();
+            }, 0);
+            return () => clearTimeout(timer);
+        }
+    }, [isOpen]);
+
+    useEffect(() => {
+        listRef.current?.querySelector('.global-search-result.selected')?.scrollIntoView({ block: 'nearest' });
+    }, [selectedIndex]);
+
+    if (!isOpen) return null;
+
+    const openResult = (result: SearchResult) => {
+        onOpenResult(result.note.id, result.lineNumber);
+        onClose();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            if (results.length > 0) setSelectedIndex(prev => (prev + 1) % results.length);
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            if (results.length > 0) setSelectedIndex(prev => (prev - 1 + results.length) % results.length);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            if (results[selectedIndex]) openResult(results[selectedIndex]);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        }
+    };
+
+    return (
+        <div className="modal-overlay global-search-overlay" onClick={onClose}>
+            <div className="global-search-modal" onClick={e => e.stopPropagation()} ref={trapRef as React.RefObject<HTMLDivElement>}>
+                <div className="global-search-input">
+                    <input
+                        ref={inputRef}
+                        type="text"
+                        role="combobox"
+                        aria-expanded={true}
+                        aria-haspopup="listbox"
+                        aria-controls="gs-listbox"
+                        aria-activedescendant={results.length > 0 ? `gs-item-${selectedIndex}` : undefined}
+                        aria-label="Search all notes"
+                        value={query}
+                        onChange={e => {
+                            setQuery(e.target.value);
+                            setSelectedIndex(0);
+                        }}
+                        onKeyDown={handleKeyDown}
+                        placeholder={sl ? 'Search all notes lah...' : 'Search all notes...'}
+                    />
+                    <div className="global-search-hint">
+                        <code>"phrase"</code> <code>pre*</code> <code>tag:name</code> <code>before:2024-01-31</code> <code>after:2024-01</code>
+                    </div>
+                </div>
+                <ul className="global-search-results" id="gs-listbox" role="listbox" ref={listRef}>
+                    {results.map((result, i) => (
+                        <li
+                            key={result.note.id}
+                            id={`gs-item-${i}`}
+                            role="option"
+                            aria-selected={i === selectedIndex}
+                            className={`global-search-result ${i === selectedIndex ? 'selected' : ''}`}
+                            onClick={() => openResult(result)}
+                            onMouseEnter={() => setSelectedIndex(i)}
+                        >
+                            <div className="global-search-result-header">
+                                <span className="global-search-result-title">{result.note.title || 'Untitled'}</span>
+                                <span className="global-search-result-meta">
+                                    {result.lineNumber !== undefined && <span>{sl ? `line ${result.lineNumber}` : `Line ${result.lineNumber}`}</span>}
+                                    <span>{formatDate(result.note.updatedAt)}</span>
+                                </span>
+                            </div>
+                            {result.snippet && <div className="global-search-result-snippet">{renderSnippet(result)}</div>}
+                            {result.note.tags.length > 0 && (
+                                <div className="global-search-result-tags">
+                                    {result.note.tags.map(tag => <span key={tag} className="global-search-result-tag">#{tag}</span>)}
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                    {query.trim() && results.length === 0 && (
+                        <li className="global-search-empty">{sl ? 'Cannot find anything leh' : 'No matching notes'}</li>
+                    )}
+                </ul>
+                {results.length > 0 && (
+                    <div className="global-search-footer">
+                        {sl ? `${results.length} notes found` : `${results.length} result${results.length !== 1 ? 's' : ''}`}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -5,6 +5,8 @@ interface HeadingBreadcrumbProps {
     content: string;
     cursorLine: number;
     noteId: string;
+    /** the note's folder path, shown ahead of the headings */
+    folder?: string;
 }
 
 interface Heading {
@@ -55,7 +57,7 @@ function getAncestorChain(headings: Heading[], cursorLine: number): Heading[] {
     return chain;
 }
 
-export const HeadingBreadcrumb: React.FC<HeadingBreadcrumbProps> = ({ content, cursorLine, noteId }) => {
+export const HeadingBreadcrumb: React.FC<HeadingBreadcrumbProps> = ({ content, cursorLine, noteId, folder = '' }) => {
     const [isTyping, setIsTyping] = useState(false);
 
     const headings = useMemo(() => parseHeadings(content), [content]);
@@ -75,13 +77,37 @@ export const HeadingBreadcrumb: React.FC<HeadingBreadcrumbProps> = ({ content, c
         }));
     };
 
-    if (ancestorChain.length === 0) return null;
+    // opens the note list at that folder
+    const handleFolderClick = (path: string) => {
+        window.dispatchEvent(new CustomEvent('yoro-open-folder', {
+            detail: { folder: path }
+        }));
+    };
+
+    const folderSegments = folder ? folder.split('/') : [];
+
+    if (ancestorChain.length === 0 && folderSegments.length === 0) return null;
 
     return (
         <div className={`heading-breadcrumb ${isTyping ? 'faded' : ''}`}>
+            {folderSegments.map((name, index) => {
+                const path = folderSegments.slice(0, index + 1).join('/');
+                return (
+                    <React.Fragment key={path}>
+                        {index > 0 && <span className="heading-breadcrumb-separator">/</span>}
+                        <span
+                            className="heading-breadcrumb-item heading-breadcrumb-folder"
+                            onClick={() => handleFolderClick(path)}
+                            title={`Show notes in ${path}`}
+                        >
+                            {name}
+                        </span>
+                    </React.Fragment>
+                );
+            })}
             {ancestorChain.map((heading, index) => (
                 <React.Fragment key={heading.lineNumber}>
-                    {index > 0 && <span className="heading-breadcrumb-separator">&gt;</span>}
+                    {(index > 0 || folderSegments.length > 0) && <span className="heading-breadcrumb-separator">&gt;</span>}
                     <span
                         className="heading-breadcrumb-item"
                         onClick={() => handleClick(heading.lineNumber)}
@@ -18,6 +18,7 @@ function getKeyboardShortcuts(sl: boolean) {
         general: [
             { keys: 'Cmd/Ctrl + Shift + P', description: sl ? 'Open command palette lah' : 'Open command palette' },
             { keys: 'Cmd/Ctrl + Shift + I', description: 'Quick capture note' },
+            { keys: 'Cmd/Ctrl + Shift + F', description: sl ? 'Search all notes lah' : 'Search all notes' },
             { keys: 'Cmd/Ctrl + Click', description: 'Follow link (wikilink or URL)' },
             { keys: 'Escape', description: sl ? 'Close modal / get out lah' : 'Close modal / Exit focus' },
         ],
@@ -108,6 +109,7 @@ function getFeaturesMarkdown(sl: boolean) {
 - **Emacs Mode** — C-f, C-b, C-k, C-y and all that
 - **Focus Mode** — Dim other lines, shiok for focus
 - **Find & Replace** — Cmd/Ctrl+H lah
+- **Replace in All Notes** — Press "All notes" in find and replace, tick which ones to change
 - **Multi-cursor** — Edit many lines same time
 - **Smart Lists** — Auto-continue bullets and checkboxes
 - **Line Wrapping** — Soft wrap or hard wrap at 80 cols
@@ -115,6 +117,23 @@ function getFeaturesMarkdown(sl: boolean) {
 
 ## Linking & Navigation
 - **Wikilinks** — Link notes with [[Note Title]] lah
+- **Heading & Block Links** — [[Note#Heading]] or [[Note^id]], put ^id at end of line to mark block
+- **Embed Notes** — ![[Note]] or ![[Note#Heading]] on own line, the content show inside, exports also got
+- **Properties** — frontmatter show as fields above the note, can edit text, number, date, checkbox, list, note link; tags: sync with note tags
+- **Views** — New View... in palette make table, board or calendar of your notes; filter, sort, pick columns, edit cell straight, drag card to change property
+- **Tasks** — Open Tasks in palette, see every - [ ] from all notes; add 📅 2026-10-20 or due:2026-10-20 for due date, ⏫ 🔼 🔽 or priority:high for priority, #tag also can. Tick there will tick inside the note
+- **Query blocks** — put LIST FROM #project WHERE status = "active" SORT updated DESC inside a query code block, it show live list of notes; TABLE title, tags, updated give you table. Export also got the results
+- **Daily notes** — Open Today's Note in palette make or open the note for today (title like 2026-10-19); got weekly (2026-W43) and monthly (2026-10) also. Previous / Next Day jump around, Toggle Calendar show small calendar with dot on days got note. Make a note called Daily Template, Weekly Template or Monthly Template to use your own template. Quick capture can tick to put inside today's note
+- **Templates** — Tag a note #templates (or use Use Note as Template, or put it inside the Templates folder) then it appear in Insert Template and New Note from Template. Can put {{date:YYYY-MM-DD}}, {{time}}, {{title}}, {{clipboard}}, {{prompt:Label}} (it ask you first) and {{cursor}} (cursor go there). Tags and frontmatter inside template follow the new note
+- **Folders** — Sidebar beside the note list got folders inside folders: + add, ✎ change name, × delete (notes inside go up one level). Drag note onto folder to put inside, drag folder onto folder to nest. Search box only search the folder you choose. Editor breadcrumb show which folder, ZIP import and Export All keep the folders. Toggle Folder Sidebar to hide
+- **Tags** — Tags can nest with slash (#area/sub/topic), filter the parent also got the children. Tags in the sidebar got count: click once include, click again exclude, third time clear; AND / OR change how to combine. ✎ change tag name (same name as other tag then merge together), inline #tags and frontmatter inside every note also change. Click the dot to choose colour, knowledge graph also use. Palette got Rename Tag and Merge Tags also
+- **Split Panes** — Cmd+\\ open preview beside the source, both scroll together. Cmd+Shift+O open previous note beside, or Split With Note choose any note. Drag the middle line to change size (double-click make same same), ⇄ swap, × close. Commands go to the side you clicked last
+- **Tabs** — Every note you open got tab on top. Cmd+click or middle-click a [[link]] open in new tab. Drag tab to change order, double-click or Pin Tab to pin (pinned tab stay in front, open other note won't replace it), middle-click or × to close. Each tab keep its own undo and cursor, tabs also come back after reload. Cmd+Alt+← / → go previous / next tab
+- **Backup** — Back Up Workspace (ZIP) keep everything: notes with tags, dates, icons, folders, trash, settings, stats and pictures. Restore Workspace Backup can merge in (same note both side take the newer one or keep both) or replace everything; it show you what will change first
+- **Obsidian & Notion** — Import Obsidian Vault take the folder (or ZIP): folders, frontmatter tags, ![[picture]] and [[links]] all come along. Import Notion Export take the Markdown or HTML ZIP: the long id behind the names remove, links become Yoro links, CSV database become table. First show you dry run, confirm then add
+- **HTML & Website** — Export as HTML make one file only: picture, math font, theme colour all inside, heading links also can click. Export Notes as Website (ZIP) make one page per note with index, [[links]] between pages all can click
+- **EPUB & LaTeX** — Export as EPUB or Export as LaTeX for this note. Export Notes as Book take your open tabs (follow tab order) or one folder: EPUB got one chapter per H1 with contents page, LaTeX got sections, real math, tables, footnotes and callout environments
+- **Word Import** — Import Word Documents (DOCX) can pick many files, each one become a note: headings, bold, italic, lists, tables, links, footnotes and pictures all turn back into markdown. Note you Export as DOCX before also can come back the same
 - **Backlinks** — See who link to this note
 - **Knowledge Graph** — See all connections, shiok to look at
 - **Outline Panel** — Navigate headings via command palette
@@ -131,6 +150,7 @@ function getFeaturesMarkdown(sl: boolean) {
 - **Highlighting** — ==text== to highlight lah
 
 ## Organisation
+- **Search All Notes** — Cmd/Ctrl+Shift+F, can use "phrase", pre*, tag:, before:, after:
 - **Tags** — Use #tags, filter in command palette
 - **Favourites** — Star important notes
 - **Sorting** — By date updated, created, or title
@@ -173,6 +193,7 @@ Press Cmd/Ctrl+Shift+P lah:
 - **Emacs Mode** — Emacs keybindings including C-f, C-b, C-k, C-y
 - **Focus Mode** — Dims surrounding lines to keep focus on current line
 - **Find & Replace** — Cmd/Ctrl+H to open find and replace panel
+- **Replace in All Notes** — Preview and pick matches across every note, then replace (and undo) as one batch
 - **Multi-cursor** — Edit multiple locations simultaneously
 - **Smart Lists** — Automatically continues bullets and checkboxes
 - **Line Wrapping** — Soft wrap or hard wrap at 80 columns
@@ -180,6 +201,23 @@ Press Cmd/Ctrl+Shift+P lah:
 
 ## Linking & Navigation
 - **Wikilinks** — Link notes using [[Note Title]] syntax
+- **Heading & Block Links** — [[Note#Heading]] or [[Note^block-id]]; mark a block by ending its line with ^block-id
+- **Embeds** — ![[Note]] or ![[Note#Heading]] on its own line shows that note or section inline; PDF and DOCX exports include it
+- **Properties** — frontmatter keys appear as typed fields above the note (text, number, date, checkbox, list, note link); tags: stays in sync with the note's tags. Sort or filter the note list by any property from the command palette
+- **Views** — New View... saves a table, board or calendar over your notes with its own filters, sort rules and columns. Cells edit the frontmatter in place; drag board cards between columns or calendar entries between days to change the property
+- **Tasks** — Open Tasks collects every checkbox from all notes. Due dates are written as 📅 2026-10-20 or due:2026-10-20, priorities as ⏫ 🔼 🔽 or priority:high, plus any #tags. Filter and group the list; ticking a task updates its source line, and clicking it jumps to the note
+- **Query blocks** — a query code block such as LIST FROM #project WHERE status = "active" SORT updated DESC shows a live list of matching notes; TABLE title, tags, updated shows a table. FROM takes #tags, [[Note]] or "title text"; WHERE supports = != > < >= <= contains, AND, OR, NOT; LIMIT caps the results. Exports include the results
+- **Daily notes** — Open Today's Note creates or opens the note titled with today's date (2026-10-19); weekly (2026-W43) and monthly (2026-10) notes work the same way. Previous / Next Day / Week / Month steps between them, and Toggle Calendar shows a mini calendar where dots mark days with a note. A note titled Daily Template, Weekly Template or Monthly Template replaces the built-in template ({{date}}, {{title}}, {{weekday}}, {{week}}, {{month}}, {{year}}, {{prev}}, {{next}}). Quick capture can append to today's note instead of creating a new one
+- **Templates** — Tag a note #templates, run Use Note as Template or keep it in the Templates folder, and it shows up under Insert Template and New Note from Template. Variables: {{date}} or {{date:YYYY-MM-DD}}, {{time}} or {{time:HH:mm}}, {{title}}, {{clipboard}}, {{prompt:Label}} (asked for before the template is filled) and {{cursor}} (where the caret lands). Tags and other frontmatter in the template carry over to the new note
+- **Folders** — The sidebar beside the note list holds nested folders: + adds one, ✎ renames, × deletes (its notes move up a level). Drag notes onto a folder to file them, or drag folders onto each other to nest them. The search box only searches the selected folder. The editor breadcrumb shows the note's folder, and ZIP import / Export All keep folders as directories. Toggle Folder Sidebar hides it
+- **Tags** — Nest tags with slashes (#area/sub/topic); filtering on a parent includes everything below it. The Tags section of the sidebar shows counts: click a tag once to include it, again to exclude it, a third time to clear; AND / OR switches how included tags combine. ✎ renames a tag (renaming onto an existing tag merges them) and rewrites inline #tags and frontmatter in every note; the dot picks a colour, which the knowledge graph uses too. Rename Tag and Merge Tags are in the palette as well
+- **Split Panes** — Cmd+\\ opens a rendered preview beside the source, scrolling in sync. Cmd+Shift+O opens the previous note beside the current one, or Split With Note picks any note. Drag the divider to resize (double-click resets), ⇄ swaps sides and × closes the split. Editor commands act on the pane you last focused
+- **Tabs** — Notes open in a tab bar above the editor. Cmd+click or middle-click a [[link]] to open it in a new tab. Drag tabs to reorder, double-click (or Pin Tab) to pin one so it stays first and isn't replaced when you open another note, and middle-click or × to close. Each tab keeps its own undo history and selection, and open tabs are restored on reload. Cmd+Alt+← / → switch tabs
+- **Backup** — Back Up Workspace (ZIP) saves everything: notes with all their metadata, the trash, preferences, usage stats and images. Restore Workspace Backup either merges into the current workspace (for notes in both, keep the newer one or keep both) or replaces it, and lists what will change before anything does
+- **Obsidian & Notion** — Import Obsidian Vault takes the vault folder (or a ZIP of it) and keeps folders, frontmatter tags, ![[image]] attachments and [[links]]. Import Notion Export takes a Markdown or HTML export ZIP, strips the ids from page names, turns links between pages into note links and CSV databases into tables. Both show a dry-run report first and only add notes when you confirm
+- **HTML & Website** — Export as HTML saves one self-contained file with images, math fonts and your theme colours inlined and clickable heading anchors. Export Notes as Website (ZIP) writes one page per note plus an index, with [[links]] between pages working
+- **EPUB & LaTeX** — Export as EPUB or Export as LaTeX for the current note. Export Notes as Book takes your open tabs (in tab order) or a folder: the EPUB gets one chapter per H1 and a table of contents, the LaTeX gets sections, real math, tables, footnotes and callout environments
+- **Word Import** — Import Word Documents (DOCX) takes one or more files and makes a note from each, turning heading styles, bold and italic, lists, tables, hyperlinks, footnotes and embedded images into markdown. Notes exported with Export as DOCX come back as they were
 - **Backlinks** — View all notes that reference the current note
 - **Knowledge Graph** — Visualise all note connections in a graph
 - **Outline Panel** — Navigate headings via the command palette
@@ -196,6 +234,7 @@ Press Cmd/Ctrl+Shift+P lah:
 - **Highlighting** — Use ==text== to highlight
 
 ## Organisation
+- **Search All Notes** — Cmd/Ctrl+Shift+F; supports "phrase", pre*, tag:, before: and after:
 - **Tags** — Use #tags and filter by tag in the command palette
 - **Favourites** — Star important notes for quick access
 - **Sorting** — Sort by date updated, date created, or title
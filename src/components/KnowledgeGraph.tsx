@@ -17,10 +17,14 @@ import {
 import '@xyflow/react/dist/style.css';
 import dagre from 'dagre';
 import type { Note } from '../types';
+import { parseWikilinkTarget } from '../utils/wikilinks';
+import { resolveTagColor } from '../utils/tags';
 import './styles/KnowledgeGraph.css';
 
 interface KnowledgeGraphProps {
     notes: Note[];
+    /** colours picked in the tag pane; other tags take one from the shared palette */
+    customTagColors?: Record<string, string>;
     onNavigate: (noteId: string) => void;
     onClose: () => void;
 }
@@ -41,27 +45,14 @@ type LayoutType = 'hierarchical' | 'force' | 'radial' | 'circular';
 const nodeWidth = 180;
 const nodeHeight = 60;
 
-// Color palette for tags
-const tagColors = [
-    '#3b82f6', // blue
-    '#10b981', // emerald
-    '#f59e0b', // amber
-    '#ef4444', // red
-    '#8b5cf6', // violet
-    '#ec4899', // pink
-    '#06b6d4', // cyan
-    '#84cc16', // lime
-    '#f97316', // orange
-    '#6366f1', // indigo
-];
-
-// Parse wikilinks from note content
+// Parse wikilink target titles from note content (anchors and aliases dropped)
 const parseWikilinks = (content: string): string[] => {
     const regex = /\[\[(.*?)\]\]/g;
     const matches: string[] = [];
     let match;
     while ((match = regex.exec(content)) !== null) {
-        matches.push(match[1]);
+        const { title } = parseWikilinkTarget(match[1]);
+        if (title) matches.push(title);
     }
     return matches;
 };
@@ -301,7 +292,7 @@ const nodeTypes = {
     graphNode: GraphNode,
 };
 
-const KnowledgeGraphInner: React.FC<KnowledgeGraphProps> = ({ notes, onNavigate, onClose }) => {
+const KnowledgeGraphInner: React.FC<KnowledgeGraphProps> = ({ notes, customTagColors, onNavigate, onClose }) => {
     const [layout, setLayout] = useState<LayoutType>('force');
     const [searchQuery, setSearchQuery] = useState('');
     const [selectedTags, setSelectedTags] = useState<Set<string>>(new Set());
@@ -326,11 +317,11 @@ const KnowledgeGraphInner: React.FC<KnowledgeGraphProps> = ({ notes, onNavigate,
     // Assign colors to tags
     const tagColorMap = useMemo(() => {
         const map = new Map<string, string>();
-        allTags.forEach((tag, i) => {
-            map.set(tag, tagColors[i % tagColors.length]);
+        allTags.forEach(tag => {
+            map.set(tag, resolveTagColor(tag, allTags, customTagColors));
         });
         return map;
-    }, [allTags]);
+    }, [allTags, customTagColors]);
 
     // Build graph data from notes
     const { baseNodes, baseEdges, adjacencyMap } = useMemo(() => {
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Note } from '../types';
+import { renderMarkdownToHTML } from '../utils/exportUtils';
+import { useSinglish } from '../contexts/SinglishContext';
+
+interface MarkdownPreviewProps {
+    note: Note;
+    notes: Note[];
+    /** pane holding the note's editor; its scroller and the preview scroll together */
+    syncWith?: React.RefObject<HTMLElement | null>;
+}
+
+// re-render after typing pauses rather than on every keystroke
+const RENDER_DELAY = 300;
+// a scroll event this soon after the other side moved it is the echo of that move
+const ECHO_WINDOW = 100;
+
+const scrollRatio = (el: Element) => el.scrollTop / Math.max(1, el.scrollHeight - el.clientHeight);
+const scrollToRatio = (el: Element, ratio: number) => { el.scrollTop = ratio * (el.scrollHeight - el.clientHeight); };
+
+/** The note rendered by the export pipeline, in an iframe so its styles stay apart from the app's. */
+export const MarkdownPreview: React.FC<MarkdownPreviewProps> = ({ note, notes, syncWith }) => {
+    const sl = useSinglish();
+    const [html, setHtml] = useState<string | null>(null);
+    const iframeRef = useRef<HTMLIFrameElement>(null);
+    const detachRef = useRef<(() => void) | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            renderMarkdownToHTML(note.content, note.title || 'Untitled', { notes, noteId: note.id })
+                .then(result => { if (!cancelled) setHtml(result); })
+                .catch(err => console.error('Preview render failed:', err));
+        }, RENDER_DELAY);
+        return () => { cancelled = true; clearTimeout(timer); };
+    }, [note.id, note.content, note.title, notes]);
+
+    useEffect(() => () => detachRef.current?.(), []);
+
+    // each render reloads the iframe, so scroll syncing is wired up again on every load
+    const handleLoad = () => {
+        detachRef.current?.();
+        detachRef.current = null;
+        const preview = iframeRef.current?.contentDocument?.scrollingElement;
+        const previewWindow = iframeRef.current?.contentWindow;
+        const source = syncWith?.current?.querySelector('.cm-scroller');
+        if (!preview || !previewWindow || !source) return;
+
+        let sourceMovedAt = 0;
+        let previewMovedAt = 0;
+        const fromSource = () => {
+            if (performance.now() - sourceMovedAt < ECHO_WINDOW) return;
+            previewMovedAt = performance.now();
+            scrollToRatio(preview, scrollRatio(source));
+        };
+        const fromPreview = () => {
+            if (performance.now() - previewMovedAt < ECHO_WINDOW) return;
+            sourceMovedAt = performance.now();
+            scrollToRatio(source, scrollRatio(preview));
+        };
+        source.addEventListener('scroll', fromSource);
+        previewWindow.addEventListener('scroll', fromPreview);
+        scrollToRatio(preview, scrollRatio(source));
+        detachRef.current = () => {
+            source.removeEventListener('scroll', fromSource);
+            previewWindow.removeEventListener('scroll', fromPreview);
+        };
+    };
+
+    if (html === null) {
+        return <div className="markdown-preview-loading">{sl ? 'Wait ah, preview coming…' : 'Rendering preview…'}</div>;
+    }
+
+    // no scripts run in the preview; same origin only so scroll syncing can reach its document
+    return (
+        <iframe
+            ref={iframeRef}
+            className="markdown-preview-frame"
+            title={`Preview of ${note.title || 'Untitled'}`}
+            srcDoc={html}
+            sandbox="allow-same-origin"
+            onLoad={handleLoad}
+        />
+    );
+};
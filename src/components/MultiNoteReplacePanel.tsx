@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import type { Note, NoteId } from '../types';
+import { findInNotes, applyMatches, matchKey, type NoteMatches, type TextMatch } from '../utils/findReplace';
+import { useSinglish } from '../contexts/SinglishContext';
+import { useFocusTrap } from '../utils/useFocusTrap';
+import './styles/FindReplacePanel.css';
+import './styles/MultiNoteReplacePanel.css';
+
+export interface NoteReplacement {
+    id: NoteId;
+    content: string;
+}
+
+interface MultiNoteReplacePanelProps {
+    isOpen: boolean;
+    notes: Note[];
+    initialQuery?: string;
+    canUndo: boolean;
+    onClose: () => void;
+    onApply: (replacements: NoteReplacement[], matchCount: number) => void;
+    onUndo: () => void;
+    onOpenMatch: (noteId: NoteId, lineNumber: number) => void;
+}
+
+// characters of context kept on each side of a match in the preview
+const PREVIEW_CONTEXT = 40;
+
+function renderPreview(match: TextMatch, showReplacement: boolean): React.ReactNode {
+    const start = Math.max(0, match.column - PREVIEW_CONTEXT);
+    const endOfMatch = match.column + match.text.length;
+    // a match can span lines; only its first line is shown
+    const visibleMatch = match.lineText.slice(match.column, Math.min(endOfMatch, match.lineText.length));
+    const after = match.lineText.slice(endOfMatch, endOfMatch + PREVIEW_CONTEXT);
+    return (
+        <>
+            {start > 0 && '…'}
+            {match.lineText.slice(start, match.column)}
+            <del className={showReplacement ? '' : 'multi-replace-hit'}>{visibleMatch}{endOfMatch > match.lineText.length ? '…' : ''}</del>
+            {showReplacement && <ins>{match.replacement}</ins>}
+            {after}
+            {endOfMatch + PREVIEW_CONTEXT < match.lineText.length && '…'}
+        </>
+    );
+}
+
+export const MultiNoteReplacePanel: React.FC<MultiNoteReplacePanelProps> = ({
+    isOpen, notes, initialQuery = '', canUndo, onClose, onApply, onUndo, onOpenMatch,
+}) => {
+    const sl = useSinglish();
+    const trapRef = useFocusTrap(isOpen);
+    const findInputRef = useRef<HTMLInputElement>(null);
+    const [findValue, setFindValue] = useState(initialQuery);
+    const [replaceValue, setReplaceValue] = useState('');
+    const [caseSensitive, setCaseSensitive] = useState(false);
+    const [useRegex, setUseRegex] = useState(false);
+    // matches the user unticked, keyed by note id + offset; an edit to the note shifts those
+    // offsets, so each entry keeps the content it was made against and lapses once that changes
+    const [excluded, setExcluded] = useState<Map<string, string>>(new Map());
+    const [collapsed, setCollapsed] = useState<Set<NoteId>>(new Set());
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const timer = setTimeout(() => {
+            if (initialQuery) setFindValue(initialQuery);
+            findInputRef.current?.focus();
+            findInputRef.current?.select();
+        }, 0);
+        return () => clearTimeout(timer);
+    }, [isOpen, initialQuery]);
+
+    const { results, error } = useMemo((): { results: NoteMatches[]; error: string | null } => {
+        if (!isOpen || !findValue) return { results: [], error: null };
+        try {
+            return { results: findInNotes(notes, findValue, replaceValue, { caseSensitive, regex: useRegex }), error: null };
+        } catch (err) {
+            return { results: [], error: err instanceof Error ? err.message : 'Invalid regex' };
+        }
+    }, [isOpen, notes, findValue, replaceValue, caseSensitive, useRegex]);
+
+    const isExcluded = (note: Note, match: TextMatch) => excluded.get(matchKey(note.id, match)) === note.content;
+
+    const totalMatches = results.reduce((sum, r) => sum + r.matches.length, 0);
+    const selectedCount = results.reduce(
+        (sum, r) => sum + r.matches.filter(m => !isExcluded(r.note, m)).length, 0
+    );
+
+    if (!isOpen) return null;
+
+    const resetSelection = () => setExcluded(new Map());
+
+    const toggleMatch = (note: Note, match: TextMatch) => {
+        const key = matchKey(note.id, match);
+        const wasExcluded = isExcluded(note, match);
+        setExcluded(prev => {
+            const next = new Map(prev);
+            if (wasExcluded) next.delete(key);
+            else next.set(key, note.content);
+            return next;
+        });
+    };
+
+    const toggleNote = (result: NoteMatches) => {
+        const { note, matches } = result;
+        const allIncluded = matches.every(m => !isExcluded(note, m));
+        setExcluded(prev => {
+            const next = new Map(prev);
+            matches.forEach(m => allIncluded ? next.set(matchKey(note.id, m), note.content) : next.delete(matchKey(note.id, m)));
+            return next;
+        });
+    };
+
+    const toggleCollapsed = (id: NoteId) => {
+        setCollapsed(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const handleApply = () => {
+        const replacements: NoteReplacement[] = [];
+        let count = 0;
+        for (const { note, matches } of results) {
+            const included = matches.filter(m => !isExcluded(note, m));
+            if (included.length === 0) continue;
+            replacements.push({ id: note.id, content: applyMatches(note.content, included) });
+            count += included.length;
+        }
+        if (replacements.length === 0) return;
+        onApply(replacements, count);
+        resetSelection();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleApply();
+        }
+    };
+
+    return (
+        <div className="multi-replace-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="multi-replace-title">
+            <div className="multi-replace-modal" onClick={e => e.stopPropagation()} onKeyDown={handleKeyDown} ref={trapRef as React.RefObject<HTMLDivElement>}>
+                <div className="multi-replace-header">
+                    <h3 className="multi-replace-title" id="multi-replace-title">
+                        {sl ? 'Find and Replace (all notes)' : 'Find and Replace in All Notes'}
+                    </h3>
+                    <button className="multi-replace-close" onClick={onClose} aria-label="Close find and replace">
+                        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                            <path d="M18 6L6 18M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="multi-replace-inputs">
+                    <div className="find-replace-row">
+                        <input
+                            ref={findInputRef}
+                            type="text"
+                            className="find-replace-input"
+                            placeholder={sl ? 'Find what...' : 'Find...'}
+                            value={findValue}
+                            onChange={e => { setFindValue(e.target.value); resetSelection(); }}
+                            aria-label="Find"
+                        />
+                        <div className="find-replace-toggles">
+                            <button
+                                className={`find-replace-toggle ${caseSensitive ? 'active' : ''}`}
+                                onClick={() => { setCaseSensitive(!caseSensitive); resetSelection(); }}
+                                title="Match Case"
+                            >
+                                Aa
+                            </button>
+                            <button
+                                className={`find-replace-toggle ${useRegex ? 'active' : ''}`}
+                                onClick={() => { setUseRegex(!useRegex); resetSelection(); }}
+                                title="Use Regular Expression"
+                            >
+                                .*
+                            </button>
+                        </div>
+                    </div>
+                    <div className="find-replace-row">
+                        <input
+                            type="text"
+                            className="find-replace-input"
+                            placeholder={useRegex ? (sl ? 'Replace with ($1 also can)...' : 'Replace... ($1, $<name> allowed)') : (sl ? 'Replace with...' : 'Replace...')}
+                            value={replaceValue}
+                            onChange={e => setReplaceValue(e.target.value)}
+                            aria-label="Replace"
+                        />
+                    </div>
+                    {error && useRegex && (
+                        <div className="find-replace-regex-error" role="alert" aria-live="polite">
+                            Invalid regex: {error}
+                        </div>
+                    )}
+                </div>
+
+                <div className="multi-replace-results">
+                    {findValue && !error && results.length === 0 && (
+                        <div className="multi-replace-empty">{sl ? 'Nothing found leh' : 'No matches in any note'}</div>
+                    )}
+                    {results.map(result => {
+                        const { note, matches } = result;
+                        const includedHere = matches.filter(m => !isExcluded(note, m)).length;
+                        const isCollapsed = collapsed.has(note.id);
+                        return (
+                            <div key={note.id} className="multi-replace-note">
+                                <div className="multi-replace-note-header">
+                                    <input
+                                        type="checkbox"
+                                        checked={includedHere === matches.length}
+                                        ref={el => { if (el) el.indeterminate = includedHere > 0 && includedHere < matches.length; }}
+                                        onChange={() => toggleNote(result)}
+                                        aria-label={`Include all matches in ${note.title || 'Untitled'}`}
+                                    />
+                                    <button className="multi-replace-note-toggle" onClick={() => toggleCollapsed(note.id)}>
+                                        <span className="multi-replace-chevron">{isCollapsed ? '▸' : '▾'}</span>
+                                        <span className="multi-replace-note-title">{note.title || 'Untitled'}</span>
+                                        <span className="multi-replace-note-count">{includedHere}/{matches.length}</span>
+                                    </button>
+                                </div>
+                                {!isCollapsed && (
+                                    <ul className="multi-replace-matches">
+                                        {matches.map(match => {
+                                            const key = matchKey(note.id, match);
+                                            const included = !isExcluded(note, match);
+                                            return (
+                                                <li key={key} className={`multi-replace-match ${included ? '' : 'excluded'}`}>
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={included}
+                                                        onChange={() => toggleMatch(note, match)}
+                                                        aria-label={`Include match on line ${match.line}`}
+                                                    />
+                                                    <button
+                                                        className="multi-replace-match-preview"
+                                                        onClick={() => onOpenMatch(note.id, match.line)}
+                                                        title={sl ? 'Go there' : 'Open note at this line'}
+                                                    >
+                                                        <span className="multi-replace-line">{match.line}</span>
+                                                        <span className="multi-replace-text">{renderPreview(match, included)}</span>
+                                                    </button>
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="multi-replace-footer">
+                    <span className="multi-replace-stats" aria-live="polite">
+                        {totalMatches > 0
+                            ? (sl
+                                ? `${selectedCount} of ${totalMatches} selected, ${results.length} notes`
+                                : `${selectedCount} of ${totalMatches} match${totalMatches !== 1 ? 'es' : ''} selected in ${results.length} note${results.length !== 1 ? 's' : ''}`)
+                            : ' '}
+                    </span>
+                    <button className="find-replace-btn" onClick={onUndo} disabled={!canUndo}>
+                        {sl ? 'Undo last one' : 'Undo Last Replace'}
+                    </button>
+                    <button className="find-replace-btn primary" onClick={handleApply} disabled={selectedCount === 0}>
+                        {sl ? `Replace ${selectedCount} lah` : `Replace ${selectedCount} Selected`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
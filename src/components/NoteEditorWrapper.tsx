@@ -1,6 +1,10 @@
+import React, { useEffect, useRef, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import type { Note } from '../types';
+import type { Note, NoteTab, SplitView } from '../types';
 import { Editor } from './Editor';
+import { MarkdownPreview } from './MarkdownPreview';
+import { SplitPane, type PaneSide } from './SplitPane';
+import { TabBar } from './TabBar';
 import { MindMap } from './MindMap';
 import { FlowchartBuilder } from './FlowchartBuilder';
 import { StateDiagramBuilder } from './StateDiagramBuilder';
@@ -9,9 +13,11 @@ import { ErrorBoundary } from './ErrorBoundary';
 
 interface NoteEditorWrapperProps {
     notes: Note[];
+    isLoading?: boolean;
     onUpdateNote: (id: string, updates: Partial<Note>) => void;
     onUpdateNotePosition: (id: string, cursorPos: number, scrollPos: number) => void;
     onNavigate: (id: string) => void;
+    onRenameNote: (id: string, oldTitle: string, newTitle: string) => void;
     vimMode: boolean;
     emacsMode: boolean;
     focusMode: boolean;
@@ -23,16 +29,47 @@ interface NoteEditorWrapperProps {
     cursorAnimations: 'none' | 'subtle' | 'particles';
     findReplaceOpen: boolean;
     onCloseFindReplace: () => void;
+    onOpenMultiNoteReplace: (query: string) => void;
+    /** a second pane beside the note, if one is open */
+    split?: SplitView | null;
+    onSplitChange?: (split: SplitView | null) => void;
+    onSwapSplit?: () => void;
+    /** open editor tabs; without them only the routed note is shown */
+    tabs?: NoteTab[];
+    onOpenInNewTab?: (id: string) => void;
+    onCloseTab?: (id: string) => void;
+    onTogglePinTab?: (id: string) => void;
+    onMoveTab?: (id: string, index: number) => void;
 }
 
+// the text editor keeps its undo history in the mounted view, so its tabs stay mounted in the
+// background; the diagram views listen for keys on the window and only render while in front
+const keepsAlive = (note: Note) => !note.viewMode || note.viewMode === 'editor';
+
 export const NoteEditorWrapper: React.FC<NoteEditorWrapperProps> = ({
-    notes, onUpdateNote, onUpdateNotePosition, onNavigate, vimMode, emacsMode, focusMode, focusModeBlur,
+    notes, isLoading = false, onUpdateNote, onUpdateNotePosition, onNavigate, onRenameNote, vimMode, emacsMode, focusMode, focusModeBlur,
     lineWrapping, showLineNumbers, editorAlignment, showDocumentStats, cursorAnimations,
-    findReplaceOpen, onCloseFindReplace
+    findReplaceOpen, onCloseFindReplace, onOpenMultiNoteReplace, split = null, onSplitChange, onSwapSplit,
+    tabs, onOpenInNewTab, onCloseTab, onTogglePinTab, onMoveTab
 }) => {
     const { id } = useParams<{ id: string }>();
     const navigate = useNavigate();
     const note = notes.find(n => n.id === id);
+    const primaryRef = useRef<HTMLDivElement>(null);
+    const [activePane, setActivePane] = useState<PaneSide>('primary');
+    const panelsRef = useRef<HTMLDivElement>(null);
+    // background editors get the notes as they were when the active tab last changed: their
+    // extensions are built from the notes, and typing in front would rebuild every one of them
+    const [background, setBackground] = useState({ activeId: id, notes });
+    if (background.activeId !== id) setBackground({ activeId: id, notes });
+
+    // an editor brought back from a background tab doesn't focus itself the way a new one does
+    useEffect(() => {
+        panelsRef.current?.querySelector<HTMLElement>('.note-tab-panel:not([hidden]) .cm-content')?.focus();
+    }, [id]);
+
+    // notes are still loading from storage; avoid flashing "not found"
+    if (!note && isLoading) return null;
 
     if (!note) {
         return (
@@ -64,77 +101,138 @@ export const NoteEditorWrapper: React.FC<NoteEditorWrapperProps> = ({
         );
     }
 
-    if (note.viewMode === 'mindmap') {
-        return (
-            <ErrorBoundary>
-                <MindMap
-                    markdown={note.content}
-                    title={note.title}
-                    noteId={note.id}
-                    onViewModeChange={(mode) => onUpdateNote(note.id, { viewMode: mode })}
-                    onMarkdownChange={(newMarkdown) => onUpdateNote(note.id, { content: newMarkdown })}
-                />
-            </ErrorBoundary>
-        );
-    }
+    // one note in its view mode; isActive picks which editor of a split takes commands
+    const renderNote = (note: Note, isActive: boolean, editorNotes = notes) => {
+        if (note.viewMode === 'mindmap') {
+            return (
+                <ErrorBoundary>
+                    <MindMap
+                        markdown={note.content}
+                        title={note.title}
+                        noteId={note.id}
+                        onViewModeChange={(mode) => onUpdateNote(note.id, { viewMode: mode })}
+                        onMarkdownChange={(newMarkdown) => onUpdateNote(note.id, { content: newMarkdown })}
+                    />
+                </ErrorBoundary>
+            );
+        }
 
-    if (note.viewMode === 'flowchart') {
-        return (
-            <ErrorBoundary>
-                <FlowchartBuilder
-                    note={note}
-                    onUpdateNote={onUpdateNote}
-                />
-            </ErrorBoundary>
-        );
-    }
+        if (note.viewMode === 'flowchart') {
+            return (
+                <ErrorBoundary>
+                    <FlowchartBuilder
+                        note={note}
+                        onUpdateNote={onUpdateNote}
+                    />
+                </ErrorBoundary>
+            );
+        }
+
+        if (note.viewMode === 'state') {
+            return (
+                <ErrorBoundary>
+                    <StateDiagramBuilder
+                        note={note}
+                        onUpdateNote={onUpdateNote}
+                    />
+                </ErrorBoundary>
+            );
+        }
+
+        if (note.viewMode === 'drawing') {
+            return (
+                <ErrorBoundary>
+                    <DrawingCanvas
+                        note={note}
+                        onUpdateNote={onUpdateNote}
+                        existingSvg={note.drawingEditSrc}
+                    />
+                </ErrorBoundary>
+            );
+        }
 
-    if (note.viewMode === 'state') {
         return (
             <ErrorBoundary>
-                <StateDiagramBuilder
+                <Editor
                     note={note}
-                    onUpdateNote={onUpdateNote}
+                    notes={editorNotes}
+                    onChange={(content) => onUpdateNote(note.id, { content })}
+                    onTitleChange={(title) => onUpdateNote(note.id, { title })}
+                    onTitleCommit={(oldTitle, newTitle) => onRenameNote(note.id, oldTitle, newTitle)}
+                    onNavigate={onNavigate}
+                    onPositionChange={(cursorPos, scrollPos) => {
+                        onUpdateNotePosition(note.id, cursorPos, scrollPos);
+                    }}
+                    vimMode={vimMode}
+                    emacsMode={emacsMode}
+                    focusMode={focusMode}
+                    focusModeBlur={focusModeBlur}
+                    lineWrapping={lineWrapping}
+                    showLineNumbers={showLineNumbers}
+                    editorAlignment={editorAlignment}
+                    showDocumentStats={showDocumentStats}
+                    cursorAnimations={cursorAnimations}
+                    findReplaceOpen={isActive && findReplaceOpen}
+                    onCloseFindReplace={onCloseFindReplace}
+                    onOpenMultiNoteReplace={onOpenMultiNoteReplace}
+                    onOpenInNewTab={onOpenInNewTab}
+                    isActive={isActive}
                 />
             </ErrorBoundary>
         );
-    }
+    };
+
+    // the routed note, alone or beside a second pane
+    const renderActive = () => {
+        if (!split || !onSplitChange) return renderNote(note, true);
+
+        // the preview can't be edited, so the editor beside it always takes commands
+        const focusedPane = split.mode === 'preview' ? 'primary' : activePane;
+        // navigating to the note already beside this one leaves nothing to show next to it
+        const splitNote = split.mode === 'note' && split.noteId !== note.id ? notes.find(n => n.id === split.noteId) : undefined;
+        const secondary = split.mode === 'preview'
+            ? <MarkdownPreview note={note} notes={notes} syncWith={primaryRef} />
+            : splitNote ? renderNote(splitNote, focusedPane === 'secondary') : null;
+        if (!secondary) return renderNote(note, true);
 
-    if (note.viewMode === 'drawing') {
         return (
-            <ErrorBoundary>
-                <DrawingCanvas
-                    note={note}
-                    onUpdateNote={onUpdateNote}
-                    existingSvg={note.drawingEditSrc}
-                />
-            </ErrorBoundary>
+            <SplitPane
+                ratio={split.ratio}
+                onRatioChange={(ratio) => onSplitChange({ ...split, ratio })}
+                primary={renderNote(note, focusedPane === 'primary')}
+                secondary={secondary}
+                primaryRef={primaryRef}
+                activePane={focusedPane}
+                onFocusPane={setActivePane}
+                onSwap={split.mode === 'note' ? onSwapSplit : undefined}
+                onClose={() => onSplitChange(null)}
+            />
         );
-    }
+    };
+
+    if (!tabs || !onCloseTab || !onTogglePinTab || !onMoveTab) return renderActive();
+
+    const tabNotes = tabs.flatMap(t => notes.find(n => n.id === t.noteId) ?? []);
+    // the routed note gets its tab just after navigation; show it meanwhile all the same
+    const panelNotes = tabNotes.some(n => n.id === note.id) ? tabNotes : [...tabNotes, note];
 
     return (
-        <ErrorBoundary>
-            <Editor
-                note={note}
-                notes={notes}
-                onChange={(content) => onUpdateNote(note.id, { content })}
-                onTitleChange={(title) => onUpdateNote(note.id, { title })}
-                onNavigate={onNavigate}
-                onPositionChange={(cursorPos, scrollPos) => {
-                    onUpdateNotePosition(note.id, cursorPos, scrollPos);
-                }}
-                vimMode={vimMode}
-                emacsMode={emacsMode}
-                focusMode={focusMode}
-                focusModeBlur={focusModeBlur}
-                lineWrapping={lineWrapping}
-                showLineNumbers={showLineNumbers}
-                editorAlignment={editorAlignment}
-                showDocumentStats={showDocumentStats}
-                cursorAnimations={cursorAnimations}
-                findReplaceOpen={findReplaceOpen}
-                onCloseFindReplace={onCloseFindReplace}
+        <div className="note-tabs">
+            <TabBar
+                tabs={tabs}
+                notes={tabNotes}
+                activeId={note.id}
+                onSelect={onNavigate}
+                onClose={onCloseTab}
+                onTogglePin={onTogglePinTab}
+                onMove={onMoveTab}
             />
-        </ErrorBoundary>
+            <div className="note-tabs-panels" ref={panelsRef}>
+                {panelNotes.map(n => n.id === note.id
+                    ? <div key={n.id} className="note-tab-panel">{renderActive()}</div>
+                    : keepsAlive(n) && <div key={n.id} className="note-tab-panel" hidden>{renderNote(n, false, background.notes)}</div>
+                )}
+            </div>
+        </div>
     );
 };
@@ -1,5 +1,10 @@
 import React, { useMemo, useState, useRef } from 'react';
-import type { Note } from '../types';
+import type { Note, NoteView, UserPreferences } from '../types';
+import { getProperty, comparePropertyValues, matchesPropertyFilter, type PropertyFilter } from '../utils/properties';
+import { buildFolderTree, isWithinFolder, noteFolder } from '../utils/folders';
+import { allTagPaths, buildTagTree, customTagColor, EMPTY_TAG_FILTER, isTagFilterEmpty, matchesTagFilter, type TagFilter } from '../utils/tags';
+import { FolderTree, NOTE_DRAG_TYPE } from './FolderTree';
+import { TagPane } from './TagPane';
 import { useSinglish } from '../contexts/SinglishContext';
 import './styles/NoteList.css';
 
@@ -12,11 +17,32 @@ interface NoteListProps {
     onReorderNotes?: (orderedIds: string[]) => void;
     isLoading?: boolean;
     searchQuery: string;
-    selectedTag: string | null;
-    onTagChange: (tag: string | null) => void;
+    tagFilter?: TagFilter;
+    onTagFilterChange?: (filter: TagFilter) => void;
+    /** colours picked for tags, by tag */
+    tagColors?: Record<string, string>;
+    onSetTagColor?: (tag: string, color: string | null) => void;
+    onRenameTag?: (from: string, to: string) => void;
+    propertyFilter?: PropertyFilter | null;
+    onClearPropertyFilter?: () => void;
     viewMode?: 'notion-grid' | 'docs-list';
     sortOrder?: 'updated' | 'created' | 'alpha' | 'alpha-reverse';
+    sortProperty?: UserPreferences['sortProperty'];
     onOpenGraph?: () => void;
+    trashCount?: number;
+    onOpenTrash?: () => void;
+    views?: NoteView[];
+    onOpenView?: (id: string) => void;
+    showFolderTree?: boolean;
+    /** saved folder paths, including empty folders */
+    folders?: string[];
+    selectedFolder?: string;
+    onSelectFolder?: (path: string) => void;
+    onMoveNoteToFolder?: (noteId: string, folder: string) => void;
+    onMoveFolder?: (path: string, newParent: string) => void;
+    onCreateFolder?: (parent: string, name: string) => void;
+    onRenameFolder?: (path: string, name: string) => void;
+    onDeleteFolder?: (path: string) => void;
 }
 
 export const NoteList: React.FC<NoteListProps> = ({
@@ -28,31 +54,77 @@ export const NoteList: React.FC<NoteListProps> = ({
     onReorderNotes,
     isLoading = false,
     searchQuery,
-    selectedTag,
+    tagFilter = EMPTY_TAG_FILTER,
+    onTagFilterChange,
+    tagColors = {},
+    onSetTagColor,
+    onRenameTag,
+    propertyFilter = null,
+    onClearPropertyFilter,
     viewMode = 'docs-list',
     sortOrder = 'updated',
+    sortProperty,
     onOpenGraph,
+    trashCount = 0,
+    onOpenTrash,
+    views = [],
+    onOpenView,
+    showFolderTree = false,
+    folders = [],
+    selectedFolder = '',
+    onSelectFolder,
+    onMoveNoteToFolder,
+    onMoveFolder,
+    onCreateFolder,
+    onRenameFolder,
+    onDeleteFolder,
 }) => {
     const sl = useSinglish();
     const dragSrcIdRef = useRef<string | null>(null);
     const [dragOverId, setDragOverId] = useState<string | null>(null);
+    // searches only the selected folder and the folders below it
+    const [folderSearch, setFolderSearch] = useState('');
+    const folderTree = useMemo(() => buildFolderTree(notes, folders), [notes, folders]);
+    const tagTree = useMemo(() => buildTagTree(notes), [notes]);
+    const allTags = useMemo(() => allTagPaths(notes), [notes]);
 
     const filteredNotes = useMemo(() => {
-        return notes.filter(note => {
+        const filtered = notes.filter(note => {
             const matchesSearch = (note.title + note.content).toLowerCase().includes(searchQuery.toLowerCase());
-            const matchesTag = selectedTag ? note.tags.includes(selectedTag) : true;
-            return matchesSearch && matchesTag;
-        }).sort((a, b) => {
+            const matchesTag = matchesTagFilter(note, tagFilter);
+            const matchesProperty = propertyFilter ? matchesPropertyFilter(note.content, propertyFilter) : true;
+            const matchesFolder = isWithinFolder(noteFolder(note), selectedFolder)
+                && (note.title + '\n' + note.content).toLowerCase().includes(folderSearch.trim().toLowerCase());
+            return matchesSearch && matchesTag && matchesProperty && matchesFolder;
+        });
+        // parse each note's frontmatter once rather than on every comparison
+        const sortValues = sortProperty
+            ? new Map(filtered.map(note => [note.id, getProperty(note.content, sortProperty.key)]))
+            : null;
+        return filtered.sort((a, b) => {
             if (a.isPinned && !b.isPinned) return -1;
             if (!a.isPinned && b.isPinned) return 1;
+            if (sortProperty && sortValues) {
+                const va = sortValues.get(a.id);
+                const vb = sortValues.get(b.id);
+                // notes without the property stay at the end in either direction
+                if (!va || !vb) return comparePropertyValues(va, vb);
+                const order = comparePropertyValues(va, vb);
+                if (order !== 0) return sortProperty.descending ? -order : order;
+                return b.updatedAt - a.updatedAt;
+            }
             if (sortOrder === 'alpha') return a.title.localeCompare(b.title);
             if (sortOrder === 'alpha-reverse') return b.title.localeCompare(a.title);
             if (sortOrder === 'created') return b.createdAt - a.createdAt;
             return b.updatedAt - a.updatedAt;
         });
-    }, [notes, searchQuery, selectedTag, sortOrder]);
+    }, [notes, searchQuery, tagFilter, propertyFilter, sortOrder, sortProperty, selectedFolder, folderSearch]);
 
-    const handleDragStart = (id: string) => { dragSrcIdRef.current = id; };
+    const handleDragStart = (e: React.DragEvent, id: string) => {
+        dragSrcIdRef.current = id;
+        // lets the note be dropped onto a folder in the tree
+        e.dataTransfer.setData(NOTE_DRAG_TYPE, id);
+    };
     const handleDragOver = (e: React.DragEvent, id: string) => { e.preventDefault(); setDragOverId(id); };
     const handleDragEnd = () => { dragSrcIdRef.current = null; setDragOverId(null); };
     const handleDrop = (targetId: string) => {
@@ -70,6 +142,55 @@ export const NoteList: React.FC<NoteListProps> = ({
         setDragOverId(null);
     };
 
+    const TrashLink = () => onOpenTrash ? (
+        <button className="note-list-trash-link" onClick={onOpenTrash} title={sl ? 'See trash' : 'Open Trash'}>
+            Trash{trashCount > 0 ? ` (${trashCount})` : ''}
+        </button>
+    ) : null;
+
+    const ViewLinks = () => onOpenView && views.length > 0 ? (
+        <span className="note-list-views">
+            {views.map(view => (
+                <button key={view.id} className="note-list-trash-link" onClick={() => onOpenView(view.id)} title={sl ? `Open ${view.name} view` : `Open view "${view.name}"`}>
+                    {view.name}
+                </button>
+            ))}
+        </span>
+    ) : null;
+
+    // e.g. "#work OR #home −#archive"
+    const tagFilterLabel = [
+        tagFilter.include.map(t => `#${t}`).join(tagFilter.mode === 'and' ? ' AND ' : ' OR '),
+        ...tagFilter.exclude.map(t => `−#${t}`),
+    ].join(' ').trim();
+
+    const TagFilterChip = () => !isTagFilterEmpty(tagFilter) ? (
+        <span className="active-filter">
+            {tagFilterLabel}
+            {onTagFilterChange && (
+                <button className="active-filter-clear" onClick={() => onTagFilterChange({ ...tagFilter, include: [], exclude: [] })} title={sl ? 'Remove tag filter' : 'Clear tag filter'} aria-label="Clear tag filter">×</button>
+            )}
+        </span>
+    ) : null;
+
+    const FolderChip = () => selectedFolder ? (
+        <span className="active-filter">
+            {selectedFolder.split('/').join(' › ')}
+            {onSelectFolder && (
+                <button className="active-filter-clear" onClick={() => onSelectFolder('')} title={sl ? 'Show all the notes' : 'Show all notes'} aria-label="Show all notes">×</button>
+            )}
+        </span>
+    ) : null;
+
+    const PropertyFilterChip = () => propertyFilter ? (
+        <span className="active-filter">
+            {propertyFilter.key}: {propertyFilter.value}
+            {onClearPropertyFilter && (
+                <button className="active-filter-clear" onClick={onClearPropertyFilter} title={sl ? 'Remove filter' : 'Clear property filter'} aria-label="Clear property filter">×</button>
+            )}
+        </span>
+    ) : null;
+
     const SkeletonCard = ({ style }: { style?: React.CSSProperties }) => (
         <div className="skeleton-card" style={style} aria-hidden="true">
             <div className="skeleton-line skeleton-title" />
@@ -91,6 +212,7 @@ export const NoteList: React.FC<NoteListProps> = ({
             </svg>
             <p className="empty-state-text">{sl ? 'No notes leh' : 'No notes yet'}</p>
             <p className="empty-state-sub">{sl ? 'Press Cmd+Shift+P to create one lah' : 'Press Cmd+Shift+P to create your first note'}</p>
+            {trashCount > 0 && <TrashLink />}
         </div>
     );
 
@@ -100,7 +222,11 @@ export const NoteList: React.FC<NoteListProps> = ({
             <div className="notion-grid-container">
                 <div className="notion-grid-header">
                     <span className="notion-grid-count">{filteredNotes.length} {filteredNotes.length === 1 ? 'note' : 'notes'}</span>
-                    {selectedTag && <span className="active-filter">{sl ? `#${selectedTag} leh` : `#${selectedTag}`}</span>}
+                    <TagFilterChip />
+                    <FolderChip />
+                    <PropertyFilterChip />
+                    <ViewLinks />
+                    <TrashLink />
                 </div>
                 <div className="notion-grid">
                     {filteredNotes.map(note => {
@@ -116,8 +242,8 @@ export const NoteList: React.FC<NoteListProps> = ({
                                 className={`notion-card ${dragOverId === note.id ? 'drag-over' : ''}`}
                                 onClick={() => onSelectNote(note.id)}
                                 style={note.accentColor ? { borderTop: `3px solid ${note.accentColor}` } : undefined}
-                                draggable={!!onReorderNotes}
-                                onDragStart={() => handleDragStart(note.id)}
+                                draggable={!!onReorderNotes || !!onMoveNoteToFolder}
+                                onDragStart={(e) => handleDragStart(e, note.id)}
                                 onDragOver={(e) => handleDragOver(e, note.id)}
                                 onDrop={() => handleDrop(note.id)}
                                 onDragEnd={handleDragEnd}
@@ -132,7 +258,7 @@ export const NoteList: React.FC<NoteListProps> = ({
                                     <span className="notion-card-date">{dateStr}</span>
                                     <div className="notion-card-tags">
                                         {note.tags.slice(0, 3).map(tag => (
-                                            <span key={tag} className="notion-card-tag">#{tag}</span>
+                                            <span key={tag} className="notion-card-tag" style={{ color: customTagColor(tag, tagColors) }}>#{tag}</span>
                                         ))}
                                     </div>
                                     <div className="notion-card-actions" onClick={e => e.stopPropagation()}>
@@ -142,7 +268,7 @@ export const NoteList: React.FC<NoteListProps> = ({
                                             </button>
                                         )}
                                         <button className="notion-card-action-btn" onClick={(e) => onDuplicateNote(note.id, e)} title="Duplicate">dup</button>
-                                        <button className="notion-card-action-btn danger" onClick={(e) => onDeleteNote(note.id, e)} title="Delete">del</button>
+                                        <button className="notion-card-action-btn danger" onClick={(e) => onDeleteNote(note.id, e)} title="Move to Trash">del</button>
                                     </div>
                                 </div>
                             </div>
@@ -200,7 +326,11 @@ export const NoteList: React.FC<NoteListProps> = ({
             <div className="docs-list-container">
                 <div className="docs-list-toolbar">
                     <span className="docs-list-count">{filteredNotes.length} {filteredNotes.length === 1 ? 'note' : 'notes'}</span>
-                    {selectedTag && <span className="active-filter">{sl ? `#${selectedTag} leh` : `#${selectedTag}`}</span>}
+                    <TagFilterChip />
+                    <FolderChip />
+                    <PropertyFilterChip />
+                    <ViewLinks />
+                    <TrashLink />
                 </div>
                 <div className="docs-list-table">
                     <div className="docs-list-thead">
@@ -217,8 +347,8 @@ export const NoteList: React.FC<NoteListProps> = ({
                                     key={note.id}
                                     className={`docs-list-row ${dragOverId === note.id ? 'drag-over' : ''}`}
                                     onClick={() => onSelectNote(note.id)}
-                                    draggable={!!onReorderNotes}
-                                    onDragStart={() => handleDragStart(note.id)}
+                                    draggable={!!onReorderNotes || !!onMoveNoteToFolder}
+                                    onDragStart={(e) => handleDragStart(e, note.id)}
                                     onDragOver={(e) => handleDragOver(e, note.id)}
                                     onDrop={() => handleDrop(note.id)}
                                     onDragEnd={handleDragEnd}
@@ -230,7 +360,7 @@ export const NoteList: React.FC<NoteListProps> = ({
                                     </div>
                                     <div className="docs-list-col docs-list-col-tags">
                                         {note.tags.slice(0, 3).map(tag => (
-                                            <span key={tag} className="docs-list-tag">#{tag}</span>
+                                            <span key={tag} className="docs-list-tag" style={{ color: customTagColor(tag, tagColors) }}>#{tag}</span>
                                         ))}
                                     </div>
                                     <div className="docs-list-col docs-list-col-date">{formatDate(note.updatedAt)}</div>
@@ -241,7 +371,7 @@ export const NoteList: React.FC<NoteListProps> = ({
                                             </button>
                                         )}
                                         <button className="docs-list-action-btn" onClick={(e) => onDuplicateNote(note.id, e)} title="Duplicate">dup</button>
-                                        <button className="docs-list-action-btn danger" onClick={(e) => onDeleteNote(note.id, e)} title="Delete">del</button>
+                                        <button className="docs-list-action-btn danger" onClick={(e) => onDeleteNote(note.id, e)} title="Move to Trash">del</button>
                                     </div>
                                 </div>
                             ))}
@@ -256,7 +386,37 @@ export const NoteList: React.FC<NoteListProps> = ({
     const modKey = isMac ? 'Cmd' : 'Ctrl';
 
     return (
-        <div className="note-list-container">
+        <div className={`note-list-container ${showFolderTree ? 'with-sidebar' : ''}`}>
+            {showFolderTree && (
+                <aside className="note-list-sidebar">
+                    {onSelectFolder && onMoveNoteToFolder && onMoveFolder && onCreateFolder && onRenameFolder && onDeleteFolder && (
+                        <FolderTree
+                            tree={folderTree}
+                            totalCount={notes.length}
+                            selectedFolder={selectedFolder}
+                            onSelectFolder={onSelectFolder}
+                            search={folderSearch}
+                            onSearchChange={setFolderSearch}
+                            onMoveNote={onMoveNoteToFolder}
+                            onMoveFolder={onMoveFolder}
+                            onCreateFolder={onCreateFolder}
+                            onRenameFolder={onRenameFolder}
+                            onDeleteFolder={onDeleteFolder}
+                        />
+                    )}
+                    {onTagFilterChange && onSetTagColor && onRenameTag && (
+                        <TagPane
+                            tree={tagTree}
+                            allTags={allTags}
+                            filter={tagFilter}
+                            onFilterChange={onTagFilterChange}
+                            colors={tagColors}
+                            onSetColor={onSetTagColor}
+                            onRenameTag={onRenameTag}
+                        />
+                    )}
+                </aside>
+            )}
             {(viewMode === 'notion-grid' || viewMode === 'docs-list') && (
                 <div className="search-hint">
                     <span className="search-hint-text">Press</span>
@@ -268,7 +428,7 @@ export const NoteList: React.FC<NoteListProps> = ({
                         <kbd className="key-chip">P</kbd>
                     </span>
                     <span className="search-hint-text">{sl ? 'to open command palette lah.' : 'to open the command palette.'}</span>
-                    {selectedTag && <span className="active-filter">{sl ? `Filtering by #${selectedTag} leh` : `Filtering: #${selectedTag}`}</span>}
+                    {!isTagFilterEmpty(tagFilter) && <span className="active-filter">{sl ? `Filtering by ${tagFilterLabel} leh` : `Filtering: ${tagFilterLabel}`}</span>}
                 </div>
             )}
             {isLoading ? (
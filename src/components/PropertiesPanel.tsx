@@ -0,0 +1,265 @@
+import React, { useState, useEffect, useMemo, useId } from 'react';
+import type { Note } from '../types';
+import {
+    getProperties, setProperty, linkTarget, defaultPropertyValue, convertPropertyValue,
+    PROPERTY_TYPES, type NoteProperty, type PropertyType, type PropertyValue,
+} from '../utils/properties';
+import { findNoteByTitle } from '../utils/wikilinks';
+import { useSinglish } from '../contexts/SinglishContext';
+import './styles/PropertiesPanel.css';
+
+interface PropertiesPanelProps {
+    content: string;
+    notes: Note[];
+    onChange: (content: string) => void;
+    onNavigate: (noteId: string) => void;
+    /** false for the unfocused pane of a split, so only one panel answers Add Property */
+    isActive?: boolean;
+}
+
+export interface PropertyValueInputProps {
+    prop: NoteProperty;
+    notes: Note[];
+    onCommit: (value: PropertyValue) => void;
+    onNavigate: (noteId: string) => void;
+}
+
+const KEY_RE = /^[A-Za-z0-9_-]+$/;
+
+// text inputs commit on blur or Enter so the frontmatter isn't rewritten on every keystroke
+const commitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+        e.preventDefault();
+        e.currentTarget.blur();
+    }
+};
+
+export const PropertyValueInput: React.FC<PropertyValueInputProps> = ({ prop, notes, onCommit, onNavigate }) => {
+    const listId = useId();
+    const { type, value } = prop;
+
+    if (type === 'checkbox') {
+        return <input type="checkbox" className="property-checkbox" checked={value === true} onChange={e => onCommit(e.target.checked)} aria-label={prop.key} />;
+    }
+
+    if (type === 'date') {
+        const text = String(value);
+        const hasTime = text.length > 10;
+        return (
+            <input
+                type={hasTime ? 'datetime-local' : 'date'}
+                className="property-input"
+                value={hasTime ? text.replace(' ', 'T') : text}
+                onChange={e => e.target.value && onCommit(e.target.value)}
+                aria-label={prop.key}
+            />
+        );
+    }
+
+    if (type === 'list') {
+        const items = value as string[];
+        const prefix = prop.key === 'tags' ? '#' : '';
+        return (
+            <div className="property-list">
+                {items.map((item, i) => {
+                    const target = linkTarget(item);
+                    const note = target ? findNoteByTitle(notes, target) : undefined;
+                    return (
+                        <span key={`${item}-${i}`} className="property-chip">
+                            {note
+                                ? <button className="property-link" onClick={() => onNavigate(note.id)}>{target}</button>
+                                : `${prefix}${item}`}
+                            <button
+                                className="property-chip-remove"
+                                onClick={() => onCommit(items.filter((_, j) => j !== i))}
+                                aria-label={`Remove ${item}`}
+                            >×</button>
+                        </span>
+                    );
+                })}
+                <input
+                    type="text"
+                    className="property-input property-list-input"
+                    placeholder="Add…"
+                    onKeyDown={e => {
+                        const input = e.currentTarget;
+                        const typed = input.value.trim();
+                        const item = prefix ? typed.replace(/^#/, '') : typed;
+                        if (e.key === 'Enter' && item) {
+                            e.preventDefault();
+                            if (!items.includes(item)) onCommit([...items, item]);
+                            input.value = '';
+                        } else if (e.key === 'Backspace' && !input.value && items.length > 0) {
+                            onCommit(items.slice(0, -1));
+                        }
+                    }}
+                    aria-label={`Add to ${prop.key}`}
+                />
+            </div>
+        );
+    }
+
+    if (type === 'link') {
+        const target = linkTarget(String(value));
+        const note = target ? findNoteByTitle(notes, target) : undefined;
+        return (
+            <div className="property-link-field">
+                {note && (
+                    <button className="property-link" onClick={() => onNavigate(note.id)} title="Open linked note">↗</button>
+                )}
+                <input
+                    key={String(value)}
+                    type="text"
+                    className={`property-input ${target && !note ? 'unresolved' : ''}`}
+                    defaultValue={target ?? ''}
+                    list={listId}
+                    placeholder="Note title"
+                    onBlur={e => {
+                        const title = e.target.value.trim();
+                        if (title !== (target ?? '')) onCommit(title ? `[[${title}]]` : '[[]]');
+                    }}
+                    onKeyDown={commitOnEnter}
+                    aria-label={prop.key}
+                />
+                <datalist id={listId}>
+                    {notes.map(n => <option key={n.id} value={n.title || 'Untitled'} />)}
+                </datalist>
+            </div>
+        );
+    }
+
+    return (
+        <input
+            key={String(value)}
+            type={type === 'number' ? 'number' : 'text'}
+            className="property-input"
+            defaultValue={String(value)}
+            onBlur={e => {
+                const raw = e.target.value;
+                if (raw === String(value)) return;
+                if (type === 'number') {
+                    if (raw.trim() !== '' && !isNaN(Number(raw))) onCommit(Number(raw));
+                } else {
+                    onCommit(raw);
+                }
+            }}
+            onKeyDown={commitOnEnter}
+            aria-label={prop.key}
+        />
+    );
+};
+
+export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ content, notes, onChange, onNavigate, isActive = true }) => {
+    const sl = useSinglish();
+    const [collapsed, setCollapsed] = useState(false);
+    const [isAdding, setIsAdding] = useState(false);
+    const [newKey, setNewKey] = useState('');
+    const [newType, setNewType] = useState<PropertyType>('text');
+
+    const properties = useMemo(() => getProperties(content), [content]);
+
+    // the "Add Property" command opens the form even when the note has no properties yet
+    useEffect(() => {
+        const handleCommand = (e: CustomEvent) => {
+            if (!isActive || e.detail?.command !== 'add-property') return;
+            setCollapsed(false);
+            setIsAdding(true);
+        };
+        window.addEventListener('yoro-editor-cmd', handleCommand as EventListener);
+        return () => window.removeEventListener('yoro-editor-cmd', handleCommand as EventListener);
+    }, [isActive]);
+
+    if (properties.length === 0 && !isAdding) return null;
+
+    const update = (key: string, value: PropertyValue | null) => onChange(setProperty(content, key, value));
+
+    const keyTaken = properties.some(p => p.key === newKey.trim());
+    const keyValid = KEY_RE.test(newKey.trim()) && !keyTaken;
+
+    const handleAdd = () => {
+        if (!keyValid) return;
+        update(newKey.trim(), defaultPropertyValue(newType));
+        setNewKey('');
+        setNewType('text');
+        setIsAdding(false);
+    };
+
+    return (
+        <div className="properties-panel">
+            <button className="properties-header" onClick={() => setCollapsed(c => !c)} aria-expanded={!collapsed}>
+                <span className="properties-chevron">{collapsed ? '▸' : '▾'}</span>
+                Properties
+                <span className="properties-count">{properties.length}</span>
+            </button>
+            {!collapsed && (
+                <div className="properties-body">
+                    {properties.map(prop => (
+                        <div key={prop.key} className="property-row">
+                            <select
+                                className="property-type"
+                                value={prop.type}
+                                onChange={e => {
+                                    const type = e.target.value as PropertyType;
+                                    update(prop.key, convertPropertyValue(prop.value, type));
+                                }}
+                                title={sl ? 'Change type' : 'Property type'}
+                                aria-label={`${prop.key} type`}
+                            >
+                                {PROPERTY_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                            </select>
+                            <span className="property-key" title={prop.key}>{prop.key}</span>
+                            <div className="property-value">
+                                <PropertyValueInput
+                                    prop={prop}
+                                    notes={notes}
+                                    onCommit={value => update(prop.key, value)}
+                                    onNavigate={onNavigate}
+                                />
+                            </div>
+                            <button
+                                className="property-remove"
+                                onClick={() => update(prop.key, null)}
+                                title={sl ? 'Remove this one' : 'Remove property'}
+                                aria-label={`Remove ${prop.key}`}
+                            >×</button>
+                        </div>
+                    ))}
+                    {isAdding ? (
+                        <div className="property-row property-add-row">
+                            <select
+                                className="property-type"
+                                value={newType}
+                                onChange={e => setNewType(e.target.value as PropertyType)}
+                                aria-label="New property type"
+                            >
+                                {PROPERTY_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                            </select>
+                            <input
+                                type="text"
+                                className={`property-input ${newKey && !keyValid ? 'invalid' : ''}`}
+                                value={newKey}
+                                onChange={e => setNewKey(e.target.value)}
+                                onKeyDown={e => {
+                                    if (e.key === 'Enter') { e.preventDefault(); handleAdd(); }
+                                    if (e.key === 'Escape') { e.preventDefault(); setIsAdding(false); }
+                                }}
+                                placeholder="Property name"
+                                title={keyTaken ? (sl ? 'Already got this one' : 'A property with this name exists') : 'Letters, numbers, - and _'}
+                                autoFocus
+                                aria-label="New property name"
+                            />
+                            <button className="property-add-confirm" onClick={handleAdd} disabled={!keyValid}>
+                                Add
+                            </button>
+                            <button className="property-remove" onClick={() => setIsAdding(false)} aria-label="Cancel">×</button>
+                        </div>
+                    ) : (
+                        <button className="property-add" onClick={() => setIsAdding(true)}>
+                            {sl ? '+ Add property lah' : '+ Add property'}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
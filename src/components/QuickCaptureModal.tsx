@@ -7,9 +7,11 @@ interface QuickCaptureModalProps {
     isOpen: boolean;
     onClose: () => void;
     onCapture: (text: string) => void;
+    appendToDaily: boolean;
+    onAppendToDailyChange: (append: boolean) => void;
 }
 
-export const QuickCaptureModal: React.FC<QuickCaptureModalProps> = ({ isOpen, onClose, onCapture }) => {
+export const QuickCaptureModal: React.FC<QuickCaptureModalProps> = ({ isOpen, onClose, onCapture, appendToDaily, onAppendToDailyChange }) => {
     const sl = useSinglish();
     const [text, setText] = useState('');
     const inputRef = useRef<HTMLTextAreaElement>(null);
@@ -59,6 +61,14 @@ export const QuickCaptureModal: React.FC<QuickCaptureModalProps> = ({ isOpen, on
                     aria-label="Quick capture note content"
                 />
                 <div className="quick-capture-footer">
+                    <label className="quick-capture-daily">
+                        <input
+                            type="checkbox"
+                            checked={appendToDaily}
+                            onChange={e => onAppendToDailyChange(e.target.checked)}
+                        />
+                        {sl ? "Put inside today's note" : "Append to today's note"}
+                    </label>
                     <button onClick={onClose}>{sl ? 'Nvm' : 'Cancel'}</button>
                     <button className="primary" onClick={handleSubmit}>{sl ? 'Save lah' : 'Capture'}</button>
                 </div>
@@ -0,0 +1,84 @@
+import React, { useRef } from 'react';
+import { useSinglish } from '../contexts/SinglishContext';
+import './styles/SplitPane.css';
+
+export type PaneSide = 'primary' | 'secondary';
+
+interface SplitPaneProps {
+    /** share of the width given to the primary pane */
+    ratio: number;
+    onRatioChange: (ratio: number) => void;
+    primary: React.ReactNode;
+    secondary: React.ReactNode;
+    primaryRef?: React.RefObject<HTMLDivElement | null>;
+    activePane: PaneSide;
+    onFocusPane: (pane: PaneSide) => void;
+    onSwap?: () => void;
+    onClose: () => void;
+}
+
+const MIN_RATIO = 0.2;
+const MAX_RATIO = 0.8;
+
+const clampSplitRatio = (ratio: number) => Math.min(MAX_RATIO, Math.max(MIN_RATIO, ratio));
+
+export const SplitPane: React.FC<SplitPaneProps> = ({
+    ratio, onRatioChange, primary, secondary, primaryRef, activePane, onFocusPane, onSwap, onClose,
+}) => {
+    const sl = useSinglish();
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    const handleDividerMouseDown = (e: React.MouseEvent) => {
+        e.preventDefault();
+        const container = containerRef.current;
+        if (!container) return;
+        const bounds = container.getBoundingClientRect();
+        const onMouseMove = (me: MouseEvent) => {
+            onRatioChange(clampSplitRatio((me.clientX - bounds.left) / bounds.width));
+        };
+        const onMouseUp = () => {
+            document.removeEventListener('mousemove', onMouseMove);
+            document.removeEventListener('mouseup', onMouseUp);
+            container.classList.remove('resizing');
+        };
+        // the preview iframe would swallow mouse events while dragging over it
+        container.classList.add('resizing');
+        document.addEventListener('mousemove', onMouseMove);
+        document.addEventListener('mouseup', onMouseUp);
+    };
+
+    return (
+        <div className="split-pane" ref={containerRef}>
+            <div
+                className={`split-pane-side ${activePane === 'primary' ? 'active' : ''}`}
+                style={{ flexBasis: `${ratio * 100}%` }}
+                ref={primaryRef}
+                onFocusCapture={() => onFocusPane('primary')}
+                onMouseDown={() => onFocusPane('primary')}
+            >
+                {primary}
+            </div>
+            <div
+                className="split-pane-divider"
+                role="separator"
+                aria-orientation="vertical"
+                aria-valuenow={Math.round(ratio * 100)}
+                onMouseDown={handleDividerMouseDown}
+                onDoubleClick={() => onRatioChange(0.5)}
+                title={sl ? 'Drag to change size, double-click make same same' : 'Drag to resize, double-click to reset'}
+            />
+            <div
+                className={`split-pane-side ${activePane === 'secondary' ? 'active' : ''}`}
+                style={{ flexBasis: `${(1 - ratio) * 100}%` }}
+                onFocusCapture={() => onFocusPane('secondary')}
+                onMouseDown={() => onFocusPane('secondary')}
+            >
+                <div className="split-pane-actions">
+                    {onSwap && <button onClick={onSwap} title={sl ? 'Swap the two sides' : 'Swap panes'}>⇄</button>}
+                    <button onClick={onClose} title={sl ? 'Close this side' : 'Close split'}>×</button>
+                </div>
+                {secondary}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import type { Note, NoteTab } from '../types';
+import { useSinglish } from '../contexts/SinglishContext';
+import './styles/TabBar.css';
+
+const TAB_DRAG_TYPE = 'application/x-yoro-tab';
+
+interface TabBarProps {
+    tabs: NoteTab[];
+    notes: Note[];
+    activeId: string;
+    onSelect: (noteId: string) => void;
+    onClose: (noteId: string) => void;
+    onTogglePin: (noteId: string) => void;
+    onMove: (noteId: string, index: number) => void;
+}
+
+export const TabBar: React.FC<TabBarProps> = ({ tabs, notes, activeId, onSelect, onClose, onTogglePin, onMove }) => {
+    const sl = useSinglish();
+    // where a dragged tab would land: before the tab at this index
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+    const handleDragOver = (e: React.DragEvent, index: number) => {
+        if (!e.dataTransfer.types.includes(TAB_DRAG_TYPE)) return;
+        e.preventDefault();
+        const bounds = e.currentTarget.getBoundingClientRect();
+        setDropIndex(e.clientX < bounds.left + bounds.width / 2 ? index : index + 1);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        const noteId = e.dataTransfer.getData(TAB_DRAG_TYPE);
+        if (noteId && dropIndex !== null) {
+            e.preventDefault();
+            const from = tabs.findIndex(t => t.noteId === noteId);
+            // the dragged tab leaves its old slot first, shifting later tabs left by one
+            onMove(noteId, from >= 0 && from < dropIndex ? dropIndex - 1 : dropIndex);
+        }
+        setDropIndex(null);
+    };
+
+    return (
+        <div className="tab-bar" role="tablist" onDragLeave={() => setDropIndex(null)} onDrop={handleDrop}>
+            {tabs.map((tab, index) => {
+                const note = notes.find(n => n.id === tab.noteId);
+                const title = note?.title || 'Untitled';
+                const classes = [
+                    'tab-bar-tab',
+                    tab.noteId === activeId ? 'active' : '',
+                    tab.pinned ? 'pinned' : '',
+                    dropIndex === index ? 'drop-before' : '',
+                    dropIndex === index + 1 && index === tabs.length - 1 ? 'drop-after' : '',
+                ].filter(Boolean).join(' ');
+                return (
+                    <div
+                        key={tab.noteId}
+                        className={classes}
+                        role="tab"
+                        aria-selected={tab.noteId === activeId}
+                        tabIndex={0}
+                        title={title}
+                        draggable
+                        onDragStart={e => e.dataTransfer.setData(TAB_DRAG_TYPE, tab.noteId)}
+                        onDragOver={e => handleDragOver(e, index)}
+                        onDragEnd={() => setDropIndex(null)}
+                        onClick={() => onSelect(tab.noteId)}
+                        onKeyDown={e => { if (e.key === 'Enter') onSelect(tab.noteId); }}
+                        onDoubleClick={() => onTogglePin(tab.noteId)}
+                        // middle-click closes, as in a browser; mousedown would start autoscroll
+                        onMouseDown={e => { if (e.button === 1) e.preventDefault(); }}
+                        onAuxClick={e => { if (e.button === 1 && !tab.pinned) onClose(tab.noteId); }}
+                    >
+                        {note?.icon && <span className="tab-bar-icon">{note.icon}</span>}
+                        <span className="tab-bar-title">{title}</span>
+                        {tab.pinned ? (
+                            <button
+                                className="tab-bar-button"
+                                onClick={e => { e.stopPropagation(); onTogglePin(tab.noteId); }}
+                                title={sl ? 'Unpin this tab' : 'Unpin tab'}
+                                aria-label={sl ? 'Unpin this tab' : 'Unpin tab'}
+                            >📌</button>
+                        ) : (
+                            <button
+                                className="tab-bar-button"
+                                onClick={e => { e.stopPropagation(); onClose(tab.noteId); }}
+                                title={sl ? 'Close this tab' : 'Close tab'}
+                                aria-label={sl ? 'Close this tab' : 'Close tab'}
+                            >×</button>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
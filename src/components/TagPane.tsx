@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { isTagFilterEmpty, normalizeTag, resolveTagColor, type TagFilter, type TagNode } from '../utils/tags';
+import { useSinglish } from '../contexts/SinglishContext';
+import './styles/TagPane.css';
+
+interface TagPaneProps {
+    tree: TagNode[];
+    allTags: string[];
+    filter: TagFilter;
+    onFilterChange: (filter: TagFilter) => void;
+    colors: Record<string, string>;
+    onSetColor: (tag: string, color: string | null) => void;
+    /** renaming onto a tag that already exists merges the two */
+    onRenameTag: (from: string, to: string) => void;
+}
+
+type TagState = 'include' | 'exclude' | null;
+
+export const TagPane: React.FC<TagPaneProps> = ({ tree, allTags, filter, onFilterChange, colors, onSetColor, onRenameTag }) => {
+    const sl = useSinglish();
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [renaming, setRenaming] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
+
+    const stateOf = (tag: string): TagState =>
+        filter.include.includes(tag) ? 'include' : filter.exclude.includes(tag) ? 'exclude' : null;
+
+    // clicking a tag steps it through include → exclude → off
+    const cycle = (tag: string) => {
+        const include = filter.include.filter(t => t !== tag);
+        const exclude = filter.exclude.filter(t => t !== tag);
+        const state = stateOf(tag);
+        if (state === null) include.push(tag);
+        else if (state === 'include') exclude.push(tag);
+        onFilterChange({ ...filter, include, exclude });
+    };
+
+    const toggle = (tag: string) => setCollapsed(prev => {
+        const next = new Set(prev);
+        if (next.has(tag)) next.delete(tag); else next.add(tag);
+        return next;
+    });
+
+    const commitRename = () => {
+        const to = normalizeTag(draft);
+        if (renaming && to && to !== renaming) onRenameTag(renaming, to);
+        setRenaming(null);
+    };
+
+    const renderNode = (node: TagNode, depth: number): React.ReactNode => {
+        const isCollapsed = collapsed.has(node.tag);
+        const state = stateOf(node.tag);
+        const color = resolveTagColor(node.tag, allTags, colors);
+        return (
+            <li key={node.tag}>
+                <div className={`tag-pane-item ${state ?? ''}`} style={{ paddingLeft: 8 + depth * 14 }}>
+                    <button
+                        className={`tag-pane-toggle ${node.children.length === 0 ? 'empty' : ''}`}
+                        onClick={() => toggle(node.tag)}
+                        aria-label={isCollapsed ? 'Expand tag' : 'Collapse tag'}
+                    >{isCollapsed ? '▸' : '▾'}</button>
+                    <label className="tag-pane-color" style={{ background: color }} title={sl ? 'Choose colour' : 'Tag colour'}>
+                        <input type="color" value={color} onChange={e => onSetColor(node.tag, e.target.value)} />
+                    </label>
+                    {renaming === node.tag ? (
+                        <input
+                            className="tag-pane-input"
+                            autoFocus
+                            value={draft}
+                            onChange={e => setDraft(e.target.value)}
+                            onBlur={commitRename}
+                            onKeyDown={e => {
+                                if (e.key === 'Enter') commitRename();
+                                if (e.key === 'Escape') setRenaming(null);
+                            }}
+                        />
+                    ) : (
+                        <span
+                            className="tag-pane-name"
+                            onClick={() => cycle(node.tag)}
+                            title={state === 'include'
+                                ? (sl ? 'Click again to hide notes with this tag' : 'Click to exclude this tag')
+                                : state === 'exclude'
+                                    ? (sl ? 'Click to stop filtering' : 'Click to clear this tag')
+                                    : (sl ? 'Click to show only this tag' : 'Click to filter by this tag')}
+                        >
+                            {state === 'exclude' ? '−' : '#'}{node.name}
+                        </span>
+                    )}
+                    <span className="tag-pane-count">{node.count}</span>
+                    <span className="tag-pane-actions">
+                        <button onClick={() => { setRenaming(node.tag); setDraft(node.tag); }} title={sl ? 'Change name or merge into other tag' : 'Rename or merge tag'}>✎</button>
+                        {colors[node.tag] && (
+                            <button onClick={() => onSetColor(node.tag, null)} title={sl ? 'Remove colour' : 'Reset colour'}>⊘</button>
+                        )}
+                    </span>
+                </div>
+                {!isCollapsed && node.children.length > 0 && (
+                    <ul>{node.children.map(child => renderNode(child, depth + 1))}</ul>
+                )}
+            </li>
+        );
+    };
+
+    return (
+        <section className="tag-pane" aria-label="Tags">
+            <div className="tag-pane-header">
+                <span>Tags</span>
+                <button
+                    className="tag-pane-mode"
+                    onClick={() => onFilterChange({ ...filter, mode: filter.mode === 'and' ? 'or' : 'and' })}
+                    title={filter.mode === 'and'
+                        ? (sl ? 'Now must have all tags; click for any' : 'Notes need every included tag; click to match any')
+                        : (sl ? 'Now any tag also can; click for all' : 'Notes need any included tag; click to match all')}
+                >{filter.mode === 'and' ? 'AND' : 'OR'}</button>
+                {!isTagFilterEmpty(filter) && (
+                    <button onClick={() => onFilterChange({ ...filter, include: [], exclude: [] })} title={sl ? 'Clear tag filter' : 'Clear tag filters'}>×</button>
+                )}
+            </div>
+            {tree.length === 0 ? (
+                <p className="tag-pane-empty">{sl ? 'No tags yet leh' : 'No tags yet'}</p>
+            ) : (
+                <ul className="tag-pane-list">{tree.map(node => renderNode(node, 0))}</ul>
+            )}
+        </section>
+    );
+};
@@ -0,0 +1,179 @@
+import React, { useState, useMemo } from 'react';
+import type { Note } from '../types';
+import {
+    collectTasks, groupTasks, matchesTaskFilter, toggleTask, dueBucket,
+    DEFAULT_TASK_FILTER, PRIORITY_ORDER, DUE_BUCKETS,
+    type Task, type TaskFilter, type TaskGroupBy, type TaskDueBucket, type TaskPriority,
+} from '../utils/tasks';
+import { toDateKey } from '../utils/views';
+import { showToast } from './Toast';
+import { useSinglish } from '../contexts/SinglishContext';
+import './styles/NoteList.css';
+import './styles/TasksView.css';
+
+interface TasksViewProps {
+    notes: Note[];
+    onUpdateNote: (id: string, updates: Partial<Note>) => void;
+    onOpenTask: (noteId: string, lineNumber: number) => void;
+    onBack: () => void;
+}
+
+const GROUP_OPTIONS: { value: TaskGroupBy; label: string }[] = [
+    { value: 'note', label: 'Note' },
+    { value: 'due', label: 'Due date' },
+    { value: 'priority', label: 'Priority' },
+    { value: 'tag', label: 'Tag' },
+    { value: 'none', label: 'Nothing' },
+];
+
+const DUE_LABELS: Record<TaskDueBucket, string> = { overdue: 'Overdue', today: 'Today', upcoming: 'Upcoming', none: 'No date' };
+const PRIORITY_LABELS: Record<TaskPriority, string> = { high: 'High', medium: 'Medium', low: 'Low' };
+
+export const TasksView: React.FC<TasksViewProps> = ({ notes, onUpdateNote, onOpenTask, onBack }) => {
+    const sl = useSinglish();
+    const [filter, setFilter] = useState<TaskFilter>(DEFAULT_TASK_FILTER);
+    const [groupBy, setGroupBy] = useState<TaskGroupBy>('note');
+
+    const today = toDateKey(new Date());
+    const tasks = useMemo(() => collectTasks(notes), [notes]);
+    const allTags = useMemo(() => [...new Set(tasks.flatMap(t => t.tags))].sort((a, b) => a.localeCompare(b)), [tasks]);
+    const visible = useMemo(() => tasks.filter(t => matchesTaskFilter(t, filter, today)), [tasks, filter, today]);
+    const groups = useMemo(() => groupTasks(visible, groupBy, today), [visible, groupBy, today]);
+    const openCount = tasks.filter(t => !t.done).length;
+
+    const noteTitle = (id: string) => {
+        const note = notes.find(n => n.id === id);
+        return note ? note.title || 'Untitled' : '';
+    };
+
+    const groupLabel = (key: string) => {
+        if (groupBy === 'note') return noteTitle(key);
+        if (groupBy === 'due') return key ? DUE_LABELS[key as TaskDueBucket] : DUE_LABELS.none;
+        if (groupBy === 'priority') return key ? PRIORITY_LABELS[key as TaskPriority] : (sl ? 'No priority one' : 'No priority');
+        if (groupBy === 'tag') return key ? `#${key}` : (sl ? 'No tag' : 'Untagged');
+        return '';
+    };
+
+    const update = (changes: Partial<TaskFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+    const handleToggle = (task: Task) => {
+        const note = notes.find(n => n.id === task.noteId);
+        if (!note) return;
+        const updated = toggleTask(note.content, task, !task.done);
+        if (updated === null) {
+            showToast(sl ? 'That task changed already leh' : 'That task has changed; try again', 'warning');
+            return;
+        }
+        onUpdateNote(note.id, { content: updated });
+    };
+
+    const renderTask = (task: Task) => {
+        const bucket = dueBucket(task, today);
+        return (
+            <div key={`${task.noteId}-${task.lineNumber}`} className={`task-row ${task.done ? 'done' : ''}`}>
+                <input
+                    type="checkbox"
+                    className="task-checkbox"
+                    checked={task.done}
+                    onChange={() => handleToggle(task)}
+                    aria-label={task.done ? `Mark "${task.text}" as not done` : `Mark "${task.text}" as done`}
+                />
+                <button className="task-text" onClick={() => onOpenTask(task.noteId, task.lineNumber)} title={sl ? 'Go to the note' : 'Open in note'}>
+                    {task.text || task.line.trim()}
+                </button>
+                {task.priority && <span className={`task-priority ${task.priority}`}>{PRIORITY_LABELS[task.priority]}</span>}
+                {task.due && (
+                    <span className={`task-due ${!task.done ? bucket : ''}`}>📅 {task.due}</span>
+                )}
+                {groupBy !== 'note' && <span className="task-note">{noteTitle(task.noteId)}</span>}
+            </div>
+        );
+    };
+
+    return (
+        <div className="note-list-container">
+            <div className="docs-list-container">
+                <div className="docs-list-toolbar tasks-toolbar">
+                    <button className="docs-list-action-btn" onClick={onBack} title={sl ? 'Go back home' : 'Back to notes'}>
+                        {sl ? '← Balik' : '← Notes'}
+                    </button>
+                    <span className="docs-list-count">
+                        {sl ? `${openCount} task not done yet` : `${openCount} open ${openCount === 1 ? 'task' : 'tasks'}`}
+                    </span>
+                    <div className="tasks-status" role="group" aria-label="Status">
+                        {(['open', 'done', 'all'] as const).map(status => (
+                            <button
+                                key={status}
+                                className={`tasks-status-btn ${filter.status === status ? 'active' : ''}`}
+                                onClick={() => update({ status })}
+                                aria-pressed={filter.status === status}
+                            >{status === 'open' ? 'Open' : status === 'done' ? 'Done' : 'All'}</button>
+                        ))}
+                    </div>
+                    <input
+                        type="search"
+                        className="tasks-search"
+                        value={filter.query}
+                        onChange={e => update({ query: e.target.value })}
+                        placeholder={sl ? 'Find task...' : 'Filter tasks...'}
+                        aria-label="Filter tasks"
+                    />
+                </div>
+                <div className="tasks-filters">
+                    <label>
+                        {sl ? 'Group ikut' : 'Group by'}
+                        <select value={groupBy} onChange={e => setGroupBy(e.target.value as TaskGroupBy)}>
+                            {GROUP_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        Due
+                        <select value={filter.due ?? ''} onChange={e => update({ due: (e.target.value || null) as TaskDueBucket | null })}>
+                            <option value="">Any</option>
+                            {DUE_BUCKETS.map(b => <option key={b} value={b}>{DUE_LABELS[b]}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        Priority
+                        <select value={filter.priority ?? ''} onChange={e => update({ priority: (e.target.value || null) as TaskPriority | null })}>
+                            <option value="">Any</option>
+                            {PRIORITY_ORDER.map(p => <option key={p} value={p}>{PRIORITY_LABELS[p]}</option>)}
+                        </select>
+                    </label>
+                    {allTags.length > 0 && (
+                        <label>
+                            Tag
+                            <select value={filter.tag ?? ''} onChange={e => update({ tag: e.target.value || null })}>
+                                <option value="">Any</option>
+                                {allTags.map(t => <option key={t} value={t}>#{t}</option>)}
+                            </select>
+                        </label>
+                    )}
+                </div>
+                {tasks.length === 0 ? (
+                    <div className="empty-state">
+                        <p className="empty-state-text">{sl ? 'No task leh' : 'No tasks yet'}</p>
+                        <p className="empty-state-sub">
+                            {sl ? 'Write - [ ] inside any note, it will come here' : 'Checkbox items (- [ ]) from every note are collected here'}
+                        </p>
+                    </div>
+                ) : groups.length === 0 ? (
+                    <div className="empty-state">
+                        <p className="empty-state-text">{sl ? 'Nothing match leh' : 'No tasks match these filters'}</p>
+                    </div>
+                ) : (
+                    groups.map(group => (
+                        <div key={group.key || '__none'} className="docs-list-group">
+                            {groupBy !== 'none' && (
+                                <div className={`docs-list-group-label ${groupBy === 'due' && group.key === 'overdue' ? 'tasks-overdue-label' : ''}`}>
+                                    {groupLabel(group.key)} <span className="tasks-group-count">{group.tasks.length}</span>
+                                </div>
+                            )}
+                            {group.tasks.map(renderTask)}
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
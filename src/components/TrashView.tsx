@@ -0,0 +1,89 @@
+import React from 'react';
+import type { Note } from '../types';
+import { useSinglish } from '../contexts/SinglishContext';
+import { daysUntilPurge } from '../utils/trash';
+import './styles/NoteList.css';
+import './styles/TrashView.css';
+
+interface TrashViewProps {
+    notes: Note[];
+    retentionDays: number;
+    onRestoreNote: (id: string) => void;
+    onDeleteNote: (id: string, e: React.MouseEvent) => void;
+    onEmptyTrash: () => void;
+    onBack: () => void;
+}
+
+export const TrashView: React.FC<TrashViewProps> = ({ notes, retentionDays, onRestoreNote, onDeleteNote, onEmptyTrash, onBack }) => {
+    const sl = useSinglish();
+    const sorted = [...notes].sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+
+    const formatDate = (ts: number) => {
+        const d = new Date(ts);
+        return d.toLocaleDateString('en-US', {
+            month: 'short', day: 'numeric',
+            year: d.getFullYear() !== new Date().getFullYear() ? 'numeric' : undefined
+        });
+    };
+
+    const purgeLabel = (note: Note) => {
+        const days = daysUntilPurge(note, retentionDays);
+        if (days === null) return sl ? 'Keep forever' : 'Kept forever';
+        if (days === 0) return sl ? 'Going soon' : 'Purged soon';
+        return `${days}d left`;
+    };
+
+    return (
+        <div className="note-list-container">
+            <div className="docs-list-container">
+                <div className="docs-list-toolbar">
+                    <button className="docs-list-action-btn" onClick={onBack} title={sl ? 'Go back home' : 'Back to notes'}>
+                        {sl ? '← Balik' : '← Notes'}
+                    </button>
+                    <span className="docs-list-count">
+                        Trash · {sorted.length} {sorted.length === 1 ? 'note' : 'notes'}
+                    </span>
+                    <span className="trash-retention-hint">
+                        {retentionDays > 0
+                            ? (sl ? `Auto clear after ${retentionDays} days` : `Notes are purged ${retentionDays} days after deletion`)
+                            : (sl ? 'Auto clear off' : 'Auto-purge is off')}
+                    </span>
+                    {sorted.length > 0 && (
+                        <button className="docs-list-action-btn danger trash-empty-btn" onClick={onEmptyTrash}>
+                            {sl ? 'Clear all' : 'Empty Trash'}
+                        </button>
+                    )}
+                </div>
+                {sorted.length === 0 ? (
+                    <div className="empty-state">
+                        <p className="empty-state-text">{sl ? 'Trash empty leh' : 'Trash is empty'}</p>
+                        <p className="empty-state-sub">{sl ? 'Deleted notes come here first' : 'Deleted notes stay here until they are purged'}</p>
+                    </div>
+                ) : (
+                    <div className="docs-list-table">
+                        <div className="docs-list-thead">
+                            <div className="docs-list-col docs-list-col-title">Title</div>
+                            <div className="docs-list-col docs-list-col-tags">Purge</div>
+                            <div className="docs-list-col docs-list-col-date">Deleted</div>
+                            <div className="docs-list-col docs-list-col-actions" />
+                        </div>
+                        {sorted.map(note => (
+                            <div key={note.id} className="docs-list-row trash-row">
+                                <div className="docs-list-col docs-list-col-title">
+                                    {note.icon && <span className="trash-row-icon">{note.icon}</span>}
+                                    <span className="docs-list-title">{note.title || 'Untitled'}</span>
+                                </div>
+                                <div className="docs-list-col docs-list-col-tags">{purgeLabel(note)}</div>
+                                <div className="docs-list-col docs-list-col-date">{formatDate(note.deletedAt ?? note.updatedAt)}</div>
+                                <div className="docs-list-col docs-list-col-actions">
+                                    <button className="docs-list-action-btn" onClick={() => onRestoreNote(note.id)} title="Restore">restore</button>
+                                    <button className="docs-list-action-btn danger" onClick={(e) => onDeleteNote(note.id, e)} title="Delete permanently">del</button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
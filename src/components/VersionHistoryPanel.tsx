@@ -0,0 +1,252 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Note, NoteVersion } from '../types';
+import { storage } from '../utils/storage';
+import { diffLines, diffHunks, applyHunks, type DiffOp } from '../utils/diff';
+import { useSinglish } from '../contexts/SinglishContext';
+import { useFocusTrap } from '../utils/useFocusTrap';
+import './styles/VersionHistoryPanel.css';
+
+interface VersionHistoryPanelProps {
+    isOpen: boolean;
+    note: Note | null;
+    onClose: () => void;
+    onRestore: (content: string, scope: 'version' | 'hunk') => void;
+}
+
+type DiffLayout = 'inline' | 'split';
+
+// unchanged lines shown around each hunk; longer runs collapse
+const CONTEXT_LINES = 3;
+
+type Row =
+    | { kind: 'gap'; count: number }
+    | { kind: 'op'; op: DiffOp; hunk: number | null; hunkStart: boolean };
+
+function buildRows(ops: DiffOp[], hunkOf: (number | null)[]): Row[] {
+    const near = new Array(ops.length).fill(false);
+    ops.forEach((op, i) => {
+        if (op.type === 'equal') return;
+        for (let j = Math.max(0, i - CONTEXT_LINES); j <= Math.min(ops.length - 1, i + CONTEXT_LINES); j++) near[j] = true;
+    });
+    const rows: Row[] = [];
+    let gap = 0;
+    ops.forEach((op, i) => {
+        if (!near[i]) { gap++; return; }
+        if (gap > 0) { rows.push({ kind: 'gap', count: gap }); gap = 0; }
+        const hunk = hunkOf[i];
+        rows.push({ kind: 'op', op, hunk, hunkStart: hunk !== null && hunkOf[i - 1] !== hunk });
+    });
+    if (gap > 0) rows.push({ kind: 'gap', count: gap });
+    return rows;
+}
+
+function formatTimestamp(ts: number): string {
+    const d = new Date(ts);
+    return d.toLocaleString('en-US', {
+        month: 'short', day: 'numeric',
+        year: d.getFullYear() !== new Date().getFullYear() ? 'numeric' : undefined,
+        hour: 'numeric', minute: '2-digit',
+    });
+}
+
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ isOpen, note, onClose, onRestore }) => {
+    const sl = useSinglish();
+    const trapRef = useFocusTrap(isOpen);
+    const [versions, setVersions] = useState<NoteVersion[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [layout, setLayout] = useState<DiffLayout>('inline');
+    const noteId = note?.id ?? null;
+
+    // (re)load snapshots when opened, after every save and after a restore pins one
+    useEffect(() => {
+        if (!isOpen || !noteId) return;
+        let cancelled = false;
+        const load = () => {
+            storage.listVersions(noteId).then(list => {
+                if (!cancelled) setVersions(list);
+            }).catch(err => console.error('Failed to load version history:', err));
+        };
+        load();
+        window.addEventListener('yoro-data-saved', load);
+        window.addEventListener('yoro-versions-changed', load);
+        return () => {
+            cancelled = true;
+            window.removeEventListener('yoro-data-saved', load);
+            window.removeEventListener('yoro-versions-changed', load);
+        };
+    }, [isOpen, noteId]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isOpen, onClose]);
+
+    const selected = versions.find(v => v.id === selectedId) ?? versions[0] ?? null;
+    const current = note?.content ?? '';
+
+    // old side is the current content, new side the snapshot, so accepting
+    // a hunk pulls the snapshot's lines back into the note
+    const ops = useMemo(() => selected ? diffLines(current, selected.content) : [], [current, selected]);
+    const hunks = useMemo(() => diffHunks(ops), [ops]);
+    const hunkOf = useMemo(() => {
+        const map: (number | null)[] = new Array(ops.length).fill(null);
+        hunks.forEach((h, idx) => { for (let i = h.start; i < h.end; i++) map[i] = idx; });
+        return map;
+    }, [ops, hunks]);
+    const rows = useMemo(() => buildRows(ops, hunkOf), [ops, hunkOf]);
+
+    if (!isOpen || !note) return null;
+
+    const restoreHunk = (idx: number) => onRestore(applyHunks(ops, hunks, new Set([idx])), 'hunk');
+
+    const renderHunkAction = (hunk: number) => (
+        <button className="version-hunk-restore" onClick={() => restoreHunk(hunk)} title={sl ? 'Take back this part' : 'Restore this change'}>
+            {sl ? 'Take back' : 'Restore hunk'}
+        </button>
+    );
+
+    const renderInline = () => rows.map((row, i) => {
+        if (row.kind === 'gap') {
+            return <div key={i} className="version-diff-gap">{sl ? `${row.count} lines same` : `${row.count} unchanged line${row.count !== 1 ? 's' : ''}`}</div>;
+        }
+        const { op } = row;
+        // insert = only in the snapshot, delete = only in the current note
+        const cls = op.type === 'insert' ? 'version-line-old' : op.type === 'delete' ? 'version-line-new' : '';
+        const marker = op.type === 'insert' ? '−' : op.type === 'delete' ? '+' : ' ';
+        return (
+            <React.Fragment key={i}>
+                {row.hunkStart && row.hunk !== null && <div className="version-hunk-header">{renderHunkAction(row.hunk)}</div>}
+                <div className={`version-diff-line ${cls}`}>
+                    <span className="version-diff-marker">{marker}</span>
+                    <span className="version-diff-text">{op.text || ' '}</span>
+                </div>
+            </React.Fragment>
+        );
+    });
+
+    const renderSplit = () => {
+        const out: React.ReactNode[] = [];
+        let i = 0;
+        while (i < rows.length) {
+            const row = rows[i];
+            if (row.kind === 'gap') {
+                out.push(<div key={i} className="version-diff-gap version-split-full">{sl ? `${row.count} lines same` : `${row.count} unchanged line${row.count !== 1 ? 's' : ''}`}</div>);
+                i++;
+                continue;
+            }
+            if (row.hunk === null) {
+                out.push(
+                    <React.Fragment key={i}>
+                        <div className="version-diff-line"><span className="version-diff-text">{row.op.text || ' '}</span></div>
+                        <div className="version-diff-line"><span className="version-diff-text">{row.op.text || ' '}</span></div>
+                    </React.Fragment>
+                );
+                i++;
+                continue;
+            }
+            // pair up the snapshot and current lines of one hunk side by side
+            const hunk = row.hunk;
+            const left: string[] = [];
+            const right: string[] = [];
+            while (i < rows.length) {
+                const r = rows[i];
+                if (r.kind !== 'op' || r.hunk !== hunk) break;
+                if (r.op.type === 'insert') left.push(r.op.text);
+                else right.push(r.op.text);
+                i++;
+            }
+            out.push(<div key={`h${hunk}`} className="version-hunk-header version-split-full">{renderHunkAction(hunk)}</div>);
+            for (let k = 0; k < Math.max(left.length, right.length); k++) {
+                out.push(
+                    <React.Fragment key={`h${hunk}-${k}`}>
+                        <div className={`version-diff-line ${k < left.length ? 'version-line-old' : 'version-line-empty'}`}>
+                            <span className="version-diff-text">{k < left.length ? (left[k] || ' ') : ''}</span>
+                        </div>
+                        <div className={`version-diff-line ${k < right.length ? 'version-line-new' : 'version-line-empty'}`}>
+                            <span className="version-diff-text">{k < right.length ? (right[k] || ' ') : ''}</span>
+                        </div>
+                    </React.Fragment>
+                );
+            }
+        }
+        return out;
+    };
+
+    return (
+        <div className="version-history-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="version-history-title">
+            <div className="version-history-modal" onClick={e => e.stopPropagation()} ref={trapRef as React.RefObject<HTMLDivElement>}>
+                <div className="version-history-header">
+                    <h3 className="version-history-title" id="version-history-title">
+                        {sl ? 'Old versions' : 'Version History'}
+                        <span className="version-history-note">{note.title || 'Untitled'}</span>
+                    </h3>
+                    <div className="version-history-layout" role="group" aria-label="Diff layout">
+                        <button className={layout === 'inline' ? 'active' : ''} onClick={() => setLayout('inline')}>Inline</button>
+                        <button className={layout === 'split' ? 'active' : ''} onClick={() => setLayout('split')}>Side by side</button>
+                    </div>
+                    <button className="version-history-close" onClick={onClose} aria-label="Close version history">
+                        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                            <path d="M18 6L6 18M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+                <div className="version-history-body">
+                    <ul className="version-history-list">
+                        {versions.length === 0 && (
+                            <li className="version-history-empty">
+                                {sl ? 'No versions yet leh. Save first (Ctrl+S).' : 'No versions yet. Versions are saved when you press Ctrl+S.'}
+                            </li>
+                        )}
+                        {versions.map((v, idx) => {
+                            const older = versions[idx + 1];
+                            const delta = older ? v.content.length - older.content.length : v.content.length;
+                            return (
+                                <li key={v.id}>
+                                    <button
+                                        className={`version-history-item ${selected?.id === v.id ? 'active' : ''}`}
+                                        onClick={() => setSelectedId(v.id)}
+                                    >
+                                        <span className="version-history-date">{formatTimestamp(v.createdAt)}</span>
+                                        <span className={`version-history-delta ${delta >= 0 ? 'up' : 'down'}`}>
+                                            {delta >= 0 ? '+' : ''}{delta} chars
+                                        </span>
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                    <div className={`version-diff version-diff-${layout}`}>
+                        {selected && hunks.length === 0 && (
+                            <div className="version-history-empty">{sl ? 'Same as now leh' : 'This version matches the current content.'}</div>
+                        )}
+                        {selected && hunks.length > 0 && layout === 'split' && (
+                            <>
+                                <div className="version-split-label">{sl ? 'That time' : 'Version'}</div>
+                                <div className="version-split-label">{sl ? 'Now' : 'Current'}</div>
+                            </>
+                        )}
+                        {selected && hunks.length > 0 && (layout === 'inline' ? renderInline() : renderSplit())}
+                    </div>
+                </div>
+                <div className="version-history-footer">
+                    <span className="version-history-stats">
+                        {selected
+                            ? (sl ? `${hunks.length} changes` : `${hunks.length} change${hunks.length !== 1 ? 's' : ''} from current`)
+                            : ''}
+                    </span>
+                    <button
+                        className="version-history-restore"
+                        disabled={!selected || hunks.length === 0}
+                        onClick={() => selected && onRestore(selected.content, 'version')}
+                    >
+                        {sl ? 'Restore this one' : 'Restore this version'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
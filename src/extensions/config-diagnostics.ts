@@ -0,0 +1,66 @@
+import {
+    Decoration,
+    EditorView,
+    ViewPlugin,
+    WidgetType,
+    type ViewUpdate,
+    type DecorationSet
+} from '@codemirror/view';
+import type { Range } from '@codemirror/state';
+import { parseConfig, type ConfigDiagnostic } from '../utils/config';
+
+class DiagnosticWidget extends WidgetType {
+    readonly diagnostic: ConfigDiagnostic;
+
+    constructor(diagnostic: ConfigDiagnostic) {
+        super();
+        this.diagnostic = diagnostic;
+    }
+
+    eq(other: DiagnosticWidget) {
+        return other.diagnostic.message === this.diagnostic.message &&
+            other.diagnostic.severity === this.diagnostic.severity;
+    }
+
+    toDOM() {
+        const span = document.createElement('span');
+        span.className = `cm-config-diagnostic-message cm-config-diagnostic-${this.diagnostic.severity}`;
+        span.textContent = this.diagnostic.message;
+        return span;
+    }
+
+    ignoreEvent() { return true; }
+}
+
+// Marks every line of the config note that has an unknown key or a bad value,
+// re-validating as you type so problems show before the note is saved
+export const configDiagnostics = ViewPlugin.fromClass(class {
+    decorations: DecorationSet;
+
+    constructor(view: EditorView) {
+        this.decorations = this.build(view);
+    }
+
+    update(update: ViewUpdate) {
+        if (update.docChanged) {
+            this.decorations = this.build(update.view);
+        }
+    }
+
+    build(view: EditorView): DecorationSet {
+        const { doc } = view.state;
+        const { diagnostics } = parseConfig(doc.toString());
+        const ranges: Range<Decoration>[] = [];
+        for (const diagnostic of diagnostics) {
+            const line = doc.line(Math.min(Math.max(diagnostic.line, 1), doc.lines));
+            ranges.push(Decoration.line({
+                class: `cm-config-diagnostic-line cm-config-diagnostic-line-${diagnostic.severity}`,
+                attributes: { title: diagnostic.message },
+            }).range(line.from));
+            ranges.push(Decoration.widget({ widget: new DiagnosticWidget(diagnostic), side: 1 }).range(line.to));
+        }
+        return Decoration.set(ranges, true);
+    }
+}, {
+    decorations: v => v.decorations
+});
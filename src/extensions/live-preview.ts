@@ -6,7 +6,12 @@ import {
 } from '@codemirror/view';
 import type { DecorationSet, ViewUpdate } from '@codemirror/view';
 import { syntaxTree } from '@codemirror/language';
-import type { Range } from '@codemirror/state';
+import { StateField, type EditorState, type Range } from '@codemirror/state';
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+import type { Note, NoteId } from '../types';
+import { resolveAnchor } from '../utils/wikilinks';
+import { resolveEmbed, embedLabel, embedErrorMessage, type ResolvedEmbed } from '../utils/transclusion';
 
 class CheckboxWidget extends WidgetType {
     readonly checked: boolean;
@@ -172,6 +177,72 @@ class URLImageWidget extends WidgetType {
     }
 }
 
+class EmbedWidget extends WidgetType {
+    readonly embed: ResolvedEmbed;
+    readonly onNavigate: (noteId: string) => void;
+
+    constructor(embed: ResolvedEmbed, onNavigate: (noteId: string) => void) {
+        super();
+        this.embed = embed;
+        this.onNavigate = onNavigate;
+    }
+
+    // re-render whenever the embedded section's text changes
+    eq(other: EmbedWidget) {
+        return other.embed.note?.id === this.embed.note?.id
+            && embedLabel(other.embed) === embedLabel(this.embed)
+            && other.embed.text === this.embed.text
+            && other.embed.error === this.embed.error;
+    }
+
+    toDOM(view: EditorView) {
+        const { embed } = this;
+        const wrapper = document.createElement('div');
+        wrapper.className = `cm-embed${embed.error ? ' cm-embed-error' : ''}`;
+
+        const header = document.createElement('div');
+        header.className = 'cm-embed-title';
+        header.textContent = embedLabel(embed);
+        header.title = 'Open embedded note';
+        header.onmousedown = (e) => {
+            e.preventDefault();
+            const note = embed.note;
+            if (!note) return;
+            this.onNavigate(note.id);
+            const range = resolveAnchor(note.content, embed.target);
+            if (range) {
+                setTimeout(() => {
+                    window.dispatchEvent(new CustomEvent('yoro-navigate-line', {
+                        detail: { noteId: note.id, lineNumber: range.startLine }
+                    }));
+                }, 100);
+            }
+        };
+        wrapper.appendChild(header);
+
+        const body = document.createElement('div');
+        body.className = 'cm-embed-content';
+        if (embed.text === null) {
+            body.textContent = `⚠ ${embedErrorMessage(embed)}`;
+        } else if (embed.text.trim()) {
+            body.innerHTML = DOMPurify.sanitize(marked.parse(embed.text, { async: false }));
+        } else {
+            body.textContent = '(Empty note)';
+        }
+        // clicking the embed reveals its ![[...]] source for editing
+        body.onmousedown = (e) => {
+            e.preventDefault();
+            const pos = view.posAtDOM(wrapper);
+            view.dispatch({ selection: { anchor: view.state.doc.lineAt(pos).to } });
+            view.focus();
+        };
+        wrapper.appendChild(body);
+        return wrapper;
+    }
+
+    ignoreEvent() { return true; }
+}
+
 class LivePreviewPlugin {
     decorations: DecorationSet;
 
@@ -333,3 +404,58 @@ export const livePreview = ViewPlugin.fromClass(LivePreviewPlugin, {
         }
     }
 });
+
+// an embed renders as a block only when it stands on a line of its own
+const EMBED_LINE_RE = /^\s*!\[\[([^\]\n]+)\]\]\s*$/;
+
+function computeEmbedDecorations(state: EditorState, notes: Note[], noteId: NoteId, onNavigate: (id: string) => void): DecorationSet {
+    const widgets: Range<Decoration>[] = [];
+    const { doc } = state;
+    const selection = state.selection.main;
+    let inFence = false;
+    let inFrontmatter = doc.line(1).text === '---';
+
+    for (let i = inFrontmatter ? 2 : 1; i <= doc.lines; i++) {
+        const line = doc.line(i);
+        if (inFrontmatter) {
+            if (line.text === '---') inFrontmatter = false;
+            continue;
+        }
+        if (/^\s*(```|~~~)/.test(line.text)) {
+            inFence = !inFence;
+            continue;
+        }
+        if (inFence) continue;
+        const match = line.text.match(EMBED_LINE_RE);
+        if (!match) continue;
+
+        if (selection.from <= line.to && selection.to >= line.from) {
+            widgets.push(Decoration.mark({ class: 'cm-embed-source' }).range(line.from, line.to));
+        } else {
+            const embed = resolveEmbed(match[1], { notes, noteId });
+            widgets.push(Decoration.replace({
+                widget: new EmbedWidget(embed, onNavigate),
+                block: true,
+            }).range(line.from, line.to));
+        }
+    }
+    return Decoration.set(widgets, true);
+}
+
+/**
+ * Renders `![[Note]]`, `![[Note#Heading]]` and `![[Note^block]]` lines as read-only
+ * previews of the embedded content. Recreated with the notes list, so embeds follow
+ * edits to their source notes.
+ */
+export const createEmbedPreview = (notes: Note[], noteId: NoteId, onNavigate: (id: string) => void) => StateField.define<DecorationSet>({
+    create(state) {
+        return computeEmbedDecorations(state, notes, noteId, onNavigate);
+    },
+    update(decorations, tr) {
+        if (tr.docChanged || tr.selection) {
+            return computeEmbedDecorations(tr.state, notes, noteId, onNavigate);
+        }
+        return decorations;
+    },
+    provide: (field) => EditorView.decorations.from(field),
+});
@@ -0,0 +1,184 @@
+import {
+    Decoration,
+    EditorView,
+    WidgetType,
+} from '@codemirror/view';
+import type { DecorationSet } from '@codemirror/view';
+import { StateField, type EditorState, type Range } from '@codemirror/state';
+import type { Note } from '../types';
+import { runQuery, queryCell, queryColumnLabel, QueryError, QUERY_BLOCK_RE, type QueryResult } from '../utils/query';
+
+interface QueryRow {
+    id: string;
+    title: string;
+    cells: string[];
+}
+
+class QueryWidget extends WidgetType {
+    readonly result: QueryResult | null;
+    readonly error: string | null;
+    readonly rows: QueryRow[];
+    readonly onNavigate: (noteId: string) => void;
+
+    constructor(result: QueryResult | null, error: string | null, onNavigate: (noteId: string) => void) {
+        super();
+        this.result = result;
+        this.error = error;
+        this.onNavigate = onNavigate;
+        this.rows = result
+            ? result.notes.map(note => ({
+                id: note.id,
+                title: note.title || 'Untitled',
+                cells: result.kind === 'table' ? result.columns.map(c => queryCell(note, c)) : [],
+            }))
+            : [];
+    }
+
+    // results are compared as shown, so unrelated note edits don't rebuild the widget
+    eq(other: QueryWidget) {
+        return other.error === this.error
+            && other.result?.kind === this.result?.kind
+            && other.result?.columns.join('\n') === this.result?.columns.join('\n')
+            && JSON.stringify(other.rows) === JSON.stringify(this.rows);
+    }
+
+    private link(row: QueryRow) {
+        const link = document.createElement('span');
+        link.className = 'cm-query-link';
+        link.textContent = row.title;
+        link.onmousedown = (e) => {
+            e.preventDefault();
+            this.onNavigate(row.id);
+        };
+        return link;
+    }
+
+    toDOM(view: EditorView) {
+        const wrapper = document.createElement('div');
+        wrapper.className = `cm-query${this.error ? ' cm-query-error' : ''}`;
+        // clicking outside a link reveals the query source for editing
+        wrapper.onmousedown = (e) => {
+            if ((e.target as HTMLElement).closest('.cm-query-link')) return;
+            e.preventDefault();
+            view.dispatch({ selection: { anchor: view.posAtDOM(wrapper) } });
+            view.focus();
+        };
+
+        if (this.error !== null || !this.result) {
+            wrapper.textContent = `⚠ Query error: ${this.error}`;
+            return wrapper;
+        }
+
+        const { result, rows } = this;
+        if (rows.length === 0) {
+            const empty = document.createElement('div');
+            empty.className = 'cm-query-empty';
+            empty.textContent = 'No matching notes';
+            wrapper.appendChild(empty);
+        } else if (result.kind === 'list') {
+            const list = document.createElement('ul');
+            for (const row of rows) {
+                const item = document.createElement('li');
+                item.appendChild(this.link(row));
+                list.appendChild(item);
+            }
+            wrapper.appendChild(list);
+        } else {
+            const table = document.createElement('table');
+            const head = table.createTHead().insertRow();
+            for (const label of ['Title', ...result.columns.map(queryColumnLabel)]) {
+                const th = document.createElement('th');
+                th.textContent = label;
+                head.appendChild(th);
+            }
+            const body = table.createTBody();
+            for (const row of rows) {
+                const tr = body.insertRow();
+                tr.insertCell().appendChild(this.link(row));
+                for (const cell of row.cells) tr.insertCell().textContent = cell;
+            }
+            wrapper.appendChild(table);
+        }
+
+        const count = document.createElement('div');
+        count.className = 'cm-query-count';
+        count.textContent = `${rows.length} ${rows.length === 1 ? 'note' : 'notes'}`;
+        wrapper.appendChild(count);
+        return wrapper;
+    }
+
+    ignoreEvent() { return true; }
+}
+
+function isBlockFocused(state: EditorState, blockStart: number, blockEnd: number): boolean {
+    const { from, to } = state.selection.main;
+    return from <= blockEnd && to >= blockStart;
+}
+
+type QueryOutcome = { result: QueryResult | null; error: string | null };
+
+function evaluateQuery(source: string, notes: Note[]): QueryOutcome {
+    try {
+        return { result: runQuery(source, notes), error: null };
+    } catch (e) {
+        if (!(e instanceof QueryError)) throw e;
+        return { result: null, error: e.message };
+    }
+}
+
+function computeQueryDecorations(
+    state: EditorState,
+    evaluate: (source: string) => QueryOutcome,
+    onNavigate: (id: string) => void
+): DecorationSet {
+    const widgets: Range<Decoration>[] = [];
+    const docString = state.doc.toString();
+
+    QUERY_BLOCK_RE.lastIndex = 0;
+    let match;
+    while ((match = QUERY_BLOCK_RE.exec(docString)) !== null) {
+        const blockStart = match.index;
+        const blockEnd = blockStart + match[0].length;
+        if (!match[1].trim()) continue;
+
+        if (isBlockFocused(state, blockStart, blockEnd)) {
+            widgets.push(Decoration.mark({ class: 'cm-query-source' }).range(blockStart, blockEnd));
+            continue;
+        }
+
+        const { result, error } = evaluate(match[1]);
+        widgets.push(Decoration.replace({
+            widget: new QueryWidget(result, error, onNavigate),
+            block: true,
+        }).range(blockStart, blockEnd));
+    }
+
+    return Decoration.set(widgets, true);
+}
+
+// rebuilt by the editor whenever the notes change, so results stay current; until then
+// each query source is only run once rather than on every cursor move
+export const createQueryPreview = (notes: Note[], onNavigate: (id: string) => void) => {
+    const cache = new Map<string, QueryOutcome>();
+    const evaluate = (source: string) => {
+        let outcome = cache.get(source);
+        if (!outcome) {
+            outcome = evaluateQuery(source, notes);
+            cache.set(source, outcome);
+        }
+        return outcome;
+    };
+
+    return StateField.define<DecorationSet>({
+        create(state) {
+            return computeQueryDecorations(state, evaluate, onNavigate);
+        },
+        update(decorations, tr) {
+            if (tr.docChanged || tr.selection) {
+                return computeQueryDecorations(tr.state, evaluate, onNavigate);
+            }
+            return decorations;
+        },
+        provide: (field) => EditorView.decorations.from(field),
+    });
+};
@@ -1,5 +1,6 @@
 import { hoverTooltip } from '@codemirror/view';
 import type { Note } from '../types';
+import { parseWikilinkTarget, findNoteByTitle, getAnchorText } from '../utils/wikilinks';
 
 export const createWikilinkPreview = (notes: Note[]) => {
     return hoverTooltip((view, pos) => {
@@ -17,21 +18,28 @@ export const createWikilinkPreview = (notes: Note[]) => {
         const linkContent = doc.slice(actualStart, actualEnd + 2);
         if (linkContent.includes('\n')) return null;
 
-        const title = doc.slice(actualStart + 2, actualEnd).trim();
-        if (!title) return null;
+        const inner = doc.slice(actualStart + 2, actualEnd).trim();
+        if (!inner) return null;
+        const target = parseWikilinkTarget(inner);
 
-        // Find the matching note
-        const note = notes.find(n => (n.title || 'Untitled') === title);
-        if (!note) return null;
+        // Find the matching note; [[#Heading]] previews a section of this note
+        const note = target.title ? findNoteByTitle(notes, target.title) : null;
+        if (target.title && !note) return null;
+        const source = note ? note.content : doc;
 
-        // Get first 3 lines of content for preview, skipping frontmatter
-        const lines = note.content.split('\n');
+        // Scope the preview to the linked heading section or block
+        const section = getAnchorText(source, target);
+        const anchorLabel = target.heading ? ` › ${target.heading}` : target.blockId ? ` › ^${target.blockId}` : '';
+        const maxLines = anchorLabel ? 6 : 3;
+
+        // Get the first lines of content for preview, skipping frontmatter
+        const lines = (section ?? '').split('\n');
         const previewLines: string[] = [];
         let inFrontmatter = false;
         let frontmatterClosed = false;
 
         for (const line of lines) {
-            if (previewLines.length >= 3) break;
+            if (previewLines.length >= maxLines) break;
 
             const trimmed = line.trim();
 
@@ -51,7 +59,9 @@ export const createWikilinkPreview = (notes: Note[]) => {
             if (trimmed) previewLines.push(trimmed);
         }
 
-        const preview = previewLines.join('\n') || '(Empty note)';
+        const preview = section === null
+            ? '(Section not found)'
+            : previewLines.join('\n') || '(Empty note)';
 
         return {
             pos: actualStart,
@@ -63,7 +73,7 @@ export const createWikilinkPreview = (notes: Note[]) => {
 
                 const titleEl = document.createElement('div');
                 titleEl.className = 'cm-wikilink-preview-title';
-                titleEl.textContent = note.title || 'Untitled';
+                titleEl.textContent = (note ? note.title || 'Untitled' : 'This note') + anchorLabel;
                 dom.appendChild(titleEl);
 
                 const contentEl = document.createElement('div');
@@ -8,6 +8,7 @@ import {
 import type { CompletionContext, CompletionResult, Completion } from "@codemirror/autocomplete";
 import type { Range } from '@codemirror/state';
 import type { Note } from '../types';
+import { parseWikilinkTarget, findNoteByTitle, getHeadings, getBlocks, resolveAnchor } from '../utils/wikilinks';
 
 
 export const getWikilinkCompletion = (notes: Note[]) => {
@@ -16,6 +17,37 @@ export const getWikilinkCompletion = (notes: Note[]) => {
         if (!word) return null;
         if (word.from === word.to && !context.explicit) return null;
 
+        // after # or ^ complete headings or block ids of the named note
+        const anchor = word.text.slice(2).match(/^([^#^|]*)([#^])([^|]*)$/);
+        if (anchor) {
+            const [, title, marker, partial] = anchor;
+            const target = title.trim()
+                ? findNoteByTitle(notes, title.trim())
+                : undefined;
+            const content = target ? target.content : title.trim() ? null : context.state.doc.toString();
+            if (content === null) return null;
+            const linkTitle = target ? (target.title || 'Untitled') : '';
+            const lowerPartial = partial.toLowerCase();
+            const options: Completion[] = marker === '#'
+                ? getHeadings(content)
+                    .filter(h => h.text.toLowerCase().includes(lowerPartial))
+                    .map(h => ({
+                        label: h.text,
+                        apply: `[[${linkTitle}#${h.text}]]`,
+                        detail: `H${h.level}`,
+                        boost: 99 - h.line / 10000,
+                    }))
+                : getBlocks(content)
+                    .filter(b => b.id.toLowerCase().includes(lowerPartial) || b.text.toLowerCase().includes(lowerPartial))
+                    .map(b => ({
+                        label: `^${b.id}`,
+                        apply: `[[${linkTitle}^${b.id}]]`,
+                        detail: b.text.length > 40 ? b.text.slice(0, 40) + '…' : b.text,
+                        boost: 99,
+                    }));
+            return { from: word.from, options, filter: false };
+        }
+
         const query = word.text.slice(2).toLowerCase();
         const options: Completion[] = notes
             .filter(n => (n.title || 'Untitled').toLowerCase().includes(query))
@@ -135,7 +167,8 @@ export const getMentionCompletion = (notes: Note[]) => {
     };
 };
 
-export const createWikilinkPlugin = (notes: Note[], onNavigate: (id: string) => void) => {
+// Cmd+click or middle-click on a link opens the note in a new tab
+export const createWikilinkPlugin = (notes: Note[], onOpen: (id: string) => void) => {
     return ViewPlugin.fromClass(class {
         decorations: DecorationSet;
 
@@ -167,6 +200,13 @@ export const createWikilinkPlugin = (notes: Note[], onNavigate: (id: string) =>
                     }).range(start, end));
                 }
 
+                // Dim ^block-id markers at line ends
+                const blockIdRegex = /(?<=\s)\^[A-Za-z0-9-]+(?=\s*$)/gm;
+                while ((match = blockIdRegex.exec(text))) {
+                    const start = from + match.index;
+                    widgets.push(Decoration.mark({ class: 'cm-block-id' }).range(start, start + match[0].length));
+                }
+
                 // Match [Title](Url)
                 // Note: This is a simple regex and might fail on nested parens, but sufficient for simple links
                 const linkRegex = /\[([^\]]+)\]\(([^)]+)\)/g;
@@ -191,20 +231,41 @@ export const createWikilinkPlugin = (notes: Note[], onNavigate: (id: string) =>
         eventHandlers: {
             mousedown: (e) => {
                 const target = e.target as HTMLElement;
+                const opens = e.metaKey || e.ctrlKey || e.button === 1;
 
                 // Handle Wikilinks
                 const wikiLink = target.closest('.cm-wikilink');
                 if (wikiLink) {
-                    const title = wikiLink.getAttribute('data-title');
-                    if (title && (e.metaKey || e.ctrlKey)) {
+                    const inner = wikiLink.getAttribute('data-title');
+                    if (inner && opens) {
                         e.preventDefault();
-                        const note = notes.find(n => (n.title || 'Untitled') === title);
-                        if (note) {
-                            onNavigate(note.id);
-                        } else {
+                        const target = parseWikilinkTarget(inner);
+                        // [[#Heading]] points into the note being edited
+                        const note = target.title ? findNoteByTitle(notes, target.title) : null;
+                        const view = EditorView.findFromDOM(wikiLink as HTMLElement);
+                        const content = note ? note.content : view?.state.doc.toString();
+                        if (target.title && !note) {
                             window.dispatchEvent(new CustomEvent('yoro-toast', {
-                                detail: { message: `Note "${title}" not found.`, type: 'error' }
+                                detail: { message: `Note "${target.title}" not found.`, type: 'error' }
                             }));
+                            return;
+                        }
+                        if (note) onOpen(note.id);
+                        if (content !== undefined && (target.heading || target.blockId)) {
+                            const range = resolveAnchor(content, target);
+                            if (!range) {
+                                const anchor = target.heading ? `#${target.heading}` : `^${target.blockId}`;
+                                window.dispatchEvent(new CustomEvent('yoro-toast', {
+                                    detail: { message: `"${anchor}" not found in "${note?.title || 'this note'}".`, type: 'warning' }
+                                }));
+                                return;
+                            }
+                            // give the target editor a moment to mount before scrolling
+                            setTimeout(() => {
+                                window.dispatchEvent(new CustomEvent('yoro-navigate-line', {
+                                    detail: { noteId: note?.id, lineNumber: range.startLine }
+                                }));
+                            }, note ? 100 : 0);
                         }
                         return;
                     }
@@ -214,12 +275,12 @@ export const createWikilinkPlugin = (notes: Note[], onNavigate: (id: string) =>
                 const mdLink = target.closest('.cm-md-link');
                 if (mdLink) {
                     const url = mdLink.getAttribute('data-url');
-                    if (url && (e.metaKey || e.ctrlKey)) {
+                    if (url && opens) {
                         // Check if internal note link
                         const noteMatch = url.match(/\/note\/([a-zA-Z0-9-]+)/);
                         if (noteMatch) {
                             e.preventDefault();
-                            onNavigate(noteMatch[1]);
+                            onOpen(noteMatch[1]);
                         } else if (url.match(/^https?:\/\//)) {
                             // External link - open in new tab
                             e.preventDefault();
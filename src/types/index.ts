@@ -6,6 +6,8 @@ export interface Note {
     content: string;
     format: 'markdown' | 'canvas';
     tags: string[];
+    /** Slash-separated folder path, e.g. Work/Projects; unset for notes at the top level */
+    folder?: string;
     createdAt: number;
     updatedAt: number;
     isFavorite: boolean;
@@ -18,6 +20,66 @@ export interface Note {
     lastScrollPosition?: number;
     /** Data URI of an existing drawing being edited; cleared after save */
     drawingEditSrc?: string;
+    /** Set when the note is moved to the trash; cleared on restore */
+    deletedAt?: number;
+}
+
+/** Snapshot of a note's content taken on save; kept in its own store beside the note */
+export interface NoteVersion {
+    id: string;
+    noteId: NoteId;
+    title: string;
+    content: string;
+    createdAt: number;
+    /** Taken just before a restore; later saves add a new snapshot instead of updating this one */
+    pinned?: boolean;
+}
+
+/** An open editor tab; the open tabs are saved with the preferences and restored on reload */
+export interface NoteTab {
+    noteId: NoteId;
+    /** pinned tabs sit first and are never reused when another note opens */
+    pinned?: boolean;
+}
+
+/** The second pane beside the open note: another note, or the open note rendered */
+export interface SplitView {
+    mode: 'note' | 'preview';
+    /** the note in the second pane when mode is 'note' */
+    noteId?: NoteId;
+    /** share of the width given to the first pane, 0.2–0.8 */
+    ratio: number;
+}
+
+export type ViewLayout = 'table' | 'board' | 'calendar';
+
+export type ViewFilterOperator = 'is' | 'is-not' | 'contains' | 'not-contains' | 'empty' | 'not-empty' | 'before' | 'after';
+
+/** Fields are frontmatter property keys or one of the built-ins: title, tags, created, updated */
+export interface ViewFilter {
+    field: string;
+    operator: ViewFilterOperator;
+    value: string;
+}
+
+export interface ViewSort {
+    field: string;
+    descending: boolean;
+}
+
+/** A saved table, board or calendar over the notes */
+export interface NoteView {
+    id: string;
+    name: string;
+    layout: ViewLayout;
+    /** table columns after the title, in order; also the fields shown on board cards */
+    columns: string[];
+    /** board columns come from this field */
+    groupBy?: string;
+    /** calendar entries are placed by this field */
+    dateField?: string;
+    filters: ViewFilter[];
+    sorts: ViewSort[];
 }
 
 export type Theme =
@@ -52,11 +114,26 @@ export interface UserPreferences {
     fontSize: number;
     recentCommandIds: string[];
     recentNoteIds: string[];
+    /** Editor tabs, in the order shown in the tab bar */
+    openTabs?: NoteTab[];
     homeViewMode: 'notion-grid' | 'docs-list';
     sortOrder: 'updated' | 'created' | 'alpha' | 'alpha-reverse';
+    /** When set, the note list is ordered by this frontmatter property instead of sortOrder */
+    sortProperty?: { key: string; descending: boolean };
+    views?: NoteView[];
+    /** Folder paths created in the sidebar, so empty folders are kept */
+    folders?: string[];
+    /** Colours picked in the tag pane, by tag; nested tags inherit their parent's */
+    tagColors?: Record<string, string>;
+    /** Show the folder tree beside the note list; on unless turned off */
+    showFolderTree?: boolean;
+    /** Quick capture appends to today's daily note instead of creating an inbox note */
+    quickCaptureToDaily?: boolean;
     showDocumentStats: boolean;
     cursorAnimations: 'none' | 'subtle' | 'particles';
     singlish: boolean;
+    /** Days a trashed note is kept before auto-purge; 0 keeps it forever */
+    trashRetentionDays: number;
     customBackground?: string; // css value: color, gradient, url(), or empty to reset
 }
 
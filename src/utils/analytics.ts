@@ -12,7 +12,7 @@ interface DailyRecord {
     counts: Partial<Record<EventName, number>>;
 }
 
-interface AnalyticsStore {
+export interface AnalyticsStore {
     version: 1;
     days: DailyRecord[];
 }
@@ -113,6 +113,36 @@ export const analytics = {
         return store.days.reduce((sum, d) => sum + (d.counts.words_written ?? 0), 0);
     },
 
+    /** The stored daily records, for backups */
+    snapshot: (): AnalyticsStore => load(),
+
+    /**
+     * Restores records from a backup. Merging keeps the higher count of each event per day,
+     * so restoring the same backup twice doesn't double anything. False if the data is unusable.
+     */
+    restore: (data: unknown, mode: 'merge' | 'replace'): boolean => {
+        const incoming = data as AnalyticsStore | null;
+        if (!incoming || incoming.version !== 1 || !Array.isArray(incoming.days)) return false;
+        if (mode === 'replace') {
+            save(incoming);
+            return true;
+        }
+        const store = load();
+        for (const day of incoming.days) {
+            const existing = store.days.find(d => d.date === day.date);
+            if (!existing) {
+                store.days.push(day);
+                continue;
+            }
+            for (const [event, count] of Object.entries(day.counts) as [EventName, number][]) {
+                existing.counts[event] = Math.max(existing.counts[event] ?? 0, count);
+            }
+        }
+        store.days.sort((a, b) => a.date.localeCompare(b.date));
+        save(store);
+        return true;
+    },
+
     /** Clear all stored analytics (for privacy) */
     clear: (): void => {
         localStorage.removeItem(STORAGE_KEY);
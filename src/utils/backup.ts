@@ -0,0 +1,303 @@
+import JSZip from 'jszip';
+import type { AppState, Note, NoteId, UserPreferences } from '../types';
+import { folderToZipDir, normalizeFolderPath } from './folders';
+import { initialState } from './storage';
+import { isTrashed } from './trash';
+
+/*
+ * A backup is a ZIP holding everything needed to rebuild the workspace:
+ *
+ *   manifest.json      format, version, and every note's metadata (all fields but its body)
+ *   preferences.json   UserPreferences as saved
+ *   analytics.json     the local daily usage counts
+ *   notes/...          one markdown file per note, laid out by folder
+ *   attachments/...    images that were inlined as data URIs, stored once each
+ *
+ * Note files refer to attachments by relative path, so the archive also reads well
+ * unpacked; restoring inlines them again.
+ */
+export const BACKUP_FORMAT = 'yoro-backup';
+export const BACKUP_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+const PREFERENCES_FILE = 'preferences.json';
+const ANALYTICS_FILE = 'analytics.json';
+const NOTES_DIR = 'notes/';
+const ATTACHMENTS_DIR = 'attachments/';
+
+const DATA_URI_RE = /data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/]+={0,2})/g;
+const UNSAFE_NAME_RE = /[\\/:*?"<>|]/g;
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+};
+
+/** A note's metadata in the manifest; its body is in `file`. */
+export type BackupNoteEntry = Omit<Note, 'content'> & { file: string };
+
+export interface BackupAttachment {
+    file: string;
+    mimeType: string;
+}
+
+export interface BackupManifest {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    createdAt: number;
+    notes: BackupNoteEntry[];
+    attachments: BackupAttachment[];
+}
+
+/** A backup read back from its archive, attachments inlined again. */
+export interface Backup {
+    manifest: BackupManifest;
+    notes: Note[];
+    preferences: UserPreferences | null;
+    analytics: unknown;
+}
+
+export class BackupError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BackupError';
+    }
+}
+
+// FNV-1a; names an attachment by its data so each image is stored once
+function hashString(s: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < s.length; i++) {
+        hash ^= s.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// from a note file back up to the archive root, e.g. ../../ for notes/Work/a.md
+const rootPrefix = (noteFile: string) => '../'.repeat(noteFile.split('/').length - 1);
+
+function noteFileName(note: Note, taken: Set<string>): string {
+    const title = (note.title || 'Untitled').replace(UNSAFE_NAME_RE, '-').slice(0, 80);
+    const dir = `${NOTES_DIR}${folderToZipDir(note.folder ?? '')}`;
+    let file = `${dir}${title}-${note.id.slice(0, 8)}.md`;
+    if (taken.has(file)) file = `${dir}${title}-${note.id}.md`;
+    taken.add(file);
+    return file;
+}
+
+/** Packs the whole workspace, trashed notes included, into a backup archive. */
+export function createBackup(state: AppState, analytics: unknown): JSZip {
+    const zip = new JSZip();
+    const attachments = new Map<string, BackupAttachment>();
+    // attachment name -> base64 data written under it
+    const stored = new Map<string, string>();
+    const taken = new Set<string>();
+
+    const entries = state.notes.map((note): BackupNoteEntry => {
+        const { content, ...meta } = note;
+        const file = noteFileName(note, taken);
+        const body = content.replace(DATA_URI_RE, (_, mimeType: string, data: string) => {
+            const hash = hashString(data);
+            const extension = EXTENSIONS[mimeType] ?? 'bin';
+            let name = `${hash}.${extension}`;
+            // a 32-bit hash can collide; a different image under a taken name gets a suffix
+            for (let n = 2; stored.has(name) && stored.get(name) !== data; n++) name = `${hash}-${n}.${extension}`;
+            if (!stored.has(name)) {
+                stored.set(name, data);
+                attachments.set(name, { file: name, mimeType });
+                zip.file(`${ATTACHMENTS_DIR}${name}`, data, { base64: true });
+            }
+            return `${rootPrefix(file)}${ATTACHMENTS_DIR}${name}`;
+        });
+        zip.file(file, body);
+        return { ...meta, file };
+    });
+
+    const manifest: BackupManifest = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: Date.now(),
+        notes: entries,
+        attachments: [...attachments.values()],
+    };
+    zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+    zip.file(PREFERENCES_FILE, JSON.stringify(state.preferences, null, 2));
+    zip.file(ANALYTICS_FILE, JSON.stringify(analytics, null, 2));
+    return zip;
+}
+
+async function readJson(zip: JSZip, name: string): Promise<unknown> {
+    const entry = zip.file(name);
+    if (!entry) return null;
+    try {
+        return JSON.parse(await entry.async('string'));
+    } catch {
+        throw new BackupError(`${name} is not valid JSON`);
+    }
+}
+
+/** Reads a backup archive, checking it is one this version understands. */
+export async function readBackup(data: ArrayBuffer | Blob): Promise<Backup> {
+    const zip = await JSZip.loadAsync(data).catch(() => {
+        throw new BackupError('Not a ZIP file');
+    });
+    const manifest = await readJson(zip, MANIFEST_FILE) as BackupManifest | null;
+    if (!manifest || manifest.format !== BACKUP_FORMAT || !Array.isArray(manifest.notes)) {
+        throw new BackupError('Not a Yoro backup (no manifest.json)');
+    }
+    if (manifest.version > BACKUP_VERSION) {
+        throw new BackupError(`Backup format v${manifest.version} is newer than this app supports (v${BACKUP_VERSION})`);
+    }
+
+    const dataUris = new Map<string, string>();
+    for (const attachment of manifest.attachments ?? []) {
+        const entry = zip.file(`${ATTACHMENTS_DIR}${attachment.file}`);
+        if (!entry) throw new BackupError(`Attachment missing: ${attachment.file}`);
+        dataUris.set(attachment.file, `data:${attachment.mimeType};base64,${await entry.async('base64')}`);
+    }
+
+    const notes = await Promise.all(manifest.notes.map(async ({ file, ...meta }): Promise<Note> => {
+        const entry = zip.file(file);
+        if (typeof meta.id !== 'string' || !entry) throw new BackupError(`Note file missing: ${file}`);
+        let content = await entry.async('string');
+        const prefix = `${rootPrefix(file)}${ATTACHMENTS_DIR}`;
+        for (const [name, uri] of dataUris) content = content.split(`${prefix}${name}`).join(uri);
+        return {
+            ...meta,
+            tags: Array.isArray(meta.tags) ? meta.tags : [],
+            ...(meta.folder ? { folder: normalizeFolderPath(meta.folder) } : {}),
+            content,
+        };
+    }));
+
+    return {
+        manifest,
+        notes,
+        preferences: await readJson(zip, PREFERENCES_FILE) as UserPreferences | null,
+        analytics: await readJson(zip, ANALYTICS_FILE),
+    };
+}
+
+/** Replace swaps the workspace for the backup; merge adds the backup to what is here. */
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * When merging a note whose id is already here with other contents: keep whichever was
+ * edited last, or keep both by restoring the backup's copy under a new id.
+ */
+export type ConflictPolicy = 'newer' | 'keep-both';
+
+/** Titles of the notes a restore touches, for the confirmation shown before it runs. */
+export interface RestoreSummary {
+    added: string[];
+    updated: string[];
+    /**
+     * backup copies restored beside a local note with the same id; links among restored notes
+     * follow the copies, while notes already here keep linking to the originals
+     */
+    duplicated: string[];
+    /** local notes newer than the backup's copy, left as they are */
+    keptLocal: string[];
+    /** local notes a replace discards because the backup doesn't have them */
+    removed: string[];
+    /** how many of the removed notes were in the trash */
+    removedFromTrash: number;
+    unchanged: number;
+    attachments: number;
+    preferences: 'replaced' | 'merged' | 'kept';
+}
+
+export interface RestorePlan {
+    state: AppState;
+    summary: RestoreSummary;
+}
+
+const sameNote = (a: Note, b: Note) => a.updatedAt === b.updatedAt && a.title === b.title && a.content === b.content;
+
+const titleOf = (note: Note) => note.title || 'Untitled';
+
+// links between restored notes follow the copies that were given new ids
+function rewriteNoteLinks(content: string, ids: Map<NoteId, NoteId>): string {
+    return content.replace(/\/note\/([a-zA-Z0-9-]+)/g, (link, id: string) => ids.has(id) ? `/note/${ids.get(id)}` : link);
+}
+
+// folders, saved views and tag colours from the backup join the local ones; the rest stays local
+function mergePreferences(local: UserPreferences, backup: UserPreferences): UserPreferences {
+    const viewIds = new Set((local.views ?? []).map(v => v.id));
+    return {
+        ...local,
+        folders: [...new Set([...(local.folders ?? []), ...(backup.folders ?? [])])],
+        views: [...(local.views ?? []), ...(backup.views ?? []).filter(v => !viewIds.has(v.id))],
+        tagColors: { ...backup.tagColors, ...local.tagColors },
+    };
+}
+
+/** Works out the state a restore leaves behind, without applying it. */
+export function planRestore(current: AppState, backup: Backup, mode: RestoreMode, conflicts: ConflictPolicy = 'newer'): RestorePlan {
+    const summary: RestoreSummary = {
+        added: [], updated: [], duplicated: [], keptLocal: [], removed: [], removedFromTrash: 0, unchanged: 0,
+        attachments: backup.manifest.attachments?.length ?? 0,
+        preferences: 'kept',
+    };
+    const local = new Map(current.notes.map(n => [n.id, n]));
+
+    if (mode === 'replace') {
+        const restoredIds = new Set(backup.notes.map(n => n.id));
+        for (const note of backup.notes) {
+            const existing = local.get(note.id);
+            if (!existing) summary.added.push(titleOf(note));
+            else if (sameNote(existing, note)) summary.unchanged++;
+            else summary.updated.push(titleOf(note));
+        }
+        const removed = current.notes.filter(n => !restoredIds.has(n.id));
+        summary.removed = removed.map(titleOf);
+        summary.removedFromTrash = removed.filter(isTrashed).length;
+        summary.preferences = backup.preferences ? 'replaced' : 'kept';
+        return {
+            state: {
+                notes: backup.notes,
+                preferences: backup.preferences ? { ...initialState.preferences, ...backup.preferences } : current.preferences,
+            },
+            summary,
+        };
+    }
+
+    const replacements = new Map<NoteId, Note>();
+    const newIds = new Map<NoteId, NoteId>();
+    const added: Note[] = [];
+    for (const note of backup.notes) {
+        const existing = local.get(note.id);
+        if (!existing) {
+            added.push(note);
+            summary.added.push(titleOf(note));
+        } else if (sameNote(existing, note)) {
+            summary.unchanged++;
+        } else if (conflicts === 'keep-both') {
+            const id = crypto.randomUUID();
+            newIds.set(note.id, id);
+            added.push({ ...note, id, title: `${titleOf(note)} (restored)` });
+            summary.duplicated.push(titleOf(note));
+        } else if (note.updatedAt > existing.updatedAt) {
+            replacements.set(note.id, note);
+            summary.updated.push(titleOf(note));
+        } else {
+            summary.keptLocal.push(titleOf(existing));
+        }
+    }
+
+    const restored = newIds.size > 0
+        ? added.map(n => ({ ...n, content: rewriteNoteLinks(n.content, newIds) }))
+        : added;
+    if (backup.preferences) summary.preferences = 'merged';
+    return {
+        state: {
+            notes: [...restored, ...current.notes.map(n => replacements.get(n.id) ?? n)],
+            preferences: backup.preferences ? mergePreferences(current.preferences, backup.preferences) : current.preferences,
+        },
+        summary,
+    };
+}
@@ -0,0 +1,131 @@
+import { parse, TomlError } from 'smol-toml';
+import { THEMES } from '../commands';
+import type { Note, UserPreferences } from '../types';
+
+export const CONFIG_NOTE_TITLE = 'config.toml';
+
+export const isConfigNote = (note: Note): boolean => note.title === CONFIG_NOTE_TITLE;
+
+export interface ConfigDiagnostic {
+    /** 1-based line the diagnostic points at */
+    line: number;
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+export interface ConfigParseResult {
+    updates: Partial<UserPreferences>;
+    diagnostics: ConfigDiagnostic[];
+}
+
+type Validator = (value: unknown) => string | null;
+
+const oneOf = (options: readonly string[]): Validator => value =>
+    typeof value === 'string' && options.includes(value)
+        ? null
+        : `Expected one of: ${options.map(o => `"${o}"`).join(', ')}`;
+
+const boolean: Validator = value => typeof value === 'boolean' ? null : 'Expected true or false';
+
+const nonEmptyString: Validator = value =>
+    typeof value === 'string' && value.trim() !== '' ? null : 'Expected a non-empty string';
+
+const optionalString: Validator = value => typeof value === 'string' ? null : 'Expected a string';
+
+const integerIn = (min: number, max: number): Validator => value =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+        ? null
+        : `Expected a whole number between ${min} and ${max}`;
+
+// keys editable from config.toml; internal preferences (recent ids) are left out on purpose
+const SCHEMA: Partial<Record<keyof UserPreferences, Validator>> = {
+    theme: oneOf(THEMES.map(t => t.id)),
+    homeViewMode: oneOf(['notion-grid', 'docs-list']),
+    sortOrder: oneOf(['updated', 'created', 'alpha', 'alpha-reverse']),
+    vimMode: boolean,
+    emacsMode: boolean,
+    focusMode: boolean,
+    focusModeBlur: boolean,
+    showLineNumbers: boolean,
+    lineWrapping: boolean,
+    editorAlignment: oneOf(['left', 'center', 'right']),
+    cursorAnimations: oneOf(['none', 'subtle', 'particles']),
+    fontFamily: nonEmptyString,
+    fontSize: integerIn(10, 32),
+    showDocumentStats: boolean,
+    singlish: boolean,
+    trashRetentionDays: integerIn(0, 3650),
+    customBackground: optionalString,
+};
+
+/** 1-based line of each top-level `key = value` assignment. */
+function keyLines(text: string): Map<string, number> {
+    const lines = new Map<string, number>();
+    let inTable = false;
+    text.split('\n').forEach((line, i) => {
+        if (/^\s*\[/.test(line)) { inTable = true; return; }
+        if (inTable) return;
+        const match = line.match(/^\s*["']?([A-Za-z0-9_-]+)["']?\s*=/);
+        if (match && !lines.has(match[1])) lines.set(match[1], i + 1);
+    });
+    return lines;
+}
+
+/**
+ * Parses the config note and validates each key against UserPreferences.
+ * Valid keys become updates even when other keys are invalid.
+ */
+export function parseConfig(text: string): ConfigParseResult {
+    let parsed: Record<string, unknown>;
+    try {
+        parsed = parse(text);
+    } catch (error) {
+        if (error instanceof TomlError) {
+            return {
+                updates: {},
+                diagnostics: [{ line: error.line, message: error.message.split('\n')[0], severity: 'error' }],
+            };
+        }
+        return { updates: {}, diagnostics: [{ line: 1, message: 'Could not parse config', severity: 'error' }] };
+    }
+
+    const lines = keyLines(text);
+    const updates: Record<string, unknown> = {};
+    const diagnostics: ConfigDiagnostic[] = [];
+
+    for (const [key, value] of Object.entries(parsed)) {
+        const line = lines.get(key) ?? 1;
+        const validate = SCHEMA[key as keyof UserPreferences];
+        if (!validate) {
+            diagnostics.push({ line, message: `Unknown setting "${key}"`, severity: 'warning' });
+            continue;
+        }
+        const problem = validate(value);
+        if (problem) {
+            diagnostics.push({ line, message: `${key}: ${problem}`, severity: 'error' });
+            continue;
+        }
+        updates[key] = value;
+    }
+
+    if (updates.vimMode === true && updates.emacsMode === true) {
+        diagnostics.push({
+            line: lines.get('emacsMode') ?? 1,
+            message: 'vimMode and emacsMode cannot both be enabled; emacsMode was ignored',
+            severity: 'warning',
+        });
+        updates.emacsMode = false;
+    }
+
+    return { updates: updates as Partial<UserPreferences>, diagnostics };
+}
+
+/**
+ * Keeps only the updates whose values differ from the config applied last time, so keys the
+ * note leaves alone don't undo preferences changed elsewhere since it was written.
+ */
+export function changedConfigUpdates(applied: string | null, updates: Partial<UserPreferences>): Partial<UserPreferences> {
+    if (applied === null) return updates;
+    const before = parseConfig(applied).updates as Record<string, unknown>;
+    return Object.fromEntries(Object.entries(updates).filter(([key, value]) => before[key] !== value)) as Partial<UserPreferences>;
+}
@@ -20,7 +20,7 @@ export function generateConfigTemplate(prefs: UserPreferences): string {
 # palenight-light, palenight-dark, material-light, material-dark
 theme = "${prefs.theme}"
 
-# Home view mode: "3d-carousel" or "2d-semicircle"
+# Home view mode: "notion-grid" or "docs-list"
 homeViewMode = "${prefs.homeViewMode}"
 
 # Sort order: "updated", "created", "alpha", "alpha-reverse"
@@ -67,5 +67,12 @@ fontSize = ${prefs.fontSize}
 # ═══════════════════════════════════════════════════════════════
 
 # Show word count, character count, and reading time
-showDocumentStats = ${prefs.showDocumentStats}`.trim();
+showDocumentStats = ${prefs.showDocumentStats}
+
+# ═══════════════════════════════════════════════════════════════
+# NOTES
+# ═══════════════════════════════════════════════════════════════
+
+# Days a deleted note stays in the trash before it is purged (0 = forever)
+trashRetentionDays = ${prefs.trashRetentionDays ?? 30}`.trim();
 }
@@ -0,0 +1,166 @@
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp {
+    type: DiffOpType;
+    /** line text */
+    text: string;
+    /** 1-based line number in the old text (equal/delete) */
+    oldLine?: number;
+    /** 1-based line number in the new text (equal/insert) */
+    newLine?: number;
+}
+
+export interface DiffHunk {
+    /** index of the first op of the hunk in the op list */
+    start: number;
+    /** index one past the last op of the hunk */
+    end: number;
+}
+
+/**
+ * Line diff using Myers' O(ND) algorithm, with the common prefix and
+ * suffix trimmed first so typical small edits stay cheap. Past MAX_EDITS
+ * changed lines the middle comes back as one block replaced.
+ */
+export function diffLines(oldText: string, newText: string): DiffOp[] {
+    const a = oldText.split('\n');
+    const b = newText.split('\n');
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix && suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+
+    const ops: DiffOp[] = [];
+    for (let i = 0; i < prefix; i++) {
+        ops.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: i + 1 });
+    }
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    for (const op of myers(midA, midB)) {
+        ops.push({
+            ...op,
+            oldLine: op.oldLine !== undefined ? op.oldLine + prefix : undefined,
+            newLine: op.newLine !== undefined ? op.newLine + prefix : undefined,
+        });
+    }
+
+    for (let i = suffix; i > 0; i--) {
+        ops.push({
+            type: 'equal',
+            text: a[a.length - i],
+            oldLine: a.length - i + 1,
+            newLine: b.length - i + 1,
+        });
+    }
+    return ops;
+}
+
+// past this many edits a line diff reads no better than the whole block replaced, and its
+// trace would take O(D²) memory
+const MAX_EDITS = 1000;
+
+function replaceAll(a: string[], b: string[]): DiffOp[] {
+    return [
+        ...a.map((text, i) => ({ type: 'delete' as const, text, oldLine: i + 1 })),
+        ...b.map((text, j) => ({ type: 'insert' as const, text, newLine: j + 1 })),
+    ];
+}
+
+function myers(a: string[], b: string[]): DiffOp[] {
+    const n = a.length;
+    const m = b.length;
+    if (n === 0) return b.map((text, j) => ({ type: 'insert' as const, text, newLine: j + 1 }));
+    if (m === 0) return a.map((text, i) => ({ type: 'delete' as const, text, oldLine: i + 1 }));
+
+    const max = Math.min(n + m, MAX_EDITS);
+    const offset = n + m + 1;
+    const v = new Int32Array(2 * offset + 1);
+    // step d only reaches diagonals -d..d, so each step keeps just that band (and one either side)
+    const trace: Int32Array[] = [];
+    let done = false;
+
+    outer:
+    for (let d = 0; d <= max; d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                done = true;
+                break outer;
+            }
+        }
+    }
+    if (!done) return replaceAll(a, b);
+
+    // walk the trace backwards to recover the edit script
+    const ops: DiffOp[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+        const band = trace[d];
+        const prev = (k: number) => band[k + d + 1];
+        const k = x - y;
+        const prevK = (k === -d || (k !== d && prev(k - 1) < prev(k + 1))) ? k + 1 : k - 1;
+        const prevX = prev(prevK);
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            ops.push({ type: 'equal', text: a[x - 1], oldLine: x, newLine: y });
+            x--; y--;
+        }
+        if (d === 0) break;
+        if (x === prevX) {
+            ops.push({ type: 'insert', text: b[y - 1], newLine: y });
+            y--;
+        } else {
+            ops.push({ type: 'delete', text: a[x - 1], oldLine: x });
+            x--;
+        }
+    }
+    while (x > 0 && y > 0) {
+        ops.push({ type: 'equal', text: a[x - 1], oldLine: x, newLine: y });
+        x--; y--;
+    }
+    return ops.reverse();
+}
+
+/** Groups consecutive non-equal ops into hunks. */
+export function diffHunks(ops: DiffOp[]): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    let i = 0;
+    while (i < ops.length) {
+        if (ops[i].type === 'equal') { i++; continue; }
+        const start = i;
+        while (i < ops.length && ops[i].type !== 'equal') i++;
+        hunks.push({ start, end: i });
+    }
+    return hunks;
+}
+
+/**
+ * Rebuilds the text with the chosen hunks taken from the new side and
+ * everything else from the old side.
+ */
+export function applyHunks(ops: DiffOp[], hunks: DiffHunk[], accepted: Set<number>): string {
+    const acceptedOps = new Set<number>();
+    hunks.forEach((h, idx) => {
+        if (!accepted.has(idx)) return;
+        for (let i = h.start; i < h.end; i++) acceptedOps.add(i);
+    });
+    const lines: string[] = [];
+    ops.forEach((op, i) => {
+        if (op.type === 'equal') lines.push(op.text);
+        else if (op.type === 'delete' && !acceptedOps.has(i)) lines.push(op.text);
+        else if (op.type === 'insert' && acceptedOps.has(i)) lines.push(op.text);
+    });
+    return lines.join('\n');
+}
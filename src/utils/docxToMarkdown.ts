@@ -0,0 +1,534 @@
+import type JSZip from 'jszip';
+
+// Converts a Word document into the markdown that exportToDOCX writes from, so notes survive
+// a round trip: heading styles, emphasis, lists, quotes, code, tables, links, footnotes and
+// pictures. Anything else contributes its text.
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const A = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const WP = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing';
+const M = 'http://schemas.openxmlformats.org/officeDocument/2006/math';
+const DC = 'http://purl.org/dc/elements/1.1/';
+
+const IMAGE_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    bmp: 'image/bmp',
+};
+
+const MONOSPACE_RE = /courier|consolas|menlo|monaco|mono|source code/i;
+// the exporter marks tasks with these and draws a rule as a line of box-drawing dashes
+const TASK_RE = /^([☐☑☒])\s*/;
+const RULE_RE = /^[─━—_-]{3,}$/;
+
+/** A document that can't be read as Word, with the reason. */
+export class DocxError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DocxError';
+    }
+}
+
+interface RunFormat {
+    bold: boolean;
+    italic: boolean;
+    strike: boolean;
+    code: boolean;
+    highlight: boolean;
+    math: boolean;
+}
+
+interface Segment {
+    text: string;
+    format: RunFormat;
+    link?: string;
+    /** markdown already, such as an image or a footnote reference */
+    raw?: boolean;
+}
+
+interface Style {
+    name: string;
+    basedOn?: string;
+    outlineLevel?: number;
+    numPr?: Element;
+    rPr?: Element;
+    pBdr?: Element;
+}
+
+interface Block {
+    kind: 'paragraph' | 'heading' | 'list' | 'quote' | 'code' | 'table' | 'rule' | 'title';
+    text: string;
+}
+
+interface Context {
+    styles: Map<string, Style>;
+    /** numId → level → its format and first number */
+    numbering: Map<string, Map<number, { format: string; start: number }>>;
+    counters: Map<string, number[]>;
+    links: Map<string, string>;
+    images: Map<string, string>;
+    notes: Map<string, Element>;
+    /** footnote ids in the order they're referenced */
+    referenced: string[];
+    /** open complex fields, innermost last */
+    fields: { instruction: string; result: boolean }[];
+    imageCount: number;
+}
+
+const PLAIN: RunFormat = { bold: false, italic: false, strike: false, code: false, highlight: false, math: false };
+
+const childrenOf = (el: Element | undefined, ns: string, name: string) =>
+    el ? Array.from(el.children).filter(c => c.namespaceURI === ns && c.localName === name) : [];
+const childOf = (el: Element | undefined, ns: string, name: string): Element | undefined =>
+    childrenOf(el, ns, name)[0];
+const descendant = (el: Element, ns: string, name: string): Element | undefined =>
+    el.getElementsByTagNameNS(ns, name)[0];
+const attr = (el: Element | undefined, name: string, ns = W) => el?.getAttributeNS(ns, name) ?? null;
+
+// <w:b/> is on; <w:b w:val="0"/> switches off what a style turned on
+const isOn = (el: Element | undefined) => !!el && !['0', 'false', 'off', 'none'].includes(attr(el, 'val') ?? '');
+
+// emphasis markers only hug text, so spaces inside the run move outside them
+function wrap(marker: string, text: string): string {
+    const inner = text.trim();
+    if (!inner) return text;
+    const lead = text.match(/^\s*/)?.[0] ?? '';
+    const trail = text.match(/\s*$/)?.[0] ?? '';
+    return `${lead}${marker}${inner}${marker}${trail}`;
+}
+
+function codeSpan(text: string): string {
+    const fence = text.includes('`') ? '``' : '`';
+    return wrap(fence, fence === '``' ? ` ${text.trim()} ` : text);
+}
+
+async function readXml(zip: JSZip, path: string): Promise<Document | null> {
+    const file = zip.file(path);
+    if (!file) return null;
+    const doc = new DOMParser().parseFromString(await file.async('string'), 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new DocxError(`${path} is not well-formed`);
+    return doc;
+}
+
+function readStyles(doc: Document | null): Map<string, Style> {
+    const styles = new Map<string, Style>();
+    if (!doc) return styles;
+    for (const el of Array.from(doc.getElementsByTagNameNS(W, 'style'))) {
+        const id = attr(el, 'styleId');
+        if (!id) continue;
+        const pPr = childOf(el, W, 'pPr');
+        const outline = attr(childOf(pPr, W, 'outlineLvl'), 'val');
+        styles.set(id, {
+            name: (attr(childOf(el, W, 'name'), 'val') ?? id).toLowerCase(),
+            basedOn: attr(childOf(el, W, 'basedOn'), 'val') ?? undefined,
+            outlineLevel: outline !== null ? Number(outline) : undefined,
+            numPr: childOf(pPr, W, 'numPr'),
+            rPr: childOf(el, W, 'rPr'),
+            pBdr: childOf(pPr, W, 'pBdr'),
+        });
+    }
+    return styles;
+}
+
+// a style inherits what it doesn't set from the style it's based on
+function styleChain(styles: Map<string, Style>, id: string | null): Style[] {
+    const chain: Style[] = [];
+    for (let style = id ? styles.get(id) : undefined; style && chain.length < 10; style = style.basedOn ? styles.get(style.basedOn) : undefined) {
+        chain.push(style);
+    }
+    return chain;
+}
+
+function readNumbering(doc: Document | null): Context['numbering'] {
+    const numbering: Context['numbering'] = new Map();
+    if (!doc) return numbering;
+    const abstracts = new Map<string, Map<number, { format: string; start: number }>>();
+    for (const el of Array.from(doc.getElementsByTagNameNS(W, 'abstractNum'))) {
+        const levels = new Map<number, { format: string; start: number }>();
+        for (const lvl of childrenOf(el, W, 'lvl')) {
+            levels.set(Number(attr(lvl, 'ilvl') ?? 0), {
+                format: attr(childOf(lvl, W, 'numFmt'), 'val') ?? 'bullet',
+                start: Number(attr(childOf(lvl, W, 'start'), 'val') ?? 1),
+            });
+        }
+        abstracts.set(attr(el, 'abstractNumId') ?? '', levels);
+    }
+    for (const el of Array.from(doc.getElementsByTagNameNS(W, 'num'))) {
+        const levels = abstracts.get(attr(childOf(el, W, 'abstractNumId'), 'val') ?? '');
+        if (levels) numbering.set(attr(el, 'numId') ?? '', levels);
+    }
+    return numbering;
+}
+
+function readRelationships(doc: Document | null, zip: JSZip) {
+    const links = new Map<string, string>();
+    const media = new Map<string, string>();
+    if (!doc) return { links, media };
+    for (const el of Array.from(doc.getElementsByTagName('Relationship'))) {
+        const id = el.getAttribute('Id');
+        const target = el.getAttribute('Target');
+        const type = el.getAttribute('Type') ?? '';
+        if (!id || !target) continue;
+        if (type.endsWith('/hyperlink')) {
+            links.set(id, target);
+        } else if (type.endsWith('/image') && el.getAttribute('TargetMode') !== 'External') {
+            const path = target.startsWith('/') ? target.slice(1) : `word/${target}`;
+            if (zip.file(path)) media.set(id, path);
+        }
+    }
+    return { links, media };
+}
+
+async function loadImages(zip: JSZip, media: Map<string, string>): Promise<Map<string, string>> {
+    const images = new Map<string, string>();
+    for (const [id, path] of media) {
+        const type = IMAGE_TYPES[path.slice(path.lastIndexOf('.') + 1).toLowerCase()];
+        // EMF and WMF are Windows drawings no browser shows
+        if (!type) continue;
+        images.set(id, `data:${type};base64,${await zip.file(path)!.async('base64')}`);
+    }
+    return images;
+}
+
+function readNotes(doc: Document | null, name: 'footnote' | 'endnote', prefix: string, into: Map<string, Element>) {
+    if (!doc) return;
+    for (const el of Array.from(doc.getElementsByTagNameNS(W, name))) {
+        const type = attr(el, 'type');
+        // the separator lines Word keeps among the notes
+        if (type && type !== 'normal') continue;
+        into.set(`${prefix}${attr(el, 'id')}`, el);
+    }
+}
+
+function runFormat(rPr: Element | undefined, ctx: Context): RunFormat {
+    const styles = [rPr, ...styleChain(ctx.styles, attr(childOf(rPr, W, 'rStyle'), 'val')).map(s => s.rPr)];
+    // the nearest setting wins: the run's own, then its character style and what that's based on
+    const prop = (name: string) => styles.map(s => childOf(s, W, name)).find(Boolean);
+    const fonts = prop('rFonts');
+    const font = attr(fonts, 'ascii') ?? attr(fonts, 'hAnsi') ?? attr(fonts, 'cs') ?? '';
+    const highlight = attr(prop('highlight'), 'val');
+    return {
+        bold: isOn(prop('b')),
+        italic: isOn(prop('i')),
+        strike: isOn(prop('strike')) || isOn(prop('dstrike')),
+        code: MONOSPACE_RE.test(font),
+        highlight: !!highlight && highlight !== 'none',
+        math: /cambria math/i.test(font),
+    };
+}
+
+// an Office Math zone as plain text, which is about what markdown math can hold of it
+function mathText(el: Element): string {
+    return Array.from(el.getElementsByTagNameNS(M, 't')).map(t => t.textContent ?? '').join('').trim();
+}
+
+function image(el: Element, ctx: Context): string | null {
+    const blip = descendant(el, A, 'blip');
+    const imagedata = el.getElementsByTagNameNS('urn:schemas-microsoft-com:vml', 'imagedata')[0];
+    const id = attr(blip, 'embed', R) ?? attr(imagedata, 'id', R);
+    const props = descendant(el, WP, 'docPr');
+    const alt = props?.getAttribute('descr') || props?.getAttribute('title') || '';
+    // exported equations and diagrams carry their source as the description
+    if (/^\$\$[\s\S]+\$\$$/.test(alt)) return alt;
+    const diagram = alt.match(/^```mermaid\\n([\s\S]*)\\n```$/);
+    if (diagram) return `\`\`\`mermaid\n${diagram[1].replace(/\\([\\n])/g, (_, c: string) => c === 'n' ? '\n' : '\\')}\n\`\`\``;
+    const src = id ? ctx.images.get(id) : undefined;
+    if (!src) return null;
+    ctx.imageCount++;
+    return `![${alt.replace(/[[\]\n]/g, ' ').trim()}](${src})`;
+}
+
+function footnote(id: string, ctx: Context): string {
+    if (!ctx.referenced.includes(id)) ctx.referenced.push(id);
+    return `[^${ctx.referenced.indexOf(id) + 1}]`;
+}
+
+function run(r: Element, ctx: Context, out: Segment[], link?: string) {
+    const format = runFormat(childOf(r, W, 'rPr'), ctx);
+    // inside a field only its result shows; a HYPERLINK field's result is the link text
+    const field = () => ctx.fields.at(-1);
+    const showing = () => !field() || field()!.result;
+    let text = '';
+    const flush = () => {
+        const fieldLink = field()?.instruction.match(/HYPERLINK\s+"([^"]+)"/)?.[1];
+        if (text) out.push({ text, format, link: link ?? fieldLink });
+        text = '';
+    };
+    for (const node of Array.from(r.children)) {
+        if (node.namespaceURI !== W && node.localName !== 'AlternateContent') continue;
+        switch (node.localName) {
+            case 't':
+                if (showing()) text += node.textContent ?? '';
+                break;
+            case 'tab':
+                if (showing()) text += '\t';
+                break;
+            case 'br': case 'cr':
+                if (showing() && attr(node, 'type') !== 'page') text += '\n';
+                break;
+            case 'noBreakHyphen':
+                if (showing()) text += '-';
+                break;
+            case 'instrText':
+                if (field()) field()!.instruction += node.textContent ?? '';
+                break;
+            case 'fldChar': {
+                const type = attr(node, 'fldCharType');
+                flush();
+                if (type === 'begin') ctx.fields.push({ instruction: '', result: false });
+                else if (type === 'separate' && field()) field()!.result = true;
+                else if (type === 'end') ctx.fields.pop();
+                break;
+            }
+            case 'footnoteReference': case 'endnoteReference': {
+                flush();
+                const prefix = node.localName === 'footnoteReference' ? 'f' : 'e';
+                if (ctx.notes.has(`${prefix}${attr(node, 'id')}`)) {
+                    out.push({ text: footnote(`${prefix}${attr(node, 'id')}`, ctx), format: PLAIN, raw: true });
+                }
+                break;
+            }
+            case 'drawing': case 'pict': case 'AlternateContent': {
+                flush();
+                const markdown = image(node, ctx);
+                if (markdown) out.push({ text: markdown, format: PLAIN, raw: true });
+                break;
+            }
+        }
+    }
+    flush();
+}
+
+function inlines(el: Element, ctx: Context, out: Segment[] = [], link?: string): Segment[] {
+    for (const node of Array.from(el.children)) {
+        if (node.namespaceURI === M && (node.localName === 'oMath' || node.localName === 'oMathPara')) {
+            const math = mathText(node);
+            if (math) out.push({ text: node.localName === 'oMathPara' ? `$$${math}$$` : `$${math}$`, format: PLAIN, raw: true });
+            continue;
+        }
+        if (node.namespaceURI !== W) continue;
+        switch (node.localName) {
+            case 'r':
+                run(node, ctx, out, link);
+                break;
+            case 'hyperlink': {
+                const id = attr(node, 'id', R);
+                // links to bookmarks inside the document have nowhere to go in a note
+                inlines(node, ctx, out, (id && ctx.links.get(id)) || link);
+                break;
+            }
+            case 'fldSimple': {
+                const target = attr(node, 'instr')?.match(/HYPERLINK\s+"([^"]+)"/)?.[1];
+                inlines(node, ctx, out, target ?? link);
+                break;
+            }
+            case 'ins': case 'smartTag': case 'customXml':
+                inlines(node, ctx, out, link);
+                break;
+            case 'sdt':
+                inlines(childOf(node, W, 'sdtContent') ?? node, ctx, out, link);
+                break;
+        }
+    }
+    return out;
+}
+
+const sameFormat = (a: Segment, b: Segment) =>
+    !a.raw && !b.raw && a.link === b.link && (Object.keys(PLAIN) as (keyof RunFormat)[]).every(k => a.format[k] === b.format[k]);
+
+function styled(segment: Segment, drop: Partial<RunFormat>): string {
+    if (segment.raw) return segment.text;
+    const { format } = segment;
+    if (format.math) return wrap('$', segment.text);
+    if (format.code) return segment.text.trim() ? codeSpan(segment.text) : segment.text;
+    let text = segment.text;
+    if (format.highlight) text = wrap('==', text);
+    if (format.strike) text = wrap('~~', text);
+    if (format.italic && !drop.italic) text = wrap('*', text);
+    if (format.bold && !drop.bold) text = wrap('**', text);
+    return text;
+}
+
+/** Runs as markdown; Word splits text into runs freely, so equal neighbours join first. */
+function inlineMarkdown(segments: Segment[], drop: Partial<RunFormat> = {}): string {
+    const merged: Segment[] = [];
+    for (const segment of segments) {
+        const last = merged.at(-1);
+        if (last && sameFormat(last, segment)) last.text += segment.text;
+        else merged.push({ ...segment });
+    }
+    let out = '';
+    for (let i = 0; i < merged.length; i++) {
+        const { link } = merged[i];
+        if (!link) {
+            out += styled(merged[i], drop);
+            continue;
+        }
+        // a link may hold runs of several formats
+        let text = '';
+        for (; i < merged.length && merged[i].link === link; i++) text += styled(merged[i], drop);
+        i--;
+        const lead = text.match(/^\s*/)?.[0] ?? '';
+        const trail = text.match(/\s*$/)?.[0] ?? '';
+        out += text.trim() ? `${lead}[${text.trim()}](${link.replace(/ /g, '%20')})${trail}` : text;
+    }
+    return out;
+}
+
+const allOf = (segments: Segment[], key: keyof RunFormat) =>
+    segments.some(s => s.text.trim()) && segments.every(s => !s.text.trim() || (!s.raw && s.format[key]));
+
+function paragraph(p: Element, ctx: Context): Block | null {
+    const pPr = childOf(p, W, 'pPr');
+    const styleId = attr(childOf(pPr, W, 'pStyle'), 'val');
+    const chain = styleChain(ctx.styles, styleId);
+    const name = chain[0]?.name ?? styleId?.toLowerCase() ?? '';
+    const segments = inlines(p, ctx);
+    const plain = segments.filter(s => !s.raw).map(s => s.text).join('').trim();
+    if (!segments.some(s => s.text.trim())) return null;
+
+    if (name === 'title') return { kind: 'title', text: plain };
+
+    const outline = attr(childOf(pPr, W, 'outlineLvl'), 'val') ?? chain.find(s => s.outlineLevel !== undefined)?.outlineLevel;
+    const level = Number(name.match(/^heading ?(\d)$/)?.[1] ?? (outline != null ? Number(outline) + 1 : 0));
+    if (level >= 1 && level <= 6) {
+        // headings are bold by their style already
+        return { kind: 'heading', text: `${'#'.repeat(level)} ${inlineMarkdown(segments, { bold: true }).trim()}` };
+    }
+
+    if (RULE_RE.test(plain) && !segments.some(s => s.raw)) return { kind: 'rule', text: '---' };
+
+    if (allOf(segments, 'code') || /code|preformatted|source/.test(name)) {
+        return { kind: 'code', text: segments.map(s => s.text).join('').replace(/\t/g, '    ') };
+    }
+
+    const task = plain.match(TASK_RE);
+    if (task) {
+        const first = segments.find(s => s.text.trim())!;
+        first.text = first.text.replace(/^\s*/, '').replace(TASK_RE, '');
+        return { kind: 'list', text: `- [${task[1] === '☐' ? ' ' : 'x'}] ${inlineMarkdown(segments).trim()}` };
+    }
+
+    const numPr = childOf(pPr, W, 'numPr') ?? chain.find(s => s.numPr)?.numPr;
+    const numId = attr(childOf(numPr, W, 'numId'), 'val');
+    if (numId && numId !== '0') {
+        const depth = Number(attr(childOf(numPr, W, 'ilvl'), 'val') ?? 0);
+        const level = ctx.numbering.get(numId)?.get(depth) ?? { format: 'bullet', start: 1 };
+        const counters = ctx.counters.get(numId) ?? [];
+        // a deeper list starts over each time its parent item moves on
+        counters.length = depth + 1;
+        counters[depth] = (counters[depth] ?? level.start - 1) + 1;
+        ctx.counters.set(numId, counters);
+        const marker = level.format === 'bullet' || level.format === 'none' ? '-' : `${counters[depth]}.`;
+        return { kind: 'list', text: `${'    '.repeat(depth)}${marker} ${inlineMarkdown(segments).trim()}` };
+    }
+
+    const border = childOf(childOf(pPr, W, 'pBdr') ?? chain.find(s => s.pBdr)?.pBdr, W, 'left');
+    if (/quote/.test(name) || (border && attr(border, 'val') !== 'none' && attr(border, 'val') !== 'nil')) {
+        // the exporter sets a whole quote in italics
+        const text = inlineMarkdown(segments, { italic: allOf(segments, 'italic') }).trim();
+        return { kind: 'quote', text: text.split('\n').map(l => `> ${l}`.trimEnd()).join('\n') };
+    }
+
+    return { kind: 'paragraph', text: inlineMarkdown(segments).trim() };
+}
+
+function cell(tc: Element, ctx: Context, header: boolean): string {
+    const lines = childrenOf(tc, W, 'p').map(p => inlineMarkdown(inlines(p, ctx), { bold: header }).trim()).filter(Boolean);
+    return lines.join('<br>').replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+}
+
+function table(tbl: Element, ctx: Context): Block | null {
+    const rows = childrenOf(tbl, W, 'tr').map((tr, i) => childrenOf(tr, W, 'tc').flatMap(tc => {
+        const span = Number(attr(childOf(childOf(tc, W, 'tcPr'), W, 'gridSpan'), 'val') ?? 1);
+        // the header row is bold as a matter of course
+        return [cell(tc, ctx, i === 0), ...Array<string>(Math.max(span - 1, 0)).fill('')];
+    }));
+    if (rows.length === 0) return null;
+    const width = Math.max(...rows.map(r => r.length));
+    const line = (r: string[]) => `| ${[...r, ...Array<string>(width - r.length).fill('')].join(' | ')} |`;
+    return { kind: 'table', text: [line(rows[0]), line(Array<string>(width).fill('---')), ...rows.slice(1).map(line)].join('\n') };
+}
+
+function bodyBlocks(el: Element, ctx: Context, out: Block[] = []): Block[] {
+    for (const node of Array.from(el.children)) {
+        if (node.namespaceURI !== W) continue;
+        if (node.localName === 'p') {
+            const block = paragraph(node, ctx);
+            if (block) out.push(block);
+        } else if (node.localName === 'tbl') {
+            const block = table(node, ctx);
+            if (block) out.push(block);
+        } else if (node.localName === 'sdt') {
+            bodyBlocks(childOf(node, W, 'sdtContent') ?? node, ctx, out);
+        }
+    }
+    return out;
+}
+
+// list items and quote lines sit on consecutive lines, code paragraphs share one fence
+function joinBlocks(blocks: Block[]): string {
+    const parts: string[] = [];
+    for (let i = 0; i < blocks.length; i++) {
+        const block = blocks[i];
+        const previous = blocks[i - 1];
+        if (block.kind === 'code') {
+            const lines = [block.text];
+            while (blocks[i + 1]?.kind === 'code') lines.push(blocks[++i].text);
+            const fence = lines.some(l => l.includes('```')) ? '~~~' : '```';
+            parts.push(`${previous ? '\n\n' : ''}${fence}\n${lines.join('\n')}\n${fence}`);
+            continue;
+        }
+        const tight = previous?.kind === block.kind && (block.kind === 'list' || block.kind === 'quote');
+        parts.push(`${previous ? (tight ? '\n' : '\n\n') : ''}${block.text}`);
+    }
+    return parts.join('');
+}
+
+/**
+ * A .docx as a note: the Title paragraph (or the document's title property) and the body as
+ * markdown, with footnotes gathered at the end and pictures inlined as data URIs.
+ */
+export async function docxToMarkdown(zip: JSZip): Promise<{ title: string; markdown: string; images: number }> {
+    const document = await readXml(zip, 'word/document.xml');
+    const body = document && childOf(document.documentElement, W, 'body');
+    if (!body) throw new DocxError('no word/document.xml');
+    const relationships = await readXml(zip, 'word/_rels/document.xml.rels');
+    const { links, media } = readRelationships(relationships, zip);
+    const notes = new Map<string, Element>();
+    readNotes(await readXml(zip, 'word/footnotes.xml'), 'footnote', 'f', notes);
+    readNotes(await readXml(zip, 'word/endnotes.xml'), 'endnote', 'e', notes);
+    const ctx: Context = {
+        styles: readStyles(await readXml(zip, 'word/styles.xml')),
+        numbering: readNumbering(await readXml(zip, 'word/numbering.xml')),
+        counters: new Map(),
+        links,
+        images: await loadImages(zip, media),
+        notes,
+        referenced: [],
+        fields: [],
+        imageCount: 0,
+    };
+
+    const blocks = bodyBlocks(body, ctx);
+    const titleIndex = blocks.findIndex(b => b.kind === 'title');
+    const title = titleIndex >= 0 ? blocks.splice(titleIndex, 1)[0].text
+        : (await readXml(zip, 'docProps/core.xml'))?.getElementsByTagNameNS(DC, 'title')[0]?.textContent?.trim() ?? '';
+    let markdown = joinBlocks(blocks);
+
+    // notes can reference further notes, so the list may grow while it's written out
+    const definitions: string[] = [];
+    for (let i = 0; i < ctx.referenced.length; i++) {
+        const note = ctx.notes.get(ctx.referenced[i])!;
+        const text = childrenOf(note, W, 'p').map(p => inlineMarkdown(inlines(p, ctx)).trim()).filter(Boolean).join(' ');
+        definitions.push(`[^${i + 1}]: ${text}`);
+    }
+    if (definitions.length > 0) markdown += `\n\n${definitions.join('\n')}`;
+
+    return { title, markdown: markdown ? `${markdown}\n` : '', images: ctx.imageCount };
+}
@@ -0,0 +1,243 @@
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import type { Note } from '../types';
+import { parseFrontmatter, splitFrontmatter } from './frontmatter';
+import { headingSlug, renderPage } from './htmlExport';
+
+/*
+ * EPUB 3 export. Notes render through the HTML export (so links, anchors and inlined
+ * images come for free) and are then cut into one chapter per H1; each note's title is
+ * an H1 of its own. Math keeps only KaTeX's MathML, which reading systems lay out
+ * natively, and mermaid diagrams stay inline SVG. Images move into the package as files.
+ *
+ *   mimetype                    stored first and uncompressed, as the spec requires
+ *   META-INF/container.xml      points at the package document
+ *   OEBPS/content.opf           metadata, manifest and reading order
+ *   OEBPS/nav.xhtml             the generated table of contents
+ *   OEBPS/chapter-N.xhtml       the chapters
+ *   OEBPS/images/...            images taken out of the notes
+ */
+
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+// reading systems bring their own fonts and colours; the page margins are theirs as well
+const BOOK_RULES = `
+body { max-width: none; margin: 0; padding: 0; color: inherit; background: none; font-size: 1em; }
+h1 { margin-top: 0; }
+.missing-image { font-style: italic; }
+`;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+};
+
+const DATA_URI_RE = /^data:([\w.+-]+\/[\w.+-]+);base64,/;
+
+interface Chapter {
+    file: string;
+    /** index of the note it was cut from */
+    note: number;
+    heading: Element;
+    nodes: Node[];
+}
+
+interface TocEntry {
+    href: string;
+    text: string;
+    children: TocEntry[];
+}
+
+const escapeXML = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const noteFile = (index: number) => `note-${index}.xhtml`;
+
+// KaTeX renders both MathML and HTML; the HTML needs KaTeX's fonts and stylesheet, MathML nothing
+function keepMathML(doc: Document) {
+    doc.querySelectorAll('.katex').forEach(katex => {
+        const math = katex.querySelector('math');
+        if (math) katex.replaceWith(math);
+    });
+}
+
+// the title heading alone, straight before the note's own first H1, would be an empty chapter
+function cutChapters(doc: Document, note: number): Omit<Chapter, 'file'>[] {
+    const chapters: Omit<Chapter, 'file'>[] = [];
+    for (const node of Array.from(doc.body.childNodes)) {
+        if (node instanceof Element && node.tagName === 'H1') {
+            chapters.push({ note, heading: node, nodes: [node] });
+        } else if (chapters.length > 0) {
+            chapters.at(-1)!.nodes.push(node);
+        }
+    }
+    const [title, next] = chapters;
+    const empty = title && title.nodes.slice(1).every(n => !n.textContent?.trim() && !(n instanceof Element && n.querySelector('img, svg, math')));
+    return next && empty ? chapters.slice(1) : chapters;
+}
+
+function tocEntries(chapters: Chapter[]): TocEntry[] {
+    return chapters.map(chapter => ({
+        href: chapter.file,
+        text: chapter.heading.textContent?.trim() || 'Untitled',
+        children: chapter.nodes
+            .filter((n): n is Element => n instanceof Element && n.tagName === 'H2' && !!n.id)
+            .map(h2 => ({ href: `${chapter.file}#${h2.id}`, text: h2.textContent?.trim() ?? '', children: [] })),
+    }));
+}
+
+function tocList(entries: TocEntry[]): string {
+    const items = entries.map(entry =>
+        `<li><a href="${escapeXML(entry.href)}">${escapeXML(entry.text)}</a>${entry.children.length > 0 ? tocList(entry.children) : ''}</li>`);
+    return `<ol>${items.join('')}</ol>`;
+}
+
+function xhtmlPage(title: string, body: string, epubNamespace = false): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="${XHTML_NS}"${epubNamespace ? ' xmlns:epub="http://www.idpf.org/2007/ops"' : ''}>
+<head>
+<title>${escapeXML(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Saves notes, in order, as an EPUB 3 book. Links between the notes lead to the right
+ * chapter; links to notes outside the book are kept as text. Returns how many images
+ * could not be fetched and were left out.
+ */
+export async function exportToEPUB(pages: Note[], notes: Note[], title: string): Promise<number> {
+    const indexOf = new Map(pages.map((n, i) => [n.id, i]));
+    const pageOf = (note: Note) => indexOf.has(note.id) ? noteFile(indexOf.get(note.id)!) : null;
+    const zip = new JSZip();
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', CONTAINER_XML);
+
+    const chapters: Chapter[] = [];
+    let baseStyles = '';
+    let unembedded = 0;
+    // one note at a time: mermaid cannot render two diagrams at once
+    for (const [index, note] of pages.entries()) {
+        const page = await renderPage({ ...note, content: splitFrontmatter(note.content).body }, notes, pageOf);
+        unembedded += page.unembedded;
+        baseStyles ||= page.doc.head.querySelector('style')?.textContent ?? '';
+        keepMathML(page.doc);
+        for (const chapter of cutChapters(page.doc, index)) {
+            chapters.push({ ...chapter, file: `chapter-${chapters.length + 1}.xhtml` });
+        }
+    }
+
+    // where each note starts and which chapter holds each of its anchors
+    const firstChapter = new Map<number, string>();
+    const anchors = new Map<string, string>();
+    for (const chapter of chapters) {
+        if (!firstChapter.has(chapter.note)) firstChapter.set(chapter.note, chapter.file);
+        for (const node of chapter.nodes) {
+            if (!(node instanceof Element)) continue;
+            for (const el of [node, ...Array.from(node.querySelectorAll('[id]'))]) {
+                if (el.id) anchors.set(`${chapter.note}#${el.id}`, chapter.file);
+            }
+        }
+    }
+    const chapterFor = (note: number, id: string) => anchors.get(`${note}#${id}`) ?? firstChapter.get(note) ?? chapters[0]?.file ?? '';
+
+    const images = new Map<string, { file: string; mimeType: string }>();
+    const serializer = new XMLSerializer();
+    const manifest: string[] = [];
+    for (const chapter of chapters) {
+        const nodes = chapter.nodes.filter((n): n is Element => n instanceof Element);
+        const links = nodes.flatMap(el => [el, ...Array.from(el.querySelectorAll('a[href]'))]).filter(el => el.matches('a[href]'));
+        for (const a of links) {
+            const href = a.getAttribute('href') ?? '';
+            const toNote = href.match(/^note-(\d+)\.xhtml(?:#(.*))?$/);
+            if (toNote) {
+                const note = Number(toNote[1]);
+                a.setAttribute('href', toNote[2] ? `${chapterFor(note, toNote[2])}#${toNote[2]}` : firstChapter.get(note) ?? '');
+            } else if (href.startsWith('#') && href.length > 1) {
+                a.setAttribute('href', `${chapterFor(chapter.note, href.slice(1))}${href}`);
+            } else if (href === '#') {
+                a.setAttribute('href', firstChapter.get(chapter.note) ?? '');
+            }
+        }
+
+        for (const img of nodes.flatMap(el => el.tagName === 'IMG' ? [el] : Array.from(el.querySelectorAll('img')))) {
+            const src = img.getAttribute('src') ?? '';
+            const mimeType = src.match(DATA_URI_RE)?.[1];
+            const extension = mimeType && IMAGE_EXTENSIONS[mimeType];
+            if (!mimeType || !extension) {
+                // a book cannot reach out for remote images
+                const missing = img.ownerDocument.createElement('span');
+                missing.className = 'missing-image';
+                missing.textContent = `[${img.getAttribute('alt') || 'image'}]`;
+                img.replaceWith(missing);
+                continue;
+            }
+            let image = images.get(src);
+            if (!image) {
+                image = { file: `images/image-${images.size + 1}.${extension}`, mimeType };
+                images.set(src, image);
+                zip.file(`OEBPS/${image.file}`, src.slice(src.indexOf(',') + 1), { base64: true });
+            }
+            img.setAttribute('src', image.file);
+        }
+
+        const properties = [
+            nodes.some(el => el.matches('math') || el.querySelector('math')) ? 'mathml' : '',
+            nodes.some(el => el.matches('svg') || el.querySelector('svg')) ? 'svg' : '',
+        ].filter(Boolean).join(' ');
+        const body = chapter.nodes.map(n => serializer.serializeToString(n)).join('');
+        zip.file(`OEBPS/${chapter.file}`, xhtmlPage(chapter.heading.textContent?.trim() || title, body));
+        manifest.push(`<item id="${chapter.file.replace('.xhtml', '')}" href="${chapter.file}" media-type="application/xhtml+xml"${properties ? ` properties="${properties}"` : ''}/>`);
+    }
+    for (const { file, mimeType } of images.values()) {
+        manifest.push(`<item id="${file.replace(/^images\/|\.\w+$/g, '')}" href="${file}" media-type="${mimeType}"/>`);
+    }
+
+    const contents = `<nav epub:type="toc" id="toc"><h1>Contents</h1>${tocList(tocEntries(chapters))}</nav>`;
+    zip.file('OEBPS/nav.xhtml', xhtmlPage('Contents', contents, true));
+    zip.file('OEBPS/style.css', `${baseStyles}\n${BOOK_RULES}`);
+
+    const author = parseFrontmatter(pages[0]?.content ?? '').author;
+    const creator = Array.isArray(author) ? author.join(', ') : author;
+    const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${crypto.randomUUID()}</dc:identifier>
+    <dc:title>${escapeXML(title)}</dc:title>
+    <dc:language>${escapeXML(navigator.language || 'en')}</dc:language>
+${creator ? `    <dc:creator>${escapeXML(creator)}</dc:creator>\n` : ''}    <meta property="dcterms:modified">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine>
+    <itemref idref="nav"/>
+    ${chapters.map(c => `<itemref idref="${c.file.replace('.xhtml', '')}"/>`).join('\n    ')}
+  </spine>
+</package>
+`;
+    zip.file('OEBPS/content.opf', opf);
+
+    const blob = await zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip', compression: 'DEFLATE' });
+    saveAs(blob, `${headingSlug(title)}.epub`);
+    return unembedded;
+}
@@ -1,8 +1,12 @@
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, ImageRun, Table, TableRow, TableCell, WidthType, BorderStyle } from 'docx';
+import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, ImageRun, Table, TableRow, TableCell, WidthType, BorderStyle, ExternalHyperlink, type ParagraphChild } from 'docx';
 import { saveAs } from 'file-saver';
 import { marked } from 'marked';
 import katex from 'katex';
+import DOMPurify from 'dompurify';
 import mermaid from 'mermaid';
+import { expandEmbeds, embedLabel, embedErrorMessage, type EmbedContext, type ResolvedEmbed } from './transclusion';
+import type { Note } from '../types';
+import { expandQueries, queryCell, queryColumnLabel, QueryError, type QueryResult } from './query';
 
 // Initialize mermaid for server-side rendering
 mermaid.initialize({ startOnLoad: false, theme: 'default' });
@@ -171,9 +175,50 @@ async function svgToPngBlob(svgString: string, width = 600, height = 400): Promi
     });
 }
 
-// Render markdown to HTML with math and diagrams
-export async function renderMarkdownToHTML(content: string, title: string): Promise<string> {
-    let processed = content;
+const escapeHTML = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Embedded notes become a titled block; blank lines keep marked parsing the markdown inside
+function embedToHTML(embed: ResolvedEmbed): string {
+    if (embed.text === null) {
+        return `<div class="note-embed note-embed-error">⚠ ${escapeHTML(embedErrorMessage(embed))}</div>`;
+    }
+    return `<div class="note-embed"><div class="note-embed-title">${escapeHTML(embedLabel(embed))}</div>\n\n${embed.text}\n\n</div>`;
+}
+
+// Query blocks export their results as they were when exported
+function queryToHTML(result: QueryResult | QueryError): string {
+    if (result instanceof QueryError) return `<div class="note-query note-query-error">⚠ Query error: ${escapeHTML(result.message)}</div>`;
+    if (result.notes.length === 0) return '<div class="note-query note-query-empty">No matching notes</div>';
+    const title = (note: Note) => escapeHTML(note.title || 'Untitled');
+    if (result.kind === 'list') {
+        return `<ul class="note-query">${result.notes.map(note => `<li>${title(note)}</li>`).join('')}</ul>`;
+    }
+    const head = ['Title', ...result.columns.map(queryColumnLabel)].map(label => `<th>${escapeHTML(label)}</th>`).join('');
+    const rows = result.notes.map(note =>
+        `<tr><td>${title(note)}</td>${result.columns.map(c => `<td>${escapeHTML(queryCell(note, c))}</td>`).join('')}</tr>`
+    ).join('');
+    return `<table class="note-query"><thead><tr>${head}</tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+export function queryToMarkdown(result: QueryResult | QueryError): string {
+    if (result instanceof QueryError) return `Query error: ${result.message}`;
+    if (result.notes.length === 0) return 'No matching notes';
+    const title = (note: Note) => note.title || 'Untitled';
+    if (result.kind === 'list') return result.notes.map(note => `- ${title(note)}`).join('\n');
+    const cell = (text: string) => text.replace(/\|/g, '\\|');
+    const header = ['Title', ...result.columns.map(queryColumnLabel)];
+    return [
+        `| ${header.join(' | ')} |`,
+        `| ${header.map(() => '---').join(' | ')} |`,
+        ...result.notes.map(note => `| ${[title(note), ...result.columns.map(c => queryCell(note, c))].map(cell).join(' | ')} |`),
+    ].join('\n');
+}
+
+// Render markdown to HTML with math and diagrams; ![[Note]] embeds and query blocks are expanded when notes are given
+export async function renderMarkdownToHTML(content: string, title: string, embeds?: EmbedContext): Promise<string> {
+    let processed = embeds ? expandEmbeds(content, embeds, { wrap: embedToHTML }) : content;
+    if (embeds) processed = expandQueries(processed, embeds.notes, queryToHTML);
 
     // Block math
     processed = processed.replace(/\$\$([^$]+)\$\$/g, (_, math) => {
@@ -213,8 +258,13 @@ export async function renderMarkdownToHTML(content: string, title: string): Prom
         return `<div class="mermaid-diagram">${mermaidSvgs[svgIndex++] || ''}</div>`;
     });
 
-    // Convert markdown to HTML
-    const html = await marked(processed);
+    // Convert markdown to HTML; notes can hold raw HTML (pasted or imported), so scripts and
+    // event handlers are stripped before it reaches the preview or an export. Mermaid puts its
+    // labels in HTML inside foreignObject, which has to be let through for them to survive.
+    const html = DOMPurify.sanitize(await marked(processed), {
+        ADD_TAGS: ['foreignObject'],
+        HTML_INTEGRATION_POINTS: { foreignobject: true, 'annotation-xml': true },
+    });
 
     // Wrap in document with embedded styles
     return `
@@ -222,7 +272,7 @@ export async function renderMarkdownToHTML(content: string, title: string): Prom
 <html>
 <head>
     <meta charset="UTF-8">
-    <title>${title}</title>
+    <title>${escapeHTML(title)}</title>
     <style>
         * { box-sizing: border-box; }
         body {
@@ -302,6 +352,21 @@ export async function renderMarkdownToHTML(content: string, title: string): Prom
         .task-list-item input { margin-right: 8px; vertical-align: middle; }
         strong { font-weight: 600; }
         em { font-style: italic; }
+        .note-embed {
+            border-left: 3px solid #0366d6;
+            background: #fafbfc;
+            padding: 8px 16px;
+            margin: 16px 0;
+        }
+        .note-embed-title {
+            font-size: 0.8em;
+            font-weight: 600;
+            color: #0366d6;
+            margin-bottom: 8px;
+        }
+        .note-embed > :last-child { margin-bottom: 0; }
+        .note-embed-error { border-left-color: #cb2431; color: #6a737d; }
+        .note-query-error, .note-query-empty { color: #6a737d; font-style: italic; }
         .math-error, .mermaid-error {
             color: #cb2431;
             background: #ffeef0;
@@ -311,14 +376,14 @@ export async function renderMarkdownToHTML(content: string, title: string): Prom
     </style>
 </head>
 <body>
-    <h1 style="margin-top: 0;">${title}</h1>
+    <h1 style="margin-top: 0;">${escapeHTML(title)}</h1>
     ${html}
 </body>
 </html>
     `.trim();
 }
 
-export async function exportToPDF(content: string, title: string, signal?: AbortSignal): Promise<void> {
+export async function exportToPDF(content: string, title: string, signal?: AbortSignal, embeds?: EmbedContext): Promise<void> {
     const ac = new AbortController();
     const sig = signal ?? ac.signal;
     showExportLoading('Exporting PDF…', () => ac.abort());
@@ -328,7 +393,7 @@ export async function exportToPDF(content: string, title: string, signal?: Abort
     const html2pdf = (await import('html2pdf.js')).default;
     checkAbort(sig);
 
-    const html = await renderMarkdownToHTML(content, title);
+    const html = await renderMarkdownToHTML(content, title, embeds);
 
     // Create an iframe for isolated rendering
     const iframe = document.createElement('iframe');
@@ -444,14 +509,15 @@ function parseMarkdownTable(text: string): { headers: string[]; rows: string[][]
     return { headers, rows };
 }
 
-export async function exportToDOCX(content: string, title: string, signal?: AbortSignal): Promise<void> {
+export async function exportToDOCX(content: string, title: string, signal?: AbortSignal, embeds?: EmbedContext): Promise<void> {
     const ac = new AbortController();
     const sig = signal ?? ac.signal;
     showExportLoading('Exporting DOCX…', () => ac.abort());
     try {
     checkAbort(sig);
-    // Pre-process content to handle block math
-    let processedContent = content;
+    // Pre-process content to inline embedded notes and query results and handle block math
+    let processedContent = embeds ? expandEmbeds(content, embeds) : content;
+    if (embeds) processedContent = expandQueries(processedContent, embeds.notes, queryToMarkdown);
 
     // Extract and process block math ($$...$$)
     const blockMathMatches: { original: string; placeholder: string; math: string }[] = [];
@@ -548,6 +614,10 @@ export async function exportToDOCX(content: string, title: string, signal?: Abor
                                     data: pngData,
                                     transformation: { width: 500, height: 300 },
                                     type: 'png',
+                                    // the source rides along so a DOCX import can bring the diagram back;
+                                    // attributes lose their line breaks, so they're written as \n (and a real
+                                    // backslash as \\, so the import can tell the two apart)
+                                    altText: { name: 'Mermaid diagram', description: `\`\`\`mermaid\\n${mermaidCode.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}\\n\`\`\`` },
                                 })],
                                 alignment: AlignmentType.CENTER,
                                 spacing: { before: 200, after: 200 }
@@ -622,6 +692,7 @@ export async function exportToDOCX(content: string, title: string, signal?: Abor
                         data: pngData,
                         transformation: { width: 400, height: 100 },
                         type: 'png',
+                        altText: { name: 'Equation', description: `$$${mathMatch.math}$$` },
                     })],
                     alignment: AlignmentType.CENTER,
                     spacing: { before: 200, after: 200 }
@@ -740,8 +811,8 @@ export async function exportToDOCX(content: string, title: string, signal?: Abor
 }
 
 // Parse inline markdown formatting
-function parseInlineFormatting(line: string): TextRun[] {
-    const runs: TextRun[] = [];
+function parseInlineFormatting(line: string): ParagraphChild[] {
+    const runs: ParagraphChild[] = [];
 
     // Combined regex for bold, italic, bold-italic, strikethrough, inline code, links, and inline math
     // Order matters: check bold-italic before bold before italic, and check $$ before $ (but $$ should be block math)
@@ -776,10 +847,13 @@ function parseInlineFormatting(line: string): TextRun[] {
             }));
         } else if (match[7] && match[8]) {
             // Link [text](url)
-            runs.push(new TextRun({
-                text: match[7],
-                color: '0366D6',
-                underline: { type: 'single' }
+            runs.push(new ExternalHyperlink({
+                link: match[8],
+                children: [new TextRun({
+                    text: match[7],
+                    color: '0366D6',
+                    underline: { type: 'single' }
+                })],
             }));
         } else if (match[9]) {
             // Inline math $expression$
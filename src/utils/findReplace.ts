@@ -0,0 +1,101 @@
+import type { Note, NoteId } from '../types';
+
+export interface FindOptions {
+    caseSensitive: boolean;
+    regex: boolean;
+}
+
+export interface TextMatch {
+    from: number;
+    to: number;
+    /** 1-based line the match starts on */
+    line: number;
+    lineText: string;
+    /** offset of the match within lineText */
+    column: number;
+    text: string;
+    /** what the match becomes, with $1 / $<name> references expanded in regex mode */
+    replacement: string;
+}
+
+export interface NoteMatches {
+    note: Note;
+    matches: TextMatch[];
+}
+
+/**
+ * Builds the search expression. Throws a SyntaxError for an invalid regex,
+ * which callers surface as a message next to the input.
+ */
+export function buildMatcher(query: string, options: FindOptions): RegExp {
+    const source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+}
+
+/** Expands `$&`, `$1`, `$<name>` and `$$` the way String.prototype.replace does. */
+export function expandReplacement(template: string, match: RegExpExecArray): string {
+    return template.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name?: string) => {
+        if (ref === '$') return '$';
+        if (ref === '&') return match[0];
+        if (name !== undefined) return match.groups?.[name] ?? '';
+        const group = Number(ref);
+        if (group > 0 && group < match.length) return match[group] ?? '';
+        return token;
+    });
+}
+
+export function findInText(text: string, query: string, replaceWith: string, options: FindOptions): TextMatch[] {
+    if (!query) return [];
+    const re = buildMatcher(query, options);
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') lineStarts.push(i + 1);
+    }
+
+    const matches: TextMatch[] = [];
+    let lineIdx = 0;
+    let match;
+    while ((match = re.exec(text)) !== null) {
+        if (match[0].length === 0) {
+            re.lastIndex++;
+            continue;
+        }
+        while (lineIdx + 1 < lineStarts.length && lineStarts[lineIdx + 1] <= match.index) lineIdx++;
+        const lineStart = lineStarts[lineIdx];
+        const lineEnd = lineIdx + 1 < lineStarts.length ? lineStarts[lineIdx + 1] - 1 : text.length;
+        matches.push({
+            from: match.index,
+            to: match.index + match[0].length,
+            line: lineIdx + 1,
+            lineText: text.slice(lineStart, lineEnd),
+            column: match.index - lineStart,
+            text: match[0],
+            replacement: options.regex ? expandReplacement(replaceWith, match) : replaceWith,
+        });
+    }
+    return matches;
+}
+
+/** Finds matches in every markdown note; notes without matches are left out. */
+export function findInNotes(notes: Note[], query: string, replaceWith: string, options: FindOptions): NoteMatches[] {
+    const results: NoteMatches[] = [];
+    for (const note of notes) {
+        if (note.format !== 'markdown') continue;
+        const matches = findInText(note.content, query, replaceWith, options);
+        if (matches.length > 0) results.push({ note, matches });
+    }
+    return results;
+}
+
+/** Replaces the given (non-overlapping, ordered) matches in text. */
+export function applyMatches(text: string, matches: TextMatch[]): string {
+    let out = '';
+    let pos = 0;
+    for (const m of matches) {
+        out += text.slice(pos, m.from) + m.replacement;
+        pos = m.to;
+    }
+    return out + text.slice(pos);
+}
+
+export const matchKey = (noteId: NoteId, match: TextMatch): string => `${noteId}:${match.from}`;
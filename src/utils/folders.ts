@@ -0,0 +1,80 @@
+import type { Note } from '../types';
+
+/** A folder in the sidebar tree; path is the full slash-separated path, e.g. Work/Projects */
+export interface FolderNode {
+    path: string;
+    name: string;
+    children: FolderNode[];
+    /** notes in this folder and every folder below it */
+    noteCount: number;
+}
+
+/** Trims each segment and drops empty ones: " Work // Projects/" becomes "Work/Projects". */
+export function normalizeFolderPath(path: string): string {
+    return path.split('/').map(s => s.trim()).filter(Boolean).join('/');
+}
+
+export const folderName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+export const parentFolder = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+export const joinFolder = (parent: string, name: string) => normalizeFolderPath(parent ? `${parent}/${name}` : name);
+
+/** True when path is folder itself or somewhere below it; the root ('') contains everything. */
+export function isWithinFolder(path: string, folder: string): boolean {
+    return !folder || path === folder || path.startsWith(`${folder}/`);
+}
+
+export const noteFolder = (note: Note) => note.folder ?? '';
+
+/** Every folder path, parents included: saved (possibly empty) folders plus those notes sit in. */
+export function allFolderPaths(notes: Note[], saved: string[] = []): string[] {
+    const paths = new Set<string>();
+    for (const path of [...saved, ...notes.map(noteFolder)]) {
+        const parts = normalizeFolderPath(path).split('/').filter(Boolean);
+        for (let i = 1; i <= parts.length; i++) paths.add(parts.slice(0, i).join('/'));
+    }
+    return [...paths].sort((a, b) => a.localeCompare(b));
+}
+
+export function buildFolderTree(notes: Note[], saved: string[] = []): FolderNode[] {
+    const nodes = new Map<string, FolderNode>();
+    const roots: FolderNode[] = [];
+    for (const path of allFolderPaths(notes, saved)) {
+        const node: FolderNode = { path, name: folderName(path), children: [], noteCount: 0 };
+        nodes.set(path, node);
+        const parent = nodes.get(parentFolder(path));
+        (parent ? parent.children : roots).push(node);
+    }
+    for (const note of notes) {
+        let path = noteFolder(note);
+        while (path) {
+            const node = nodes.get(path);
+            if (node) node.noteCount++;
+            path = parentFolder(path);
+        }
+    }
+    return roots;
+}
+
+/**
+ * Where a path ends up when the folder `from` is renamed or moved to `to`: the folder itself
+ * and everything below it follow, other paths are unchanged.
+ */
+export function movedFolderPath(path: string, from: string, to: string): string {
+    if (path === from) return to;
+    if (path.startsWith(`${from}/`)) return `${to}${path.slice(from.length)}`;
+    return path;
+}
+
+/** Folder names can't contain slashes; other characters that trouble file systems are removed on export. */
+const UNSAFE_SEGMENT_RE = /[\\:*?"<>|]/g;
+
+/** Directory prefix for a note inside an exported ZIP, e.g. "Work/Projects/" or "" for the root. */
+export function folderToZipDir(folder: string): string {
+    const segments = normalizeFolderPath(folder).split('/').filter(Boolean).map(s => s.replace(UNSAFE_SEGMENT_RE, '_'));
+    return segments.length > 0 ? `${segments.join('/')}/` : '';
+}
+
+/** The folder an entry of an imported ZIP belongs in, from its directory. */
+export const zipEntryFolder = (entryName: string) => normalizeFolderPath(parentFolder(entryName));
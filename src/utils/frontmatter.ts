@@ -0,0 +1,120 @@
+export type FrontmatterValue = string | string[];
+
+export function splitFrontmatter(content: string): { frontmatter: string; body: string } {
+    // the block may be empty, and notes pasted from Windows can use CRLF line endings
+    const match = content.match(/^---\r?\n(?:([\s\S]*?)\r?\n)?---(?:\r?\n|$)/);
+    if (!match) return { frontmatter: '', body: content };
+    return { frontmatter: match[1] ?? '', body: content.slice(match[0].length) };
+}
+
+// a single-quoted scalar writes its own quotes doubled, as in YAML
+const unquote = (value: string) => value.trim().replace(/^(["'])(.*)\1$/, (_, quote: string, inner: string) =>
+    quote === "'" ? inner.replace(/''/g, "'") : inner);
+
+// splits `a, "b, c", d` on the commas that are outside quotes
+function splitInlineList(inner: string): string[] {
+    const items: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+    for (const ch of inner) {
+        if (quote) {
+            if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === ',') {
+            items.push(current);
+            current = '';
+            continue;
+        }
+        current += ch;
+    }
+    items.push(current);
+    return items.map(unquote).filter(Boolean);
+}
+
+/**
+ * Reads the flat subset of YAML used in note frontmatter:
+ * `key: value`, `key: [a, b]` and block lists (`key:` followed by `- item` lines).
+ */
+export function parseFrontmatter(content: string): Record<string, FrontmatterValue> {
+    const { frontmatter } = splitFrontmatter(content);
+    const data: Record<string, FrontmatterValue> = {};
+    let listKey: string | null = null;
+    for (const line of frontmatter.split(/\r?\n/)) {
+        const item = line.match(/^\s+-\s+(.*)$/) ?? line.match(/^-\s+(.*)$/);
+        if (item && listKey) {
+            (data[listKey] as string[]).push(unquote(item[1]));
+            continue;
+        }
+        const pair = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+        if (!pair) {
+            listKey = null;
+            continue;
+        }
+        const [, key, raw] = pair;
+        const value = raw.trim();
+        if (value === '') {
+            data[key] = [];
+            listKey = key;
+        } else if (/^\[\[[^\]]*\]\]$/.test(value)) {
+            // an unquoted [[Note]] is meant as a link, not a nested list
+            data[key] = value;
+            listKey = null;
+        } else if (value.startsWith('[') && value.endsWith(']')) {
+            data[key] = splitInlineList(value.slice(1, -1));
+            listKey = null;
+        } else {
+            data[key] = unquote(value);
+            listKey = null;
+        }
+    }
+    return data;
+}
+
+/** `aliases` (or `alias`) from the frontmatter, as a list. */
+export function getAliases(content: string): string[] {
+    const data = parseFrontmatter(content);
+    const value = data.aliases ?? data.alias;
+    if (value === undefined) return [];
+    return (Array.isArray(value) ? value : [value]).map(a => a.trim()).filter(Boolean);
+}
+
+function formatScalar(value: string | number | boolean): string {
+    if (typeof value !== 'string') return String(value);
+    if (value === '' || /[:#,[\]{}"'|>&*!%@`]|^[\s?-]|\s$/.test(value)) {
+        return value.includes('"') ? `'${value.replace(/'/g, "''")}'` : `"${value}"`;
+    }
+    return value;
+}
+
+/** Serializes a value the way `parseFrontmatter` reads it back; lists are written inline. */
+export function formatFrontmatterValue(value: FrontmatterValue | number | boolean): string {
+    if (Array.isArray(value)) return `[${value.map(formatScalar).join(', ')}]`;
+    return formatScalar(value);
+}
+
+/**
+ * Sets one key in the frontmatter, replacing its line (and any block-list items under it)
+ * in place so the rest of the block keeps its formatting. `null` removes the key. A
+ * frontmatter block is created when the note has none.
+ */
+export function setFrontmatterValue(content: string, key: string, value: FrontmatterValue | number | boolean | null): string {
+    const { frontmatter, body } = splitFrontmatter(content);
+    const hasBlock = body.length !== content.length;
+    if (!hasBlock) {
+        return value === null ? content : `---\n${key}: ${formatFrontmatterValue(value)}\n---\n${content}`;
+    }
+
+    const lines = frontmatter ? frontmatter.split(/\r?\n/) : [];
+    const start = lines.findIndex(line => line.match(/^([A-Za-z0-9_-]+):/)?.[1] === key);
+    const replacement = value === null ? [] : [`${key}: ${formatFrontmatterValue(value)}`];
+    if (start < 0) {
+        lines.push(...replacement);
+    } else {
+        let end = start + 1;
+        while (end < lines.length && /^(\s+\S|-\s)/.test(lines[end])) end++;
+        lines.splice(start, end - start, ...replacement);
+    }
+    const block = lines.join('\n');
+    return lines.length > 0 ? `---\n${block}\n---\n${body}` : body;
+}
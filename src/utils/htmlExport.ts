@@ -0,0 +1,360 @@
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import type { Note, NoteId } from '../types';
+import { renderMarkdownToHTML } from './exportUtils';
+import { isWithinFolder } from './folders';
+import { BLOCK_ID_RE, findNoteByTitle, parseWikilinkTarget, type WikilinkTarget } from './wikilinks';
+
+/*
+ * HTML export. A note renders through the same pipeline as PDF export and the preview,
+ * then the page is made to stand on its own: headings get ids so anchors work, wikilinks
+ * become links, images and KaTeX fonts are inlined as data URIs, and the colours of the
+ * theme in use are written into the stylesheet.
+ *
+ * A site export does this for a set of notes: one page per note beside an index and a
+ * shared stylesheet, with links between the pages made relative.
+ */
+
+// the theme's custom properties, copied with the values they have in the app right now
+const THEME_VARIABLES = [
+    '--bg-primary', '--text-primary', '--text-muted', '--primary', '--primary-light', '--border-color',
+    '--editor-gutter-bg', '--highlight', '--error-color', '--editor-font-family',
+    '--heading-1', '--heading-2', '--heading-3', '--heading-4', '--heading-5', '--heading-6',
+    '--syntax-keyword', '--syntax-variable', '--syntax-function', '--syntax-string', '--syntax-constant',
+    '--syntax-type', '--syntax-comment', '--syntax-operator', '--syntax-link', '--syntax-heading', '--syntax-invalid',
+];
+
+// layered over the export's light defaults; code arrives highlighted by highlight.js
+const THEME_RULES = `
+body { background: var(--bg-primary); color: var(--text-primary); }
+h1 { color: var(--heading-1); } h2 { color: var(--heading-2); } h3 { color: var(--heading-3); }
+h4 { color: var(--heading-4); } h5 { color: var(--heading-5); } h6 { color: var(--heading-6); }
+h1, h2, hr, th, td, blockquote { border-color: var(--border-color); }
+a { color: var(--primary); }
+code, pre, th { background: var(--editor-gutter-bg); }
+pre, code { font-family: var(--editor-font-family, monospace); }
+tr:nth-child(even) { background: var(--primary-light); }
+blockquote, .note-query-error, .note-query-empty { color: var(--text-muted); }
+mark { background: var(--highlight); color: inherit; }
+.note-embed { background: var(--primary-light); border-left-color: var(--primary); }
+.note-embed-title { color: var(--primary); }
+.wikilink-missing { color: var(--text-muted); border-bottom: 1px dashed var(--border-color); }
+.hljs-keyword, .hljs-selector-tag, .hljs-meta .hljs-keyword { color: var(--syntax-keyword); }
+.hljs-string, .hljs-regexp, .hljs-attr-value, .hljs-template-tag { color: var(--syntax-string); }
+.hljs-number, .hljs-literal, .hljs-symbol { color: var(--syntax-constant); }
+.hljs-title.function_, .hljs-function .hljs-title { color: var(--syntax-function); }
+.hljs-type, .hljs-title.class_, .hljs-built_in { color: var(--syntax-type); }
+.hljs-variable, .hljs-params, .hljs-attr, .hljs-property { color: var(--syntax-variable); }
+.hljs-comment, .hljs-quote { color: var(--syntax-comment); font-style: italic; }
+.hljs-operator, .hljs-punctuation { color: var(--syntax-operator); }
+.hljs-link { color: var(--syntax-link); }
+.hljs-section { color: var(--syntax-heading); font-weight: 600; }
+.hljs-deletion { color: var(--syntax-invalid); }
+.hljs-emphasis { font-style: italic; } .hljs-strong { font-weight: 600; }
+`;
+
+const SITE_RULES = `
+.site-nav { margin-bottom: 24px; font-size: 0.9em; }
+.site-index h2 { font-size: 1.1em; }
+.site-index ul { list-style: none; padding-left: 0; }
+`;
+
+const STYLESHEET = 'style.css';
+const INDEX_PAGE = 'index.html';
+
+const WIKILINK_RE = /\[\[([^\]]+)\]\]/g;
+// text in these is shown as written: no block anchors, no wikilinks
+const LITERAL_SELECTOR = 'pre, code, .katex, svg, script, style';
+
+/** Where a note's page is, relative to the other pages; null when it is not exported. */
+export type PageLocator = (note: Note) => string | null;
+
+export interface RenderedPage {
+    doc: Document;
+    /** images that could not be fetched and were left pointing at their source */
+    unembedded: number;
+}
+
+/** GitHub-style heading ids, so `#my-heading` links written by hand work too. */
+export function headingSlug(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}\s-]/gu, '').trim().replace(/\s+/g, '-') || 'section';
+}
+
+const blockAnchor = (blockId: string) => `block-${blockId}`;
+
+function anchorFor(target: Pick<WikilinkTarget, 'heading' | 'blockId'>): string {
+    if (target.blockId) return `#${blockAnchor(target.blockId)}`;
+    if (target.heading) return `#${headingSlug(target.heading)}`;
+    return '';
+}
+
+function textNodes(doc: Document, skip: string): Text[] {
+    const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT, {
+        acceptNode: node => node.parentElement?.closest(skip) ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT,
+    });
+    const nodes: Text[] = [];
+    while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+    return nodes;
+}
+
+// the page title is left out so a heading that repeats it still gets the plain slug
+function anchorHeadings(doc: Document) {
+    const used = new Set<string>();
+    doc.body.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach((heading, i) => {
+        if (i === 0) return;
+        const slug = headingSlug(heading.textContent ?? '');
+        let id = slug;
+        for (let n = 1; used.has(id); n++) id = `${slug}-${n}`;
+        used.add(id);
+        heading.id = id;
+    });
+}
+
+// `text ^block-id` marks its paragraph or list item as a link target; the marker itself is dropped
+function anchorBlocks(doc: Document) {
+    for (const node of textNodes(doc, LITERAL_SELECTOR)) {
+        const match = node.data.match(BLOCK_ID_RE);
+        if (!match) continue;
+        node.data = node.data.slice(0, match.index);
+        const block = node.parentElement?.closest('p, li, td, h1, h2, h3, h4, h5, h6');
+        if (block && !block.id) block.id = blockAnchor(match[1]);
+    }
+}
+
+function linkTo(doc: Document, href: string | null, label: string): HTMLElement {
+    if (href === null) {
+        const span = doc.createElement('span');
+        span.className = 'wikilink wikilink-missing';
+        span.textContent = label;
+        return span;
+    }
+    const a = doc.createElement('a');
+    a.className = 'wikilink';
+    a.setAttribute('href', href);
+    a.textContent = label;
+    return a;
+}
+
+function linkNotes(doc: Document, note: Note, notes: Note[], pageOf: PageLocator) {
+    const pageFor = (linked: Note | undefined) => !linked ? null : linked.id === note.id ? '' : pageOf(linked);
+
+    for (const node of textNodes(doc, `${LITERAL_SELECTOR}, a`)) {
+        if (!node.data.includes('[[')) continue;
+        const parts: (string | HTMLElement)[] = [];
+        let last = 0;
+        for (const match of node.data.matchAll(WIKILINK_RE)) {
+            const target = parseWikilinkTarget(match[1]);
+            const page = pageFor(target.title ? findNoteByTitle(notes, target.title) : note);
+            const label = target.alias || [target.title, target.heading].filter(Boolean).join(' › ') || match[1];
+            parts.push(node.data.slice(last, match.index), linkTo(doc, page === null ? null : `${page}${anchorFor(target)}` || '#', label));
+            last = match.index + match[0].length;
+        }
+        parts.push(node.data.slice(last));
+        node.replaceWith(...parts);
+    }
+
+    // [label](/note/id) links lead into the app; they follow the export instead
+    doc.body.querySelectorAll('a[href^="/note/"]').forEach(a => {
+        const [id, hash] = (a.getAttribute('href') ?? '').slice('/note/'.length).split('#');
+        const page = pageFor(notes.find(n => n.id === id));
+        if (page === null) {
+            a.replaceWith(linkTo(doc, null, a.textContent ?? ''));
+        } else {
+            a.setAttribute('href', `${page}${hash ? `#${hash}` : ''}` || '#');
+        }
+    });
+}
+
+async function toDataUri(url: string): Promise<string> {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+    const blob = await response.blob();
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+async function inlineImages(doc: Document): Promise<number> {
+    let failed = 0;
+    await Promise.all(Array.from(doc.images).map(async img => {
+        const src = img.getAttribute('src');
+        if (!src || src.startsWith('data:')) return;
+        try {
+            img.setAttribute('src', await toDataUri(new URL(src, document.baseURI).href));
+        } catch (error) {
+            console.warn('Image left as a link in HTML export:', error);
+            failed++;
+        }
+    }));
+    return failed;
+}
+
+let katexStyles: Promise<string> | null = null;
+
+// KaTeX's stylesheet with its fonts inlined; of each face only the woff2 source is kept,
+// which every current browser reads
+function loadKatexStyles(): Promise<string> {
+    katexStyles ??= import('katex/dist/katex.min.css?inline').then(async ({ default: css }) => {
+        let inlined = css;
+        for (const declaration of css.match(/src:[^;}]+/g) ?? []) {
+            const sources = declaration.slice('src:'.length).split(/,(?=\s*url\()/);
+            const source = sources.find(s => s.includes('woff2')) ?? sources[0];
+            const url = source.match(/url\(["']?([^"')]+)["']?\)/)?.[1];
+            if (!url || url.startsWith('data:')) continue;
+            try {
+                const data = await toDataUri(new URL(url, document.baseURI).href);
+                inlined = inlined.replace(declaration, `src:${source.replace(url, data)}`);
+            } catch (error) {
+                console.warn('KaTeX font left out of HTML export:', error);
+            }
+        }
+        return inlined;
+    });
+    return katexStyles;
+}
+
+function themeStyles(): string {
+    const computed = getComputedStyle(document.documentElement);
+    const values = THEME_VARIABLES
+        .map(name => [name, computed.getPropertyValue(name).trim()])
+        .filter(([, value]) => value)
+        .map(([name, value]) => `${name}: ${value};`);
+    return `:root { ${values.join(' ')} }\n${THEME_RULES}`;
+}
+
+function addStyle(doc: Document, css: string, before?: Element | null) {
+    const style = doc.createElement('style');
+    style.textContent = css;
+    if (before) before.before(style);
+    else doc.head.append(style);
+}
+
+function addMeta(doc: Document) {
+    const viewport = doc.createElement('meta');
+    viewport.name = 'viewport';
+    viewport.content = 'width=device-width, initial-scale=1';
+    doc.head.prepend(viewport);
+    if (!doc.querySelector('meta[charset]')) {
+        const charset = doc.createElement('meta');
+        charset.setAttribute('charset', 'UTF-8');
+        doc.head.prepend(charset);
+    }
+}
+
+const serialize = (doc: Document) => `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+
+/** A note as a page of its own: anchored headings and blocks, links between pages, images inlined. */
+export async function renderPage(note: Note, notes: Note[], pageOf: PageLocator): Promise<RenderedPage> {
+    const html = await renderMarkdownToHTML(note.content, note.title || 'Untitled', { notes, noteId: note.id });
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    addMeta(doc);
+    anchorHeadings(doc);
+    anchorBlocks(doc);
+    linkNotes(doc, note, notes, pageOf);
+    return { doc, unembedded: await inlineImages(doc) };
+}
+
+/**
+ * Saves one note as a single HTML file that needs nothing else to display. Links to
+ * other notes cannot go anywhere from a lone file, so they are kept as plain text.
+ * Returns how many images could not be fetched and were left as links.
+ */
+export async function exportToHTML(note: Note, notes: Note[]): Promise<number> {
+    const { doc, unembedded } = await renderPage(note, notes, () => null);
+    if (doc.querySelector('.katex')) addStyle(doc, await loadKatexStyles(), doc.head.querySelector('style'));
+    addStyle(doc, themeStyles());
+    saveAs(new Blob([serialize(doc)], { type: 'text/html;charset=utf-8' }), `${note.title || 'untitled'}.html`);
+    return unembedded;
+}
+
+// flat file names from titles; a clash falls back to the id so links stay stable
+function pageFileNames(pages: Note[]): Map<NoteId, string> {
+    const files = new Map<NoteId, string>();
+    const taken = new Set([INDEX_PAGE]);
+    for (const note of pages) {
+        const slug = headingSlug(note.title || 'untitled').slice(0, 60);
+        let file = `${slug}.html`;
+        if (taken.has(file)) file = `${slug}-${note.id.slice(0, 8)}.html`;
+        if (taken.has(file)) file = `${slug}-${note.id}.html`;
+        taken.add(file);
+        files.set(note.id, file);
+    }
+    return files;
+}
+
+function linkStylesheet(doc: Document) {
+    const link = doc.createElement('link');
+    link.rel = 'stylesheet';
+    link.href = STYLESHEET;
+    doc.head.append(link);
+}
+
+function indexPage(title: string, pages: Note[], files: Map<NoteId, string>): Document {
+    const doc = document.implementation.createHTMLDocument(title);
+    addMeta(doc);
+    linkStylesheet(doc);
+    doc.body.className = 'site-index';
+    const heading = doc.createElement('h1');
+    heading.textContent = title;
+    doc.body.append(heading);
+
+    const byFolder = new Map<string, Note[]>();
+    for (const note of pages) byFolder.set(note.folder ?? '', [...(byFolder.get(note.folder ?? '') ?? []), note]);
+    for (const folder of [...byFolder.keys()].sort((a, b) => a.localeCompare(b))) {
+        if (folder) {
+            const h2 = doc.createElement('h2');
+            h2.textContent = folder;
+            doc.body.append(h2);
+        }
+        const list = doc.createElement('ul');
+        const notes = byFolder.get(folder)!.sort((a, b) => (a.title || 'Untitled').localeCompare(b.title || 'Untitled'));
+        for (const note of notes) {
+            const item = doc.createElement('li');
+            item.append(linkTo(doc, files.get(note.id)!, `${note.icon ? `${note.icon} ` : ''}${note.title || 'Untitled'}`));
+            list.append(item);
+        }
+        doc.body.append(list);
+    }
+    return doc;
+}
+
+/**
+ * Saves the notes in a folder (all notes when it is empty) as a static site in a ZIP:
+ * an index, one page per note and a stylesheet they share. Links to notes outside the
+ * folder are kept as plain text. Returns how many images were left as links.
+ */
+export async function exportToSite(notes: Note[], folder = ''): Promise<number> {
+    const pages = folder ? notes.filter(n => isWithinFolder(n.folder ?? '', folder)) : notes;
+    const files = pageFileNames(pages);
+    const pageOf: PageLocator = note => files.get(note.id) ?? null;
+    const zip = new JSZip();
+    let unembedded = 0;
+    let baseStyles = '';
+    let hasMath = false;
+
+    // one page at a time: mermaid cannot render two diagrams at once
+    for (const note of pages) {
+        const page = await renderPage(note, notes, pageOf);
+        unembedded += page.unembedded;
+        hasMath ||= page.doc.querySelector('.katex') !== null;
+        const style = page.doc.head.querySelector('style');
+        baseStyles ||= style?.textContent ?? '';
+        style?.remove();
+        linkStylesheet(page.doc);
+        const nav = page.doc.createElement('nav');
+        nav.className = 'site-nav';
+        nav.append(linkTo(page.doc, INDEX_PAGE, '← All notes'));
+        page.doc.body.prepend(nav);
+        zip.file(files.get(note.id)!, serialize(page.doc));
+    }
+
+    const title = folder || 'Notes';
+    zip.file(INDEX_PAGE, serialize(indexPage(title, pages, files)));
+    zip.file(STYLESHEET, [hasMath ? await loadKatexStyles() : '', baseStyles, themeStyles(), SITE_RULES].join('\n'));
+    const name = folder ? headingSlug(folder.replace(/\//g, ' ')) : 'yoro-site';
+    saveAs(await zip.generateAsync({ type: 'blob' }), `${name}-${new Date().toISOString().slice(0, 10)}.zip`);
+    return unembedded;
+}
@@ -0,0 +1,130 @@
+// Converts the HTML that note apps export (Notion's in particular) back into markdown.
+// Covers the usual blocks and inline styles; anything else contributes its text.
+
+const BLOCK_TAGS = new Set([
+    'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DETAILS', 'DIV', 'DL', 'FIGURE', 'FOOTER', 'H1', 'H2', 'H3',
+    'H4', 'H5', 'H6', 'HEADER', 'HR', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION', 'SUMMARY', 'TABLE', 'UL',
+]);
+
+const isBlock = (node: Node) => node instanceof Element && BLOCK_TAGS.has(node.tagName);
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ');
+
+// emphasis markers only hug text, so spaces inside the element move outside them
+function wrap(marker: string, text: string): string {
+    const inner = text.trim();
+    if (!inner) return text;
+    const lead = text.match(/^\s*/)?.[0] ?? '';
+    const trail = text.match(/\s*$/)?.[0] ?? '';
+    return `${lead}${marker}${inner}${marker}${trail}`;
+}
+
+function inline(node: Node): string {
+    if (node.nodeType === Node.TEXT_NODE) return collapse(node.textContent ?? '');
+    if (!(node instanceof Element)) return '';
+    const children = () => Array.from(node.childNodes).map(inline).join('');
+    switch (node.tagName) {
+        case 'STRONG': case 'B': return wrap('**', children());
+        case 'EM': case 'I': return wrap('*', children());
+        case 'DEL': case 'S': return wrap('~~', children());
+        case 'MARK': return wrap('==', children());
+        case 'CODE': return `\`${node.textContent ?? ''}\``;
+        case 'BR': return '\n';
+        case 'IMG': return `![${node.getAttribute('alt') ?? ''}](${node.getAttribute('src') ?? ''})`;
+        case 'A': {
+            const href = node.getAttribute('href');
+            const text = children().trim();
+            // a link around only an image is the image, as Notion wraps its figures
+            if (!href || text.startsWith('![')) return text;
+            return `[${text || href}](${href})`;
+        }
+        case 'INPUT': return '';
+        default: return children();
+    }
+}
+
+function listItems(list: Element, depth: number): string {
+    const ordered = list.tagName === 'OL';
+    return Array.from(list.children).filter(li => li.tagName === 'LI').map((li, i) => {
+        const indent = '    '.repeat(depth);
+        // to-do items: Notion marks them with a checkbox div, other exporters with an input
+        const box = li.querySelector(':scope > .checkbox, :scope > input[type=checkbox]');
+        const checked = box?.classList.contains('checkbox-on') || (box instanceof HTMLInputElement && box.checked);
+        const marker = box ? `- [${checked ? 'x' : ' '}] ` : ordered ? `${i + 1}. ` : '- ';
+        let text = '';
+        let nested = '';
+        for (const child of Array.from(li.childNodes)) {
+            if (child instanceof Element && (child.tagName === 'UL' || child.tagName === 'OL')) {
+                nested += listItems(child, depth + 1);
+            } else if (isBlock(child)) {
+                text += ` ${blocks(child as Element).trim()}`;
+            } else {
+                text += inline(child);
+            }
+        }
+        return `${indent}${marker}${text.trim().replace(/\n/g, `\n${indent}  `)}\n${nested}`;
+    }).join('');
+}
+
+const cell = (el: Element) => inline(el).trim().replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+
+function table(el: Element): string {
+    const rows = Array.from(el.querySelectorAll('tr')).map(tr => Array.from(tr.children).map(cell));
+    if (rows.length === 0) return '';
+    const width = Math.max(...rows.map(r => r.length));
+    const line = (r: string[]) => `| ${[...r, ...Array(width - r.length).fill('')].join(' | ')} |`;
+    return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+function block(el: Element): string {
+    switch (el.tagName) {
+        case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6':
+            return `${'#'.repeat(Number(el.tagName[1]))} ${inline(el).trim()}`;
+        case 'P': case 'SUMMARY':
+            return inline(el).trim();
+        case 'UL': case 'OL':
+            return listItems(el, 0).trimEnd();
+        case 'PRE': {
+            const code = el.querySelector('code');
+            const lang = code?.className.match(/language-([\w+-]+)/)?.[1] ?? '';
+            return `\`\`\`${lang}\n${(code ?? el).textContent?.replace(/\n$/, '') ?? ''}\n\`\`\``;
+        }
+        case 'BLOCKQUOTE':
+            return blocks(el).trim().split('\n').map(l => `> ${l}`.trimEnd()).join('\n');
+        case 'HR':
+            return '---';
+        case 'TABLE':
+            return table(el);
+        default:
+            return blocks(el).trim();
+    }
+}
+
+/** The children of an element as markdown blocks; loose inline runs become paragraphs. */
+function blocks(el: Element): string {
+    const out: string[] = [];
+    let run = '';
+    const flush = () => {
+        if (run.trim()) out.push(run.trim());
+        run = '';
+    };
+    for (const child of Array.from(el.childNodes)) {
+        if (isBlock(child)) {
+            flush();
+            const text = block(child as Element);
+            if (text) out.push(text);
+        } else {
+            run += inline(child);
+        }
+    }
+    flush();
+    return out.join('\n\n');
+}
+
+/** The page title and its body as markdown; Notion's title header and properties table are left out. */
+export function htmlToMarkdown(html: string): { title: string; markdown: string } {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const title = doc.querySelector('.page-title')?.textContent?.trim() || doc.title.trim();
+    const body = doc.querySelector('.page-body') ?? doc.body;
+    return { title, markdown: blocks(body).replace(/\n{3,}/g, '\n\n') };
+}
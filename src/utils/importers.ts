@@ -0,0 +1,359 @@
+import JSZip from 'jszip';
+import type { Note, NoteId } from '../types';
+import { getFrontmatterTags } from './properties';
+import { normalizeFolderPath, parentFolder } from './folders';
+import { normalizeTag } from './tags';
+import { parseWikilinkTarget } from './wikilinks';
+import { htmlToMarkdown } from './htmlToMarkdown';
+import { docxToMarkdown } from './docxToMarkdown';
+
+/** A file from an archive or a picked folder, by its path inside it. */
+export interface ImportFile {
+    path: string;
+    text: () => Promise<string>;
+    base64: () => Promise<string>;
+}
+
+/** What an import would do, shown before anything is added. */
+export interface ImportReport {
+    source: 'obsidian' | 'notion' | 'docx';
+    folders: string[];
+    /** images inlined into notes */
+    attachments: number;
+    linksRewritten: number;
+    /** CSV databases turned into table notes */
+    tables: number;
+    /** links and embeds whose target isn't in the import, as "Note → target" */
+    unresolved: string[];
+    /** files that aren't notes, images or databases */
+    skipped: string[];
+}
+
+export interface ImportPlan {
+    notes: Note[];
+    report: ImportReport;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    bmp: 'image/bmp',
+};
+
+const extension = (path: string) => path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+const stripExtension = (name: string) => name.replace(/\.[^./]+$/, '');
+const isImage = (path: string) => extension(path) in IMAGE_TYPES;
+
+export function filesFromZip(zip: JSZip): ImportFile[] {
+    return Object.values(zip.files).filter(entry => !entry.dir).map(entry => ({
+        path: entry.name,
+        text: () => entry.async('string'),
+        base64: () => entry.async('base64'),
+    }));
+}
+
+/** Files from a folder picked with webkitdirectory, by their path inside it. */
+export function filesFromFileList(files: File[]): ImportFile[] {
+    return files.map(file => ({
+        path: file.webkitRelativePath || file.name,
+        text: () => file.text(),
+        base64: async () => {
+            const bytes = new Uint8Array(await file.arrayBuffer());
+            let binary = '';
+            for (let i = 0; i < bytes.length; i += 0x8000) {
+                binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+            }
+            return btoa(binary);
+        },
+    }));
+}
+
+// a vault zipped or picked as a whole arrives inside one top-level directory
+function withoutCommonRoot(files: ImportFile[]): ImportFile[] {
+    const roots = new Set(files.map(f => f.path.includes('/') ? f.path.split('/')[0] : ''));
+    if (roots.size !== 1 || roots.has('')) return files;
+    const cut = [...roots][0].length + 1;
+    return files.map(f => ({ ...f, path: f.path.slice(cut) }));
+}
+
+function createNote(title: string, content: string, folder: string, now: number): Note {
+    const tags = (getFrontmatterTags(content) ?? []).map(normalizeTag).filter(Boolean);
+    return {
+        id: crypto.randomUUID(),
+        title,
+        content,
+        format: 'markdown',
+        tags: [...new Set(tags)],
+        ...(folder ? { folder } : {}),
+        createdAt: now,
+        updatedAt: now,
+        isFavorite: false,
+    };
+}
+
+// rewrites prose only; fenced code blocks are the odd-numbered parts
+const outsideCode = (content: string, rewrite: (prose: string) => string) =>
+    content.split(/(^```[\s\S]*?^```)/m).map((part, i) => i % 2 === 1 ? part : rewrite(part)).join('');
+
+// inlines each image once per import, however many notes use it
+function imageLoader(files: Map<string, ImportFile>) {
+    const cache = new Map<string, Promise<string>>();
+    return (path: string) => {
+        if (!cache.has(path)) {
+            const file = files.get(path)!;
+            cache.set(path, file.base64().then(data => `data:${IMAGE_TYPES[extension(path)]};base64,${data}`));
+        }
+        return cache.get(path)!;
+    };
+}
+
+async function replaceAsync(text: string, re: RegExp, replace: (...match: string[]) => Promise<string>): Promise<string> {
+    const pending: Promise<string>[] = [];
+    text.replace(re, (...match: string[]) => {
+        pending.push(replace(...match));
+        return '';
+    });
+    const results = await Promise.all(pending);
+    return text.replace(re, () => results.shift()!);
+}
+
+function decodePath(path: string): string {
+    try {
+        return decodeURIComponent(path);
+    } catch {
+        return path;
+    }
+}
+
+/** A link target relative to the file it's in, as a path from the import root. */
+function resolveRelative(from: string, target: string): string {
+    const parts = parentFolder(from).split('/').filter(Boolean);
+    for (const segment of decodePath(target).split(/[?#]/)[0].split('/')) {
+        if (segment === '..') parts.pop();
+        else if (segment && segment !== '.') parts.push(segment);
+    }
+    return parts.join('/');
+}
+
+const isExternal = (target: string) => /^([a-z][\w+.-]*:|#)/i.test(target);
+
+/**
+ * An Obsidian vault: folders map to folders, frontmatter tags to tags, and ![[image]]
+ * embeds are inlined. Wikilinks written as paths become plain [[Title]] links.
+ * .obsidian, .trash and other dot folders are left out.
+ */
+export async function planObsidianImport(input: ImportFile[]): Promise<ImportPlan> {
+    const files = withoutCommonRoot(input).filter(f => !f.path.split('/').some(s => s.startsWith('.')));
+    const report: ImportReport = { source: 'obsidian', folders: [], attachments: 0, linksRewritten: 0, tables: 0, unresolved: [], skipped: [] };
+    const byPath = new Map(files.map(f => [f.path, f]));
+    // Obsidian finds an attachment by name anywhere in the vault, nearest the root first
+    const byName = new Map<string, string>();
+    for (const f of [...files].sort((a, b) => a.path.split('/').length - b.path.split('/').length)) {
+        const key = baseName(f.path).toLowerCase();
+        if (!byName.has(key)) byName.set(key, f.path);
+    }
+    const titles = new Set(files.filter(f => extension(f.path) === 'md').map(f => stripExtension(baseName(f.path)).toLowerCase()));
+    const loadImage = imageLoader(byPath);
+    const inlined = new Set<string>();
+    const now = Date.now();
+
+    const findFile = (from: string, target: string) => {
+        const path = decodePath(target);
+        if (byPath.has(path)) return path;
+        const relative = resolveRelative(from, target);
+        if (byPath.has(relative)) return relative;
+        return byName.get(baseName(path).toLowerCase());
+    };
+
+    const notes: Note[] = [];
+    for (const file of files) {
+        if (extension(file.path) !== 'md') {
+            if (!isImage(file.path)) report.skipped.push(file.path);
+            continue;
+        }
+        const title = stripExtension(baseName(file.path));
+        const unresolved = (target: string) => report.unresolved.push(`${title} → ${target}`);
+        const content = await replaceAsync(outsideCode(await file.text(), prose => prose
+            // [[folder/Note#Heading|alias]] → [[Note#Heading|alias]]; image embeds are handled below
+            .replace(/(!?)\[\[([^\]\n]+)\]\]/g, (link, bang: string, inner: string) => {
+                const target = parseWikilinkTarget(inner);
+                if (bang && isImage(target.title)) return link;
+                const name = baseName(target.title).replace(/\.md$/i, '');
+                if (target.title && !titles.has(name.toLowerCase())) unresolved(target.title);
+                if (name === target.title) return link;
+                report.linksRewritten++;
+                return `${bang}[[${name}${inner.slice(target.title.length + inner.indexOf(target.title))}]]`;
+            })
+        ), /!\[\[([^\]\n]+)\]\]|!\[([^\]\n]*)\]\(([^)\s]+)\)/g, async (match, embed, alt, src) => {
+            // ![[image.png|300]] and ![alt](relative/image.png) become inline images
+            const [target, size] = embed !== undefined ? embed.split('|') : [src, undefined];
+            if (embed !== undefined ? !isImage(target) : isExternal(src) || !isImage(src)) return match;
+            const path = findFile(file.path, target);
+            if (!path) {
+                unresolved(target);
+                return match;
+            }
+            inlined.add(path);
+            const label = embed !== undefined ? stripExtension(baseName(target)) : alt;
+            return `![${label}${size && /^\d+/.test(size) ? `|${parseInt(size)}` : ''}](${await loadImage(path)})`;
+        });
+        notes.push(createNote(title, content, normalizeFolderPath(parentFolder(file.path)), now));
+    }
+
+    report.attachments = inlined.size;
+    report.folders = [...new Set(notes.map(n => n.folder).filter((f): f is string => !!f))].sort();
+    return { notes, report };
+}
+
+// Notion appends a 32-character hex id to every exported page, folder and database
+const NOTION_ID_RE = /\s+[0-9a-f]{32}(?=(\.[^./]+)?$)|\s+[0-9a-f]{32}(?=_all\.csv$)/i;
+const stripNotionId = (name: string) => name.replace(NOTION_ID_RE, '');
+const cleanNotionPath = (path: string) => path.split('/').map(stripNotionId).join('/');
+
+// quoted fields may hold commas, quotes ("") and line breaks
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (c === '"') quoted = false;
+            else field += c;
+        } else if (c === '"') quoted = true;
+        else if (c === ',') { row.push(field); field = ''; }
+        else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else field += c;
+    }
+    if (field || row.length > 0) rows.push([...row, field]);
+    return rows.filter(r => r.some(Boolean));
+}
+
+const tableCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>').trim();
+
+/**
+ * A Notion export, Markdown or HTML: ids are stripped from names, links between pages become
+ * /note/ links, images are inlined and each CSV database becomes a note holding its table.
+ */
+export async function planNotionImport(input: ImportFile[]): Promise<ImportPlan> {
+    const files = withoutCommonRoot(input);
+    const report: ImportReport = { source: 'notion', folders: [], attachments: 0, linksRewritten: 0, tables: 0, unresolved: [], skipped: [] };
+    const byPath = new Map(files.map(f => [f.path, f]));
+    const loadImage = imageLoader(byPath);
+    const inlined = new Set<string>();
+    const now = Date.now();
+
+    // databases come as X.csv and X_all.csv (every row, not just the current view); keep one
+    const csvs = files.filter(f => extension(f.path) === 'csv'
+        && !(byPath.has(f.path.replace(/\.csv$/i, '_all.csv'))));
+    const pages = files.filter(f => ['md', 'html'].includes(extension(f.path)));
+    for (const f of files) {
+        if (!isImage(f.path) && !pages.includes(f) && extension(f.path) !== 'csv') report.skipped.push(f.path);
+    }
+
+    // every page and database gets its id up front so links can point at notes not yet made
+    const ids = new Map<string, NoteId>([...pages, ...csvs].map(f => [f.path, crypto.randomUUID()]));
+    const idFor = (path: string) => ids.get(path) ?? ids.get(path.replace(/\.csv$/i, '_all.csv'));
+    const noteTitle = (path: string) => stripExtension(stripNotionId(baseName(path)).replace(/_all(?=\.csv$)/i, ''));
+    const noteFolder = (path: string) => normalizeFolderPath(cleanNotionPath(parentFolder(path)));
+
+    const convertLinks = async (from: string, title: string, markdown: string) => {
+        const unresolved = (target: string) => report.unresolved.push(`${title} → ${decodePath(target)}`);
+        const linked = outsideCode(markdown, prose => prose.replace(/(?<!!)\[([^\]\n]*)\]\(([^)\s]+)\)/g, (link, text: string, href: string) => {
+            if (isExternal(href)) return link;
+            const path = resolveRelative(from, href);
+            const id = idFor(path);
+            if (id) {
+                report.linksRewritten++;
+                return `[${text}](/note/${id})`;
+            }
+            if (!isImage(path)) unresolved(href);
+            return link;
+        }));
+        return replaceAsync(linked, /!\[([^\]\n]*)\]\(([^)\s]+)\)/g, async (match, alt, src) => {
+            if (isExternal(src)) return match;
+            const path = resolveRelative(from, src);
+            if (!byPath.has(path) || !isImage(path)) {
+                unresolved(src);
+                return match;
+            }
+            inlined.add(path);
+            return `![${alt}](${await loadImage(path)})`;
+        });
+    };
+
+    const notes: Note[] = [];
+    for (const file of pages) {
+        let title = noteTitle(file.path);
+        let markdown: string;
+        if (extension(file.path) === 'html') {
+            const page = htmlToMarkdown(await file.text());
+            title = page.title || title;
+            markdown = page.markdown;
+        } else {
+            // the export repeats the title as the first heading
+            markdown = (await file.text()).replace(/^\s*# .*(\r?\n)+/, '');
+        }
+        const note = createNote(title, await convertLinks(file.path, title, markdown), noteFolder(file.path), now);
+        notes.push({ ...note, id: idFor(file.path)! });
+    }
+
+    for (const file of csvs) {
+        const title = noteTitle(file.path);
+        const [header, ...rows] = parseCsv((await file.text()).replace(/^\uFEFF/, ''));
+        if (!header) continue;
+        // row pages sit in a folder named after the database; the first column names them
+        const rowFolder = normalizeFolderPath(`${noteFolder(file.path)}/${title}`);
+        const rowNote = (name: string) => notes.find(n => (n.folder ?? '') === rowFolder && n.title === name);
+        const line = (cells: string[]) => `| ${header.map((_, i) => tableCell(cells[i] ?? '')).join(' | ')} |`;
+        const table = [
+            line(header),
+            `| ${header.map(() => '---').join(' | ')} |`,
+            ...rows.map(cells => {
+                const page = rowNote(cells[0]?.trim() ?? '');
+                if (page) report.linksRewritten++;
+                return line(page ? [`[${cells[0].trim()}](/note/${page.id})`, ...cells.slice(1)] : cells);
+            }),
+        ].join('\n');
+        notes.push({ ...createNote(title, `${table}\n`, noteFolder(file.path), now), id: idFor(file.path)! });
+        report.tables++;
+    }
+
+    report.attachments = inlined.size;
+    report.folders = [...new Set(notes.map(n => n.folder).filter((f): f is string => !!f))].sort();
+    return { notes, report };
+}
+
+/** Word documents, one note each; a document that can't be read is reported as skipped. */
+export async function planDocxImport(files: ImportFile[]): Promise<ImportPlan> {
+    const report: ImportReport = { source: 'docx', folders: [], attachments: 0, linksRewritten: 0, tables: 0, unresolved: [], skipped: [] };
+    const now = Date.now();
+    const notes: Note[] = [];
+    for (const file of files) {
+        if (extension(file.path) !== 'docx') {
+            report.skipped.push(file.path);
+            continue;
+        }
+        try {
+            const doc = await docxToMarkdown(await JSZip.loadAsync(await file.base64(), { base64: true }));
+            notes.push(createNote(doc.title || stripExtension(baseName(file.path)), doc.markdown, '', now));
+            report.attachments += doc.images;
+        } catch (error) {
+            console.error(`Failed to read ${file.path}:`, error);
+            report.skipped.push(file.path);
+        }
+    }
+    return { notes, report };
+}
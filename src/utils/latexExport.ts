@@ -0,0 +1,324 @@
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { Marked, type Tokens, type TokenizerAndRendererExtension } from 'marked';
+import type { Note, NoteId } from '../types';
+import { queryToMarkdown } from './exportUtils';
+import { parseFrontmatter, splitFrontmatter } from './frontmatter';
+import { headingSlug } from './htmlExport';
+import { expandQueries } from './query';
+import { expandEmbeds } from './transclusion';
+import { findNoteByTitle, parseWikilinkTarget, type WikilinkTarget } from './wikilinks';
+
+/*
+ * LaTeX export. Markdown is parsed with its own marked instance whose renderer writes
+ * LaTeX: headings become sections, $...$ stays native math, tables become tabular,
+ * [^1] footnotes become \footnote and > [!kind] callouts become one environment per
+ * kind, defined in the preamble so they can be restyled there.
+ *
+ * One note exports as an article; several become a report with a chapter per note.
+ * Images inlined in notes are written beside the .tex file, which then comes as a ZIP.
+ */
+
+// heading depth 1..6 → sectioning command; notes themselves are chapters in a report
+const SECTIONS = ['section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph', 'subparagraph'];
+
+const LATEX_ESCAPES: Record<string, string> = {
+    '\\': '\\textbackslash{}', '{': '\\{', '}': '\\}', '$': '\\$', '&': '\\&',
+    '#': '\\#', '^': '\\textasciicircum{}', '_': '\\_', '%': '\\%', '~': '\\textasciitilde{}',
+};
+
+// formats \includegraphics reads under pdflatex; other images are written but only referenced
+const GRAPHICS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'application/pdf': 'pdf' };
+const OTHER_IMAGES: Record<string, string> = { 'image/gif': 'gif', 'image/webp': 'webp', 'image/svg+xml': 'svg' };
+
+const DATA_URI_RE = /^data:([\w.+-]+\/[\w.+-]+);base64,(.*)$/;
+
+const escapeLatex = (text: string) => text.replace(/[\\{}$&#^_%~]/g, c => LATEX_ESCAPES[c]);
+
+// \href takes the URL almost verbatim; only these would break the argument
+const escapeUrl = (url: string) => url.replace(/[\\{}#%]/g, c => `\\${c}`);
+
+// label keys stay ASCII so they survive pdflatex
+const labelKey = (text: string) => text.replace(/[^A-Za-z0-9-]/g, '');
+
+export interface LatexDocument {
+    tex: string;
+    /** image files the document includes, by path relative to the .tex file */
+    images: Map<string, string>;
+}
+
+interface NoteContext {
+    index: number;
+    note: Note;
+}
+
+interface Callout extends Tokens.Generic {
+    kind: string;
+    titleTokens: Tokens.Generic[];
+    tokens: Tokens.Generic[];
+}
+
+const calloutEnvironment = (kind: string) => `callout${kind.toLowerCase().replace(/[^a-z]/g, '')}`;
+
+const calloutLabel = (kind: string) => kind.charAt(0).toUpperCase() + kind.slice(1).toLowerCase();
+
+/**
+ * Converts notes, in order, into a LaTeX document. Links between them become \hyperref
+ * cross-references; links to notes outside the set are kept as their text.
+ */
+export function notesToLatex(pages: Note[], notes: Note[], title: string): LatexDocument {
+    const images = new Map<string, string>();
+    const imageFiles = new Map<string, string>();
+    const callouts = new Set<string>();
+    const indexOf = new Map<NoteId, number>(pages.map((n, i) => [n.id, i]));
+    const asReport = pages.length > 1;
+    let current: NoteContext = { index: 0, note: pages[0] };
+    let footnotes = new Map<string, Tokens.Generic[]>();
+
+    const noteLabel = (index: number) => `note:${index}`;
+    const anchorLabel = (index: number, target: Pick<WikilinkTarget, 'heading' | 'blockId'>) =>
+        target.blockId ? `${index}:block-${labelKey(target.blockId)}` : `${index}:${labelKey(headingSlug(target.heading ?? ''))}`;
+
+    // the label a link to this note (and anchor) jumps to, or null when it is not exported
+    const labelFor = (linked: Note | undefined, target: Pick<WikilinkTarget, 'heading' | 'blockId'>): string | null => {
+        const index = linked ? indexOf.get(linked.id) : undefined;
+        if (index === undefined) return null;
+        if (target.heading || target.blockId) return anchorLabel(index, target);
+        return asReport ? noteLabel(index) : null;
+    };
+    const reference = (label: string | null, text: string) => label ? `\\hyperref[${label}]{${text}}` : text;
+
+    function image(href: string, alt: string): string {
+        const data = href.match(DATA_URI_RE);
+        if (!data) return `\\href{${escapeUrl(href)}}{${escapeLatex(alt || href)}}`;
+        const [, mimeType, base64] = data;
+        const extension = GRAPHICS[mimeType] ?? OTHER_IMAGES[mimeType];
+        if (!extension) return escapeLatex(alt);
+        let file = imageFiles.get(href);
+        if (!file) {
+            file = `images/image-${imageFiles.size + 1}.${extension}`;
+            imageFiles.set(href, file);
+            images.set(file, base64);
+        }
+        if (!GRAPHICS[mimeType]) return `\\textit{[${escapeLatex(alt || 'image')}: ${file}]}`;
+        return `\\includegraphics[width=\\linewidth,height=0.8\\textheight,keepaspectratio]{${file}}`;
+    }
+
+    const extensions: TokenizerAndRendererExtension[] = [
+        {
+            name: 'blockMath',
+            level: 'block',
+            start: src => src.indexOf('$$'),
+            tokenizer(src) {
+                const match = src.match(/^\$\$([^$]+)\$\$[^\S\n]*(?:\n|$)/);
+                if (match) return { type: 'blockMath', raw: match[0], text: match[1].trim() };
+            },
+            renderer: token => `\\[\n${token.text}\n\\]\n\n`,
+        },
+        {
+            name: 'inlineMath',
+            level: 'inline',
+            start: src => src.indexOf('$'),
+            tokenizer(src) {
+                const display = src.match(/^\$\$([^$]+)\$\$/);
+                if (display) return { type: 'inlineMath', raw: display[0], text: display[1].trim(), display: true };
+                const match = src.match(/^\$([^$\n]+)\$/);
+                if (match) return { type: 'inlineMath', raw: match[0], text: match[1].trim(), display: false };
+            },
+            renderer: token => token.display ? `\\[ ${token.text} \\]` : `$${token.text}$`,
+        },
+        {
+            name: 'footnoteDefinition',
+            level: 'block',
+            start: src => src.match(/^\[\^/m)?.index,
+            tokenizer(src) {
+                const match = src.match(/^\[\^([^\]\s]+)\]:[ \t]*([^\n]*(?:\n(?: {2,}|\t)[^\n]*)*)(?:\n|$)/);
+                if (!match) return;
+                const token = { type: 'footnoteDefinition', raw: match[0], id: match[1], tokens: [] as Tokens.Generic[] };
+                this.lexer.inline(match[2].replace(/\n\s+/g, ' '), token.tokens);
+                return token;
+            },
+            // collected before rendering; the text goes where the reference is
+            renderer: () => '',
+        },
+        {
+            name: 'footnoteReference',
+            level: 'inline',
+            start: src => src.indexOf('[^'),
+            tokenizer(src) {
+                const match = src.match(/^\[\^([^\]\s]+)\]/);
+                if (match) return { type: 'footnoteReference', raw: match[0], id: match[1] };
+            },
+            renderer(token) {
+                const definition = footnotes.get(token.id);
+                return definition ? `\\footnote{${this.parser.parseInline(definition)}}` : escapeLatex(token.raw);
+            },
+        },
+        {
+            name: 'callout',
+            level: 'block',
+            start: src => src.match(/^ {0,3}>[ \t]*\[!/m)?.index,
+            tokenizer(src) {
+                const match = src.match(/^ {0,3}>[ \t]*\[!(\w+)\][+-]?[ \t]*([^\n]*)((?:\n {0,3}>[^\n]*)*)/);
+                if (!match) return;
+                const token: Callout = { type: 'callout', raw: match[0], kind: match[1], titleTokens: [], tokens: [] };
+                this.lexer.inline(match[2].trim() || calloutLabel(match[1]), token.titleTokens);
+                this.lexer.blockTokens(match[3].split('\n').map(line => line.replace(/^ {0,3}> ?/, '')).join('\n').trim(), token.tokens);
+                return token;
+            },
+            renderer(token) {
+                const { kind, titleTokens, tokens } = token as Callout;
+                callouts.add(kind.toLowerCase());
+                const environment = calloutEnvironment(kind);
+                return `\\begin{${environment}}{${this.parser.parseInline(titleTokens)}}\n${this.parser.parse(tokens).trim()}\n\\end{${environment}}\n\n`;
+            },
+            childTokens: ['titleTokens', 'tokens'],
+        },
+        {
+            name: 'wikilink',
+            level: 'inline',
+            start: src => src.indexOf('[['),
+            tokenizer(src) {
+                const match = src.match(/^\[\[([^\]]+)\]\]/);
+                if (match) return { type: 'wikilink', raw: match[0], target: parseWikilinkTarget(match[1]) };
+            },
+            renderer(token) {
+                const target = token.target as WikilinkTarget;
+                const text = escapeLatex(target.alias || [target.title, target.heading].filter(Boolean).join(' › ') || token.raw);
+                const linked = target.title ? findNoteByTitle(notes, target.title) : current.note;
+                return reference(labelFor(linked, target), text);
+            },
+        },
+        {
+            name: 'blockAnchor',
+            level: 'inline',
+            start: src => src.search(/\s\^[A-Za-z0-9-]+\s*(?:\n|$)/),
+            tokenizer(src) {
+                const match = src.match(/^\s\^([A-Za-z0-9-]+)[^\S\n]*(?=\n|$)/);
+                if (match) return { type: 'blockAnchor', raw: match[0], id: match[1] };
+            },
+            renderer: token => `\\label{${anchorLabel(current.index, { blockId: token.id })}}`,
+        },
+    ];
+
+    const marked = new Marked({
+        gfm: true,
+        extensions,
+        renderer: {
+            space: () => '',
+            code: ({ text }) => `\\begin{verbatim}\n${text}\n\\end{verbatim}\n\n`,
+            blockquote({ tokens }) {
+                return `\\begin{quote}\n${this.parser.parse(tokens).trim()}\n\\end{quote}\n\n`;
+            },
+            html: ({ text }) => escapeLatex(text.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '')),
+            heading({ tokens, depth, text }) {
+                const label = `${current.index}:${labelKey(headingSlug(text))}`;
+                return `\\${SECTIONS[depth - 1]}{${this.parser.parseInline(tokens)}}\\label{${label}}\n\n`;
+            },
+            hr: () => '\\par\\noindent\\rule{\\linewidth}{0.4pt}\n\n',
+            // on a line of its own, also when nested straight after an item's text
+            list(token) {
+                const environment = token.ordered ? 'enumerate' : 'itemize';
+                const start = token.ordered && token.start !== '' && token.start !== 1 ? `\\setcounter{enumi}{${Number(token.start) - 1}}\n` : '';
+                return `\n\\begin{${environment}}\n${start}${token.items.map(item => this.listitem(item)).join('')}\\end{${environment}}\n\n`;
+            },
+            listitem(item) {
+                const box = item.task ? (item.checked ? '[$\\boxtimes$]' : '[$\\square$]') : '';
+                return `\\item${box} ${this.parser.parse(item.tokens).trim()}\n`;
+            },
+            checkbox: () => '',
+            paragraph({ tokens }) {
+                return `${this.parser.parseInline(tokens)}\n\n`;
+            },
+            table(token) {
+                const columns = token.align.map(a => a === 'center' ? 'c' : a === 'right' ? 'r' : 'l').join('|');
+                const row = (cells: Tokens.TableCell[], bold = false) => cells
+                    .map(c => bold ? `\\textbf{${this.parser.parseInline(c.tokens)}}` : this.parser.parseInline(c.tokens))
+                    .join(' & ');
+                const rows = [row(token.header, true), ...token.rows.map(r => row(r))].map(r => `${r} \\\\\n\\hline\n`).join('');
+                return `\\begin{center}\n\\begin{tabular}{|${columns}|}\n\\hline\n${rows}\\end{tabular}\n\\end{center}\n\n`;
+            },
+            strong({ tokens }) {
+                return `\\textbf{${this.parser.parseInline(tokens)}}`;
+            },
+            em({ tokens }) {
+                return `\\emph{${this.parser.parseInline(tokens)}}`;
+            },
+            codespan: ({ text }) => `\\texttt{${escapeLatex(text)}}`,
+            br: () => '\\\\\n',
+            del({ tokens }) {
+                return `\\sout{${this.parser.parseInline(tokens)}}`;
+            },
+            link({ href, tokens }) {
+                const text = this.parser.parseInline(tokens);
+                if (href.startsWith('/note/')) {
+                    const [id, hash] = href.slice('/note/'.length).split('#');
+                    return reference(labelFor(notes.find(n => n.id === id), { heading: hash }), text);
+                }
+                if (href.startsWith('#')) return reference(anchorLabel(current.index, { heading: href.slice(1) }), text);
+                return `\\href{${escapeUrl(href)}}{${text}}`;
+            },
+            image: ({ href, text }) => image(href, text),
+            text(token) {
+                if ('tokens' in token && token.tokens) return this.parser.parseInline(token.tokens);
+                return 'escaped' in token && token.escaped ? token.text : escapeLatex(token.text);
+            },
+        },
+    });
+
+    const body = pages.map((note, index) => {
+        current = { index, note };
+        let content = expandEmbeds(splitFrontmatter(note.content).body, { notes, noteId: note.id });
+        content = expandQueries(content, notes, queryToMarkdown);
+        const tokens = marked.lexer(content);
+        footnotes = new Map();
+        marked.walkTokens(tokens, token => {
+            if (token.type === 'footnoteDefinition') footnotes.set(token.id, token.tokens ?? []);
+        });
+        const chapter = asReport ? `\\chapter{${escapeLatex(note.title || 'Untitled')}}\\label{${noteLabel(index)}}\n\n` : '';
+        return `${chapter}${marked.parser(tokens).trim()}\n`;
+    }).join('\n');
+
+    const author = parseFrontmatter(pages[0]?.content ?? '').author;
+    const environments = [...callouts].sort().map(kind =>
+        `\\newenvironment{${calloutEnvironment(kind)}}[1]{\\begin{quote}\\textbf{#1}\\par}{\\end{quote}}`);
+
+    const tex = [
+        `\\documentclass{${asReport ? 'report' : 'article'}}`,
+        '\\usepackage[utf8]{inputenc}',
+        '\\usepackage[T1]{fontenc}',
+        '\\usepackage{amsmath,amssymb}',
+        '\\usepackage{graphicx}',
+        '\\usepackage[normalem]{ulem}',
+        '\\usepackage{hyperref}',
+        ...(environments.length > 0 ? ['', '% callouts; restyle them here', ...environments] : []),
+        '',
+        `\\title{${escapeLatex(title)}}`,
+        `\\author{${escapeLatex(Array.isArray(author) ? author.join(', ') : author ?? '')}}`,
+        '',
+        '\\begin{document}',
+        '\\maketitle',
+        ...(asReport ? ['\\tableofcontents'] : []),
+        '',
+        body.trimEnd(),
+        '',
+        '\\end{document}',
+        '',
+    ].join('\n');
+
+    return { tex, images };
+}
+
+/** Saves notes as LaTeX: a .tex file, or a ZIP of it and its images when there are any. */
+export async function exportToLaTeX(pages: Note[], notes: Note[], title: string): Promise<void> {
+    const { tex, images } = notesToLatex(pages, notes, title);
+    const name = headingSlug(title);
+    if (images.size === 0) {
+        saveAs(new Blob([tex], { type: 'application/x-tex;charset=utf-8' }), `${name}.tex`);
+        return;
+    }
+    const zip = new JSZip();
+    zip.file(`${name}.tex`, tex);
+    for (const [file, base64] of images) zip.file(file, base64, { base64: true });
+    saveAs(await zip.generateAsync({ type: 'blob' }), `${name}.zip`);
+}
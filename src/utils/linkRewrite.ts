@@ -0,0 +1,103 @@
+import type { Note, NoteId } from '../types';
+import { isTrashed } from './trash';
+
+export interface ReferenceRewrite {
+    content: string;
+    /** number of links and mentions that were rewritten */
+    count: number;
+}
+
+export interface AffectedNote {
+    id: NoteId;
+    title: string;
+    count: number;
+}
+
+const WIKILINK_RE = /\[\[([^\]|#^]+)((?:[#^][^\]|]*)?)((?:\|[^\]]*)?)\]\]/g;
+// a bare mention ends before trailing punctuation, so "see @Foo." mentions Foo; shared with the backlinks panel
+export const MENTION_RE = /@(?:"([^"]+)"|(\S*[^\s.,;:!?)\]]))/g;
+
+const sameTitle = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function formatMention(title: string): string {
+    return /[\s"]/.test(title) ? `@"${title.replace(/"/g, '')}"` : `@${title}`;
+}
+
+/**
+ * Rewrites references to a renamed note in one note's content:
+ * `[[Old]]` (keeping `#heading`, `^block` and `|alias`), `@Old` / `@"Old"` mentions,
+ * and the label of `[Old](/note/id)` links. Fenced code blocks are left alone.
+ * When `byTitle` is false only the id-based link labels are touched.
+ */
+export function rewriteReferences(
+    content: string,
+    targetId: NoteId,
+    oldTitle: string,
+    newTitle: string,
+    byTitle = true
+): ReferenceRewrite {
+    const idLinkRe = new RegExp(`\\[([^\\]]*)\\]\\(/note/${escapeRegExp(targetId)}\\)`, 'g');
+    let count = 0;
+    let inFence = false;
+
+    const lines = content.split('\n').map(line => {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            return line;
+        }
+        if (inFence) return line;
+
+        let out = line.replace(idLinkRe, (match, label: string) => {
+            if (!sameTitle(label, oldTitle)) return match;
+            count++;
+            return `[${newTitle}](/note/${targetId})`;
+        });
+        if (!byTitle) return out;
+
+        out = out.replace(WIKILINK_RE, (match, title: string, anchor: string, alias: string) => {
+            if (!sameTitle(title, oldTitle)) return match;
+            count++;
+            return `[[${newTitle}${anchor}${alias}]]`;
+        });
+        out = out.replace(MENTION_RE, (match, quoted?: string, bare?: string) => {
+            if (!sameTitle(quoted ?? bare ?? '', oldTitle)) return match;
+            count++;
+            return formatMention(newTitle);
+        });
+        return out;
+    });
+
+    return { content: lines.join('\n'), count };
+}
+
+const isTitleTaken = (notes: Note[], targetId: NoteId, title: string) =>
+    notes.some(n => n.id !== targetId && !isTrashed(n) && sameTitle(n.title, title));
+
+/**
+ * Lists the notes that reference `targetId` under its old title. Title-based
+ * references are skipped when another note still carries the old title, since
+ * they may point at that note instead.
+ */
+export function findAffectedNotes(notes: Note[], targetId: NoteId, oldTitle: string, newTitle: string): AffectedNote[] {
+    if (!oldTitle.trim() || !newTitle.trim() || sameTitle(oldTitle, newTitle)) return [];
+    const byTitle = !isTitleTaken(notes, targetId, oldTitle);
+    const affected: AffectedNote[] = [];
+    for (const note of notes) {
+        if (note.format !== 'markdown' || isTrashed(note)) continue;
+        const { count } = rewriteReferences(note.content, targetId, oldTitle, newTitle, byTitle);
+        if (count > 0) affected.push({ id: note.id, title: note.title, count });
+    }
+    return affected;
+}
+
+/** Applies the rewrite to every note outside the trash; untouched notes keep their identity. */
+export function rewriteAllReferences(notes: Note[], targetId: NoteId, oldTitle: string, newTitle: string, now: number): Note[] {
+    const byTitle = !isTitleTaken(notes, targetId, oldTitle);
+    return notes.map(note => {
+        if (note.format !== 'markdown' || isTrashed(note)) return note;
+        const { content, count } = rewriteReferences(note.content, targetId, oldTitle, newTitle, byTitle);
+        return count > 0 ? { ...note, content, updatedAt: now } : note;
+    });
+}
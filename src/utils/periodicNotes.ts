@@ -0,0 +1,136 @@
+import type { Note } from '../types';
+import { isTrashed } from './trash';
+import { toDateKey } from './views';
+import { periodicTemplates } from './templates';
+import { getFrontmatterTags } from './properties';
+
+export type PeriodType = 'daily' | 'weekly' | 'monthly';
+
+export const PERIOD_TYPES: PeriodType[] = ['daily', 'weekly', 'monthly'];
+
+export const PERIOD_LABELS: Record<PeriodType, string> = { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly' };
+
+const DAILY_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const WEEKLY_RE = /^(\d{4})-W(\d{2})$/;
+const MONTHLY_RE = /^(\d{4})-(\d{2})$/;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** ISO 8601 week: weeks start on Monday and week 1 holds the year's first Thursday. */
+export function isoWeek(date: Date): { year: number; week: number } {
+    const day = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+    // move to the Thursday of the same week; its year is the week's year
+    day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7));
+    const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+    return { year: day.getUTCFullYear(), week: Math.ceil(((day.getTime() - yearStart) / 86_400_000 + 1) / 7) };
+}
+
+/** First day of the period a date falls in: the day itself, the Monday of its week, or the 1st. */
+export function periodStart(type: PeriodType, date: Date): Date {
+    if (type === 'weekly') return new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+    if (type === 'monthly') return new Date(date.getFullYear(), date.getMonth(), 1);
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/** Note title for a period: 2026-10-19, 2026-W43 or 2026-10. */
+export function periodTitle(type: PeriodType, date: Date): string {
+    if (type === 'weekly') {
+        const { year, week } = isoWeek(date);
+        return `${year}-W${pad(week)}`;
+    }
+    if (type === 'monthly') return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+    return toDateKey(date);
+}
+
+/** The period a note title names, with the date it starts on; null for other titles. */
+export function parsePeriodTitle(title: string): { type: PeriodType; date: Date } | null {
+    const trimmed = title.trim();
+    let m = trimmed.match(DAILY_RE);
+    if (m) {
+        const date = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+        return toDateKey(date) === trimmed ? { type: 'daily', date } : null;
+    }
+    m = trimmed.match(WEEKLY_RE);
+    if (m) {
+        const week = Number(m[2]);
+        if (week < 1 || week > 53) return null;
+        // Monday of week 1 is the Monday on or before January 4th
+        const date = periodStart('weekly', new Date(Number(m[1]), 0, 4 + (week - 1) * 7));
+        return periodTitle('weekly', date) === trimmed ? { type: 'weekly', date } : null;
+    }
+    m = trimmed.match(MONTHLY_RE);
+    if (m) {
+        const month = Number(m[2]);
+        return month >= 1 && month <= 12 ? { type: 'monthly', date: new Date(Number(m[1]), month - 1, 1) } : null;
+    }
+    return null;
+}
+
+export function shiftPeriod(type: PeriodType, date: Date, delta: number): Date {
+    const start = periodStart(type, date);
+    if (type === 'monthly') return new Date(start.getFullYear(), start.getMonth() + delta, 1);
+    return new Date(start.getFullYear(), start.getMonth(), start.getDate() + delta * (type === 'weekly' ? 7 : 1));
+}
+
+export function findPeriodicNote(notes: Note[], type: PeriodType, date: Date): Note | undefined {
+    const title = periodTitle(type, date);
+    return notes.find(n => !isTrashed(n) && n.title === title);
+}
+
+/** Titles of every daily note, for marking days on the calendar. */
+export function dailyNoteDates(notes: Note[]): Set<string> {
+    return new Set(notes.filter(n => !isTrashed(n) && parsePeriodTitle(n.title)?.type === 'daily').map(n => n.title));
+}
+
+export const templateTitle = (type: PeriodType) => `${PERIOD_LABELS[type]} Template`;
+
+/**
+ * Fills a periodic template. {{date}}, {{title}}, {{weekday}}, {{week}}, {{month}}, {{year}},
+ * {{prev}} and {{next}} are replaced; {{prev}} and {{next}} are the neighbouring titles, so
+ * [[{{prev}}]] links the notes into a chain.
+ */
+export function fillPeriodicTemplate(template: string, type: PeriodType, date: Date): string {
+    const start = periodStart(type, date);
+    const values: Record<string, string> = {
+        date: toDateKey(start),
+        title: periodTitle(type, start),
+        weekday: start.toLocaleDateString('en-US', { weekday: 'long' }),
+        week: String(isoWeek(start).week),
+        month: start.toLocaleDateString('en-US', { month: 'long' }),
+        year: String(start.getFullYear()),
+        prev: periodTitle(type, shiftPeriod(type, start, -1)),
+        next: periodTitle(type, shiftPeriod(type, start, 1)),
+    };
+    return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/**
+ * The content a new periodic note starts with: a note titled "Daily Template" (or
+ * "Weekly Template", "Monthly Template") when there is one, otherwise the built-in template.
+ */
+export function periodicNoteContent(notes: Note[], type: PeriodType, date: Date): string {
+    const custom = notes.find(n => !isTrashed(n) && n.title === templateTitle(type));
+    return fillPeriodicTemplate(custom ? custom.content : periodicTemplates[type], type, date);
+}
+
+/** A new note for the period, tagged with its type unless the template sets tags itself. */
+export function buildPeriodicNote(notes: Note[], type: PeriodType, date: Date): Note {
+    const content = periodicNoteContent(notes, type, date);
+    const now = Date.now();
+    return {
+        id: crypto.randomUUID(),
+        title: periodTitle(type, date),
+        content,
+        format: 'markdown',
+        tags: getFrontmatterTags(content) ?? [type],
+        createdAt: now,
+        updatedAt: now,
+        isFavorite: false,
+    };
+}
+
+/** Adds captured text to the end of a note, separated by a blank line. */
+export function appendCapture(content: string, text: string): string {
+    const body = content.replace(/\s+$/, '');
+    return `${body ? `${body}\n\n` : ''}${text.trim()}\n`;
+}
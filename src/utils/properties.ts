@@ -0,0 +1,164 @@
+import type { Note } from '../types';
+import { parseFrontmatter, setFrontmatterValue, splitFrontmatter, type FrontmatterValue } from './frontmatter';
+
+export type PropertyType = 'text' | 'number' | 'date' | 'checkbox' | 'list' | 'link';
+
+export type PropertyValue = string | number | boolean | string[];
+
+export interface NoteProperty {
+    key: string;
+    type: PropertyType;
+    value: PropertyValue;
+}
+
+export interface PropertyFilter {
+    key: string;
+    value: string;
+}
+
+export const PROPERTY_TYPES: { type: PropertyType; label: string }[] = [
+    { type: 'text', label: 'Text' },
+    { type: 'number', label: 'Number' },
+    { type: 'date', label: 'Date' },
+    { type: 'checkbox', label: 'Checkbox' },
+    { type: 'list', label: 'List' },
+    { type: 'link', label: 'Note link' },
+];
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2})?)?$/;
+const NUMBER_RE = /^-?\d+(?:\.\d+)?$/;
+const LINK_RE = /^\[\[([^\]|#^]+)[^\]]*\]\]$/;
+
+/** Types are not stored anywhere; they are read off the value as written. */
+export function inferPropertyType(raw: FrontmatterValue): PropertyType {
+    if (Array.isArray(raw)) return 'list';
+    if (raw === 'true' || raw === 'false') return 'checkbox';
+    if (NUMBER_RE.test(raw)) return 'number';
+    if (DATE_RE.test(raw)) return 'date';
+    if (LINK_RE.test(raw)) return 'link';
+    return 'text';
+}
+
+function toProperty(key: string, raw: FrontmatterValue): NoteProperty {
+    const type = inferPropertyType(raw);
+    if (type === 'checkbox') return { key, type, value: raw === 'true' };
+    if (type === 'number') return { key, type, value: Number(raw) };
+    return { key, type, value: raw };
+}
+
+/** Frontmatter keys of a note as typed properties, in the order they are written. */
+export function getProperties(content: string): NoteProperty[] {
+    if (!content.startsWith('---')) return [];
+    return Object.entries(parseFrontmatter(content)).map(([key, raw]) => toProperty(key, raw));
+}
+
+export function getProperty(content: string, key: string): NoteProperty | undefined {
+    if (!content.startsWith('---')) return undefined;
+    const raw = parseFrontmatter(content)[key];
+    return raw === undefined ? undefined : toProperty(key, raw);
+}
+
+/** Writes a property back to the frontmatter; `null` removes it. */
+export function setProperty(content: string, key: string, value: PropertyValue | null): string {
+    return setFrontmatterValue(content, key, value);
+}
+
+/** Title a note-link property points at, e.g. "Project" for `[[Project|the project]]`. */
+export function linkTarget(value: string): string | null {
+    const match = value.match(LINK_RE);
+    return match ? match[1].trim() : null;
+}
+
+export function defaultPropertyValue(type: PropertyType): PropertyValue {
+    switch (type) {
+        case 'number': return 0;
+        case 'date': return new Date().toISOString().slice(0, 10);
+        case 'checkbox': return false;
+        case 'list': return [];
+        case 'link': return '[[]]';
+        default: return '';
+    }
+}
+
+/** Carries a value over to another type, falling back to that type's default. */
+export function convertPropertyValue(value: PropertyValue, type: PropertyType): PropertyValue {
+    const text = Array.isArray(value) ? value.join(', ') : String(value);
+    switch (type) {
+        case 'text': return text;
+        case 'number': return NUMBER_RE.test(text) ? Number(text) : 0;
+        case 'date': return DATE_RE.test(text) ? text : defaultPropertyValue('date');
+        case 'checkbox': return value === true || text === 'true';
+        case 'list': return Array.isArray(value) ? value : text ? [text] : [];
+        case 'link': return LINK_RE.test(text) ? text : text ? `[[${text}]]` : '[[]]';
+    }
+}
+
+/** Text form of a value for display, filtering and comparison. */
+export function formatPropertyValue(value: PropertyValue): string {
+    return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+/** Every property key used across the notes, alphabetically. */
+export function collectPropertyKeys(notes: Note[]): string[] {
+    const keys = new Set<string>();
+    for (const note of notes) {
+        for (const prop of getProperties(note.content)) keys.add(prop.key);
+    }
+    return [...keys].sort((a, b) => a.localeCompare(b));
+}
+
+/** Orders two property values; notes without the property sort after those with it. */
+export function comparePropertyValues(a: NoteProperty | undefined, b: NoteProperty | undefined): number {
+    if (!a || !b) return a ? -1 : b ? 1 : 0;
+    if (typeof a.value === 'number' && typeof b.value === 'number') return a.value - b.value;
+    if (typeof a.value === 'boolean' && typeof b.value === 'boolean') return Number(b.value) - Number(a.value);
+    return formatPropertyValue(a.value).localeCompare(formatPropertyValue(b.value), undefined, { numeric: true });
+}
+
+/**
+ * Whether a note's property matches a filter value: list items and checkboxes must match
+ * exactly, links match the linked title, and text matches as a substring. Case is ignored.
+ */
+export function matchesPropertyFilter(content: string, filter: PropertyFilter): boolean {
+    const prop = getProperty(content, filter.key);
+    if (!prop) return false;
+    const wanted = filter.value.trim().toLowerCase();
+    if (!wanted) return true;
+    switch (prop.type) {
+        case 'list': return (prop.value as string[]).some(item => item.toLowerCase() === wanted || linkTarget(item)?.toLowerCase() === wanted);
+        case 'link': return linkTarget(prop.value as string)?.toLowerCase() === wanted;
+        case 'checkbox':
+        case 'number':
+        case 'date': return formatPropertyValue(prop.value).toLowerCase() === wanted;
+        default: return formatPropertyValue(prop.value).toLowerCase().includes(wanted);
+    }
+}
+
+/** `tags` from the frontmatter without leading `#`, or null when the note has no `tags` key. */
+export function getFrontmatterTags(content: string): string[] | null {
+    if (!content.startsWith('---')) return null;
+    const raw = parseFrontmatter(content).tags;
+    if (raw === undefined) return null;
+    const items = Array.isArray(raw) ? raw : raw.split(/[,\s]+/);
+    return [...new Set(items.map(t => t.trim().replace(/^#/, '')).filter(Boolean))];
+}
+
+const sameTags = (a: string[], b: string[]) => a.length === b.length && a.every((t, i) => t === b[i]);
+
+/**
+ * Keeps `Note.tags` and the frontmatter `tags:` key in step for an update: edited content
+ * wins when it carries a `tags` key, otherwise tags set directly are written into an
+ * existing frontmatter block. Returns the updates to apply.
+ */
+export function syncTags(note: Note, updates: Partial<Note>): Partial<Note> {
+    if (updates.content !== undefined) {
+        const tags = getFrontmatterTags(updates.content);
+        return tags && !sameTags(tags, note.tags) ? { ...updates, tags } : updates;
+    }
+    if (updates.tags !== undefined && note.format === 'markdown' && splitFrontmatter(note.content).frontmatter) {
+        const current = getFrontmatterTags(note.content);
+        if (current && sameTags(current, updates.tags)) return updates;
+        return { ...updates, content: setFrontmatterValue(note.content, 'tags', updates.tags) };
+    }
+    return updates;
+}
@@ -0,0 +1,354 @@
+import type { Note, ViewSort } from '../types';
+import { parseWikilinkTarget, findNoteByTitle } from './wikilinks';
+import { formatPropertyValue } from './properties';
+import { getFieldValue, sortNotes, toDateKey } from './views';
+
+/**
+ * A small query language for ```query blocks:
+ *
+ *   LIST FROM #project WHERE status = "active" SORT updated DESC LIMIT 10
+ *   TABLE title, tags, updatedAt FROM [[Roadmap]] AND -#archived
+ *
+ * FROM takes #tags, [[Note]] (notes linking to it) and "text" (title contains),
+ * joined with AND / OR and negated with - or NOT. WHERE compares fields with
+ * = != > < >= <= contains and not contains, joined with AND / OR / NOT and
+ * parentheses; a bare field tests that it is set and `today` stands for the
+ * current date. Fields are title, tags, created, updated and any frontmatter
+ * property.
+ */
+
+export type QueryKind = 'list' | 'table';
+
+export interface QueryResult {
+    kind: QueryKind;
+    /** fields shown after the title in a table */
+    columns: string[];
+    notes: Note[];
+}
+
+export class QueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'QueryError';
+    }
+}
+
+export const QUERY_BLOCK_RE = /```query[^\S\n]*\n([\s\S]*?)```/g;
+
+type Token =
+    | { type: 'word'; value: string }
+    | { type: 'string'; value: string }
+    | { type: 'link'; value: string }
+    | { type: 'op'; value: string }
+    | { type: 'punct'; value: string };
+
+type Condition =
+    | { kind: 'and' | 'or'; left: Condition; right: Condition }
+    | { kind: 'not'; inner: Condition }
+    | { kind: 'tag'; tag: string }
+    | { kind: 'links'; title: string }
+    | { kind: 'title'; text: string }
+    | { kind: 'exists'; field: string }
+    | { kind: 'compare'; field: string; op: string; value: string };
+
+interface ParsedQuery {
+    kind: QueryKind;
+    columns: string[];
+    from?: Condition;
+    where?: Condition;
+    sorts: ViewSort[];
+    limit?: number;
+}
+
+const TOKEN_RE = /\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|\[\[([^\]\n]+)\]\]|(!=|>=|<=|=|>|<)|([(),])|([^\s"'(),=<>![]+|!))/y;
+
+const FIELD_ALIASES: Record<string, string> = { createdat: 'created', updatedat: 'updated', modified: 'updated', name: 'title' };
+
+const DEFAULT_COLUMNS = ['tags', 'updated'];
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let rest = source.trim();
+    while (rest.length > 0) {
+        TOKEN_RE.lastIndex = 0;
+        const m = TOKEN_RE.exec(rest);
+        if (!m || m[0].length === 0) throw new QueryError(`Unexpected "${rest[0]}"`);
+        if (m[1] !== undefined || m[2] !== undefined) tokens.push({ type: 'string', value: (m[1] ?? m[2]).replace(/\\(.)/g, '$1') });
+        else if (m[3] !== undefined) tokens.push({ type: 'link', value: m[3] });
+        else if (m[4] !== undefined) tokens.push({ type: 'op', value: m[4] });
+        else if (m[5] !== undefined) tokens.push({ type: 'punct', value: m[5] });
+        else tokens.push({ type: 'word', value: m[6] });
+        rest = rest.slice(m[0].length).trimStart();
+    }
+    return tokens;
+}
+
+const normalizeField = (field: string) => FIELD_ALIASES[field.toLowerCase()] ?? field;
+
+class Parser {
+    private readonly tokens: Token[];
+    private pos = 0;
+
+    constructor(tokens: Token[]) {
+        this.tokens = tokens;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.pos];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.pos++];
+        if (!token) throw new QueryError('Query ends too early');
+        return token;
+    }
+
+    private isKeyword(...words: string[]): boolean {
+        const token = this.peek();
+        return token?.type === 'word' && words.includes(token.value.toUpperCase());
+    }
+
+    private isPunct(value: string): boolean {
+        const token = this.peek();
+        return token?.type === 'punct' && token.value === value;
+    }
+
+    private field(): string {
+        const token = this.next();
+        if (token.type !== 'word') throw new QueryError(`Expected a field name, got "${token.value}"`);
+        return normalizeField(token.value);
+    }
+
+    parse(): ParsedQuery {
+        let kind: QueryKind;
+        if (this.isKeyword('LIST')) kind = 'list';
+        else if (this.isKeyword('TABLE')) kind = 'table';
+        else throw new QueryError('A query starts with LIST or TABLE');
+        this.next();
+
+        const query: ParsedQuery = { kind, columns: [], sorts: [] };
+        if (kind === 'table' && this.peek() && !this.isKeyword('FROM', 'WHERE', 'SORT', 'LIMIT')) {
+            do {
+                if (this.isPunct(',')) this.next();
+                const column = this.field();
+                if (column !== 'title' && !query.columns.includes(column)) query.columns.push(column);
+            } while (this.isPunct(','));
+        } else if (kind === 'table') {
+            query.columns = [...DEFAULT_COLUMNS];
+        }
+
+        while (this.peek()) {
+            const token = this.next();
+            const keyword = token.type === 'word' ? token.value.toUpperCase() : '';
+            if (keyword === 'FROM' && !query.from) {
+                query.from = this.sourceExpr();
+            } else if (keyword === 'WHERE' && !query.where) {
+                query.where = this.orExpr();
+            } else if (keyword === 'SORT' && query.sorts.length === 0) {
+                do {
+                    if (this.isPunct(',')) this.next();
+                    const field = this.field();
+                    let descending = false;
+                    if (this.isKeyword('ASC', 'DESC')) descending = this.next().value.toUpperCase() === 'DESC';
+                    query.sorts.push({ field, descending });
+                } while (this.isPunct(','));
+            } else if (keyword === 'LIMIT' && query.limit === undefined) {
+                const limit = Number(this.next().value);
+                if (!Number.isInteger(limit) || limit < 0) throw new QueryError('LIMIT takes a whole number');
+                query.limit = limit;
+            } else {
+                throw new QueryError(`Unexpected "${token.value}"`);
+            }
+        }
+        return query;
+    }
+
+    // FROM #a AND -[[Note]] OR "text"
+    private sourceExpr(): Condition {
+        let left = this.sourceTerm();
+        while (this.isKeyword('AND', 'OR')) {
+            const kind = this.next().value.toLowerCase() as 'and' | 'or';
+            left = { kind, left, right: this.sourceTerm() };
+        }
+        return left;
+    }
+
+    private sourceTerm(): Condition {
+        if (this.isKeyword('NOT')) {
+            this.next();
+            return { kind: 'not', inner: this.sourceTerm() };
+        }
+        const token = this.next();
+        if (token.type === 'link') return { kind: 'links', title: parseWikilinkTarget(token.value).title };
+        if (token.type === 'string') return { kind: 'title', text: token.value.toLowerCase() };
+        if (token.type === 'word') {
+            const negated = token.value.startsWith('-');
+            const text = negated ? token.value.slice(1) : token.value;
+            if (text.startsWith('#') && text.length > 1) {
+                const tag: Condition = { kind: 'tag', tag: text.slice(1) };
+                return negated ? { kind: 'not', inner: tag } : tag;
+            }
+            if (negated && text === '' && this.peek()?.type === 'link') {
+                return { kind: 'not', inner: { kind: 'links', title: parseWikilinkTarget(this.next().value).title } };
+            }
+        }
+        throw new QueryError(`FROM takes #tags, [[Note]] or "text", got "${token.value}"`);
+    }
+
+    private orExpr(): Condition {
+        let left = this.andExpr();
+        while (this.isKeyword('OR')) {
+            this.next();
+            left = { kind: 'or', left, right: this.andExpr() };
+        }
+        return left;
+    }
+
+    private andExpr(): Condition {
+        let left = this.notExpr();
+        while (this.isKeyword('AND')) {
+            this.next();
+            left = { kind: 'and', left, right: this.notExpr() };
+        }
+        return left;
+    }
+
+    private notExpr(): Condition {
+        if (this.isKeyword('NOT') || (this.peek()?.type === 'word' && this.peek()!.value === '!')) {
+            this.next();
+            return { kind: 'not', inner: this.notExpr() };
+        }
+        if (this.isPunct('(')) {
+            this.next();
+            const inner = this.orExpr();
+            if (!this.isPunct(')')) throw new QueryError('Missing ")"');
+            this.next();
+            return inner;
+        }
+        const field = this.field();
+        let op: string | null = null;
+        const token = this.peek();
+        if (token?.type === 'op') {
+            op = this.next().value;
+        } else if (this.isKeyword('CONTAINS')) {
+            this.next();
+            op = 'contains';
+        } else if (this.isKeyword('NOT') && this.tokens[this.pos + 1]?.value.toUpperCase() === 'CONTAINS') {
+            this.pos += 2;
+            op = '!contains';
+        }
+        if (!op) return { kind: 'exists', field };
+        const value = this.next();
+        if (value.type === 'punct' || value.type === 'op') throw new QueryError(`Expected a value after ${field} ${op}`);
+        return { kind: 'compare', field, op, value: value.value };
+    }
+}
+
+export function parseQuery(source: string): ParsedQuery {
+    return new Parser(tokenize(source)).parse();
+}
+
+const LINK_RE = /\[\[([^\]\n]+)\]\]/g;
+
+function linksTo(note: Note, target: Note, notes: Note[]): boolean {
+    for (const m of note.content.matchAll(LINK_RE)) {
+        const title = parseWikilinkTarget(m[1]).title;
+        if (title && findNoteByTitle(notes, title)?.id === target.id) return true;
+    }
+    return false;
+}
+
+function compareValues(actual: string, op: string, wanted: string): boolean {
+    const a = actual.toLowerCase();
+    const b = wanted.toLowerCase();
+    if (op === 'contains') return a.includes(b);
+    if (op === '!contains') return !a.includes(b);
+    const na = Number(actual);
+    const nb = Number(wanted);
+    const order = actual.trim() !== '' && wanted.trim() !== '' && !isNaN(na) && !isNaN(nb)
+        ? na - nb
+        : a.localeCompare(b);
+    switch (op) {
+        case '=': return order === 0;
+        case '!=': return order !== 0;
+        case '>': return order > 0;
+        case '<': return order < 0;
+        case '>=': return order >= 0;
+        default: return order <= 0;
+    }
+}
+
+function evaluate(condition: Condition, note: Note, notes: Note[], today: string): boolean {
+    switch (condition.kind) {
+        case 'and': return evaluate(condition.left, note, notes, today) && evaluate(condition.right, note, notes, today);
+        case 'or': return evaluate(condition.left, note, notes, today) || evaluate(condition.right, note, notes, today);
+        case 'not': return !evaluate(condition.inner, note, notes, today);
+        case 'tag': {
+            const tag = condition.tag.toLowerCase();
+            // #project also matches nested tags like #project/alpha
+            return note.tags.some(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`));
+        }
+        case 'links': {
+            const target = findNoteByTitle(notes, condition.title);
+            return !!target && target.id !== note.id && linksTo(note, target, notes);
+        }
+        case 'title': return (note.title || 'Untitled').toLowerCase().includes(condition.text);
+        case 'exists': {
+            const prop = getFieldValue(note, condition.field);
+            return !!prop && formatPropertyValue(prop.value).trim() !== '';
+        }
+        case 'compare': {
+            const prop = getFieldValue(note, condition.field);
+            const wanted = condition.value.toLowerCase() === 'today' ? today
+                : condition.field === 'tags' ? condition.value.replace(/^#/, '')
+                    : condition.value;
+            if (!prop) return condition.op === '!=' || condition.op === '!contains';
+            // list values match when any item does; != and !contains need every item to pass
+            if (Array.isArray(prop.value)) {
+                const items = prop.value;
+                return condition.op === '!=' || condition.op === '!contains'
+                    ? items.every(item => compareValues(item, condition.op, wanted))
+                    : items.some(item => compareValues(item, condition.op, wanted));
+            }
+            return compareValues(formatPropertyValue(prop.value), condition.op, wanted);
+        }
+    }
+}
+
+/** Runs a query against the notes; throws QueryError when it cannot be parsed. */
+export function runQuery(source: string, notes: Note[]): QueryResult {
+    const query = parseQuery(source);
+    const today = toDateKey(new Date());
+    const matched = notes.filter(note =>
+        (!query.from || evaluate(query.from, note, notes, today)) &&
+        (!query.where || evaluate(query.where, note, notes, today))
+    );
+    const sorted = sortNotes(matched, query.sorts);
+    return {
+        kind: query.kind,
+        columns: query.columns,
+        notes: query.limit !== undefined ? sorted.slice(0, query.limit) : sorted,
+    };
+}
+
+/** Text of one table cell. */
+export function queryCell(note: Note, column: string): string {
+    const prop = getFieldValue(note, column);
+    if (!prop) return '';
+    if (column === 'tags' && Array.isArray(prop.value)) return prop.value.map(t => `#${t}`).join(' ');
+    return formatPropertyValue(prop.value);
+}
+
+export const queryColumnLabel = (column: string) => column.charAt(0).toUpperCase() + column.slice(1);
+
+/** Runs every ```query block of a note; used by exports, which show the results instead of the source. */
+export function expandQueries(content: string, notes: Note[], render: (result: QueryResult | QueryError) => string): string {
+    return content.replace(QUERY_BLOCK_RE, (_, source: string) => {
+        try {
+            return render(runQuery(source, notes));
+        } catch (error) {
+            if (error instanceof QueryError) return render(error);
+            throw error;
+        }
+    });
+}
@@ -0,0 +1,294 @@
+import type { Note, NoteId } from '../types';
+import { splitFrontmatter } from './frontmatter';
+
+type Field = 'title' | 'tags' | 'frontmatter' | 'content';
+
+// how much a hit in each field counts towards the score
+const FIELD_BOOST: Record<Field, number> = { title: 4, tags: 3, frontmatter: 1.5, content: 1 };
+
+// BM25 constants
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_RADIUS = 60;
+
+export interface SearchQuery {
+    terms: string[];
+    prefixes: string[];
+    phrases: string[];
+    tags: string[];
+    /** only notes updated before this timestamp (start of the given day) */
+    before?: number;
+    /** only notes updated on or after this timestamp (start of the given day) */
+    after?: number;
+}
+
+export interface SearchResult {
+    note: Note;
+    score: number;
+    /** 1-based line of the best match in the content, if the match is in the content */
+    lineNumber?: number;
+    snippet: string;
+    /** [start, end) ranges in snippet to highlight */
+    highlights: [number, number][];
+}
+
+interface IndexedDoc {
+    note: Note;
+    length: number;
+    /** lowercased title + frontmatter + content, used for phrase checks */
+    haystack: string;
+    lines: string[];
+    terms: Set<string>;
+}
+
+type Postings = Map<NoteId, Partial<Record<Field, number>>>;
+
+const TOKEN_RE = /[\p{L}\p{N}_]+/gu;
+
+export function tokenize(text: string): string[] {
+    return text.toLowerCase().match(TOKEN_RE) ?? [];
+}
+
+function parseDate(value: string): number | undefined {
+    const match = value.match(/^(\d{4})-(\d{2})(?:-(\d{2}))?$/);
+    if (!match) return undefined;
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3] ?? 1)).getTime();
+}
+
+/**
+ * Parses the search syntax:
+ * `"exact phrase"`, `pre*`, `tag:name`, `before:YYYY-MM-DD`, `after:YYYY-MM-DD`.
+ * Anything else is a plain term.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+    const query: SearchQuery = { terms: [], prefixes: [], phrases: [], tags: [] };
+    const tokenRe = /"([^"]*)"?|(\S+)/g;
+    let match;
+    while ((match = tokenRe.exec(input)) !== null) {
+        if (match[1] !== undefined) {
+            const phrase = match[1].trim().toLowerCase();
+            if (phrase) query.phrases.push(phrase);
+            continue;
+        }
+        const token = match[2];
+        const op = token.match(/^(tag|before|after):(.+)$/i);
+        if (op) {
+            const [, name, value] = op;
+            if (name.toLowerCase() === 'tag') {
+                query.tags.push(value.replace(/^#/, '').toLowerCase());
+                continue;
+            }
+            const date = parseDate(value);
+            if (date !== undefined) {
+                if (name.toLowerCase() === 'before') query.before = date;
+                else query.after = date;
+                continue;
+            }
+        }
+        if (token.endsWith('*') && token.length > 1) {
+            query.prefixes.push(...tokenize(token.slice(0, -1)));
+            continue;
+        }
+        query.terms.push(...tokenize(token));
+    }
+    return query;
+}
+
+/**
+ * Inverted index over note titles, tags, frontmatter and content.
+ * `sync` re-indexes only notes whose object changed since the last call,
+ * so keeping it current after each edit is cheap.
+ */
+export class SearchIndex {
+    private docs = new Map<NoteId, IndexedDoc>();
+    private postings = new Map<string, Postings>();
+    private totalLength = 0;
+
+    sync(notes: Note[]): void {
+        const seen = new Set<NoteId>();
+        for (const note of notes) {
+            seen.add(note.id);
+            if (this.docs.get(note.id)?.note !== note) this.upsert(note);
+        }
+        for (const id of [...this.docs.keys()]) {
+            if (!seen.has(id)) this.remove(id);
+        }
+    }
+
+    upsert(note: Note): void {
+        this.remove(note.id);
+        const { frontmatter, body } = splitFrontmatter(note.content);
+        const fields: Record<Field, string[]> = {
+            title: tokenize(note.title),
+            tags: note.tags.flatMap(tokenize),
+            frontmatter: tokenize(frontmatter),
+            content: tokenize(body),
+        };
+        let length = 0;
+        const terms = new Set<string>();
+        (Object.keys(fields) as Field[]).forEach(field => {
+            for (const term of fields[field]) {
+                terms.add(term);
+                let postings = this.postings.get(term);
+                if (!postings) {
+                    postings = new Map();
+                    this.postings.set(term, postings);
+                }
+                const counts = postings.get(note.id) ?? {};
+                counts[field] = (counts[field] ?? 0) + 1;
+                postings.set(note.id, counts);
+                length++;
+            }
+        });
+        this.docs.set(note.id, {
+            note,
+            length,
+            haystack: `${note.title}\n${note.content}`.toLowerCase(),
+            lines: note.content.split('\n'),
+            terms,
+        });
+        this.totalLength += length;
+    }
+
+    remove(id: NoteId): void {
+        const doc = this.docs.get(id);
+        if (!doc) return;
+        for (const term of doc.terms) {
+            const postings = this.postings.get(term);
+            if (postings?.delete(id) && postings.size === 0) this.postings.delete(term);
+        }
+        this.totalLength -= doc.length;
+        this.docs.delete(id);
+    }
+
+    search(input: string, limit = 50): SearchResult[] {
+        const query = parseSearchQuery(input);
+        const words = [...query.terms, ...query.prefixes, ...query.phrases];
+        if (words.length === 0 && query.tags.length === 0 && query.before === undefined && query.after === undefined) {
+            return [];
+        }
+
+        // every plain term, prefix and phrase must match (AND semantics)
+        const termSets: Map<string, number>[] = [];
+        for (const term of query.terms) termSets.push(new Map([[term, 1]]));
+        for (const prefix of query.prefixes) {
+            const expanded = new Map<string, number>();
+            for (const term of this.postings.keys()) {
+                // shorter completions of the prefix rank higher
+                if (term.startsWith(prefix)) expanded.set(term, prefix.length / term.length);
+            }
+            termSets.push(expanded);
+        }
+        for (const phrase of query.phrases) {
+            for (const term of tokenize(phrase)) termSets.push(new Map([[term, 1]]));
+        }
+
+        const n = this.docs.size;
+        const avgLength = n > 0 ? this.totalLength / n : 0;
+        const results: SearchResult[] = [];
+
+        for (const doc of this.docs.values()) {
+            const { note } = doc;
+            if (query.tags.length > 0) {
+                const tags = note.tags.map(t => t.toLowerCase());
+                if (!query.tags.every(t => tags.includes(t))) continue;
+            }
+            if (query.before !== undefined && note.updatedAt >= query.before) continue;
+            if (query.after !== undefined && note.updatedAt < query.after) continue;
+            if (!query.phrases.every(p => doc.haystack.includes(p))) continue;
+
+            let score = 0;
+            let matchesAll = true;
+            for (const set of termSets) {
+                let best = 0;
+                for (const [term, weight] of set) {
+                    const postings = this.postings.get(term);
+                    const counts = postings?.get(note.id);
+                    if (!postings || !counts) continue;
+                    const tf = (Object.keys(counts) as Field[])
+                        .reduce((sum, f) => sum + (counts[f] ?? 0) * FIELD_BOOST[f], 0);
+                    const idf = Math.log(1 + (n - postings.size + 0.5) / (postings.size + 0.5));
+                    const norm = tf + K1 * (1 - B + B * (avgLength > 0 ? doc.length / avgLength : 1));
+                    best = Math.max(best, weight * idf * (tf * (K1 + 1)) / norm);
+                }
+                if (best === 0) { matchesAll = false; break; }
+                score += best;
+            }
+            if (!matchesAll) continue;
+            score += query.phrases.length * 2;
+
+            results.push({ note, score, ...this.snippetFor(doc, query) });
+        }
+
+        results.sort((a, b) => b.score - a.score || b.note.updatedAt - a.note.updatedAt);
+        return results.slice(0, limit);
+    }
+
+    private snippetFor(doc: IndexedDoc, query: SearchQuery): Pick<SearchResult, 'lineNumber' | 'snippet' | 'highlights'> {
+        const matchers: RegExp[] = [
+            ...query.phrases.map(p => new RegExp(escapeRegExp(p), 'gi')),
+            ...query.terms.map(t => new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(t)}(?![\\p{L}\\p{N}_])`, 'giu')),
+            ...query.prefixes.map(p => new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(p)}[\\p{L}\\p{N}_]*`, 'giu')),
+        ];
+
+        // the content line with the most distinct matchers wins; phrases count double
+        let bestLine = -1;
+        let bestHits = 0;
+        doc.lines.forEach((line, i) => {
+            let hits = 0;
+            matchers.forEach((re, idx) => {
+                re.lastIndex = 0;
+                if (re.test(line)) hits += idx < query.phrases.length ? 2 : 1;
+            });
+            if (hits > bestHits) { bestHits = hits; bestLine = i; }
+        });
+
+        if (bestLine < 0) {
+            const first = doc.lines.find(l => l.trim() && l.trim() !== '---') ?? '';
+            return { snippet: first.trim().slice(0, SNIPPET_RADIUS * 2), highlights: [] };
+        }
+
+        const line = doc.lines[bestLine];
+        const ranges: [number, number][] = [];
+        for (const re of matchers) {
+            re.lastIndex = 0;
+            let m;
+            while ((m = re.exec(line)) !== null) {
+                if (m[0].length === 0) { re.lastIndex++; continue; }
+                ranges.push([m.index, m.index + m[0].length]);
+            }
+        }
+        ranges.sort((a, b) => a[0] - b[0]);
+
+        const firstHit = ranges[0]?.[0] ?? 0;
+        const start = Math.max(0, firstHit - SNIPPET_RADIUS);
+        const end = Math.min(line.length, firstHit + SNIPPET_RADIUS * 2);
+        const prefix = start > 0 ? '…' : '';
+        const suffix = end < line.length ? '…' : '';
+        const shift = prefix.length - start;
+        const highlights = mergeRanges(ranges)
+            .filter(([s, e]) => e > start && s < end)
+            .map(([s, e]) => [Math.max(s, start) + shift, Math.min(e, end) + shift] as [number, number]);
+
+        return {
+            lineNumber: bestLine + 1,
+            snippet: prefix + line.slice(start, end) + suffix,
+            highlights,
+        };
+    }
+}
+
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+    const merged: [number, number][] = [];
+    for (const range of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+        else merged.push([range[0], range[1]]);
+    }
+    return merged;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,8 +1,19 @@
 import LZString from 'lz-string';
-import type { AppState } from '../types';
+import type { AppState, Note, NoteId, NoteVersion, UserPreferences } from '../types';
 
-const STORAGE_KEY = 'yoro_app_state';
-const SCHEMA_VERSION = 1;
+// legacy single-blob key, read once during migration then removed
+const LEGACY_STORAGE_KEY = 'yoro_app_state';
+const DB_NAME = 'yoro';
+const DB_VERSION = 2;
+const NOTES_STORE = 'notes';
+const META_STORE = 'meta';
+const VERSIONS_STORE = 'versions';
+const SCHEMA_VERSION = 2;
+
+// version history: about one snapshot per note per window, capped per note
+const VERSION_THROTTLE_MS = 5 * 60 * 1000;
+const MAX_VERSIONS_PER_NOTE = 50;
+const MAX_VERSION_CHARS_PER_NOTE = 2_000_000;
 
 interface VersionedData {
     version: number;
@@ -10,7 +21,7 @@ interface VersionedData {
 }
 
 // Default initial state
-const initialState: AppState = {
+export const initialState: AppState = {
     notes: [],
     preferences: {
         theme: 'light',
@@ -30,6 +41,7 @@ const initialState: AppState = {
         showDocumentStats: true,
         cursorAnimations: 'subtle',
         singlish: false,
+        trashRetentionDays: 30,
     },
 };
 
@@ -41,8 +53,10 @@ function migrate(data: unknown): AppState {
 
     const versioned = data as VersionedData;
 
+    // v1 -> v2: the state shape is unchanged, only the backing store moved
+    // from one localStorage blob to per-note IndexedDB records
     // Future migrations go here:
-    // if (versioned.version < 2) { ... migrate to v2 ... }
+    // if (versioned.version < 3) { ... migrate to v3 ... }
 
     if (versioned.version <= SCHEMA_VERSION) {
         return versioned.state;
@@ -53,54 +67,291 @@ function migrate(data: unknown): AppState {
 }
 
 export class StorageError extends Error {
-    code: 'QUOTA_EXCEEDED' | 'UNKNOWN';
+    code: 'QUOTA_EXCEEDED' | 'LOAD_FAILED' | 'UNKNOWN';
 
-    constructor(message: string, code: 'QUOTA_EXCEEDED' | 'UNKNOWN') {
+    constructor(message: string, code: 'QUOTA_EXCEEDED' | 'LOAD_FAILED' | 'UNKNOWN') {
         super(message);
         this.code = code;
         this.name = 'StorageError';
     }
 }
 
+function toStorageError(error: unknown): StorageError {
+    if (error instanceof StorageError) return error;
+    if (
+        error instanceof DOMException &&
+        (error.name === 'QuotaExceededError' ||
+            error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+    ) {
+        return new StorageError('Storage quota exceeded', 'QUOTA_EXCEEDED');
+    }
+    return new StorageError('Failed to save data', 'UNKNOWN');
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(NOTES_STORE)) {
+                    db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(META_STORE)) {
+                    db.createObjectStore(META_STORE);
+                }
+                if (!db.objectStoreNames.contains(VERSIONS_STORE)) {
+                    const versions = db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' });
+                    versions.createIndex('noteId', 'noteId');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // allow a retry on the next call if opening failed
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+function readLegacy(): AppState | null {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!raw) return null;
+    // support both compressed and legacy uncompressed data
+    let jsonStr: string;
+    try {
+        const decompressed = LZString.decompress(raw);
+        jsonStr = decompressed && decompressed.length > 0 ? decompressed : raw;
+    } catch {
+        jsonStr = raw;
+    }
+    return migrate(JSON.parse(jsonStr));
+}
+
+// snapshot of what is on disk; notes are immutable in app state, so a
+// reference mismatch means the note changed since the last write
+let persistedNotes = new Map<NoteId, Note>();
+let persistedOrder: NoteId[] = [];
+let persistedPreferences: UserPreferences | null = null;
+let saveQueue: Promise<void> = Promise.resolve();
+// after a failed load the snapshot above is empty, so a save would write defaults over the stored state
+let loadFailed = false;
+
+function rememberPersisted(state: AppState): void {
+    persistedNotes = new Map(state.notes.map(n => [n.id, n]));
+    persistedOrder = state.notes.map(n => n.id);
+    persistedPreferences = state.preferences;
+}
+
+function sameOrder(a: NoteId[], b: NoteId[]): boolean {
+    return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+function deleteVersionsOf(store: IDBObjectStore, noteId: NoteId): void {
+    const cursorRequest = store.index('noteId').openKeyCursor(IDBKeyRange.only(noteId));
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+    };
+}
+
+// oldest first; drops snapshots beyond the count and size budget
+function pruneVersions(store: IDBObjectStore, versions: NoteVersion[]): void {
+    let chars = versions.reduce((sum, v) => sum + v.content.length, 0);
+    let count = versions.length;
+    for (const v of versions) {
+        if (count <= 1 || (count <= MAX_VERSIONS_PER_NOTE && chars <= MAX_VERSION_CHARS_PER_NOTE)) break;
+        store.delete(v.id);
+        count--;
+        chars -= v.content.length;
+    }
+}
+
+function snapshotVersion(store: IDBObjectStore, note: Note, now: number): void {
+    const request = store.index('noteId').getAll(IDBKeyRange.only(note.id));
+    request.onsuccess = () => {
+        const versions = (request.result as NoteVersion[]).sort((a, b) => a.createdAt - b.createdAt);
+        const latest = versions[versions.length - 1];
+        const previous = versions[versions.length - 2];
+        if (latest && latest.content === note.content) return;
+        // inside a window the newest snapshot follows each save, so history always ends at the
+        // latest content; the window runs from the snapshot before it, so a long burst of edits
+        // still leaves one snapshot per window; a snapshot pinned before a restore is never updated
+        if (latest && previous && !latest.pinned && now - previous.createdAt < VERSION_THROTTLE_MS) {
+            store.put({ ...latest, title: note.title, content: note.content, createdAt: now });
+            return;
+        }
+        const version: NoteVersion = {
+            id: crypto.randomUUID(),
+            noteId: note.id,
+            title: note.title,
+            content: note.content,
+            createdAt: now,
+        };
+        store.put(version);
+        pruneVersions(store, [...versions, version]);
+    };
+}
+
+async function writeState(data: AppState): Promise<void> {
+    const order = data.notes.map(n => n.id);
+    const changed = data.notes.filter(n => persistedNotes.get(n.id) !== n);
+    const currentIds = new Set(order);
+    const removed = [...persistedNotes.keys()].filter(id => !currentIds.has(id));
+    const orderChanged = !sameOrder(order, persistedOrder);
+    const prefsChanged = data.preferences !== persistedPreferences;
+
+    if (changed.length === 0 && removed.length === 0 && !orderChanged && !prefsChanged) return;
+
+    const db = await openDB();
+    const tx = db.transaction([NOTES_STORE, META_STORE, VERSIONS_STORE], 'readwrite');
+    const notesStore = tx.objectStore(NOTES_STORE);
+    const metaStore = tx.objectStore(META_STORE);
+    const versionsStore = tx.objectStore(VERSIONS_STORE);
+    const now = Date.now();
+    changed.forEach(note => {
+        notesStore.put(note);
+        if (note.format === 'markdown' && persistedNotes.get(note.id)?.content !== note.content) {
+            snapshotVersion(versionsStore, note, now);
+        }
+    });
+    removed.forEach(id => {
+        notesStore.delete(id);
+        deleteVersionsOf(versionsStore, id);
+    });
+    if (orderChanged) metaStore.put(order, 'noteOrder');
+    if (prefsChanged) metaStore.put(data.preferences, 'preferences');
+    metaStore.put(SCHEMA_VERSION, 'schemaVersion');
+    await transactionDone(tx);
+
+    rememberPersisted(data);
+}
+
+async function readState(): Promise<AppState | null> {
+    const db = await openDB();
+    const tx = db.transaction([NOTES_STORE, META_STORE], 'readonly');
+    const metaStore = tx.objectStore(META_STORE);
+    const [version, preferences, order, notes] = await Promise.all([
+        requestToPromise(metaStore.get('schemaVersion')) as Promise<number | undefined>,
+        requestToPromise(metaStore.get('preferences')) as Promise<UserPreferences | undefined>,
+        requestToPromise(metaStore.get('noteOrder')) as Promise<NoteId[] | undefined>,
+        requestToPromise(tx.objectStore(NOTES_STORE).getAll()) as Promise<Note[]>,
+    ]);
+    if (version === undefined) return null;
+
+    // notes missing from the order record (e.g. written by a newer tab) go last
+    const position = new Map((order ?? []).map((id, i) => [id, i]));
+    notes.sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+
+    return migrate({
+        version,
+        state: { notes, preferences: preferences ?? initialState.preferences },
+    });
+}
+
 export const storage = {
-    get: (): AppState => {
+    /**
+     * Loads state from IndexedDB. On first run, moves any legacy
+     * localStorage blob across and removes the old key. When the stored
+     * state can't be read, throws a LOAD_FAILED StorageError and refuses
+     * every later save.
+     */
+    load: async (): Promise<AppState> => {
         try {
-            const raw = localStorage.getItem(STORAGE_KEY);
-            if (!raw) return initialState;
-            // support both compressed and legacy uncompressed data
-            let jsonStr: string;
-            try {
-                const decompressed = LZString.decompress(raw);
-                jsonStr = decompressed && decompressed.length > 0 ? decompressed : raw;
-            } catch {
-                jsonStr = raw;
+            const stored = await readState();
+            if (stored) {
+                rememberPersisted(stored);
+                loadFailed = false;
+                return stored;
             }
-            const parsed = JSON.parse(jsonStr);
-            return migrate(parsed);
+            const legacy = readLegacy();
+            loadFailed = false;
+            if (!legacy) return initialState;
+            await writeState(legacy);
+            localStorage.removeItem(LEGACY_STORAGE_KEY);
+            return legacy;
         } catch (error) {
             console.error('Failed to load data from storage:', error);
-            return initialState;
+            loadFailed = true;
+            throw new StorageError('Failed to load data', 'LOAD_FAILED');
         }
     },
 
-    set: (data: AppState): void => {
-        try {
-            const versioned: VersionedData = { version: SCHEMA_VERSION, state: data };
-            const compressed = LZString.compress(JSON.stringify(versioned));
-            localStorage.setItem(STORAGE_KEY, compressed);
-        } catch (error: unknown) {
-            if (
-                error instanceof DOMException &&
-                (error.name === 'QuotaExceededError' ||
-                    error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
-            ) {
-                throw new StorageError('Storage quota exceeded', 'QUOTA_EXCEEDED');
+    /** Writes only the notes, order and preferences that changed since the last save. */
+    save: (data: AppState): Promise<void> => {
+        if (loadFailed) return Promise.reject(new StorageError('Stored data could not be loaded', 'LOAD_FAILED'));
+        const next = saveQueue.then(() => writeState(data)).catch((error: unknown) => {
+            throw toStorageError(error);
+        });
+        // keep the queue alive after a failed write
+        saveQueue = next.catch(() => { });
+        return next;
+    },
+
+    /** Snapshots the note as it is now and pins it, so a restore can always be undone from history. */
+    pinVersion: async (note: Note): Promise<void> => {
+        const db = await openDB();
+        const tx = db.transaction(VERSIONS_STORE, 'readwrite');
+        const store = tx.objectStore(VERSIONS_STORE);
+        const request = store.index('noteId').getAll(IDBKeyRange.only(note.id));
+        request.onsuccess = () => {
+            const versions = (request.result as NoteVersion[]).sort((a, b) => a.createdAt - b.createdAt);
+            const latest = versions[versions.length - 1];
+            if (latest && latest.content === note.content) {
+                store.put({ ...latest, pinned: true });
+                return;
             }
-            throw new StorageError('Failed to save data', 'UNKNOWN');
-        }
+            const version: NoteVersion = {
+                id: crypto.randomUUID(),
+                noteId: note.id,
+                title: note.title,
+                content: note.content,
+                createdAt: Date.now(),
+                pinned: true,
+            };
+            store.put(version);
+            pruneVersions(store, [...versions, version]);
+        };
+        await transactionDone(tx);
+    },
+
+    /** Saved snapshots of a note, newest first. */
+    listVersions: async (noteId: NoteId): Promise<NoteVersion[]> => {
+        const db = await openDB();
+        const tx = db.transaction(VERSIONS_STORE, 'readonly');
+        const index = tx.objectStore(VERSIONS_STORE).index('noteId');
+        const versions = await requestToPromise(index.getAll(IDBKeyRange.only(noteId))) as NoteVersion[];
+        return versions.sort((a, b) => b.createdAt - a.createdAt);
     },
 
-    clear: (): void => {
-        localStorage.removeItem(STORAGE_KEY);
+    clear: async (): Promise<void> => {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        const db = await openDB();
+        const tx = db.transaction([NOTES_STORE, META_STORE, VERSIONS_STORE], 'readwrite');
+        tx.objectStore(NOTES_STORE).clear();
+        tx.objectStore(META_STORE).clear();
+        tx.objectStore(VERSIONS_STORE).clear();
+        await transactionDone(tx);
+        rememberPersisted({ notes: [], preferences: initialState.preferences });
+        persistedPreferences = null;
     },
 };
@@ -0,0 +1,57 @@
+import type { NoteId, NoteTab } from '../types';
+
+const pinnedCount = (tabs: NoteTab[]) => tabs.filter(t => t.pinned).length;
+
+/**
+ * Opening a note in the current tab: an unpinned tab showing `from` is reused, otherwise
+ * the note gets a tab of its own at the end. Tabs already open are left where they are.
+ */
+export function openInTab(tabs: NoteTab[], noteId: NoteId, from: NoteId | null): NoteTab[] {
+    if (tabs.some(t => t.noteId === noteId)) return tabs;
+    const index = tabs.findIndex(t => t.noteId === from);
+    if (index >= 0 && !tabs[index].pinned) {
+        return tabs.map((t, i) => i === index ? { noteId } : t);
+    }
+    return [...tabs, { noteId }];
+}
+
+/** A new tab right after `from` (or after the pinned tabs when `from` is pinned or not open). */
+export function openInNewTab(tabs: NoteTab[], noteId: NoteId, from: NoteId | null): NoteTab[] {
+    if (tabs.some(t => t.noteId === noteId)) return tabs;
+    const index = tabs.findIndex(t => t.noteId === from);
+    const at = index >= 0 && !tabs[index].pinned ? index + 1 : tabs.length;
+    return [...tabs.slice(0, at), { noteId }, ...tabs.slice(at)];
+}
+
+export const closeTab = (tabs: NoteTab[], noteId: NoteId) => tabs.filter(t => t.noteId !== noteId);
+
+/** The tab to show after closing `noteId`: the one to its right, else the one to its left. */
+export function neighbourTab(tabs: NoteTab[], noteId: NoteId): NoteId | null {
+    const index = tabs.findIndex(t => t.noteId === noteId);
+    if (index < 0) return null;
+    return (tabs[index + 1] ?? tabs[index - 1])?.noteId ?? null;
+}
+
+/** Pinning moves a tab to the end of the pinned group; unpinning to the start of the rest. */
+export function togglePinTab(tabs: NoteTab[], noteId: NoteId): NoteTab[] {
+    const tab = tabs.find(t => t.noteId === noteId);
+    if (!tab) return tabs;
+    const rest = tabs.filter(t => t !== tab);
+    const pinned = pinnedCount(rest);
+    const toggled = tab.pinned ? { noteId } : { noteId, pinned: true };
+    return [...rest.slice(0, pinned), toggled, ...rest.slice(pinned)];
+}
+
+/** Moves a tab to `index`, kept inside its own group so pinned tabs stay first. */
+export function moveTab(tabs: NoteTab[], noteId: NoteId, index: number): NoteTab[] {
+    const tab = tabs.find(t => t.noteId === noteId);
+    if (!tab) return tabs;
+    const rest = tabs.filter(t => t !== tab);
+    const pinned = pinnedCount(rest);
+    const [min, max] = tab.pinned ? [0, pinned] : [pinned, rest.length];
+    const at = Math.min(max, Math.max(min, index));
+    return [...rest.slice(0, at), tab, ...rest.slice(at)];
+}
+
+/** Keeps the pinned tabs and `noteId`. */
+export const closeOtherTabs = (tabs: NoteTab[], noteId: NoteId) => tabs.filter(t => t.pinned || t.noteId === noteId);
@@ -0,0 +1,137 @@
+import type { Note } from '../types';
+import { getFrontmatterTags } from './properties';
+import { setFrontmatterValue } from './frontmatter';
+
+// Colour palette for tags without a colour of their own; shared with the knowledge graph
+export const tagColors = [
+    '#3b82f6', // blue
+    '#10b981', // emerald
+    '#f59e0b', // amber
+    '#ef4444', // red
+    '#8b5cf6', // violet
+    '#ec4899', // pink
+    '#06b6d4', // cyan
+    '#84cc16', // lime
+    '#f97316', // orange
+    '#6366f1', // indigo
+];
+
+/** A tag in the tag pane; tag is the full path, e.g. area/sub/topic */
+export interface TagNode {
+    tag: string;
+    name: string;
+    children: TagNode[];
+    /** notes carrying this tag or any tag below it */
+    count: number;
+}
+
+/**
+ * Notes are kept when they carry any (or) or all (and) of the included tags and none of
+ * the excluded ones. A tag also matches every tag nested below it.
+ */
+export interface TagFilter {
+    include: string[];
+    exclude: string[];
+    mode: 'and' | 'or';
+}
+
+export const EMPTY_TAG_FILTER: TagFilter = { include: [], exclude: [], mode: 'and' };
+
+export const singleTagFilter = (tag: string): TagFilter => ({ include: [tag], exclude: [], mode: 'and' });
+
+export const isTagFilterEmpty = (filter: TagFilter) => filter.include.length === 0 && filter.exclude.length === 0;
+
+/** True for the tag itself and anything nested below it: area matches area/sub. */
+export function tagMatches(tag: string, wanted: string): boolean {
+    return tag === wanted || tag.startsWith(`${wanted}/`);
+}
+
+export const noteHasTag = (note: Note, wanted: string) => note.tags.some(t => tagMatches(t, wanted));
+
+export function matchesTagFilter(note: Note, filter: TagFilter): boolean {
+    if (filter.exclude.some(t => noteHasTag(note, t))) return false;
+    if (filter.include.length === 0) return true;
+    return filter.mode === 'and'
+        ? filter.include.every(t => noteHasTag(note, t))
+        : filter.include.some(t => noteHasTag(note, t));
+}
+
+/** Every tag in use plus the parents of nested tags, sorted. */
+export function allTagPaths(notes: Note[]): string[] {
+    const paths = new Set<string>();
+    for (const tag of notes.flatMap(n => n.tags)) {
+        const parts = tag.split('/').filter(Boolean);
+        for (let i = 1; i <= parts.length; i++) paths.add(parts.slice(0, i).join('/'));
+    }
+    return [...paths].sort((a, b) => a.localeCompare(b));
+}
+
+export function buildTagTree(notes: Note[]): TagNode[] {
+    const nodes = new Map<string, TagNode>();
+    const roots: TagNode[] = [];
+    for (const tag of allTagPaths(notes)) {
+        const cut = tag.lastIndexOf('/');
+        const node: TagNode = { tag, name: tag.slice(cut + 1), children: [], count: 0 };
+        nodes.set(tag, node);
+        const parent = cut > 0 ? nodes.get(tag.slice(0, cut)) : undefined;
+        (parent ? parent.children : roots).push(node);
+    }
+    for (const node of nodes.values()) {
+        node.count = notes.filter(n => noteHasTag(n, node.tag)).length;
+    }
+    return roots;
+}
+
+/** The colour picked for a tag, or for its nearest parent when it has none of its own. */
+export function customTagColor(tag: string, custom: Record<string, string> = {}): string | undefined {
+    for (let path = tag; path; path = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '') {
+        if (custom[path]) return custom[path];
+    }
+    return undefined;
+}
+
+/** A tag's picked colour, else one from the palette by its place in allTags. */
+export function resolveTagColor(tag: string, allTags: string[], custom: Record<string, string> = {}): string {
+    const picked = customTagColor(tag, custom);
+    if (picked) return picked;
+    const index = allTags.indexOf(tag);
+    return tagColors[(index < 0 ? 0 : index) % tagColors.length];
+}
+
+/** Tag names are kept without a leading # and with empty path segments dropped. */
+export function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, '').split('/').map(s => s.trim().replace(/\s+/g, '-')).filter(Boolean).join('/');
+}
+
+/** Where a tag ends up when `from` is renamed to `to`; nested tags follow their parent. */
+export function renamedTag(tag: string, from: string, to: string): string {
+    if (tag === from) return to;
+    if (tag.startsWith(`${from}/`)) return `${to}${tag.slice(from.length)}`;
+    return tag;
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Rewrites inline #from and #from/... in the text, leaving fenced code blocks alone. */
+export function renameInlineTags(content: string, from: string, to: string): string {
+    const re = new RegExp(`(^|\\s)#${escapeRegExp(from)}(?=[/\\s.,;:!?)\\]]|$)`, 'gmu');
+    // split yields text, a fenced block (``` or ~~~) and its fence marker in turn; the marker is dropped
+    return content.split(/(^(`{3,}|~{3,})[\s\S]*?^\2)/m).map((part, i) =>
+        i % 3 === 0 ? part.replace(re, `$1#${to}`) : i % 3 === 1 ? part : ''
+    ).join('');
+}
+
+/**
+ * The updates that rename (or, when `to` is already used, merge) a tag in one note: its
+ * tags, a frontmatter `tags:` list and inline #tags. Null when the note doesn't use the tag.
+ */
+export function renameTagInNote(note: Note, from: string, to: string): Pick<Note, 'tags' | 'content'> | null {
+    let content = note.format === 'markdown' ? renameInlineTags(note.content, from, to) : note.content;
+    const frontmatterTags = getFrontmatterTags(content);
+    if (frontmatterTags?.some(t => tagMatches(t, from))) {
+        content = setFrontmatterValue(content, 'tags', [...new Set(frontmatterTags.map(t => renamedTag(t, from, to)))]);
+    }
+    const usesTag = note.tags.some(t => tagMatches(t, from));
+    if (!usesTag && content === note.content) return null;
+    return { tags: [...new Set(note.tags.map(t => renamedTag(t, from, to)))], content };
+}
@@ -0,0 +1,175 @@
+import type { Note, NoteId } from '../types';
+import { splitFrontmatter } from './frontmatter';
+import { toDateKey } from './views';
+
+export type TaskPriority = 'high' | 'medium' | 'low';
+
+export type TaskGroupBy = 'note' | 'due' | 'priority' | 'tag' | 'none';
+
+export type TaskDueBucket = 'overdue' | 'today' | 'upcoming' | 'none';
+
+export interface Task {
+    noteId: NoteId;
+    lineNumber: number;
+    /** offset of the line in the note content */
+    from: number;
+    /** the source line as written */
+    line: string;
+    /** task text with the due date and priority markers taken out */
+    text: string;
+    done: boolean;
+    /** YYYY-MM-DD */
+    due?: string;
+    priority?: TaskPriority;
+    tags: string[];
+}
+
+export interface TaskFilter {
+    status: 'open' | 'done' | 'all';
+    query: string;
+    tag: string | null;
+    priority: TaskPriority | null;
+    due: TaskDueBucket | null;
+}
+
+export interface TaskGroup {
+    /** note id, due bucket, priority or tag; '' for tasks without one */
+    key: string;
+    tasks: Task[];
+}
+
+const TASK_RE = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\]\s+)(.*)$/;
+const DUE_RE = /(?:📅\s*|\bdue:\s*)(\d{4}-\d{2}-\d{2})/;
+const PRIORITY_MARKERS: [RegExp, TaskPriority][] = [
+    [/⏫|\bpriority:\s*high\b/i, 'high'],
+    [/🔼|\bpriority:\s*medium\b/i, 'medium'],
+    [/🔽|\bpriority:\s*low\b/i, 'low'],
+];
+const TAG_RE = /(?:^|\s)#([\p{L}\p{N}_/-]+)/gu;
+
+export const PRIORITY_ORDER: TaskPriority[] = ['high', 'medium', 'low'];
+export const DUE_BUCKETS: TaskDueBucket[] = ['overdue', 'today', 'upcoming', 'none'];
+
+export const DEFAULT_TASK_FILTER: TaskFilter = { status: 'open', query: '', tag: null, priority: null, due: null };
+
+function parseTask(noteId: NoteId, line: string, lineNumber: number, from: number): Task | null {
+    const m = line.match(TASK_RE);
+    if (!m) return null;
+    const body = m[4];
+    const due = body.match(DUE_RE)?.[1];
+    const priority = PRIORITY_MARKERS.find(([re]) => re.test(body))?.[1];
+    const tags = [...new Set([...body.matchAll(TAG_RE)].map(t => t[1]))];
+    let text = body.replace(DUE_RE, '');
+    for (const [re] of PRIORITY_MARKERS) text = text.replace(re, '');
+    return {
+        noteId,
+        lineNumber,
+        from,
+        line,
+        text: text.replace(/\s{2,}/g, ' ').trim(),
+        done: m[2] !== ' ',
+        due,
+        priority,
+        tags,
+    };
+}
+
+/** Every checkbox item in a note, skipping frontmatter and fenced code. */
+export function extractTasks(note: Note): Task[] {
+    if (note.format !== 'markdown') return [];
+    const { body } = splitFrontmatter(note.content);
+    let offset = note.content.length - body.length;
+    let lineNumber = offset > 0 ? note.content.slice(0, offset).split('\n').length - 1 : 0;
+    let inFence = false;
+    const tasks: Task[] = [];
+
+    for (const line of body.split('\n')) {
+        lineNumber++;
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+        } else if (!inFence) {
+            const task = parseTask(note.id, line, lineNumber, offset);
+            if (task) tasks.push(task);
+        }
+        offset += line.length + 1;
+    }
+    return tasks;
+}
+
+export function collectTasks(notes: Note[]): Task[] {
+    return notes.flatMap(extractTasks);
+}
+
+/**
+ * Checks or unchecks a task in its source line. Returns null when the content has
+ * changed and the line is no longer where the task was found.
+ */
+export function toggleTask(content: string, task: Task, done: boolean): string | null {
+    if (content.slice(task.from, task.from + task.line.length) !== task.line) return null;
+    const line = task.line.replace(TASK_RE, (_, open: string, _mark: string, close: string, rest: string) =>
+        `${open}${done ? 'x' : ' '}${close}${rest}`
+    );
+    return content.slice(0, task.from) + line + content.slice(task.from + task.line.length);
+}
+
+export function dueBucket(task: Task, today: string = toDateKey(new Date())): TaskDueBucket {
+    if (!task.due) return 'none';
+    if (task.due < today) return 'overdue';
+    if (task.due === today) return 'today';
+    return 'upcoming';
+}
+
+export function matchesTaskFilter(task: Task, filter: TaskFilter, today?: string): boolean {
+    if (filter.status === 'open' && task.done) return false;
+    if (filter.status === 'done' && !task.done) return false;
+    if (filter.tag && !task.tags.includes(filter.tag)) return false;
+    if (filter.priority && task.priority !== filter.priority) return false;
+    if (filter.due && dueBucket(task, today) !== filter.due) return false;
+    const query = filter.query.trim().toLowerCase();
+    return !query || task.text.toLowerCase().includes(query);
+}
+
+const priorityRank = (task: Task) => task.priority ? PRIORITY_ORDER.indexOf(task.priority) : PRIORITY_ORDER.length;
+
+/** Open tasks first, then by due date (undated last), then by priority. */
+export function compareTasks(a: Task, b: Task): number {
+    if (a.done !== b.done) return a.done ? 1 : -1;
+    if (a.due !== b.due) {
+        if (!a.due) return 1;
+        if (!b.due) return -1;
+        return a.due.localeCompare(b.due);
+    }
+    return priorityRank(a) - priorityRank(b);
+}
+
+/**
+ * Groups tasks for the dashboard. Notes keep the order they are given in; due buckets
+ * and priorities follow their natural order; tags are alphabetical and a task with
+ * several tags appears under each. Tasks without a value go last.
+ */
+export function groupTasks(tasks: Task[], by: TaskGroupBy, today?: string): TaskGroup[] {
+    const sorted = [...tasks].sort(compareTasks);
+    if (by === 'none') return sorted.length > 0 ? [{ key: '', tasks: sorted }] : [];
+
+    const groups = new Map<string, Task[]>();
+    const add = (key: string, task: Task) => {
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(task);
+    };
+    for (const task of sorted) {
+        if (by === 'note') add(task.noteId, task);
+        else if (by === 'due') add(dueBucket(task, today) === 'none' ? '' : dueBucket(task, today), task);
+        else if (by === 'priority') add(task.priority ?? '', task);
+        else if (task.tags.length === 0) add('', task);
+        else task.tags.forEach(tag => add(tag, task));
+    }
+
+    let keys: string[];
+    if (by === 'note') keys = [...new Set(tasks.map(t => t.noteId))];
+    else if (by === 'due') keys = DUE_BUCKETS.filter(b => b !== 'none');
+    else if (by === 'priority') keys = [...PRIORITY_ORDER];
+    else keys = [...groups.keys()].filter(Boolean).sort((a, b) => a.localeCompare(b));
+    keys.push('');
+
+    return keys.filter(key => groups.has(key)).map(key => ({ key, tasks: groups.get(key)! }));
+}
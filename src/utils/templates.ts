@@ -1,7 +1,24 @@
+import type { Note } from '../types';
+import type { PeriodType } from './periodicNotes';
+import { isTrashed } from './trash';
+import { getFrontmatterTags } from './properties';
+import { setFrontmatterValue } from './frontmatter';
+import { isWithinFolder, noteFolder } from './folders';
+
 export interface Template {
     id: string;
     name: string;
     content: string;
+    /** set for templates kept as notes */
+    noteId?: string;
+}
+
+/** Values for a template's variables; prompts are keyed by their label. */
+export interface TemplateValues {
+    title: string;
+    clipboard: string;
+    prompts: Record<string, string>;
+    now: Date;
 }
 
 export const templates: Template[] = [
@@ -138,4 +155,155 @@ A: Answer 2
 ---
 `
     }
-];
\ No newline at end of file
+];
+
+// Starting content for daily, weekly and monthly notes; see fillPeriodicTemplate for the placeholders
+export const periodicTemplates: Record<PeriodType, string> = {
+    daily: `# {{weekday}}, {{date}}
+
+← [[{{prev}}]] · [[{{next}}]] →
+
+## Tasks
+- [ ] 
+
+## Notes
+- 
+
+## Reflection
+> What went well today? What could go better?
+`,
+    weekly: `# Week {{week}}, {{year}}
+
+← [[{{prev}}]] · [[{{next}}]] →
+
+## Goals
+- [ ] 
+
+## Highlights
+- 
+
+## Next week
+- 
+`,
+    monthly: `# {{month}} {{year}}
+
+← [[{{prev}}]] · [[{{next}}]] →
+
+## Focus
+- 
+
+## Review
+- 
+`,
+};
+
+// notes tagged with either of these, or kept in the Templates folder, are offered as templates
+export const TEMPLATE_TAGS = ['templates', 'template'];
+export const TEMPLATE_FOLDER = 'Templates';
+
+export const isTemplateNote = (note: Note) =>
+    note.tags.some(t => TEMPLATE_TAGS.includes(t.toLowerCase())) || isWithinFolder(noteFolder(note), TEMPLATE_FOLDER);
+
+/** Removes the template tags from a template's frontmatter so notes made from it don't inherit them. */
+function withoutTemplateTags(content: string): string {
+    const tags = getFrontmatterTags(content);
+    if (!tags || !tags.some(t => TEMPLATE_TAGS.includes(t.toLowerCase()))) return content;
+    const kept = tags.filter(t => !TEMPLATE_TAGS.includes(t.toLowerCase()));
+    return setFrontmatterValue(content, 'tags', kept.length > 0 ? kept : null);
+}
+
+/** The built-in templates followed by every note tagged as a template. */
+export function getTemplates(notes: Note[]): Template[] {
+    const custom = notes
+        .filter(n => !isTrashed(n) && isTemplateNote(n))
+        .sort((a, b) => a.title.localeCompare(b.title))
+        .map(n => ({ id: `note-${n.id}`, name: n.title || 'Untitled', content: withoutTemplateTags(n.content), noteId: n.id }));
+    return [...templates, ...custom];
+}
+
+const VARIABLE_RE = /\{\{\s*(\w+)(?::([^}]*))?\s*\}\}/g;
+
+/** Labels of the {{prompt:Label}} variables, in order of first use. */
+export function templatePrompts(content: string): string[] {
+    const labels = new Set<string>();
+    for (const m of content.matchAll(VARIABLE_RE)) {
+        if (m[1] === 'prompt' && m[2]?.trim()) labels.add(m[2].trim());
+    }
+    return [...labels];
+}
+
+export const usesClipboard = (content: string) => /\{\{\s*clipboard\s*\}\}/.test(content);
+
+const DATE_TOKEN_RE = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A/g;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Formats a date with moment-style tokens (YYYY-MM-DD, dddd, HH:mm...); text in [brackets] is kept. */
+export function formatDate(date: Date, format: string): string {
+    const hours12 = date.getHours() % 12 || 12;
+    return format.replace(DATE_TOKEN_RE, (token, literal?: string) => {
+        if (literal !== undefined) return literal;
+        switch (token) {
+            case 'YYYY': return String(date.getFullYear());
+            case 'YY': return String(date.getFullYear()).slice(-2);
+            case 'MMMM': return date.toLocaleDateString('en-US', { month: 'long' });
+            case 'MMM': return date.toLocaleDateString('en-US', { month: 'short' });
+            case 'MM': return pad(date.getMonth() + 1);
+            case 'M': return String(date.getMonth() + 1);
+            case 'DD': return pad(date.getDate());
+            case 'D': return String(date.getDate());
+            case 'dddd': return date.toLocaleDateString('en-US', { weekday: 'long' });
+            case 'ddd': return date.toLocaleDateString('en-US', { weekday: 'short' });
+            case 'HH': return pad(date.getHours());
+            case 'H': return String(date.getHours());
+            case 'hh': return pad(hours12);
+            case 'h': return String(hours12);
+            case 'mm': return pad(date.getMinutes());
+            case 'ss': return pad(date.getSeconds());
+            default: return date.getHours() < 12 ? 'AM' : 'PM';
+        }
+    });
+}
+
+/**
+ * Fills a template's variables: {{date}} / {{date:FORMAT}}, {{time}} / {{time:FORMAT}},
+ * {{title}}, {{clipboard}} and {{prompt:Label}}. The first {{cursor}} is removed and its
+ * offset returned so the caret can be placed there; unknown variables are left as written.
+ */
+export function fillTemplate(content: string, values: TemplateValues): { content: string; cursor: number | null } {
+    let out = '';
+    let cursor: number | null = null;
+    let last = 0;
+    for (const m of content.matchAll(VARIABLE_RE)) {
+        out += content.slice(last, m.index);
+        last = m.index + m[0].length;
+        const [raw, name, arg] = m;
+        const format = arg?.trim();
+        switch (name) {
+            case 'date': out += format ? formatDate(values.now, format) : values.now.toLocaleDateString(); break;
+            case 'time': out += format ? formatDate(values.now, format) : formatDate(values.now, 'HH:mm'); break;
+            case 'title': out += values.title; break;
+            case 'clipboard': out += values.clipboard; break;
+            case 'prompt': out += values.prompts[format ?? ''] ?? ''; break;
+            case 'cursor': cursor ??= out.length; break;
+            default: out += raw;
+        }
+    }
+    return { content: out + content.slice(last), cursor };
+}
+
+/** A new note from a filled template; tags come from its frontmatter and the caret starts at {{cursor}}. */
+export function buildTemplateNote(title: string, filled: { content: string; cursor: number | null }): Note {
+    const now = Date.now();
+    return {
+        id: crypto.randomUUID(),
+        title,
+        content: filled.content,
+        format: 'markdown',
+        tags: getFrontmatterTags(filled.content) ?? [],
+        createdAt: now,
+        updatedAt: now,
+        isFavorite: false,
+        lastCursorPosition: filled.cursor ?? undefined,
+    };
+}
@@ -0,0 +1,106 @@
+import type { Note, NoteId } from '../types';
+import { splitFrontmatter } from './frontmatter';
+import { parseWikilinkTarget, findNoteByTitle, getAnchorText, type WikilinkTarget } from './wikilinks';
+
+export const EMBED_RE = /!\[\[([^\]\n]+)\]\]/g;
+
+// embeds nested deeper than this are reported instead of expanded
+export const MAX_EMBED_DEPTH = 5;
+
+export type EmbedError = 'not-found' | 'anchor-not-found' | 'cycle' | 'too-deep';
+
+export interface ResolvedEmbed {
+    target: WikilinkTarget;
+    note?: Note;
+    /** embedded markdown with its own embeds expanded; null when the embed failed */
+    text: string | null;
+    error?: EmbedError;
+}
+
+export interface EmbedContext {
+    notes: Note[];
+    /** the note doing the embedding, so embedding it into itself is caught as a cycle */
+    noteId?: NoteId;
+}
+
+export interface ExpandOptions {
+    /** formats a resolved embed; defaults to the embedded text itself */
+    wrap?: (embed: ResolvedEmbed) => string;
+}
+
+/** "Note", "Note › Heading" or "Note › ^block", as shown above an embed. */
+export function embedLabel(embed: ResolvedEmbed): string {
+    const { target, note } = embed;
+    const title = note ? note.title || 'Untitled' : target.title || 'This note';
+    const anchor = target.heading ? ` › ${target.heading}` : target.blockId ? ` › ^${target.blockId}` : '';
+    return title + anchor;
+}
+
+export function embedErrorMessage(embed: ResolvedEmbed): string {
+    switch (embed.error) {
+        case 'not-found': return `Note "${embed.target.title}" not found`;
+        case 'anchor-not-found': return `"${embedLabel(embed)}" not found`;
+        case 'cycle': return `"${embedLabel(embed)}" embeds itself`;
+        case 'too-deep': return `"${embedLabel(embed)}" is nested too deeply`;
+        default: return '';
+    }
+}
+
+// identifies what is being expanded: a whole note, or one heading section or block of it
+const frameKey = (noteId: NoteId, target: WikilinkTarget) =>
+    target.heading ? `${noteId}#${target.heading.trim().toLowerCase()}`
+        : target.blockId ? `${noteId}^${target.blockId}`
+            : noteId;
+
+function resolveFrom(inner: string, notes: Note[], hostId: NoteId | undefined, trail: string[], options: ExpandOptions): ResolvedEmbed {
+    const target = parseWikilinkTarget(inner);
+    // ![[#Heading]] embeds a section of the note it is written in
+    const note = target.title ? findNoteByTitle(notes, target.title) : notes.find(n => n.id === hostId);
+    if (!note) return { target, text: null, error: 'not-found' };
+
+    const key = frameKey(note.id, target);
+    if (trail.includes(key)) return { target, note, text: null, error: 'cycle' };
+    if (trail.length > MAX_EMBED_DEPTH) return { target, note, text: null, error: 'too-deep' };
+
+    const section = target.heading || target.blockId
+        ? getAnchorText(note.content, target)
+        : splitFrontmatter(note.content).body.trim();
+    if (section === null) return { target, note, text: null, error: 'anchor-not-found' };
+
+    return { target, note, text: expandFrom(section, notes, note.id, [...trail, key], options) };
+}
+
+function expandFrom(content: string, notes: Note[], hostId: NoteId | undefined, trail: string[], options: ExpandOptions): string {
+    if (!content.includes('![[')) return content;
+    let inFence = false;
+    return content.split('\n').map(line => {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            return line;
+        }
+        if (inFence) return line;
+        return line.replace(EMBED_RE, (match, inner: string) => {
+            const embed = resolveFrom(inner, notes, hostId, trail, options);
+            if (options.wrap) return options.wrap(embed);
+            return embed.text ?? match;
+        });
+    }).join('\n');
+}
+
+/**
+ * Resolves the inside of `![[...]]` written in `context.noteId`, expanding any embeds
+ * inside the embedded text. An embed that leads back to a note or section already
+ * being expanded is reported as a cycle instead of recursing.
+ */
+export function resolveEmbed(inner: string, context: EmbedContext): ResolvedEmbed {
+    return resolveFrom(inner, context.notes, context.noteId, context.noteId ? [context.noteId] : [], {});
+}
+
+/**
+ * Replaces every `![[Note]]`, `![[Note#Heading]]` and `![[Note^block]]` outside fenced
+ * code with the embedded markdown. Failed embeds are kept as written unless `wrap`
+ * formats them.
+ */
+export function expandEmbeds(content: string, context: EmbedContext, options: ExpandOptions = {}): string {
+    return expandFrom(content, context.notes, context.noteId, context.noteId ? [context.noteId] : [], options);
+}
@@ -0,0 +1,18 @@
+import type { Note } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isTrashed = (note: Note): boolean => note.deletedAt !== undefined;
+
+/** Drops trashed notes older than the retention window; 0 days keeps everything. */
+export function purgeExpiredTrash(notes: Note[], retentionDays: number, now = Date.now()): Note[] {
+    if (!retentionDays || retentionDays <= 0) return notes;
+    const cutoff = now - retentionDays * DAY_MS;
+    return notes.filter(n => n.deletedAt === undefined || n.deletedAt >= cutoff);
+}
+
+/** Whole days left before a trashed note is purged, or null if it is kept forever. */
+export function daysUntilPurge(note: Note, retentionDays: number, now = Date.now()): number | null {
+    if (note.deletedAt === undefined || !retentionDays || retentionDays <= 0) return null;
+    return Math.max(0, Math.ceil((note.deletedAt + retentionDays * DAY_MS - now) / DAY_MS));
+}
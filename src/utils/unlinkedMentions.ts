@@ -0,0 +1,106 @@
+import type { Note, NoteId } from '../types';
+import { getAliases, splitFrontmatter } from './frontmatter';
+
+export interface UnlinkedMention {
+    noteId: NoteId;
+    lineNumber: number;
+    lineContent: string;
+    /** offset of the occurrence within lineContent */
+    column: number;
+    /** offsets of the occurrence in the note content */
+    from: number;
+    to: number;
+    /** the text as written, which may differ in case from the title or alias */
+    text: string;
+    /** the title or alias the text matched */
+    term: string;
+}
+
+// spans that are already links (or code) and must not be linked again
+const LINKED_SPAN_RES = [
+    /\[\[[^\]]*\]\]/g,
+    /\[[^\]]*\]\([^)]*\)/g,
+    /`[^`]*`/g,
+    /@"[^"]*"|@\S+/g,
+    /https?:\/\/\S+/g,
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function linkedSpans(line: string): [number, number][] {
+    const spans: [number, number][] = [];
+    for (const re of LINKED_SPAN_RES) {
+        re.lastIndex = 0;
+        let m;
+        while ((m = re.exec(line)) !== null) spans.push([m.index, m.index + m[0].length]);
+    }
+    return spans;
+}
+
+/** Title plus aliases, longest first so "Project X Notes" wins over "Project X". */
+export function mentionTerms(note: Note): string[] {
+    const terms = [note.title, ...getAliases(note.content)].map(t => t.trim()).filter(Boolean);
+    return [...new Set(terms)].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Plain-text occurrences of the target's title or aliases in other notes,
+ * skipping frontmatter, fenced code and anything that is already a link.
+ */
+export function findUnlinkedMentions(notes: Note[], target: Note): UnlinkedMention[] {
+    const terms = mentionTerms(target);
+    if (terms.length === 0) return [];
+    const termRe = new RegExp(
+        `(?<![\\p{L}\\p{N}_])(${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}_])`,
+        'giu'
+    );
+
+    const results: UnlinkedMention[] = [];
+    for (const note of notes) {
+        if (note.id === target.id || note.format !== 'markdown') continue;
+        const { body } = splitFrontmatter(note.content);
+        let offset = note.content.length - body.length;
+        let lineNumber = offset > 0 ? note.content.slice(0, offset).split('\n').length - 1 : 0;
+        let inFence = false;
+
+        for (const line of body.split('\n')) {
+            lineNumber++;
+            if (/^\s*(```|~~~)/.test(line)) {
+                inFence = !inFence;
+            } else if (!inFence) {
+                const spans = linkedSpans(line);
+                termRe.lastIndex = 0;
+                let m;
+                while ((m = termRe.exec(line)) !== null) {
+                    const start = m.index;
+                    const end = start + m[0].length;
+                    if (spans.some(([s, e]) => start < e && end > s)) continue;
+                    results.push({
+                        noteId: note.id,
+                        lineNumber,
+                        lineContent: line,
+                        column: start,
+                        from: offset + start,
+                        to: offset + end,
+                        text: m[0],
+                        term: terms.find(t => t.toLowerCase() === m![0].toLowerCase()) ?? m[0],
+                    });
+                }
+            }
+            offset += line.length + 1;
+        }
+    }
+    return results;
+}
+
+/**
+ * Wraps one occurrence in a wikilink. Aliases keep their wording via `[[Title|alias]]`.
+ * Returns null when the content has changed and the occurrence is no longer there.
+ */
+export function linkMention(content: string, mention: UnlinkedMention, targetTitle: string): string | null {
+    if (content.slice(mention.from, mention.to) !== mention.text) return null;
+    const link = mention.text.toLowerCase() === targetTitle.toLowerCase()
+        ? `[[${mention.text}]]`
+        : `[[${targetTitle}|${mention.text}]]`;
+    return content.slice(0, mention.from) + link + content.slice(mention.to);
+}
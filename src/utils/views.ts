@@ -0,0 +1,196 @@
+import type { Note, NoteView, ViewFilter, ViewFilterOperator, ViewLayout, ViewSort } from '../types';
+import {
+    getProperty, getProperties, setProperty, linkTarget, formatPropertyValue, comparePropertyValues,
+    type NoteProperty, type PropertyType, type PropertyValue,
+} from './properties';
+
+export const BUILTIN_FIELDS = ['title', 'tags', 'created', 'updated'] as const;
+
+const READ_ONLY_FIELDS = new Set(['created', 'updated']);
+
+export const FILTER_OPERATORS: { operator: ViewFilterOperator; label: string }[] = [
+    { operator: 'is', label: 'is' },
+    { operator: 'is-not', label: 'is not' },
+    { operator: 'contains', label: 'contains' },
+    { operator: 'not-contains', label: 'does not contain' },
+    { operator: 'before', label: 'is before / less than' },
+    { operator: 'after', label: 'is after / greater than' },
+    { operator: 'empty', label: 'is empty' },
+    { operator: 'not-empty', label: 'is not empty' },
+];
+
+export const NO_VALUE_GROUP = '';
+
+/** Local calendar date, YYYY-MM-DD */
+export function toDateKey(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function isReadOnlyField(field: string): boolean {
+    return READ_ONLY_FIELDS.has(field);
+}
+
+/** A field of a note as a typed value; built-ins are read from the note itself. */
+export function getFieldValue(note: Note, field: string): NoteProperty | undefined {
+    switch (field) {
+        case 'title': return { key: field, type: 'text', value: note.title || 'Untitled' };
+        case 'tags': return note.tags.length > 0 ? { key: field, type: 'list', value: note.tags } : undefined;
+        case 'created': return { key: field, type: 'date', value: toDateKey(new Date(note.createdAt)) };
+        case 'updated': return { key: field, type: 'date', value: toDateKey(new Date(note.updatedAt)) };
+        default: return getProperty(note.content, field);
+    }
+}
+
+/** The type a field has across the notes, taken from the first note that sets it. */
+export function getFieldType(notes: Note[], field: string): PropertyType {
+    if (field === 'tags') return 'list';
+    if (field === 'created' || field === 'updated') return 'date';
+    if (field === 'title') return 'text';
+    for (const note of notes) {
+        const prop = getProperty(note.content, field);
+        if (prop) return prop.type;
+    }
+    return 'text';
+}
+
+/** Built-in fields followed by every property key in use. */
+export function getAvailableFields(notes: Note[]): string[] {
+    const keys = new Set<string>();
+    for (const note of notes) {
+        for (const prop of getProperties(note.content)) keys.add(prop.key);
+    }
+    BUILTIN_FIELDS.forEach(f => keys.delete(f));
+    return [...BUILTIN_FIELDS, ...[...keys].sort((a, b) => a.localeCompare(b))];
+}
+
+/** Updates that write a field back: title and tags on the note, anything else to the frontmatter. */
+export function setFieldValue(note: Note, field: string, value: PropertyValue | null): Partial<Note> | null {
+    if (isReadOnlyField(field)) return null;
+    if (field === 'title') return { title: value === null ? '' : formatPropertyValue(value) };
+    if (field === 'tags') return { tags: Array.isArray(value) ? value : value === null || value === '' ? [] : [String(value)] };
+    return { content: setProperty(note.content, field, value) };
+}
+
+const isEmptyValue = (prop: NoteProperty | undefined) =>
+    !prop || (Array.isArray(prop.value) ? prop.value.length === 0 : formatPropertyValue(prop.value).trim() === '' || prop.value === '[[]]');
+
+// the text a value is compared by; links compare by the note they point at
+function comparable(item: string): string {
+    return (linkTarget(item) ?? item).trim().toLowerCase();
+}
+
+function compareOrdered(value: string, wanted: string): number {
+    const a = Number(value);
+    const b = Number(wanted);
+    if (value.trim() !== '' && wanted.trim() !== '' && !isNaN(a) && !isNaN(b)) return a - b;
+    return value.localeCompare(wanted);
+}
+
+export function matchesViewFilter(note: Note, filter: ViewFilter): boolean {
+    const prop = getFieldValue(note, filter.field);
+    if (filter.operator === 'empty') return isEmptyValue(prop);
+    if (filter.operator === 'not-empty') return !isEmptyValue(prop);
+
+    const wanted = filter.value.trim().toLowerCase();
+    // a rule with no value yet doesn't narrow the view
+    if (!wanted) return true;
+    const items = !prop ? [] : Array.isArray(prop.value) ? prop.value.map(comparable) : [comparable(formatPropertyValue(prop.value))];
+
+    switch (filter.operator) {
+        case 'is': return items.includes(wanted);
+        case 'is-not': return !items.includes(wanted);
+        case 'contains': return items.some(item => item.includes(wanted));
+        case 'not-contains': return !items.some(item => item.includes(wanted));
+        case 'before': return items.length > 0 && items.every(item => compareOrdered(item, wanted) < 0);
+        case 'after': return items.length > 0 && items.every(item => compareOrdered(item, wanted) > 0);
+    }
+}
+
+/** Sorts notes by several fields in turn; ties go to the most recently updated. */
+export function sortNotes(notes: Note[], sorts: ViewSort[]): Note[] {
+    if (sorts.length === 0) return notes.sort((a, b) => b.updatedAt - a.updatedAt);
+
+    const values = new Map(notes.map(note => [note.id, sorts.map(s => getFieldValue(note, s.field))]));
+    return notes.sort((a, b) => {
+        const va = values.get(a.id)!;
+        const vb = values.get(b.id)!;
+        for (let i = 0; i < sorts.length; i++) {
+            // missing values stay last whichever way the sort runs
+            if (!va[i] || !vb[i]) {
+                const order = comparePropertyValues(va[i], vb[i]);
+                if (order !== 0) return order;
+                continue;
+            }
+            const order = comparePropertyValues(va[i], vb[i]);
+            if (order !== 0) return sorts[i].descending ? -order : order;
+        }
+        return b.updatedAt - a.updatedAt;
+    });
+}
+
+/** Notes that pass every filter of the view, in its sort order. */
+export function applyView(notes: Note[], view: NoteView): Note[] {
+    return sortNotes(notes.filter(note => view.filters.every(f => matchesViewFilter(note, f))), view.sorts);
+}
+
+export interface NoteGroup {
+    /** NO_VALUE_GROUP for notes without the field */
+    value: string;
+    notes: Note[];
+}
+
+/**
+ * Groups notes by a field for the board. A note with a list value appears under each
+ * of its items. Groups are ordered by value, with "no value" last.
+ */
+export function groupNotes(notes: Note[], field: string): NoteGroup[] {
+    const groups = new Map<string, Note[]>();
+    const empty: Note[] = [];
+    for (const note of notes) {
+        const prop = getFieldValue(note, field);
+        const values = isEmptyValue(prop) ? [] : Array.isArray(prop!.value) ? prop!.value : [formatPropertyValue(prop!.value)];
+        if (values.length === 0) empty.push(note);
+        for (const value of values) {
+            if (!groups.has(value)) groups.set(value, []);
+            groups.get(value)!.push(note);
+        }
+    }
+    const result = [...groups.entries()]
+        .map(([value, grouped]) => ({ value, notes: grouped }))
+        .sort((a, b) => a.value.localeCompare(b.value, undefined, { numeric: true }));
+    return [...result, { value: NO_VALUE_GROUP, notes: empty }];
+}
+
+/**
+ * The value a field gets when a board card moves from one group to another. List values
+ * swap the one item; moving to "no value" clears the field.
+ */
+export function moveBetweenGroups(note: Note, field: string, type: PropertyType, from: string, to: string): PropertyValue | null {
+    const current = getFieldValue(note, field);
+    if (type === 'list') {
+        const items = current && Array.isArray(current.value) ? current.value.filter(v => v !== from) : [];
+        if (to !== NO_VALUE_GROUP && !items.includes(to)) items.push(to);
+        return items;
+    }
+    if (to === NO_VALUE_GROUP) return null;
+    if (type === 'checkbox') return to === 'true';
+    if (type === 'number' && !isNaN(Number(to))) return Number(to);
+    return to;
+}
+
+export function createView(name: string, layout: ViewLayout, notes: Note[]): NoteView {
+    const fields = getAvailableFields(notes);
+    const properties = fields.filter(f => !(BUILTIN_FIELDS as readonly string[]).includes(f));
+    const dateField = properties.find(f => getFieldType(notes, f) === 'date') ?? 'created';
+    return {
+        id: crypto.randomUUID(),
+        name: name || 'Untitled view',
+        layout,
+        columns: ['tags', ...properties.slice(0, 4), 'updated'],
+        groupBy: properties.find(f => ['status', 'stage', 'state'].includes(f.toLowerCase())) ?? properties[0] ?? 'tags',
+        dateField,
+        filters: [],
+        sorts: [],
+    };
+}
@@ -0,0 +1,135 @@
+import type { Note } from '../types';
+
+export interface WikilinkTarget {
+    /** empty for links within the same note, e.g. [[#Heading]] */
+    title: string;
+    heading?: string;
+    blockId?: string;
+    alias?: string;
+}
+
+export interface HeadingAnchor {
+    level: number;
+    text: string;
+    /** 1-based line number */
+    line: number;
+}
+
+export interface BlockAnchor {
+    id: string;
+    /** 1-based line carrying the ^id */
+    line: number;
+    /** line text without the ^id marker */
+    text: string;
+}
+
+export interface AnchorRange {
+    /** 1-based, inclusive */
+    startLine: number;
+    endLine: number;
+}
+
+export const BLOCK_ID_RE = /\s\^([A-Za-z0-9-]+)\s*$/;
+
+/**
+ * Splits the inside of a wikilink: `Title`, `Title#Heading`, `Title^block-id`
+ * (also `Title#^block-id`), each optionally followed by `|alias`.
+ */
+export function parseWikilinkTarget(inner: string): WikilinkTarget {
+    const pipe = inner.indexOf('|');
+    const alias = pipe >= 0 ? inner.slice(pipe + 1).trim() : undefined;
+    const target = pipe >= 0 ? inner.slice(0, pipe) : inner;
+
+    const block = target.match(/^(.*?)#?\^([A-Za-z0-9-]+)\s*$/);
+    if (block) return { title: block[1].trim(), blockId: block[2], alias };
+
+    const hash = target.indexOf('#');
+    if (hash >= 0) {
+        const heading = target.slice(hash + 1).trim();
+        return { title: target.slice(0, hash).trim(), heading: heading || undefined, alias };
+    }
+    return { title: target.trim(), alias };
+}
+
+/** Exact title match first, then case-insensitive, mirroring how links were resolved before. */
+export function findNoteByTitle(notes: Note[], title: string): Note | undefined {
+    return notes.find(n => (n.title || 'Untitled') === title)
+        ?? notes.find(n => (n.title || 'Untitled').toLowerCase() === title.toLowerCase());
+}
+
+/** Yields each line with its 1-based number, skipping frontmatter and fenced code. */
+function* proseLines(content: string): Generator<[string, number]> {
+    const lines = content.split('\n');
+    let i = 0;
+    if (lines[0] === '---') {
+        const close = lines.indexOf('---', 1);
+        if (close > 0) i = close + 1;
+    }
+    let inFence = false;
+    for (; i < lines.length; i++) {
+        if (/^\s*(```|~~~)/.test(lines[i])) {
+            inFence = !inFence;
+            continue;
+        }
+        if (!inFence) yield [lines[i], i + 1];
+    }
+}
+
+export function getHeadings(content: string): HeadingAnchor[] {
+    const headings: HeadingAnchor[] = [];
+    for (const [line, number] of proseLines(content)) {
+        const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (match) headings.push({ level: match[1].length, text: match[2], line: number });
+    }
+    return headings;
+}
+
+export function getBlocks(content: string): BlockAnchor[] {
+    const blocks: BlockAnchor[] = [];
+    for (const [line, number] of proseLines(content)) {
+        const match = line.match(BLOCK_ID_RE);
+        if (match) blocks.push({ id: match[1], line: number, text: line.slice(0, match.index).trim() });
+    }
+    return blocks;
+}
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Lines covered by a heading or block anchor. A heading section runs until the next
+ * heading of the same or a higher level; a block is its paragraph, or just the line
+ * for list items.
+ */
+export function resolveAnchor(content: string, target: Pick<WikilinkTarget, 'heading' | 'blockId'>): AnchorRange | null {
+    const lines = content.split('\n');
+    if (target.heading) {
+        const headings = getHeadings(content);
+        const idx = headings.findIndex(h => sameText(h.text, target.heading!));
+        if (idx < 0) return null;
+        const { level, line } = headings[idx];
+        const next = headings.slice(idx + 1).find(h => h.level <= level);
+        return { startLine: line, endLine: next ? next.line - 1 : lines.length };
+    }
+    if (target.blockId) {
+        const block = getBlocks(content).find(b => b.id === target.blockId);
+        if (!block) return null;
+        let start = block.line;
+        if (!/^\s*([-*+]|\d+[.)])\s/.test(lines[block.line - 1])) {
+            while (start > 1 && lines[start - 2].trim() !== '' && !/^#{1,6}\s/.test(lines[start - 2])) start--;
+        }
+        return { startLine: start, endLine: block.line };
+    }
+    return null;
+}
+
+/** Text of an anchored section (the whole note when there is no anchor), with ^ids stripped. */
+export function getAnchorText(content: string, target: Pick<WikilinkTarget, 'heading' | 'blockId'>): string | null {
+    if (!target.heading && !target.blockId) return content;
+    const range = resolveAnchor(content, target);
+    if (!range) return null;
+    return content.split('\n')
+        .slice(range.startLine - 1, range.endLine)
+        .map(line => line.replace(BLOCK_ID_RE, ''))
+        .join('\n')
+        .trimEnd();
+}